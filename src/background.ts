@@ -4,13 +4,19 @@
  * Handles:
  * - Weekly automatic telemetry submission (if opted in)
  * - Alarm scheduling for periodic tasks
+ * - Relaying JSON documents between tabs for diff mode
+ * - "Format selection" / "Format clipboard" context menu commands
  */
 
 import { submitTelemetry, shouldSubmitTelemetry, getMetricsSettings } from './lib/metrics'
+import { handOffSelection, clipboardViewerPath } from './lib/viewer/handoff'
 
 const TELEMETRY_ALARM_NAME = 'telemetry-submission'
 const TELEMETRY_CHECK_INTERVAL_MINUTES = 60 * 24 // Check daily (24 hours)
 
+const FORMAT_SELECTION_MENU_ID = 'format-selection'
+const FORMAT_CLIPBOARD_MENU_ID = 'format-clipboard'
+
 /**
  * Initialize background service worker
  */
@@ -70,6 +76,45 @@ async function checkAndSubmitTelemetry() {
   }
 }
 
+/**
+ * Create the context menu commands (menus persist, so only on install/update)
+ */
+function createContextMenus() {
+  chrome.contextMenus.removeAll(() => {
+    chrome.contextMenus.create({
+      id: FORMAT_SELECTION_MENU_ID,
+      title: 'Format selection as JSON',
+      contexts: ['selection'],
+    })
+    chrome.contextMenus.create({
+      id: FORMAT_CLIPBOARD_MENU_ID,
+      title: 'Format clipboard as JSON',
+      // Also in the toolbar icon's menu, which works on any tab
+      contexts: ['page', 'editable', 'action'],
+    })
+  })
+}
+
+/**
+ * Open the viewer page next to the tab the command came from
+ */
+chrome.contextMenus.onClicked.addListener(async (info, tab) => {
+  let path: string
+  if (info.menuItemId === FORMAT_SELECTION_MENU_ID && info.selectionText) {
+    path = await handOffSelection(info.selectionText)
+  } else if (info.menuItemId === FORMAT_CLIPBOARD_MENU_ID) {
+    path = clipboardViewerPath()
+  } else {
+    return
+  }
+
+  await chrome.tabs.create({
+    url: chrome.runtime.getURL(path),
+    index: tab && tab.index >= 0 ? tab.index + 1 : undefined,
+    openerTabId: tab?.id,
+  })
+})
+
 /**
  * Handle alarm events
  */
@@ -80,14 +125,53 @@ chrome.alarms.onAlarm.addListener(async (alarm) => {
   }
 })
 
+/**
+ * List other tabs that show a formatted JSON document
+ *
+ * Only tabs where our content script formatted the page answer, so no
+ * "tabs" permission is needed.
+ */
+async function listJsonTabs(excludeTabId?: number) {
+  const tabs = await chrome.tabs.query({})
+  const found = await Promise.all(
+    tabs
+      .filter((tab) => tab.id !== undefined && tab.id !== excludeTabId)
+      .map(async (tab) => {
+        try {
+          const doc = await chrome.tabs.sendMessage(tab.id!, {
+            action: 'getJsonDocument',
+            summary: true,
+          })
+          return doc ? { tabId: tab.id!, title: doc.title, url: doc.url } : null
+        } catch {
+          // No content script listening (not a JSON page, or a chrome:// page)
+          return null
+        }
+      })
+  )
+  return found.filter((tab) => tab !== null)
+}
+
 /**
  * Handle messages from content scripts
  */
-chrome.runtime.onMessage.addListener((message) => {
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   if (message.action === 'openOptions') {
     chrome.runtime.openOptionsPage()
     return true
   }
+
+  // Diff mode: find other JSON tabs and fetch their documents
+  if (message.action === 'listJsonTabs') {
+    listJsonTabs(sender.tab?.id).then(sendResponse, () => sendResponse([]))
+    return true
+  }
+  if (message.action === 'getTabJson') {
+    chrome.tabs
+      .sendMessage(message.tabId, { action: 'getJsonDocument' })
+      .then((doc) => sendResponse(doc?.text ?? null), () => sendResponse(null))
+    return true
+  }
   return false
 })
 
@@ -122,6 +206,8 @@ chrome.runtime.onInstalled.addListener(async (details) => {
     console.log('[Background] Extension updated to version', chrome.runtime.getManifest().version)
   }
 
+  createContextMenus()
+
   // Re-create alarms after update
   await createTelemetryAlarm()
 })
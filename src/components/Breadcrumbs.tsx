@@ -0,0 +1,82 @@
+import { useEffect, useRef } from 'preact/hooks'
+import { formatPath, parsePath } from '../lib/parser/json-path'
+import './Breadcrumbs.css'
+
+export interface BreadcrumbsProps {
+  /** Path of the current node, or null when nothing is selected */
+  path: string | null
+  /** Called with the path of the clicked crumb */
+  onNavigate: (path: string) => void
+}
+
+interface Crumb {
+  label: string
+  path: string
+}
+
+/**
+ * Helper: One crumb per path segment, e.g. `$ › users › [12] › address`
+ */
+function toCrumbs(path: string): Crumb[] {
+  let segments
+  try {
+    segments = parsePath(path)
+  } catch {
+    return []
+  }
+
+  return segments.map((segment, i) => ({
+    label:
+      segment.type === 'root'
+        ? '$'
+        : segment.type === 'index'
+          ? `[${segment.index}]`
+          : segment.name,
+    path: formatPath(segments.slice(0, i + 1)),
+  }))
+}
+
+/**
+ * Breadcrumb strip for the toolbar showing where the current node sits.
+ * Each crumb navigates to that ancestor; the strip keeps the deepest crumb in view.
+ */
+export function Breadcrumbs({ path, onNavigate }: BreadcrumbsProps) {
+  const listRef = useRef<HTMLOListElement>(null)
+  const crumbs = path ? toCrumbs(path) : []
+
+  // Long paths scroll horizontally; show the end, which is the current node
+  useEffect(() => {
+    const list = listRef.current
+    if (list) list.scrollLeft = list.scrollWidth
+  }, [path])
+
+  if (crumbs.length === 0) return null
+
+  return (
+    <nav class="breadcrumbs" aria-label="JSON path">
+      <ol class="breadcrumbs-list" ref={listRef}>
+        {crumbs.map((crumb, i) => {
+          const isCurrent = i === crumbs.length - 1
+          return (
+            <li key={crumb.path} class="breadcrumbs-item">
+              {i > 0 && (
+                <span class="breadcrumbs-separator" aria-hidden="true">
+                  ›
+                </span>
+              )}
+              <button
+                class="breadcrumbs-crumb"
+                type="button"
+                title={crumb.path}
+                aria-current={isCurrent ? 'location' : undefined}
+                onClick={() => onNavigate(crumb.path)}
+              >
+                {crumb.label === '' ? '""' : crumb.label}
+              </button>
+            </li>
+          )
+        })}
+      </ol>
+    </nav>
+  )
+}
@@ -0,0 +1,166 @@
+import { useState, useEffect } from 'preact/hooks'
+import type { ParsedData } from '../lib/integration/types'
+import './CompareSource.css'
+
+/**
+ * Another tab showing a formatted JSON document
+ */
+export interface CompareTab {
+  tabId: number
+  title: string
+  url: string
+}
+
+/**
+ * Second document chosen for a diff
+ */
+export interface CompareDocument {
+  data: ParsedData
+  /** Document text, for lossless number text */
+  input: string
+  /** Name shown in the diff header (file name, tab title, "Pasted JSON") */
+  label: string
+}
+
+export interface CompareSourceProps {
+  /** Parses the second document with the current parser; throws on invalid JSON */
+  parse: (text: string) => ParsedData
+  /** Lists other tabs with JSON documents (omit to hide the tab list) */
+  loadTabs?: () => Promise<CompareTab[]>
+  /** Fetches the document text of another tab */
+  loadTab?: (tabId: number) => Promise<string>
+  onCompare: (document: CompareDocument) => void
+  onCancel: () => void
+}
+
+/**
+ * Picks the document to compare the current one with: pasted text, a local
+ * file, or another open tab.
+ */
+export function CompareSource({
+  parse,
+  loadTabs,
+  loadTab,
+  onCompare,
+  onCancel,
+}: CompareSourceProps) {
+  const [text, setText] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [tabs, setTabs] = useState<CompareTab[] | null>(null)
+
+  useEffect(() => {
+    if (!loadTabs) return
+    let cancelled = false
+    loadTabs()
+      .then((found) => !cancelled && setTabs(found))
+      .catch(() => !cancelled && setTabs([]))
+    return () => {
+      cancelled = true
+    }
+  }, [loadTabs])
+
+  const compare = (input: string, label: string) => {
+    let data: ParsedData
+    try {
+      data = parse(input)
+    } catch (e) {
+      setError(`${label} is not valid JSON: ${(e as Error).message}`)
+      return
+    }
+    setError(null)
+    onCompare({ data, input, label })
+  }
+
+  const handleFile = async (e: Event) => {
+    const file = (e.target as HTMLInputElement).files?.[0]
+    if (!file) return
+    try {
+      compare(await file.text(), file.name)
+    } catch (err) {
+      setError(`Could not read ${file.name}: ${(err as Error).message}`)
+    }
+  }
+
+  const handleTab = async (tab: CompareTab) => {
+    const label = tab.title || tab.url
+    try {
+      compare(await loadTab!(tab.tabId), label)
+    } catch (err) {
+      setError(`Could not load ${label}: ${(err as Error).message}`)
+    }
+  }
+
+  return (
+    <div class="compare-source" role="region" aria-label="Compare with another document">
+      <div class="compare-source-header">
+        <span class="compare-source-title">Compare with…</span>
+        <button class="compare-source-button" type="button" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+
+      <label class="compare-source-label" for="compare-source-text">
+        Paste JSON
+      </label>
+      <textarea
+        id="compare-source-text"
+        class="compare-source-text"
+        rows={8}
+        spellcheck={false}
+        value={text}
+        onInput={(e) => setText((e.target as HTMLTextAreaElement).value)}
+      />
+      <div class="compare-source-actions">
+        <button
+          class="compare-source-button"
+          type="button"
+          disabled={text.trim() === ''}
+          onClick={() => compare(text, 'Pasted JSON')}
+        >
+          Compare
+        </button>
+        <label class="compare-source-button">
+          Open file…
+          <input
+            class="compare-source-file"
+            type="file"
+            accept=".json,application/json,text/plain"
+            onChange={handleFile}
+          />
+        </label>
+      </div>
+
+      {loadTabs && loadTab && (
+        <>
+          <div class="compare-source-label">Open tabs</div>
+          {tabs === null ? (
+            <div class="compare-source-empty">Looking for JSON tabs…</div>
+          ) : tabs.length === 0 ? (
+            <div class="compare-source-empty">No other tabs with JSON documents</div>
+          ) : (
+            <ul class="compare-source-tabs">
+              {tabs.map((tab) => (
+                <li key={tab.tabId}>
+                  <button
+                    class="compare-source-tab"
+                    type="button"
+                    title={tab.url}
+                    onClick={() => handleTab(tab)}
+                  >
+                    {tab.title || tab.url}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+
+      {error && (
+        <div class="compare-source-error" role="alert">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+import { useEffect, useRef } from 'preact/hooks'
+import type { CopyFormat } from '../lib/tree/copy'
+import './CopyMenu.css'
+
+/**
+ * An extra menu entry, e.g. an edit action
+ */
+export interface MenuAction {
+  label: string
+  onSelect: () => void
+  disabled?: boolean
+}
+
+export interface CopyMenuProps {
+  /** Viewport position of the menu's top-left corner */
+  x: number
+  y: number
+  /** Called with the chosen format; the menu closes afterwards */
+  onCopy: (format: CopyFormat) => void
+  /** Close without copying */
+  onClose: () => void
+  /** Further actions listed below the copy items */
+  actions?: MenuAction[]
+  /** Copy items shown disabled, e.g. the path of a row parsed from a string */
+  disabledFormats?: CopyFormat[]
+}
+
+const ITEMS: Array<{ format: CopyFormat; label: string }> = [
+  { format: 'value', label: 'Copy value' },
+  { format: 'path', label: 'Copy path' },
+  { format: 'pointer', label: 'Copy JSON Pointer' },
+  { format: 'pretty', label: 'Copy subtree (pretty)' },
+  { format: 'minified', label: 'Copy subtree (minified)' },
+]
+
+/**
+ * Context menu with the copy actions for a tree node.
+ * Arrow keys move between items, Escape or a click outside closes.
+ */
+export function CopyMenu({
+  x,
+  y,
+  onCopy,
+  onClose,
+  actions = [],
+  disabledFormats = [],
+}: CopyMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  const items = () =>
+    Array.from(
+      menuRef.current?.querySelectorAll<HTMLElement>('[role="menuitem"]:not(:disabled)') ?? []
+    )
+
+  useEffect(() => {
+    items()[0]?.focus()
+
+    const handlePointerDown = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) onClose()
+    }
+    document.addEventListener('mousedown', handlePointerDown)
+    return () => document.removeEventListener('mousedown', handlePointerDown)
+  }, [onClose])
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    const list = items()
+    const current = list.indexOf(document.activeElement as HTMLElement)
+
+    if (e.key === 'Escape' || e.key === 'Tab') {
+      e.preventDefault()
+      onClose()
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      list[(current + 1) % list.length]?.focus()
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      list[(current - 1 + list.length) % list.length]?.focus()
+    }
+    // Keep tree navigation from reacting to menu keys
+    e.stopPropagation()
+  }
+
+  return (
+    <div
+      ref={menuRef}
+      class="copy-menu"
+      role="menu"
+      aria-label="Copy"
+      style={{ left: `${x}px`, top: `${y}px` }}
+      onKeyDown={handleKeyDown}
+    >
+      {ITEMS.map(({ format, label }) => (
+        <button
+          key={format}
+          class="copy-menu-item"
+          type="button"
+          role="menuitem"
+          tabIndex={-1}
+          disabled={disabledFormats.includes(format)}
+          onClick={() => onCopy(format)}
+        >
+          {label}
+        </button>
+      ))}
+      {actions.length > 0 && <div class="copy-menu-separator" role="separator" />}
+      {actions.map(({ label, onSelect, disabled }) => (
+        <button
+          key={label}
+          class="copy-menu-item"
+          type="button"
+          role="menuitem"
+          tabIndex={-1}
+          disabled={disabled}
+          onClick={onSelect}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+import { Toggle } from './Toggle'
+import './EditControls.css'
+
+export interface EditControlsProps {
+  /** Is the tree editable? */
+  editing: boolean
+  /** Turns editing on or off */
+  onEditToggle: (editing: boolean) => void
+  canUndo: boolean
+  canRedo: boolean
+  onUndo: () => void
+  onRedo: () => void
+  /** Saves the edited document as a file */
+  onDownload: () => void
+}
+
+/**
+ * Toolbar controls for inline editing: the Edit switch and, while editing,
+ * undo, redo and "Download edited JSON".
+ */
+export function EditControls({
+  editing,
+  onEditToggle,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onDownload,
+}: EditControlsProps) {
+  return (
+    <div class="edit-controls">
+      <Toggle label="Edit" checked={editing} onChange={onEditToggle} />
+      {editing && (
+        <>
+          <button
+            class="edit-controls-button"
+            type="button"
+            aria-label="Undo"
+            title="Undo (Ctrl+Z)"
+            disabled={!canUndo}
+            onClick={onUndo}
+          >
+            ↶
+          </button>
+          <button
+            class="edit-controls-button"
+            type="button"
+            aria-label="Redo"
+            title="Redo (Ctrl+Shift+Z)"
+            disabled={!canRedo}
+            onClick={onRedo}
+          >
+            ↷
+          </button>
+          <button
+            class="edit-controls-button"
+            type="button"
+            title="Download edited JSON"
+            onClick={onDownload}
+          >
+            Download
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+import { useState, useEffect, useRef } from 'preact/hooks'
+
+export interface InlineEditorProps {
+  /** Text shown when editing starts */
+  initialText: string
+  /** Accessible name, e.g. "Edit value" */
+  label: string
+  /** Applies the text; returns an error message to keep the editor open */
+  onCommit: (text: string) => string | null
+  /** Closes the editor without changes */
+  onCancel: () => void
+}
+
+/**
+ * Single-line text field used to edit a key or value in place.
+ * Enter commits, Escape cancels; leaving the field commits valid text.
+ */
+export function InlineEditor({ initialText, label, onCommit, onCancel }: InlineEditorProps) {
+  const [text, setText] = useState(initialText)
+  const [error, setError] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  // Set once the editor has committed or cancelled, so blur does not repeat it
+  const done = useRef(false)
+
+  useEffect(() => {
+    inputRef.current?.focus()
+    inputRef.current?.select()
+  }, [])
+
+  const commit = () => {
+    const message = onCommit(text)
+    setError(message)
+    if (message === null) done.current = true
+  }
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      commit()
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      done.current = true
+      onCancel()
+    }
+    // Keep tree navigation from reacting to typing
+    e.stopPropagation()
+  }
+
+  const handleBlur = () => {
+    if (done.current) return
+    // Invalid text is discarded rather than leaving a dangling editor
+    if (onCommit(text) !== null) onCancel()
+    done.current = true
+  }
+
+  return (
+    <input
+      ref={inputRef}
+      class="inline-editor"
+      type="text"
+      aria-label={label}
+      aria-invalid={error !== null}
+      title={error ?? undefined}
+      value={text}
+      size={Math.max(4, text.length + 1)}
+      onInput={(e) => {
+        setText((e.target as HTMLInputElement).value)
+        setError(null)
+      }}
+      onKeyDown={handleKeyDown}
+      onBlur={handleBlur}
+      onClick={(e) => e.stopPropagation()}
+    />
+  )
+}
@@ -0,0 +1,354 @@
+import { useState, useMemo, useCallback } from 'preact/hooks'
+import { List } from 'react-window'
+import { fitListHeight, rowComponent } from './virtualList'
+import type { DataAdapter, ParsedData } from '../lib/integration/types'
+import { createAdapter } from '../lib/integration/adapters'
+import {
+  diffDocuments,
+  summarizeDiff,
+  defaultExpandedDiff,
+  flattenDiff,
+  unifiedLines,
+  diffLabel,
+  formatDiffValue,
+  type DiffNode,
+  type DiffLine,
+  type DiffRow,
+  type DiffStatus,
+} from '../lib/diff'
+import './JsonDiffView.css'
+
+export type DiffLayout = 'unified' | 'split'
+
+export interface JsonDiffViewProps {
+  /** Current document */
+  left: ParsedData
+  /** Original input of the current document (custom parser) */
+  leftInput?: string
+  /** Document to compare with */
+  right: ParsedData
+  /** Original input of the compared document (custom parser) */
+  rightInput?: string
+  /** Names shown in the column headers */
+  leftLabel: string
+  rightLabel: string
+  /** Initial layout (default: split) */
+  initialLayout?: DiffLayout
+  /** Row height in pixels (default: 22) */
+  rowHeight?: number
+  /** Enable virtual scrolling (default: true for large diffs) */
+  virtual?: boolean
+  /** Returns to the tree */
+  onClose: () => void
+}
+
+// Tree value classes, so values share the theme's syntax colors
+const VALUE_CLASS: Record<string, string> = {
+  string: 's',
+  number: 'n',
+  boolean: 'bl',
+  null: 'nl',
+}
+
+const MARKER: Record<DiffStatus, string> = {
+  added: '+',
+  removed: '−',
+  changed: '~',
+  unchanged: '',
+}
+
+const STATUS_LABEL: Record<DiffStatus, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+}
+
+const INDENT = 16
+
+/**
+ * Props passed to each row (via react-window's rowProps when virtualized)
+ */
+interface RowProps {
+  layout: DiffLayout
+  rows: DiffRow[]
+  lines: DiffLine[]
+  leftAdapter: DataAdapter
+  rightAdapter: DataAdapter
+  onToggle: (id: string) => void
+}
+
+/**
+ * One side of a row: indentation, expander, label and value
+ */
+function Side({
+  row,
+  side,
+  adapter,
+  onToggle,
+}: {
+  row: DiffRow
+  side: 'left' | 'right'
+  adapter: DataAdapter
+  onToggle: (id: string) => void
+}) {
+  const { node } = row
+  const value = node[side]
+  if (value === undefined) return null
+
+  const label = diffLabel(node, side)
+  const display = formatDiffValue(value, adapter)
+
+  return (
+    <span class="json-diff-side" style={{ paddingLeft: row.depth * INDENT }}>
+      {node.children.length > 0 ? (
+        <button
+          class="json-diff-toggle"
+          type="button"
+          aria-expanded={row.isExpanded}
+          aria-label={row.isExpanded ? 'Collapse' : 'Expand'}
+          onClick={() => onToggle(row.id)}
+        >
+          {row.isExpanded ? '▾' : '▸'}
+        </button>
+      ) : (
+        <span class="json-diff-toggle" />
+      )}
+      {label !== null && (
+        <>
+          <span class={node.key !== null ? 'k' : 'json-diff-index'}>{label}</span>
+          <span class="colon">:&nbsp;</span>
+        </>
+      )}
+      <span class={VALUE_CLASS[display.type] ?? 'json-diff-container'}>{display.text}</span>
+    </span>
+  )
+}
+
+function Row({
+  index,
+  style,
+  layout,
+  rows,
+  lines,
+  leftAdapter,
+  rightAdapter,
+  onToggle,
+}: { index: number; style: Record<string, any> } & RowProps) {
+  if (layout === 'split') {
+    const row = rows[index]
+    const { status, children } = row.node
+    const leaf = children.length === 0 ? ' json-diff-leaf' : ''
+    return (
+      <div
+        class={`json-diff-row json-diff-split json-diff-${status}${leaf}`}
+        role="listitem"
+        style={style}
+      >
+        <span class="json-diff-marker" title={STATUS_LABEL[status]}>
+          {MARKER[status]}
+        </span>
+        <span class="json-diff-cell">
+          <Side row={row} side="left" adapter={leftAdapter} onToggle={onToggle} />
+        </span>
+        <span class="json-diff-cell">
+          <Side row={row} side="right" adapter={rightAdapter} onToggle={onToggle} />
+        </span>
+      </div>
+    )
+  }
+
+  const { row, side } = lines[index]
+  // A changed leaf is split into a removed line and an added line
+  const status: DiffStatus =
+    side === 'both' ? row.node.status : side === 'left' ? 'removed' : 'added'
+  return (
+    <div class={`json-diff-row json-diff-${status}`} role="listitem" style={style}>
+      <span class="json-diff-marker" title={STATUS_LABEL[status]}>
+        {MARKER[status]}
+      </span>
+      <span class="json-diff-cell">
+        <Side
+          row={row}
+          side={side === 'left' ? 'left' : 'right'}
+          adapter={side === 'left' ? leftAdapter : rightAdapter}
+          onToggle={onToggle}
+        />
+      </span>
+    </div>
+  )
+}
+
+/**
+ * Structural diff of two documents, side by side or unified. Changed
+ * containers start expanded and unchanged ones collapsed; "Only differences"
+ * hides unchanged members altogether. Array items are paired by index, or
+ * by a key member such as "id" so reordered items still match.
+ */
+export function JsonDiffView({
+  left,
+  leftInput,
+  right,
+  rightInput,
+  leftLabel,
+  rightLabel,
+  initialLayout = 'split',
+  rowHeight = 22,
+  virtual = true,
+  onClose,
+}: JsonDiffViewProps) {
+  const [layout, setLayout] = useState<DiffLayout>(initialLayout)
+  const [arrayKey, setArrayKey] = useState('')
+  const [onlyDifferences, setOnlyDifferences] = useState(false)
+
+  const root = useMemo(
+    () => diffDocuments(left, right, { leftInput, rightInput, arrayKey: arrayKey.trim() }),
+    [left, right, leftInput, rightInput, arrayKey]
+  )
+  const summary = useMemo(() => summarizeDiff(root), [root])
+
+  const leftAdapter = useMemo(() => createAdapter(left, leftInput), [left, leftInput])
+  const rightAdapter = useMemo(() => createAdapter(right, rightInput), [right, rightInput])
+
+  // Expansion is reset to the default whenever the diff is recomputed
+  const [expandedState, setExpandedState] = useState<{ root: DiffNode; ids: Set<string> }>()
+  const expanded = useMemo(
+    () => (expandedState?.root === root ? expandedState.ids : defaultExpandedDiff(root)),
+    [expandedState, root]
+  )
+
+  const handleToggle = useCallback(
+    (id: string) => {
+      const ids = new Set(expanded)
+      if (ids.has(id)) ids.delete(id)
+      else ids.add(id)
+      setExpandedState({ root, ids })
+    },
+    [expanded, root]
+  )
+
+  const rows = useMemo(
+    () => flattenDiff(root, expanded, onlyDifferences),
+    [root, expanded, onlyDifferences]
+  )
+  const lines = useMemo(() => (layout === 'unified' ? unifiedLines(rows) : []), [layout, rows])
+  const rowCount = layout === 'unified' ? lines.length : rows.length
+
+  // Leave room for the page toolbar, diff toolbar and column headers
+  const listHeight = useMemo(
+    () => fitListHeight(rowCount * rowHeight, 60 + 2 * 32),
+    [rowCount, rowHeight]
+  )
+
+  const rowProps: RowProps = {
+    layout,
+    rows,
+    lines,
+    leftAdapter,
+    rightAdapter,
+    onToggle: handleToggle,
+  }
+
+  const identical = summary.added + summary.removed + summary.changed === 0
+
+  return (
+    <div class="json-diff-view">
+      <div class="json-diff-toolbar">
+        <button class="json-diff-button" type="button" onClick={onClose}>
+          ← Tree
+        </button>
+        <span class="json-diff-summary" role="status">
+          {identical ? (
+            'No differences'
+          ) : (
+            <>
+              <span class="json-diff-count-added">+{summary.added} added</span>{' '}
+              <span class="json-diff-count-removed">−{summary.removed} removed</span>{' '}
+              <span class="json-diff-count-changed">~{summary.changed} changed</span>
+            </>
+          )}
+        </span>
+        <span class="json-diff-layout" role="group" aria-label="Layout">
+          <button
+            class="json-diff-button"
+            type="button"
+            aria-pressed={layout === 'split'}
+            onClick={() => setLayout('split')}
+          >
+            Side by side
+          </button>
+          <button
+            class="json-diff-button"
+            type="button"
+            aria-pressed={layout === 'unified'}
+            onClick={() => setLayout('unified')}
+          >
+            Unified
+          </button>
+        </span>
+        <label class="json-diff-option">
+          Match items by
+          <input
+            class="json-diff-key"
+            type="text"
+            placeholder="index"
+            value={arrayKey}
+            onChange={(e) => setArrayKey((e.target as HTMLInputElement).value)}
+          />
+        </label>
+        <label class="json-diff-option">
+          <input
+            type="checkbox"
+            checked={onlyDifferences}
+            onChange={(e) => setOnlyDifferences((e.target as HTMLInputElement).checked)}
+          />
+          Only differences
+        </label>
+      </div>
+
+      <div class={`json-diff-header ${layout === 'split' ? 'json-diff-split' : ''}`}>
+        <span class="json-diff-marker" />
+        {layout === 'split' ? (
+          <>
+            <span class="json-diff-cell" title={leftLabel}>
+              {leftLabel}
+            </span>
+            <span class="json-diff-cell" title={rightLabel}>
+              {rightLabel}
+            </span>
+          </>
+        ) : (
+          <span class="json-diff-cell" title={`${leftLabel} → ${rightLabel}`}>
+            {leftLabel} → {rightLabel}
+          </span>
+        )}
+      </div>
+
+      {virtual && rowCount >= 100 ? (
+        <List
+          role="list"
+          aria-label="Differences"
+          style={{ height: listHeight }}
+          rowCount={rowCount}
+          rowHeight={rowHeight}
+          overscanCount={10}
+          rowComponent={rowComponent<RowProps>(Row)}
+          rowProps={rowProps}
+        />
+      ) : (
+        <div role="list" aria-label="Differences">
+          {Array.from({ length: rowCount }, (_, index) => (
+            <Row
+              key={
+                layout === 'split' ? rows[index].id : `${lines[index].row.id}:${lines[index].side}`
+              }
+              index={index}
+              style={{ height: rowHeight }}
+              {...rowProps}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
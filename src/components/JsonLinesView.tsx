@@ -0,0 +1,194 @@
+import { useState, useMemo, useCallback, useRef, useEffect } from 'preact/hooks'
+import { List, type ListImperativeAPI } from 'react-window'
+import { fitListHeight, rowComponent } from './virtualList'
+import {
+  flattenJsonLines,
+  lineRootPath,
+  type JsonLinesDocument,
+  type JsonLinesRow,
+} from '../lib/ndjson'
+import { JsonNode } from './JsonNode'
+import './JsonLinesView.css'
+
+export interface JsonLinesViewProps {
+  /** Parsed NDJSON document */
+  data: JsonLinesDocument
+  /** Row height in pixels (default: 24) */
+  rowHeight?: number
+  /** Enable virtual scrolling (default: true for large documents) */
+  virtual?: boolean
+}
+
+// Bad lines are shown truncated; the full text is in the title
+const MAX_LINE_PREVIEW = 200
+
+/**
+ * Props passed to each row (via react-window's rowProps when virtualized)
+ */
+interface RowProps {
+  rows: JsonLinesRow[]
+  activeError: number | null
+  onToggle: (path: string) => void
+}
+
+function Row({
+  index,
+  style,
+  rows,
+  activeError,
+  onToggle,
+}: { index: number; style: Record<string, any> } & RowProps) {
+  const row = rows[index]
+
+  if (row.kind === 'error') {
+    const { line } = row
+    const preview =
+      line.text.length > MAX_LINE_PREVIEW ? `${line.text.slice(0, MAX_LINE_PREVIEW)}…` : line.text
+    return (
+      <div
+        class={`json-lines-row json-lines-bad${index === activeError ? ' json-lines-active' : ''}`}
+        role="treeitem"
+        aria-level={1}
+        style={style}
+      >
+        <span class="json-lines-number">{line.line}</span>
+        <span class="json-lines-error" title={line.text}>
+          {!line.ok && <span class="json-lines-message">{line.error}</span>}
+          <span class="json-lines-text">{preview}</span>
+        </span>
+      </div>
+    )
+  }
+
+  const { node, line } = row
+  // Only the first row of a record carries its line number
+  const isRecordRoot = node.depth === 0 && !node.type.endsWith('_close')
+  return (
+    // The JsonNode inside is the treeitem
+    <div class="json-lines-row" role="none" style={style}>
+      <span class="json-lines-number" aria-hidden="true">
+        {isRecordRoot ? line.line : ''}
+      </span>
+      <JsonNode node={node} onToggle={onToggle} />
+    </div>
+  )
+}
+
+/**
+ * NDJSON / JSON Lines viewer. Each line is a collapsible top-level record
+ * numbered by its line in the document; lines that do not parse are shown
+ * with their error, and "Next bad line" steps through them. Virtualized, so
+ * log dumps with hundreds of thousands of lines stay responsive.
+ */
+export function JsonLinesView({ data, rowHeight = 24, virtual = true }: JsonLinesViewProps) {
+  const [expandedPaths, setExpandedPaths] = useState<Set<string>>(() => new Set())
+  const [activeError, setActiveError] = useState<number | null>(null)
+  const listRef = useRef<ListImperativeAPI>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const rows = useMemo(
+    () => flattenJsonLines(data, { expandedPaths }),
+    [data, expandedPaths]
+  )
+
+  const handleToggle = useCallback((path: string) => {
+    setExpandedPaths((paths) => {
+      const next = new Set(paths)
+      if (next.has(path)) next.delete(path)
+      else next.add(path)
+      return next
+    })
+    setActiveError(null)
+  }, [])
+
+  const expandAll = () => {
+    setExpandedPaths(new Set(data.lines.map((_, index) => lineRootPath(index))))
+    setActiveError(null)
+  }
+
+  const collapseAll = () => {
+    setExpandedPaths(new Set())
+    setActiveError(null)
+  }
+
+  const nextError = () => {
+    const from = activeError === null ? 0 : activeError + 1
+    const find = (start: number) =>
+      rows.findIndex((row, index) => index >= start && row.kind === 'error')
+    const index = find(from) === -1 ? find(0) : find(from)
+    if (index !== -1) setActiveError(index)
+  }
+
+  const useVirtual = virtual && rows.length >= 100
+
+  useEffect(() => {
+    if (activeError === null) return
+    if (useVirtual) {
+      listRef.current?.scrollToRow({ index: activeError, align: 'smart' })
+    } else {
+      const row = containerRef.current?.querySelector('.json-lines-active')
+      row?.scrollIntoView?.({ block: 'nearest' })
+    }
+  }, [activeError, useVirtual])
+
+  // Leave room for the page toolbar and the records toolbar
+  const listHeight = useMemo(
+    () => fitListHeight(rows.length * rowHeight, 60 + 32),
+    [rows.length, rowHeight]
+  )
+
+  const rowProps: RowProps = { rows, activeError, onToggle: handleToggle }
+  const { records, errors } = data
+
+  return (
+    <div class="json-lines-view" ref={containerRef}>
+      <div class="json-lines-toolbar">
+        <span class="json-lines-summary" role="status">
+          {records} {records === 1 ? 'record' : 'records'}
+          {errors > 0 && (
+            <span class="json-lines-count-errors">
+              {', '}
+              {errors} bad {errors === 1 ? 'line' : 'lines'}
+            </span>
+          )}
+        </span>
+        <button class="json-lines-button" type="button" onClick={expandAll}>
+          Expand all
+        </button>
+        <button class="json-lines-button" type="button" onClick={collapseAll}>
+          Collapse all
+        </button>
+        {errors > 0 && (
+          <button class="json-lines-button" type="button" onClick={nextError}>
+            Next bad line
+          </button>
+        )}
+      </div>
+
+      {useVirtual ? (
+        <List
+          listRef={listRef}
+          role="tree"
+          aria-label="Records"
+          style={{ height: listHeight }}
+          rowCount={rows.length}
+          rowHeight={rowHeight}
+          overscanCount={10}
+          rowComponent={rowComponent<RowProps>(Row)}
+          rowProps={rowProps}
+        />
+      ) : (
+        <div role="tree" aria-label="Records">
+          {rows.map((row, index) => (
+            <Row
+              key={row.kind === 'error' ? `line${row.line.line}` : row.node.id}
+              index={index}
+              style={{ height: rowHeight }}
+              {...rowProps}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
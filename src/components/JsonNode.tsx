@@ -8,15 +8,73 @@
 import { h } from 'preact'
 import { memo } from 'preact/compat'
 import type { FlatNode } from '../lib/tree/types'
+import { isJsonNode, type ParsedData } from '../lib/integration/types'
+import type { JsonComment, ParseErrorInfo } from '../lib/parser/types'
+import { splitByQuery } from '../lib/tree/search'
+import { isTabular } from '../lib/table/table'
+import { looksLikeEncodedJson } from '../lib/decode'
+import { InlineEditor } from './InlineEditor'
+
+/**
+ * Part of a row that can be edited in place
+ */
+export type EditField = 'key' | 'value'
 
 interface JsonNodeProps {
   node: FlatNode
   onToggle: (path: string, options?: { expandAllSiblings?: boolean }) => void
   style?: Record<string, any>
+  /** Search query to highlight in keys and values */
+  searchQuery?: string
+  /** Is this row the current search hit? */
+  isActiveMatch?: boolean
+  /** Is this row the selected node? */
+  isSelected?: boolean
+  /** Called when the row is clicked (outside the expander and links) */
+  onSelect?: (path: string) => void
+  /** Is this row the tree's tab stop? (roving tabindex; omit outside a tree) */
+  isFocused?: boolean
+  /** Opens the copy menu for the row (by id) at a viewport position (right-click or button) */
+  onOpenMenu?: (id: string, x: number, y: number) => void
+  /** Opens the table view; the button only shows for arrays of objects */
+  onOpenTable?: (path: string) => void
+  /** Decodes the string as JSON; the button only shows for strings that look encoded */
+  onDecode?: (path: string) => void
+  /** Why decoding the string failed */
+  decodeError?: string
+  /** Inline editor shown in place of the key or value */
+  editor?: { field: EditField; text: string }
+  /** Starts editing the row (by id) on double-click (omit when the tree is read-only) */
+  onStartEdit?: (id: string, field: EditField) => void
+  /** Applies the editor's text; returns an error message to keep it open */
+  onCommitEdit?: (text: string) => string | null
+  /** Closes the editor without changes */
+  onCancelEdit?: () => void
+  /** Errors tolerant mode recovered from, and duplicate keys, at this node */
+  annotations?: ParseErrorInfo[]
 }
 
-function JsonNodeComponent({ node, onToggle, style }: JsonNodeProps) {
+function JsonNodeComponent({
+  node,
+  onToggle,
+  style,
+  searchQuery,
+  isActiveMatch,
+  isSelected,
+  onSelect,
+  isFocused,
+  onOpenMenu,
+  onOpenTable,
+  onDecode,
+  decodeError,
+  editor,
+  onStartEdit,
+  onCommitEdit,
+  onCancelEdit,
+  annotations,
+}: JsonNodeProps) {
   const {
+    id,
     depth,
     key,
     type,
@@ -28,8 +86,12 @@ function JsonNodeComponent({ node, onToggle, style }: JsonNodeProps) {
     displayValue,
     rawText,
     value,
+    graft,
   } = node
 
+  // A string row with a graft shows the grafted tree's brackets after the string
+  const brackets = graft ? graft.data.kind : type
+
   const indentPx = depth * 20
 
   const handleExpanderClick = (e: MouseEvent) => {
@@ -43,6 +105,64 @@ function JsonNodeComponent({ node, onToggle, style }: JsonNodeProps) {
     }
   }
 
+  const handleRowClick = (e: MouseEvent) => {
+    if (!onSelect) return
+    // Expanding, following links and opening the menu should not move the selection
+    const target = e.target as Element
+    if (target.closest('.e, a, .copy-button, .table-button, .decode-button, .inline-editor')) {
+      return
+    }
+    onSelect(path)
+  }
+
+  const handleContextMenu = (e: MouseEvent) => {
+    if (!onOpenMenu) return
+    e.preventDefault()
+    // Keyboard-triggered context menus report no pointer position
+    if (e.clientX === 0 && e.clientY === 0) {
+      const rect = (e.currentTarget as HTMLElement).getBoundingClientRect()
+      onOpenMenu(id, rect.left + indentPx, rect.bottom)
+    } else {
+      onOpenMenu(id, e.clientX, e.clientY)
+    }
+  }
+
+  const handleMenuButtonClick = (e: MouseEvent) => {
+    e.preventDefault()
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect()
+    onOpenMenu?.(id, rect.left, rect.bottom)
+  }
+
+  const handleDoubleClick = (e: MouseEvent) => {
+    if (!onStartEdit || editor) return
+    if (key !== null && (e.target as Element).closest('.k')) {
+      onStartEdit(id, 'key')
+    } else if (type !== 'object' && type !== 'array') {
+      onStartEdit(id, 'value')
+    }
+  }
+
+  const renderEditor = (label: string) => (
+    <InlineEditor
+      initialText={editor!.text}
+      label={label}
+      onCommit={(text) => onCommitEdit?.(text) ?? null}
+      onCancel={() => onCancelEdit?.()}
+    />
+  )
+
+  const editingValue = editor?.field === 'value'
+
+  const handleTableButtonClick = (e: MouseEvent) => {
+    e.preventDefault()
+    onOpenTable?.(path)
+  }
+
+  const handleDecodeButtonClick = (e: MouseEvent) => {
+    e.preventDefault()
+    onDecode?.(path)
+  }
+
   // Handle closing bracket/brace nodes
   if (type === 'object_close') {
     return (
@@ -79,7 +199,7 @@ function JsonNodeComponent({ node, onToggle, style }: JsonNodeProps) {
     <span
       class={`entry ${key !== null ? 'objProp' : 'arrElem'} ${
         isExpanded ? '' : 'collapsed'
-      }`}
+      }${isActiveMatch ? ' search-active' : ''}${isSelected ? ' selected' : ''}`}
       style={{
         ...style,
         paddingLeft: `${indentPx}px`,
@@ -87,22 +207,37 @@ function JsonNodeComponent({ node, onToggle, style }: JsonNodeProps) {
       data-path={path}
       role="treeitem"
       aria-expanded={hasChildren ? isExpanded : undefined}
+      aria-selected={onSelect ? !!isSelected : undefined}
+      aria-level={depth + 1}
+      tabIndex={isFocused === undefined ? undefined : isFocused ? 0 : -1}
+      onClick={handleRowClick}
+      onDblClick={handleDoubleClick}
+      onContextMenu={handleContextMenu}
     >
       {/* Expander for objects/arrays */}
       {hasChildren && <span class="e" onClick={handleExpanderClick}></span>}
 
       {/* Key name for object properties */}
-      {key !== null && (
+      {key !== null && editor?.field === 'key' && (
+        <>
+          {renderEditor('Rename key')}
+          <span class="colon">:&nbsp;</span>
+        </>
+      )}
+      {key !== null && editor?.field !== 'key' && (
         <>
           <span class="dblqText">"</span>
-          <span class="k">{JSON.stringify(key).slice(1, -1)}</span>
+          <span class="k">
+            <Highlight text={key} query={searchQuery} escape />
+          </span>
           <span class="dblqText">"</span>
           <span class="colon">:&nbsp;</span>
         </>
       )}
 
       {/* Value rendering */}
-      {type === 'string' && (
+      {editingValue && renderEditor('Edit value')}
+      {!editingValue && type === 'string' && (
         <StringValue
           value={displayValue!}
           rawValue={
@@ -110,15 +245,20 @@ function JsonNodeComponent({ node, onToggle, style }: JsonNodeProps) {
               ? value
               : (value as any).value || displayValue!
           }
+          searchQuery={searchQuery}
         />
       )}
-      {type === 'number' && (
-        <span class="n">{rawText || displayValue}</span>
+      {!editingValue && type === 'number' && (
+        <span class="n">
+          <Highlight text={(rawText || displayValue)!} query={searchQuery} />
+        </span>
       )}
-      {type === 'boolean' && <span class="bl">{displayValue}</span>}
-      {type === 'null' && <span class="nl">null</span>}
+      {!editingValue && type === 'boolean' && <span class="bl">{displayValue}</span>}
+      {!editingValue && type === 'null' && <span class="nl">null</span>}
+
+      {graft && <span class="graft-arrow"> → </span>}
 
-      {type === 'object' && (
+      {brackets === 'object' && (
         <>
           <span class="oBrace">{'{'}</span>
           {!isExpanded && hasChildren && <span class="ellipsis">...</span>}
@@ -132,7 +272,7 @@ function JsonNodeComponent({ node, onToggle, style }: JsonNodeProps) {
         </>
       )}
 
-      {type === 'array' && (
+      {brackets === 'array' && (
         <>
           <span class="oBracket">{'['}</span>
           {!isExpanded && hasChildren && <span class="ellipsis">...</span>}
@@ -148,6 +288,57 @@ function JsonNodeComponent({ node, onToggle, style }: JsonNodeProps) {
 
       {/* Comma after value (except for last sibling) */}
       {!isLastSibling && <span class="comma">,</span>}
+
+      {graft && <span class="graft-label">{graft.label}</span>}
+      <Comments value={value} />
+      {annotations && <Annotations errors={annotations} />}
+      {decodeError && (
+        <span class="annotation" role="alert">
+          ⚠ {decodeError}
+        </span>
+      )}
+
+      {/* Decode trigger for base64, JWT and compressed strings, shown on hover */}
+      {onDecode && type === 'string' && !graft && looksLikeEncodedJson(displayValue!) && (
+        <button
+          class="decode-button"
+          type="button"
+          tabIndex={-1}
+          aria-label="Decode as JSON"
+          title="Decode as JSON"
+          onClick={handleDecodeButtonClick}
+        >
+          ⇣
+        </button>
+      )}
+
+      {/* Table view trigger for arrays of objects, shown on hover */}
+      {onOpenTable && type === 'array' && isTabular(value) && (
+        <button
+          class="table-button"
+          type="button"
+          tabIndex={-1}
+          aria-label="Show as table"
+          title="Show as table"
+          onClick={handleTableButtonClick}
+        >
+          ⊞
+        </button>
+      )}
+
+      {/* Copy menu trigger, shown on hover */}
+      {onOpenMenu && (
+        <button
+          class="copy-button"
+          type="button"
+          tabIndex={-1}
+          aria-label="Copy…"
+          title="Copy…"
+          onClick={handleMenuButtonClick}
+        >
+          ⋯
+        </button>
+      )}
     </span>
   )
 }
@@ -160,10 +351,10 @@ function JsonNodeComponent({ node, onToggle, style }: JsonNodeProps) {
 interface StringValueProps {
   value: string
   rawValue: string
+  searchQuery?: string
 }
 
-function StringValue({ value, rawValue }: StringValueProps) {
-  const escapedString = JSON.stringify(value).slice(1, -1)
+function StringValue({ value, rawValue, searchQuery }: StringValueProps) {
   const isUrl =
     rawValue.substring(0, 8) === 'https://' ||
     rawValue.substring(0, 7) === 'http://' ||
@@ -174,15 +365,121 @@ function StringValue({ value, rawValue }: StringValueProps) {
       <span class="dblqText">"</span>
       {isUrl ? (
         <a href={rawValue} target="_blank" rel="noopener noreferrer">
-          {escapedString}
+          <Highlight text={value} query={searchQuery} escape />
         </a>
       ) : (
-        <span>{escapedString}</span>
+        <span>
+          <Highlight text={value} query={searchQuery} escape />
+        </span>
       )}
       <span class="dblqText">"</span>
     </span>
   )
 }
 
+/**
+ * Comments Component
+ *
+ * Shows the comments attached to a JSONC/JSON5 node after its value, on one
+ * line (rows have a fixed height). Container rows include the comments
+ * inside the container.
+ */
+function Comments({ value }: { value: ParsedData }) {
+  if (!isJsonNode(value)) return null
+
+  const comments = [
+    ...(value.leadingComments || []),
+    ...(value.innerComments || []),
+    ...(value.trailingComments || []),
+  ]
+  if (comments.length === 0) return null
+
+  const text = comments.map(formatComment).join(' ')
+  return (
+    <span class="comment" title={text}>
+      {text}
+    </span>
+  )
+}
+
+/**
+ * Formats a comment as written, with line breaks collapsed
+ */
+function formatComment(comment: JsonComment): string {
+  const text = comment.text.replace(/\s+/g, ' ')
+  return comment.style === 'line' ? `//${text}` : `/*${text}*/`
+}
+
+/**
+ * Annotations Component
+ *
+ * Marks a row where tolerant mode recovered from errors with what it did
+ * (e.g. "Skipped trailing comma"), and duplicate keys with which value
+ * JSON.parse uses; the tooltip has the errors themselves.
+ */
+function Annotations({ errors }: { errors: ParseErrorInfo[] }) {
+  const text = errors
+    .map((error) =>
+      error.type === 'validation' && error.recovery
+        ? `${error.message}: ${error.recovery}`
+        : (error.recovery ?? error.message)
+    )
+    .join('; ')
+  const details = errors
+    .map((error) =>
+      error.line !== undefined
+        ? `Line ${error.line}, column ${error.column}: ${error.message}`
+        : error.message
+    )
+    .join('\n')
+
+  return (
+    <span class="annotation" title={details}>
+      ⚠ {text}
+    </span>
+  )
+}
+
+/**
+ * Highlight Component
+ *
+ * Wraps occurrences of the search query in <mark> elements.
+ * Renders plain text when there is no query. Matches are found in the
+ * text search looks at (unescaped keys and strings); with escape, each
+ * segment is then shown as it is written in JSON.
+ */
+interface HighlightProps {
+  text: string
+  query?: string
+  /** Show the text with JSON string escapes (keys and string values) */
+  escape?: boolean
+}
+
+function Highlight({ text, query, escape }: HighlightProps) {
+  const show = escape ? escapeString : (segment: string) => segment
+  if (!query) return <>{show(text)}</>
+
+  return (
+    <>
+      {splitByQuery(text, query).map((segment, i) =>
+        segment.match ? (
+          <mark key={i} class="search-hit">
+            {show(segment.text)}
+          </mark>
+        ) : (
+          show(segment.text)
+        )
+      )}
+    </>
+  )
+}
+
+/**
+ * A string's text as written between the quotes of a JSON string
+ */
+function escapeString(text: string): string {
+  return JSON.stringify(text).slice(1, -1)
+}
+
 // Memoize to prevent unnecessary re-renders
 export const JsonNode = memo(JsonNodeComponent)
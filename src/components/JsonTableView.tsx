@@ -0,0 +1,267 @@
+import { useState, useMemo, useCallback } from 'preact/hooks'
+import { List } from 'react-window'
+import { fitListHeight, rowComponent } from './virtualList'
+import type { DataAdapter, ParsedData } from '../lib/integration/types'
+import { createAdapter } from '../lib/integration/adapters'
+import { childPath } from '../lib/parser/json-path'
+import {
+  buildTable,
+  sortRows,
+  getCellDisplay,
+  getCellPath,
+  type TableColumn,
+  type TableRow,
+  type SortDirection,
+} from '../lib/table/table'
+import './JsonTableView.css'
+
+export interface JsonTableViewProps {
+  /** Array to show as a table (JsonValue or JsonNode) */
+  data: ParsedData
+  /** Original input string for lossless number text (custom parser) */
+  input?: string
+  /** Path of the array, used to build paths of nested cells */
+  path: string
+  /** Row height in pixels (default: 24) */
+  rowHeight?: number
+  /** Enable virtual scrolling (default: true for large tables) */
+  virtual?: boolean
+  /** Opens a row or nested cell in the tree */
+  onOpenPath: (path: string) => void
+  /** Returns to the tree */
+  onClose: () => void
+}
+
+// Fixed widths keep the header aligned with the virtualized rows
+const INDEX_WIDTH = 64
+const COLUMN_WIDTH = 160
+
+// Tree value classes, so cells share the theme's syntax colors
+const VALUE_CLASS: Record<string, string> = {
+  string: 's',
+  number: 'n',
+  boolean: 'bl',
+  null: 'nl',
+}
+
+/**
+ * Props passed to each row (via react-window's rowProps when virtualized)
+ */
+interface RowProps {
+  rows: TableRow[]
+  columns: TableColumn[]
+  adapter: DataAdapter
+  path: string
+  gridTemplate: string
+  onOpenPath: (path: string) => void
+}
+
+function Row({
+  index,
+  style,
+  rows,
+  columns,
+  adapter,
+  path,
+  gridTemplate,
+  onOpenPath,
+}: { index: number; style: Record<string, any> } & RowProps) {
+  const row = rows[index]
+  const itemPath = childPath(path, null, row.index)
+
+  return (
+    <div
+      class="json-table-row"
+      role="row"
+      aria-rowindex={index + 2}
+      style={{ ...style, gridTemplateColumns: gridTemplate }}
+    >
+      <div class="json-table-cell json-table-index" role="rowheader">
+        <button
+          class="json-table-link"
+          type="button"
+          title={`Open ${itemPath} in the tree`}
+          onClick={() => onOpenPath(itemPath)}
+        >
+          {row.index}
+        </button>
+      </div>
+      {columns.map((column) => {
+        const display = getCellDisplay(row.cells.get(column.key), adapter)
+        const nested = display.type === 'object' || display.type === 'array'
+        return (
+          <div key={column.key} class="json-table-cell" role="cell">
+            {nested ? (
+              <button
+                class="json-table-link"
+                type="button"
+                title="Open in the tree"
+                onClick={() => onOpenPath(getCellPath(path, row.index, column.key))}
+              >
+                {display.text}
+              </button>
+            ) : (
+              <span class={VALUE_CLASS[display.type]} title={display.text}>
+                {display.text}
+              </span>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+/**
+ * Table view for an array of objects: one row per item, one column per key.
+ * Click a header to sort (ascending, descending, off); × hides a column.
+ * Rows are virtualized like the tree, so 100k-item arrays stay responsive.
+ */
+export function JsonTableView({
+  data,
+  input,
+  path,
+  rowHeight = 24,
+  virtual = true,
+  onOpenPath,
+  onClose,
+}: JsonTableViewProps) {
+  const [sort, setSort] = useState<{ key: string; direction: SortDirection } | null>(null)
+  const [hidden, setHidden] = useState<Set<string>>(() => new Set())
+
+  const model = useMemo(() => buildTable(data, input), [data, input])
+  const adapter = useMemo(() => createAdapter(data, input), [data, input])
+
+  const columns = useMemo(
+    () => model.columns.filter((column) => !hidden.has(column.key)),
+    [model, hidden]
+  )
+
+  const rows = useMemo(
+    () => (sort ? sortRows(model.rows, sort.key, sort.direction, adapter) : model.rows),
+    [model, sort, adapter]
+  )
+
+  const cycleSort = useCallback((key: string) => {
+    setSort((prev) => {
+      if (prev?.key !== key) return { key, direction: 'ascending' }
+      return prev.direction === 'ascending' ? { key, direction: 'descending' } : null
+    })
+  }, [])
+
+  const hideColumn = useCallback((key: string) => {
+    setHidden((prev) => new Set(prev).add(key))
+    setSort((prev) => (prev?.key === key ? null : prev))
+  }, [])
+
+  const gridTemplate = `${INDEX_WIDTH}px repeat(${columns.length}, ${COLUMN_WIDTH}px)`
+  const width = `max(100%, ${INDEX_WIDTH + columns.length * COLUMN_WIDTH}px)`
+
+  // Leave room for the page toolbar, table toolbar and header row
+  const listHeight = useMemo(
+    () => fitListHeight(rows.length * rowHeight, 60 + 2 * 32),
+    [rows.length, rowHeight]
+  )
+
+  const rowProps: RowProps = {
+    rows,
+    columns,
+    adapter,
+    path,
+    gridTemplate,
+    onOpenPath,
+  }
+
+  return (
+    <div class="json-table-view">
+      <div class="json-table-toolbar">
+        <button class="json-table-button" type="button" onClick={onClose}>
+          ← Tree
+        </button>
+        <span class="json-table-summary">
+          {path}: {rows.length} {rows.length === 1 ? 'row' : 'rows'} × {columns.length}{' '}
+          {columns.length === 1 ? 'column' : 'columns'}
+        </span>
+        {hidden.size > 0 && (
+          <button
+            class="json-table-button"
+            type="button"
+            onClick={() => setHidden(new Set())}
+          >
+            Show {hidden.size} hidden {hidden.size === 1 ? 'column' : 'columns'}
+          </button>
+        )}
+      </div>
+
+      <div
+        class="json-table-scroll"
+        role="table"
+        aria-label={`Table view of ${path}`}
+        aria-rowcount={rows.length + 1}
+        aria-colcount={columns.length + 1}
+      >
+        <div
+          class="json-table-row json-table-header"
+          role="row"
+          aria-rowindex={1}
+          style={{ gridTemplateColumns: gridTemplate, width }}
+        >
+          <div class="json-table-cell json-table-index" role="columnheader">
+            #
+          </div>
+          {columns.map((column) => (
+            <div
+              key={column.key}
+              class="json-table-cell"
+              role="columnheader"
+              aria-sort={sort?.key === column.key ? sort.direction : 'none'}
+            >
+              <button
+                class="json-table-sort"
+                type="button"
+                title={`Sort by ${column.key} (${column.count} of ${model.rows.length} rows)`}
+                onClick={() => cycleSort(column.key)}
+              >
+                {column.key}
+                {sort?.key === column.key && (sort.direction === 'ascending' ? ' ▲' : ' ▼')}
+              </button>
+              <button
+                class="json-table-hide"
+                type="button"
+                aria-label={`Hide column ${column.key}`}
+                title="Hide column"
+                onClick={() => hideColumn(column.key)}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {virtual && rows.length >= 100 ? (
+          <List
+            // Rows are rows of the table, not items of a list
+            role="presentation"
+            style={{ height: listHeight, width }}
+            rowCount={rows.length}
+            rowHeight={rowHeight}
+            overscanCount={10}
+            rowComponent={rowComponent<RowProps>(Row)}
+            rowProps={rowProps}
+          />
+        ) : (
+          <div style={{ width }}>
+            {rows.map((row, index) => (
+              <Row
+                key={row.index}
+                index={index}
+                style={{ height: rowHeight }}
+                {...rowProps}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -6,14 +6,51 @@
  * virtualized rendering (large trees) for optimal performance.
  */
 
-import { h } from 'preact'
-import { useState, useMemo, useCallback } from 'preact/hooks'
-import { List } from 'react-window'
-import { ParsedData } from '../lib/integration/types'
+import { h, type Ref } from 'preact'
+import {
+  useState,
+  useMemo,
+  useCallback,
+  useEffect,
+  useRef,
+  useImperativeHandle,
+} from 'preact/hooks'
+import {
+  List,
+  type ListImperativeAPI,
+  type RowComponentProps,
+} from 'react-window'
+import { fitListHeight, rowComponent } from './virtualList'
+import { ParsedData, isJsonNode } from '../lib/integration/types'
+import type { JsonNode as JsonNodeData, ParseErrorInfo } from '../lib/parser/types'
+import { childPath, parentPath } from '../lib/parser/json-path'
 import { flattenTree } from '../lib/tree/flatten'
-import { toggleNode, expandToDepth, expandAllSiblings } from '../lib/tree/expand'
-import { TreeState, FlatNode } from '../lib/tree/types'
-import { JsonNode } from './JsonNode'
+import {
+  toggleNode,
+  expandToDepth,
+  expandAllSiblings,
+  expandPath,
+  revealPath,
+} from '../lib/tree/expand'
+import { searchTree, createSearchPredicate } from '../lib/tree/search'
+import { getNavigationAction, isClosingNode } from '../lib/tree/navigation'
+import { getCopyText, type CopyFormat } from '../lib/tree/copy'
+import { getParentIndices, getStickyAncestors } from '../lib/tree/sticky'
+import { decodeGraft } from '../lib/tree/graft'
+import {
+  replaceValue,
+  renameKey,
+  removeEntry,
+  insertEntry,
+  moveItem,
+  unusedKey,
+} from '../lib/edit/operations'
+import type { TextEdit } from '../lib/edit/patch'
+import { TreeState, FlatNode, Graft, NodePredicate } from '../lib/tree/types'
+import { JsonNode, type EditField } from './JsonNode'
+import { SearchBar } from './SearchBar'
+import { CopyMenu, type MenuAction } from './CopyMenu'
+import { JsonTableView } from './JsonTableView'
 
 interface JsonTreeViewProps {
   /** Parsed JSON data to render */
@@ -30,6 +67,146 @@ interface JsonTreeViewProps {
 
   /** Enable virtual scrolling (default: true for large trees) */
   virtual?: boolean
+
+  /** Path to expand, select and scroll to on mount (e.g. from location.hash) */
+  initialPath?: string
+
+  /** Called when the user selects a node */
+  onSelect?: (path: string) => void
+
+  /** Called when the focused/selected row changes (drives the breadcrumbs) */
+  onActivePathChange?: (path: string | null) => void
+
+  /** Imperative API for controls outside the tree, like react-window's listRef */
+  apiRef?: Ref<JsonTreeViewAPI>
+
+  /**
+   * Makes the tree editable (ExactJSON data with its input only). Each change
+   * is reported as a text patch over input; the host applies it and
+   * re-renders with the new document.
+   */
+  onEdit?: (edit: TextEdit) => void
+
+  /** Errors tolerant mode recovered from and duplicate keys, marked on the rows at their paths */
+  annotations?: ParseErrorInfo[]
+
+  /**
+   * Strings holding JSON objects or arrays (`"{\"id\": 1}"`) can be expanded
+   * into the parsed tree, and are searched (default: true). Long strings
+   * are left as text (see parseEmbeddedJson)
+   */
+  embeddedJson?: boolean
+}
+
+const SEARCH_DEBOUNCE_MS = 150
+
+// Rows parsed from a string have paths that do not exist in the document
+const GRAFT_DISABLED_COPY: CopyFormat[] = ['path', 'pointer']
+
+/**
+ * Imperative API exposed through the apiRef prop
+ */
+export interface JsonTreeViewAPI {
+  /** Reveal, select and scroll to a node, moving keyboard focus to it */
+  navigateTo: (path: string) => void
+}
+
+/**
+ * Props passed to each virtualized row via react-window's rowProps
+ */
+interface RowProps {
+  nodes: FlatNode[]
+  onToggle: (path: string, options?: { expandAllSiblings?: boolean }) => void
+  searchQuery: string
+  activePath: string | null
+  selectedPath: string | null
+  onSelect: (path: string) => void
+  focusedPath: string | null
+  onOpenMenu: (id: string, x: number, y: number) => void
+  onOpenTable: (path: string) => void
+  onDecode: (path: string) => void
+  decodeErrors: Map<string, string>
+  editingId: string | null
+  editor: { field: EditField; text: string } | null
+  onStartEdit?: (id: string, field: EditField) => void
+  onCommitEdit: (text: string) => string | null
+  onCancelEdit: () => void
+  annotations: Map<string, ParseErrorInfo[]>
+}
+
+function Row({
+  index,
+  style,
+  nodes,
+  onToggle,
+  searchQuery,
+  activePath,
+  selectedPath,
+  onSelect,
+  focusedPath,
+  onOpenMenu,
+  onOpenTable,
+  onDecode,
+  decodeErrors,
+  editingId,
+  editor,
+  onStartEdit,
+  onCommitEdit,
+  onCancelEdit,
+  annotations,
+}: RowComponentProps<RowProps>) {
+  const node = nodes[index]
+  return (
+    <JsonNode
+      node={node}
+      onToggle={onToggle}
+      style={style}
+      searchQuery={searchQuery}
+      isActiveMatch={node.path === activePath}
+      isSelected={node.path === selectedPath}
+      onSelect={onSelect}
+      isFocused={node.path === focusedPath}
+      onOpenMenu={onOpenMenu}
+      onOpenTable={onOpenTable}
+      onDecode={onDecode}
+      decodeError={decodeErrors.get(node.path)}
+      editor={node.id === editingId ? editor ?? undefined : undefined}
+      onStartEdit={node.graftInput === undefined ? onStartEdit : undefined}
+      onCommitEdit={onCommitEdit}
+      onCancelEdit={onCancelEdit}
+      annotations={rowAnnotations(annotations, node)}
+    />
+  )
+}
+
+/**
+ * Errors marked on a row. The occurrences of a duplicate key share a path,
+ * so each gets the duplicate key error at its own key: the last one before
+ * its value.
+ */
+function rowAnnotations(
+  byPath: Map<string, ParseErrorInfo[]>,
+  node: FlatNode
+): ParseErrorInfo[] | undefined {
+  const errors = byPath.get(node.path)
+  if (!errors || !isJsonNode(node.value)) return errors
+
+  const start = node.value.start
+  let own: ParseErrorInfo | undefined
+  for (const error of errors) {
+    if (error.type === 'validation' && error.position < start) {
+      if (!own || error.position > own.position) own = error
+    }
+  }
+  return own ? errors.filter((error) => error.type !== 'validation' || error === own) : errors
+}
+
+/**
+ * Path of the row with an id; rows not flattened yet (just added) have
+ * their path as id
+ */
+function rowPath(nodes: FlatNode[], id: string): string {
+  return nodes.find((n) => n.id === id)?.path ?? id
 }
 
 export function JsonTreeView({
@@ -38,20 +215,119 @@ export function JsonTreeView({
   initialExpandDepth = 3,
   rowHeight = 24,
   virtual = true,
+  initialPath,
+  onSelect,
+  onActivePathChange,
+  apiRef,
+  onEdit,
+  annotations,
+  embeddedJson = true,
 }: JsonTreeViewProps) {
-  // Initialize expansion state
-  const [treeState, setTreeState] = useState<TreeState>(() => ({
-    expandedPaths: expandToDepth(data, initialExpandDepth, '$', 0, input),
-  }))
+  // Initialize expansion state, opening the deep-linked node if any
+  const [treeState, setTreeState] = useState<TreeState>(() => {
+    const state = {
+      expandedPaths: expandToDepth(data, initialExpandDepth, '$', 0, input),
+    }
+    return initialPath ? expandPath(state, initialPath) : state
+  })
+
+  const [selectedPath, setSelectedPath] = useState<string | null>(
+    initialPath ?? null
+  )
+  // Node waiting to be scrolled to once its row is rendered (deep links, breadcrumbs)
+  const [scrollTarget, setScrollTarget] = useState<string | null>(
+    initialPath ?? null
+  )
+
+  // Keyboard focus (roving tabindex); DOM focus follows only after key presses
+  const [focusedPath, setFocusedPath] = useState<string | null>(null)
+  const pendingFocus = useRef(false)
+
+  // Search state
+  const [searchOpen, setSearchOpen] = useState(false)
+  const [searchInput, setSearchInput] = useState('')
+  // What is searched for and highlighted: the input once typing pauses
+  const [searchQuery, setSearchQuery] = useState('')
+  const [activeMatch, setActiveMatch] = useState(-1)
+  const [filterMode, setFilterMode] = useState(false)
+  // Ancestors of matches closed in filter mode; they start open for each filter
+  const [filterCollapsed, setFilterCollapsed] = useState<{
+    filter?: NodePredicate
+    paths: Set<string>
+  }>(() => ({ paths: new Set() }))
+
+  // Copy menu anchored at a viewport position
+  const [menu, setMenu] = useState<{ id: string; x: number; y: number } | null>(null)
+
+  // Array shown in the table view instead of the tree
+  const [table, setTable] = useState<{ path: string; value: ParsedData; input?: string } | null>(
+    null
+  )
+
+  // Trees decoded from string values, by the string's path
+  const [grafts, setGrafts] = useState<Map<string, Graft>>(() => new Map())
+  const [decodeErrors, setDecodeErrors] = useState<Map<string, string>>(() => new Map())
+
+  // Inline editor (edit mode)
+  const [editing, setEditing] = useState<{ id: string; field: EditField } | null>(null)
+  const editable = onEdit !== undefined && isJsonNode(data) && input !== undefined
+
+  const listRef = useRef<ListImperativeAPI>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Filter mode prunes the tree to matches and their ancestors
+  const filter = useMemo(() => {
+    return searchOpen && filterMode && searchQuery
+      ? createSearchPredicate(searchQuery)
+      : undefined
+  }, [searchOpen, filterMode, searchQuery])
 
   // Flatten tree based on current expansion state (memoized)
   const flatNodes = useMemo(() => {
-    return flattenTree(data, treeState, null, 0, '$', 0, 1, input)
-  }, [data, treeState, input])
+    const collapsedPaths = filterCollapsed.filter === filter ? filterCollapsed.paths : undefined
+    const state = { ...treeState, grafts, embeddedJson, collapsedPaths }
+    return flattenTree(data, state, null, 0, '$', 0, 1, input, filter)
+  }, [data, treeState, grafts, embeddedJson, input, filter, filterCollapsed])
+
+  // Recovered errors by the path of the row they are marked on
+  const annotationsByPath = useMemo(() => {
+    const byPath = new Map<string, ParseErrorInfo[]>()
+    for (const error of annotations ?? []) {
+      byPath.set(error.path, [...(byPath.get(error.path) ?? []), error])
+    }
+    return byPath
+  }, [annotations])
+
+  // Search the whole document, not just the flattened rows
+  const matches = useMemo(() => {
+    return searchOpen ? searchTree(data, searchQuery, { embeddedJson }, input) : []
+  }, [data, searchQuery, searchOpen, embeddedJson, input])
+
+  // The single row with tabIndex=0: focused row, else selected row, else first row
+  const tabStopPath = useMemo(() => {
+    const focusable = (path: string | null) =>
+      path !== null && flatNodes.some((n) => n.path === path && !isClosingNode(n))
+    if (focusable(focusedPath)) return focusedPath
+    if (focusable(selectedPath)) return selectedPath
+    return flatNodes.length > 0 ? flatNodes[0].path : null
+  }, [flatNodes, focusedPath, selectedPath])
+
+  const activePath =
+    activeMatch >= 0 && activeMatch < matches.length
+      ? matches[activeMatch].path
+      : null
 
   // Handle node toggle
   const handleToggle = useCallback(
     (path: string, options?: { expandAllSiblings?: boolean }) => {
+      if (flatNodes.some((n) => n.path === path && n.filterBranch)) {
+        setFilterCollapsed((prev) => {
+          const paths = new Set(prev.filter === filter ? prev.paths : [])
+          if (!paths.delete(path)) paths.add(path)
+          return { filter, paths }
+        })
+        return
+      }
       setTreeState((prevState) => {
         if (options?.expandAllSiblings) {
           return expandAllSiblings(prevState, path, flatNodes)
@@ -60,37 +336,535 @@ export function JsonTreeView({
         }
       })
     },
+    [flatNodes, filter]
+  )
+
+  const handleSelect = useCallback(
+    (path: string) => {
+      setSelectedPath(path)
+      setFocusedPath(path)
+      onSelect?.(path)
+    },
+    [onSelect]
+  )
+
+  const handleOpenMenu = useCallback(
+    (id: string, x: number, y: number) => {
+      setFocusedPath(rowPath(flatNodes, id))
+      setMenu({ id, x, y })
+    },
+    [flatNodes]
+  )
+
+  const handleCloseMenu = useCallback(() => {
+    setMenu(null)
+    // Return keyboard focus to the row the menu was opened from
+    pendingFocus.current = true
+  }, [])
+
+  const handleCopy = useCallback(
+    (format: CopyFormat) => {
+      const node = menu && flatNodes.find((n) => n.id === menu.id)
+      handleCloseMenu()
+      if (!node || (node.graftInput !== undefined && GRAFT_DISABLED_COPY.includes(format))) return
+
+      const text = getCopyText(node, format, node.graftInput ?? input)
+      navigator.clipboard.writeText(text).catch((error) => {
+        console.error('Copy to clipboard failed:', error)
+      })
+    },
+    [menu, flatNodes, input, handleCloseMenu]
+  )
+
+  // Applies an edit operation; returns the error message if it failed
+  const runEdit = useCallback(
+    (operation: (root: JsonNodeData) => TextEdit): string | null => {
+      if (!editable) return 'The document is read-only'
+      try {
+        onEdit!(operation(data as JsonNodeData))
+        return null
+      } catch (error) {
+        return (error as Error).message
+      }
+    },
+    [editable, onEdit, data]
+  )
+
+  const editingNode = useMemo(
+    () => (editing && flatNodes.find((n) => n.id === editing.id)) || null,
+    [editing, flatNodes]
+  )
+
+  // Text shown in the inline editor: the key, or the value's source text
+  const editor = useMemo(() => {
+    if (!editing || !editingNode || !editable) return null
+    if (editing.field === 'key') return { field: editing.field, text: editingNode.key ?? '' }
+    const value = editingNode.value as JsonNodeData
+    return { field: editing.field, text: input!.slice(value.start, value.end) }
+  }, [editing, editingNode, editable, input])
+
+  const handleStartEdit = useCallback(
+    (id: string, field: EditField) => {
+      // The editor takes focus; moving it to the row would blur (commit) it
+      pendingFocus.current = false
+      setFocusedPath(rowPath(flatNodes, id))
+      setEditing({ id, field })
+    },
+    [flatNodes]
+  )
+
+  // Ends editing and returns keyboard focus to a row
+  const finishEdit = useCallback((focusPath: string) => {
+    setEditing(null)
+    setFocusedPath(focusPath)
+    pendingFocus.current = true
+  }, [])
+
+  const handleCommitEdit = useCallback(
+    (text: string): string | null => {
+      if (!editing || !editingNode || !editor) return null
+      const { path } = editingNode
+      if (text === editor.text) {
+        finishEdit(path)
+        return null
+      }
+
+      // The row's node, not its path: keys may be duplicated
+      const target = editingNode.value as JsonNodeData
+      if (editing.field === 'key') {
+        const error = runEdit((root) => renameKey(root, target, text))
+        if (error === null) finishEdit(childPath(parentPath(path)!, text, 0))
+        return error
+      }
+      const error = runEdit((root) => replaceValue(root, target, text))
+      if (error === null) finishEdit(path)
+      return error
+    },
+    [editing, editingNode, editor, runEdit, finishEdit]
+  )
+
+  const handleCancelEdit = useCallback(() => {
+    if (editing) finishEdit(editingNode?.path ?? editing.id)
+  }, [editing, editingNode, finishEdit])
+
+  const removeNode = useCallback(
+    (node: FlatNode) => {
+      const error = runEdit((root) => removeEntry(root, input!, node.value as JsonNodeData))
+      if (error !== null) console.error('Remove failed:', error)
+      else finishEdit(parentPath(node.path) ?? '$')
+    },
+    [input, runEdit, finishEdit]
+  )
+
+  // Appends a child (null value) and opens the editor on it
+  const addChild = useCallback(
+    (node: FlatNode) => {
+      const isObject = node.type === 'object'
+      const target = node.value as JsonNodeData
+      const key = isObject ? unusedKey(data as JsonNodeData, target) : null
+      const error = runEdit((root) => insertEntry(root, input!, target, key ?? '', 'null'))
+      if (error !== null) {
+        console.error('Add failed:', error)
+        return
+      }
+
+      const path = childPath(node.path, key, node.childCount)
+      setTreeState((prevState) => revealPath(prevState, path))
+      handleStartEdit(path, isObject ? 'key' : 'value')
+    },
+    [data, input, runEdit, handleStartEdit]
+  )
+
+  const moveNode = useCallback(
+    (node: FlatNode, delta: 1 | -1) => {
+      const to = node.indexInParent + delta
+      const error = runEdit((root) => moveItem(root, input!, node.value as JsonNodeData, to))
+      if (error === null) finishEdit(childPath(parentPath(node.path)!, null, to))
+    },
+    [input, runEdit, finishEdit]
+  )
+
+  // Edit actions offered in the context menu
+  const menuActions = useMemo((): MenuAction[] => {
+    const node = editable && menu && flatNodes.find((n) => n.id === menu.id)
+    if (!node || node.graftInput !== undefined) return []
+
+    const run = (action: () => void) => () => {
+      handleCloseMenu()
+      action()
+    }
+    const isContainer = node.type === 'object' || node.type === 'array'
+    const isItem = node.key === null && node.path !== '$'
+    const actions: MenuAction[] = []
+
+    if (!isContainer) {
+      actions.push({ label: 'Edit value', onSelect: run(() => handleStartEdit(node.id, 'value')) })
+    }
+    if (node.key !== null) {
+      actions.push({ label: 'Rename key', onSelect: run(() => handleStartEdit(node.id, 'key')) })
+    }
+    if (isContainer) {
+      actions.push({
+        label: node.type === 'object' ? 'Add entry' : 'Add item',
+        onSelect: run(() => addChild(node)),
+      })
+    }
+    if (isItem) {
+      actions.push(
+        {
+          label: 'Move up',
+          onSelect: run(() => moveNode(node, -1)),
+          disabled: node.indexInParent === 0,
+        },
+        {
+          label: 'Move down',
+          onSelect: run(() => moveNode(node, 1)),
+          disabled: node.isLastSibling,
+        }
+      )
+    }
+    actions.push({
+      label: 'Remove',
+      onSelect: run(() => removeNode(node)),
+      disabled: node.path === '$',
+    })
+    return actions
+  }, [editable, menu, flatNodes, handleCloseMenu, handleStartEdit, addChild, moveNode, removeNode])
+
+  // Edit keys on the focused row; returns true if the key was handled
+  const handleEditKey = useCallback(
+    (e: KeyboardEvent, node: FlatNode): boolean => {
+      const isContainer = node.type === 'object' || node.type === 'array'
+
+      if (e.key === 'F2') {
+        if (!isContainer) handleStartEdit(node.id, 'value')
+        else if (node.key !== null) handleStartEdit(node.id, 'key')
+      } else if (e.key === 'Delete' && node.path !== '$') {
+        removeNode(node)
+      } else if (e.key === 'Insert' && isContainer) {
+        addChild(node)
+      } else if (e.altKey && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+        if (node.key === null && node.path !== '$') {
+          moveNode(node, e.key === 'ArrowUp' ? -1 : 1)
+        }
+      } else {
+        return false
+      }
+      return true
+    },
+    [handleStartEdit, removeNode, addChild, moveNode]
+  )
+
+  const handleOpenTable = useCallback(
+    (path: string) => {
+      const node = flatNodes.find((n) => n.path === path)
+      if (node) setTable({ path, value: node.value, input: node.graftInput ?? input })
+    },
+    [flatNodes, input]
+  )
+
+  // Decodes a string and grafts the JSON under its row, expanded
+  const handleDecode = useCallback(
+    async (path: string) => {
+      const node = flatNodes.find((n) => n.path === path)
+      if (node?.type !== 'string') return
+
+      try {
+        const graft = await decodeGraft(node.displayValue!)
+        setGrafts((prev) => new Map(prev).set(path, graft))
+        setDecodeErrors((prev) => {
+          const next = new Map(prev)
+          next.delete(path)
+          return next
+        })
+        setTreeState((prevState) => expandPath(prevState, path))
+      } catch (error) {
+        setDecodeErrors((prev) => new Map(prev).set(path, (error as Error).message))
+      }
+    },
     [flatNodes]
   )
 
-  // Row renderer for react-window
-  const Row = useCallback(
-    ({ index, style }: { index: number; style: any }) => {
-      const node = flatNodes[index]
-      return <JsonNode node={node} onToggle={handleToggle} style={style} />
+  // Reveal, select and scroll to a node, moving keyboard focus to it
+  const navigateTo = useCallback(
+    (path: string) => {
+      setTreeState((prevState) => revealPath(prevState, path))
+      handleSelect(path)
+      setScrollTarget(path)
+      pendingFocus.current = true
+    },
+    [handleSelect]
+  )
+
+  const handleCloseTable = useCallback(() => {
+    if (table) navigateTo(table.path)
+    setTable(null)
+  }, [table, navigateTo])
+
+  const handleOpenTablePath = useCallback(
+    (path: string) => {
+      setTable(null)
+      navigateTo(path)
+    },
+    [navigateTo]
+  )
+
+  // WAI-ARIA tree keys on the focused row
+  const handleTreeKeyDown = useCallback(
+    (e: KeyboardEvent) => {
+      // Ignore keys typed into the search bar
+      const target = e.target as HTMLElement
+      if (tabStopPath === null || target.getAttribute('role') !== 'treeitem') return
+
+      if (e.key === 'Enter') {
+        e.preventDefault()
+        handleSelect(tabStopPath)
+        return
+      }
+
+      const node = flatNodes.find((n) => n.path === tabStopPath)
+      if (editable && node && node.graftInput === undefined && handleEditKey(e, node)) {
+        e.preventDefault()
+        return
+      }
+
+      const action = getNavigationAction(flatNodes, tabStopPath, e.key)
+      if (!action) return
+      e.preventDefault()
+
+      switch (action.type) {
+        case 'focus':
+          pendingFocus.current = true
+          setFocusedPath(action.path)
+          break
+        case 'expand':
+        case 'collapse':
+          setFocusedPath(action.path)
+          handleToggle(action.path)
+          break
+        case 'expandSiblings':
+          setFocusedPath(action.path)
+          handleToggle(action.path, { expandAllSiblings: true })
+          break
+      }
+    },
+    [flatNodes, tabStopPath, handleSelect, handleToggle, editable, handleEditKey]
+  )
+
+  // Move to a match: reveal its ancestors so the row exists in flatNodes
+  const goToMatch = useCallback(
+    (index: number) => {
+      if (matches.length === 0) {
+        setActiveMatch(-1)
+        return
+      }
+      const wrapped = (index + matches.length) % matches.length
+      setActiveMatch(wrapped)
+      setTreeState((prevState) => revealPath(prevState, matches[wrapped].path))
+    },
+    [matches]
+  )
+
+  // Searching the whole document on every keystroke makes typing lag
+  useEffect(() => {
+    if (searchInput === searchQuery) return
+    const timer = setTimeout(() => {
+      setSearchQuery(searchInput)
+      setActiveMatch(-1)
+    }, SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchInput, searchQuery])
+
+  // Jump to the first hit whenever the match list changes
+  useEffect(() => {
+    if (activeMatch === -1 && matches.length > 0) goToMatch(0)
+  }, [matches, activeMatch, goToMatch])
+
+  const handleCloseSearch = useCallback(() => {
+    setSearchOpen(false)
+    setSearchInput('')
+    setSearchQuery('')
+    setActiveMatch(-1)
+    setFilterMode(false)
+  }, [])
+
+  // Ctrl/Cmd+F opens our search: browser find cannot see virtualized rows
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+        e.preventDefault()
+        setSearchOpen(true)
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [])
+
+  const useVirtual = virtual && flatNodes.length >= 100
+
+  // Sticky ancestor headers (virtualized trees scroll inside the list)
+  const [topRow, setTopRow] = useState(0)
+  const parentIndices = useMemo(
+    () => (useVirtual ? getParentIndices(flatNodes) : null),
+    [flatNodes, useVirtual]
+  )
+  const stickyRows = useMemo(
+    () => (parentIndices && topRow > 0 ? getStickyAncestors(parentIndices, topRow) : []),
+    [parentIndices, topRow]
+  )
+
+  const scrollToPath = useCallback(
+    (path: string): boolean => {
+      const index = flatNodes.findIndex((n) => n.path === path)
+      if (index === -1) return false
+
+      if (useVirtual) {
+        listRef.current?.scrollToRow({ index, align: 'smart' })
+      } else {
+        const rows = containerRef.current?.querySelectorAll<HTMLElement>('[data-path]')
+        rows?.forEach((row) => {
+          if (row.dataset.path === path) {
+            row.scrollIntoView?.({ block: 'nearest' })
+          }
+        })
+      }
+      return true
+    },
+    [flatNodes, useVirtual]
+  )
+
+  // Move DOM focus to the tab stop after keyboard navigation. In virtualized
+  // trees the row may only exist after scrolling, so onRowsRendered retries.
+  const focusTabStop = useCallback(() => {
+    if (!pendingFocus.current || tabStopPath === null) return
+    // Sticky header copies of rows have no tabindex
+    const rows = containerRef.current?.querySelectorAll<HTMLElement>(
+      '[role="treeitem"][tabindex]'
+    )
+    rows?.forEach((row) => {
+      if (row.dataset.path === tabStopPath) {
+        row.focus({ preventScroll: true })
+        pendingFocus.current = false
+      }
+    })
+  }, [tabStopPath])
+
+  const handleRowsRendered = useCallback(
+    (visibleRows: { startIndex: number; stopIndex: number }) => {
+      setTopRow(visibleRows.startIndex)
+      focusTabStop()
     },
-    [flatNodes, handleToggle]
+    [focusTabStop]
   )
 
+  useEffect(() => {
+    if (!pendingFocus.current || tabStopPath === null) return
+    scrollToPath(tabStopPath)
+    focusTabStop()
+  }, [tabStopPath, scrollToPath, focusTabStop])
+
+  // Closing the copy menu or the inline editor hands focus back to its row
+  useEffect(() => {
+    if (menu === null && editing === null) focusTabStop()
+  }, [menu, editing, focusTabStop])
+
+  // Scroll the active hit into view once its row has been flattened
+  useEffect(() => {
+    if (activePath !== null) scrollToPath(activePath)
+  }, [activePath, scrollToPath])
+
+  // Scroll to a requested node once it has been flattened
+  useEffect(() => {
+    if (scrollTarget !== null && scrollToPath(scrollTarget)) {
+      setScrollTarget(null)
+    }
+  }, [scrollTarget, scrollToPath])
+
+  useEffect(() => {
+    onActivePathChange?.(tabStopPath)
+  }, [tabStopPath, onActivePathChange])
+
+  useImperativeHandle(apiRef ?? null, () => ({ navigateTo }), [navigateTo])
+
   // Calculate container height
-  const containerHeight = useMemo(() => {
-    // In test environments, window.innerHeight may be 0 or undefined
-    const windowHeight =
-      typeof window !== 'undefined' && window.innerHeight > 0
-        ? window.innerHeight
-        : 600
-    const maxHeight = windowHeight - 60
-    const contentHeight = flatNodes.length * rowHeight
-    // Ensure minimum height of 100px for react-window
-    return Math.max(100, Math.min(maxHeight, contentHeight))
-  }, [flatNodes.length, rowHeight])
+  const containerHeight = useMemo(
+    () => fitListHeight(flatNodes.length * rowHeight, 60),
+    [flatNodes.length, rowHeight]
+  )
+
+  const searchBar = searchOpen && (
+    <SearchBar
+      query={searchInput}
+      onQueryChange={setSearchInput}
+      matchCount={matches.length}
+      activeIndex={activeMatch}
+      onNext={() => goToMatch(activeMatch + 1)}
+      onPrevious={() => goToMatch(activeMatch - 1)}
+      onClose={handleCloseSearch}
+      filterActive={filterMode}
+      onToggleFilter={() => setFilterMode((on) => !on)}
+    />
+  )
+
+  const menuNode = menu && flatNodes.find((n) => n.id === menu.id)
+  const copyMenu = menu && (
+    <CopyMenu
+      x={menu.x}
+      y={menu.y}
+      onCopy={handleCopy}
+      onClose={handleCloseMenu}
+      actions={menuActions}
+      disabledFormats={menuNode?.graftInput !== undefined ? GRAFT_DISABLED_COPY : undefined}
+    />
+  )
+
+  if (table) {
+    return (
+      <div class="json-tree-container">
+        <JsonTableView
+          data={table.value}
+          input={table.input}
+          path={table.path}
+          rowHeight={rowHeight}
+          virtual={virtual}
+          onOpenPath={handleOpenTablePath}
+          onClose={handleCloseTable}
+        />
+      </div>
+    )
+  }
 
   // For small trees, render directly without virtualization
-  if (!virtual || flatNodes.length < 100) {
+  if (!useVirtual) {
     return (
-      <div class="json-tree-container" role="tree">
+      <div
+        class="json-tree-container"
+        role="tree"
+        ref={containerRef}
+        onKeyDown={handleTreeKeyDown}
+      >
+        {searchBar}
+        {copyMenu}
         {flatNodes.map((node) => (
-          <JsonNode key={node.id} node={node} onToggle={handleToggle} />
+          <JsonNode
+            key={node.id}
+            node={node}
+            onToggle={handleToggle}
+            searchQuery={searchQuery}
+            isActiveMatch={node.path === activePath}
+            isSelected={node.path === selectedPath}
+            onSelect={handleSelect}
+            isFocused={node.path === tabStopPath}
+            onOpenMenu={handleOpenMenu}
+            onOpenTable={handleOpenTable}
+            onDecode={handleDecode}
+            decodeError={decodeErrors.get(node.path)}
+            editor={node.id === editing?.id ? editor ?? undefined : undefined}
+            onStartEdit={editable && node.graftInput === undefined ? handleStartEdit : undefined}
+            onCommitEdit={handleCommitEdit}
+            onCancelEdit={handleCancelEdit}
+            annotations={rowAnnotations(annotationsByPath, node)}
+          />
         ))}
       </div>
     )
@@ -98,17 +872,62 @@ export function JsonTreeView({
 
   // Large trees: use virtual scrolling
   return (
-    <div class="json-tree-container" role="tree">
+    <div
+      class="json-tree-container"
+      role="tree"
+      ref={containerRef}
+      onKeyDown={handleTreeKeyDown}
+    >
+      {searchBar}
+      {copyMenu}
+      {stickyRows.length > 0 && (
+        // Decorative copies of ancestor rows; the real rows stay in the list
+        <div class="sticky-headers" aria-hidden="true">
+          {stickyRows.map((index) => (
+            <div
+              key={flatNodes[index].id}
+              class="sticky-header"
+              onClick={() => listRef.current?.scrollToRow({ index, align: 'start' })}
+            >
+              <JsonNode
+                node={flatNodes[index]}
+                onToggle={handleToggle}
+                style={{ height: rowHeight }}
+              />
+            </div>
+          ))}
+        </div>
+      )}
       <List
-        height={containerHeight}
-        itemCount={flatNodes.length}
-        itemSize={rowHeight}
-        width="100%"
+        listRef={listRef}
+        // Rows are treeitems of the container, not items of a list
+        role="presentation"
+        style={{ height: containerHeight, width: '100%' }}
+        rowCount={flatNodes.length}
+        rowHeight={rowHeight}
         overscanCount={10}
-        itemData={flatNodes}
-      >
-        {Row}
-      </List>
+        rowComponent={rowComponent<RowProps>(Row)}
+        rowProps={{
+          nodes: flatNodes,
+          onToggle: handleToggle,
+          searchQuery,
+          activePath,
+          selectedPath,
+          onSelect: handleSelect,
+          focusedPath: tabStopPath,
+          onOpenMenu: handleOpenMenu,
+          onOpenTable: handleOpenTable,
+          onDecode: handleDecode,
+          decodeErrors,
+          editingId: editing?.id ?? null,
+          editor,
+          onStartEdit: editable ? handleStartEdit : undefined,
+          onCommitEdit: handleCommitEdit,
+          onCancelEdit: handleCancelEdit,
+          annotations: annotationsByPath,
+        }}
+        onRowsRendered={handleRowsRendered}
+      />
     </div>
   )
 }
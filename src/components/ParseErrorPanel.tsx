@@ -0,0 +1,89 @@
+import type { ParseDiagnosis } from '../lib/parser/diagnose'
+import './ParseErrorPanel.css'
+
+export interface ParseErrorPanelProps {
+  /** What went wrong and where */
+  diagnosis: ParseDiagnosis
+  /** Re-parses with tolerant: true (the button is hidden without it) */
+  onOpenTolerant?: () => void
+  /** Shows the unformatted text */
+  onShowRaw?: () => void
+}
+
+/**
+ * Shown instead of the tree when the document does not parse: the message,
+ * its line, column and JSON path, a code frame with a caret under the
+ * offending character, and suggested fixes.
+ */
+export function ParseErrorPanel({ diagnosis, onOpenTolerant, onShowRaw }: ParseErrorPanelProps) {
+  const { message, line, column, path, frame, suggestions } = diagnosis
+  // Wide enough for the last line number
+  const gutter = String(frame.length > 0 ? frame[frame.length - 1].line : 0).length
+
+  return (
+    <section class="parse-error-panel" role="alert" aria-labelledby="parse-error-title">
+      <h2 class="parse-error-title" id="parse-error-title">
+        This document is not valid JSON
+      </h2>
+      <p class="parse-error-message">{message}</p>
+
+      {line !== null && (
+        <p class="parse-error-location">
+          Line {line}, column {column}
+          {path && (
+            <>
+              {' · '}
+              <code class="parse-error-path">{path}</code>
+            </>
+          )}
+        </p>
+      )}
+
+      {frame.length > 0 && (
+        <pre class="parse-error-frame">
+          {frame.map((frameLine) => (
+            <span
+              key={frameLine.line}
+              class={`parse-error-frame-line${frameLine.caret ? ' parse-error-frame-error' : ''}`}
+            >
+              <span class="parse-error-frame-number">
+                {String(frameLine.line).padStart(gutter)} |{' '}
+              </span>
+              {frameLine.text}
+              {'\n'}
+              {frameLine.caret !== undefined && (
+                <span class="parse-error-caret" aria-hidden="true">
+                  {' '.repeat(gutter + 3 + frameLine.caret - 1)}^{'\n'}
+                </span>
+              )}
+            </span>
+          ))}
+        </pre>
+      )}
+
+      {suggestions.length > 0 && (
+        <>
+          <h3 class="parse-error-heading">Suggested fixes</h3>
+          <ul class="parse-error-suggestions">
+            {suggestions.map((suggestion) => (
+              <li key={suggestion.kind}>{suggestion.message}</li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      <div class="parse-error-actions">
+        {onOpenTolerant && (
+          <button class="parse-error-button" type="button" onClick={onOpenTolerant}>
+            Open in tolerant mode
+          </button>
+        )}
+        {onShowRaw && (
+          <button class="parse-error-button" type="button" onClick={onShowRaw}>
+            Show raw text
+          </button>
+        )}
+      </div>
+    </section>
+  )
+}
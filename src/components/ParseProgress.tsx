@@ -0,0 +1,36 @@
+import './ParseProgress.css'
+
+export interface ParseProgressProps {
+  /** Characters parsed so far (0 while the parser has not reported yet) */
+  loaded: number
+  /** Length of the document */
+  total: number
+  /** Stops parsing */
+  onCancel: () => void
+}
+
+/**
+ * Toolbar indicator shown while a large document is parsed in the
+ * background. The bar is indeterminate until the parser reports progress
+ * (the native parser never does).
+ */
+export function ParseProgress({ loaded, total, onCancel }: ParseProgressProps) {
+  const percent = total > 0 ? Math.floor((loaded / total) * 100) : 0
+
+  return (
+    <div class="parse-progress">
+      <span class="parse-progress-label" role="status">
+        {loaded > 0 ? `Parsing… ${percent}%` : 'Parsing…'}
+      </span>
+      <progress
+        class="parse-progress-bar"
+        aria-label="Parsing progress"
+        max={total}
+        value={loaded > 0 ? loaded : undefined}
+      />
+      <button class="parse-progress-cancel" type="button" onClick={onCancel}>
+        Cancel
+      </button>
+    </div>
+  )
+}
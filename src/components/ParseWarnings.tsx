@@ -0,0 +1,87 @@
+import { useState, useEffect, useRef } from 'preact/hooks'
+import type { ParseErrorInfo } from '../lib/parser/types'
+import './ParseWarnings.css'
+
+export interface ParseWarningsProps {
+  /** Errors tolerant mode recovered from and duplicate keys, in document order */
+  errors: ParseErrorInfo[]
+  /** Reveals the node an error was recorded at */
+  onNavigate: (path: string) => void
+}
+
+/**
+ * Where an error was found, as "Line 3, column 12"
+ */
+function errorLocation(error: ParseErrorInfo): string {
+  return error.line !== undefined
+    ? `Line ${error.line}, column ${error.column}`
+    : `Position ${error.position}`
+}
+
+/**
+ * Toolbar warning badge for documents that parsed with problems: errors
+ * tolerant mode recovered from, and duplicate keys. Shows how many there
+ * are; clicking it lists them, and choosing one reveals the node it was
+ * recorded at. Escape or a click outside closes the list.
+ */
+export function ParseWarnings({ errors, onNavigate }: ParseWarningsProps) {
+  const [open, setOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    const handlePointerDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handlePointerDown)
+    return () => document.removeEventListener('mousedown', handlePointerDown)
+  }, [open])
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape' && open) {
+      e.preventDefault()
+      setOpen(false)
+    }
+  }
+
+  const count = errors.length
+  const label = `${count} parse ${count === 1 ? 'warning' : 'warnings'}`
+
+  return (
+    <div class="parse-warnings" ref={containerRef} onKeyDown={handleKeyDown}>
+      <button
+        class="parse-warnings-badge"
+        type="button"
+        aria-expanded={open}
+        aria-label={label}
+        title={label}
+        onClick={() => setOpen((value) => !value)}
+      >
+        ⚠ {count}
+      </button>
+      {open && (
+        <ul class="parse-warnings-list" aria-label="Parse warnings">
+          {errors.map((error, index) => (
+            <li key={index}>
+              <button
+                class="parse-warnings-item"
+                type="button"
+                onClick={() => {
+                  setOpen(false)
+                  onNavigate(error.path)
+                }}
+              >
+                <span class="parse-warnings-location">{errorLocation(error)}</span>
+                <span>{error.message}</span>
+                {error.recovery && (
+                  <span class="parse-warnings-recovery">{error.recovery}</span>
+                )}
+                <code class="parse-warnings-path">{error.path}</code>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
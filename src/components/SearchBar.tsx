@@ -0,0 +1,126 @@
+import { useEffect, useRef } from 'preact/hooks'
+import './SearchBar.css'
+
+export interface SearchBarProps {
+  /** Current query text */
+  query: string
+  /** Called on every edit of the query */
+  onQueryChange: (query: string) => void
+  /** Total number of matches for the query */
+  matchCount: number
+  /** Index of the current match (0-based), or -1 if none */
+  activeIndex: number
+  /** Move to the next match */
+  onNext: () => void
+  /** Move to the previous match */
+  onPrevious: () => void
+  /** Close the search bar */
+  onClose: () => void
+  /** Whether the tree is pruned to matching nodes */
+  filterActive?: boolean
+  /** Toggle filter mode (button hidden when omitted) */
+  onToggleFilter?: () => void
+}
+
+/**
+ * Find-in-document bar for the JSON tree.
+ * Enter moves to the next match, Shift+Enter to the previous one, Escape closes.
+ * The optional filter toggle prunes the tree to matches and their ancestors.
+ */
+export function SearchBar({
+  query,
+  onQueryChange,
+  matchCount,
+  activeIndex,
+  onNext,
+  onPrevious,
+  onClose,
+  filterActive = false,
+  onToggleFilter,
+}: SearchBarProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    inputRef.current?.focus()
+    inputRef.current?.select()
+  }, [])
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      if (e.shiftKey) {
+        onPrevious()
+      } else {
+        onNext()
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      onClose()
+    }
+  }
+
+  const status = !query
+    ? ''
+    : matchCount === 0
+      ? 'No results'
+      : `${activeIndex + 1} of ${matchCount}`
+
+  return (
+    <div class="search-bar" role="search">
+      <input
+        ref={inputRef}
+        class="search-bar-input"
+        type="search"
+        value={query}
+        placeholder="Find in JSON"
+        aria-label="Find in JSON"
+        onInput={(e) => onQueryChange((e.target as HTMLInputElement).value)}
+        onKeyDown={handleKeyDown}
+      />
+      <span class="search-bar-status" aria-live="polite">
+        {status}
+      </span>
+      {onToggleFilter && (
+        <button
+          class={`search-bar-button search-bar-filter${filterActive ? ' active' : ''}`}
+          type="button"
+          onClick={onToggleFilter}
+          aria-pressed={filterActive}
+          aria-label="Show only matches"
+          title="Show only matching nodes"
+        >
+          ⧩
+        </button>
+      )}
+      <button
+        class="search-bar-button"
+        type="button"
+        onClick={onPrevious}
+        disabled={matchCount === 0}
+        aria-label="Previous match"
+        title="Previous match (Shift+Enter)"
+      >
+        ↑
+      </button>
+      <button
+        class="search-bar-button"
+        type="button"
+        onClick={onNext}
+        disabled={matchCount === 0}
+        aria-label="Next match"
+        title="Next match (Enter)"
+      >
+        ↓
+      </button>
+      <button
+        class="search-bar-button"
+        type="button"
+        onClick={onClose}
+        aria-label="Close search"
+        title="Close (Escape)"
+      >
+        ✕
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,213 @@
+import { useMemo, useRef, useEffect } from 'preact/hooks'
+import { List, type ListImperativeAPI } from 'react-window'
+import { fitListHeight, rowComponent } from './virtualList'
+import type { LineIndex } from '../lib/parser/line-index'
+import type { SourceRange } from '../lib/parser/source-map'
+import './SourceView.css'
+
+export interface SourceViewProps {
+  /** Line index of the document (its input is the text shown) */
+  lines: LineIndex
+  /** Range to highlight and scroll into view */
+  highlight?: SourceRange | null
+  /** Called with the offset of the clicked character */
+  onOffsetClick?: (offset: number) => void
+  /** Row height in pixels (default: 20) */
+  rowHeight?: number
+  /** Enable virtual scrolling (default: true for large documents) */
+  virtual?: boolean
+  /** Characters per row; longer lines continue on the next rows (default: 200) */
+  wrapColumn?: number
+}
+
+/**
+ * Display rows: each line takes one row per wrapColumn characters
+ */
+interface SourceRows {
+  /** First row of each line (index 0 is line 1), then the total row count */
+  lineRows: Uint32Array
+  wrapColumn: number
+}
+
+function buildRows(lines: LineIndex, wrapColumn: number): SourceRows {
+  const lineRows = new Uint32Array(lines.lineCount + 1)
+  for (let line = 1; line <= lines.lineCount; line++) {
+    const length = lines.lineEnd(line) - lines.lineStart(line)
+    lineRows[line] = lineRows[line - 1] + Math.max(1, Math.ceil(length / wrapColumn))
+  }
+  return { lineRows, wrapColumn }
+}
+
+/**
+ * Row showing an offset
+ */
+function rowAtOffset(rows: SourceRows, lines: LineIndex, offset: number): number {
+  const { line, column } = lines.locate(offset)
+  const last = rows.lineRows[line] - 1
+  return Math.min(rows.lineRows[line - 1] + Math.floor((column - 1) / rows.wrapColumn), last)
+}
+
+/**
+ * Line and text range of a row
+ */
+function rowRange(rows: SourceRows, lines: LineIndex, index: number) {
+  // Last line whose first row is at or before index
+  let low = 0
+  let high = lines.lineCount - 1
+  while (low < high) {
+    const mid = (low + high + 1) >>> 1
+    if (rows.lineRows[mid] <= index) low = mid
+    else high = mid - 1
+  }
+  const line = low + 1
+  const segment = index - rows.lineRows[low]
+  const start = lines.lineStart(line) + segment * rows.wrapColumn
+  return { line, segment, start, end: Math.min(lines.lineEnd(line), start + rows.wrapColumn) }
+}
+
+/**
+ * Offset of the clicked character within an element's text, when the
+ * browser can tell (caretPositionFromPoint)
+ */
+function caretOffset(event: MouseEvent, element: HTMLElement): number | null {
+  const caret = document.caretPositionFromPoint?.(event.clientX, event.clientY)
+  if (!caret || !element.contains(caret.offsetNode)) return null
+
+  let offset = 0
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT)
+  for (let text = walker.nextNode(); text; text = walker.nextNode()) {
+    if (text === caret.offsetNode) return offset + caret.offset
+    offset += text.textContent?.length ?? 0
+  }
+  return null
+}
+
+/**
+ * Props passed to each row (via react-window's rowProps when virtualized)
+ */
+interface RowProps {
+  rows: SourceRows
+  lines: LineIndex
+  highlight: SourceRange | null
+  onOffsetClick?: (offset: number) => void
+}
+
+function Row({
+  index,
+  style,
+  rows,
+  lines,
+  highlight,
+  onOffsetClick,
+}: { index: number; style: Record<string, any> } & RowProps) {
+  const { line, segment, start, end } = rowRange(rows, lines, index)
+  const text = lines.input.slice(start, end)
+
+  // Part of the row inside the highlighted range (a line break counts as
+  // inside when the range continues on the next line)
+  const from = highlight ? Math.max(highlight.start, start) : 0
+  const to = highlight ? Math.min(highlight.end, end) : 0
+  const highlighted =
+    highlight !== null && (from < to || (highlight.start <= end && highlight.end > end))
+
+  const handleClick = (event: MouseEvent) => {
+    if (!onOffsetClick) return
+    const code = (event.currentTarget as HTMLElement).querySelector<HTMLElement>('.source-code')
+    const clicked = code ? caretOffset(event, code) : null
+    // Otherwise: the row's first non-blank character
+    const firstNonBlank = text.search(/\S/)
+    onOffsetClick(start + (clicked ?? Math.max(firstNonBlank, 0)))
+  }
+
+  return (
+    <div
+      class={`source-row${highlighted ? ' source-highlighted' : ''}`}
+      style={style}
+      onClick={handleClick}
+    >
+      <span class="source-number" aria-hidden="true">
+        {segment === 0 ? line : ''}
+      </span>
+      <span class="source-code">
+        {from < to ? (
+          <>
+            {text.slice(0, from - start)}
+            <mark class="source-mark">{text.slice(from - start, to - start)}</mark>
+            {text.slice(to - start)}
+          </>
+        ) : (
+          text
+        )}
+      </span>
+    </div>
+  )
+}
+
+/**
+ * Raw view of the document with line numbers. Highlights a source range
+ * (the node selected in the tree) and reports clicked offsets so the tree
+ * can reveal the node there. Long lines, such as minified JSON, continue on
+ * the next rows so they can be virtualized.
+ */
+export function SourceView({
+  lines,
+  highlight = null,
+  onOffsetClick,
+  rowHeight = 20,
+  virtual = true,
+  wrapColumn = 200,
+}: SourceViewProps) {
+  const listRef = useRef<ListImperativeAPI>(null)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const rows = useMemo(() => buildRows(lines, wrapColumn), [lines, wrapColumn])
+  const rowCount = rows.lineRows[lines.lineCount]
+  const useVirtual = virtual && rowCount >= 100
+
+  useEffect(() => {
+    if (!highlight) return
+    if (useVirtual) {
+      const index = rowAtOffset(rows, lines, highlight.start)
+      listRef.current?.scrollToRow({ index, align: 'center' })
+    } else {
+      const row = containerRef.current?.querySelector('.source-highlighted')
+      row?.scrollIntoView?.({ block: 'nearest' })
+    }
+  }, [highlight, rows, lines, useVirtual])
+
+  // Leave room for the page toolbar
+  const listHeight = useMemo(
+    () => fitListHeight(rowCount * rowHeight, 60),
+    [rowCount, rowHeight]
+  )
+
+  const rowProps: RowProps = { rows, lines, highlight, onOffsetClick }
+  // Wide enough for the last line number
+  const gutter = { '--source-gutter': `${String(lines.lineCount).length + 1}ch` }
+
+  return (
+    <div
+      class={`source-view${onOffsetClick ? ' source-clickable' : ''}`}
+      ref={containerRef}
+      style={gutter}
+      role="region"
+      aria-label="Source"
+    >
+      {useVirtual ? (
+        <List
+          listRef={listRef}
+          style={{ height: listHeight }}
+          rowCount={rowCount}
+          rowHeight={rowHeight}
+          overscanCount={10}
+          rowComponent={rowComponent<RowProps>(Row)}
+          rowProps={rowProps}
+        />
+      ) : (
+        Array.from({ length: rowCount }, (_, index) => (
+          <Row key={index} index={index} style={{ height: rowHeight }} {...rowProps} />
+        ))
+      )}
+    </div>
+  )
+}
@@ -26,6 +26,18 @@ export type { ParserSelectorProps } from './ParserSelector'
 export { ParserIcon } from './ParserIcon'
 export type { ParserIconProps } from './ParserIcon'
 
+export { Breadcrumbs } from './Breadcrumbs'
+export type { BreadcrumbsProps } from './Breadcrumbs'
+
+export { EditControls } from './EditControls'
+export type { EditControlsProps } from './EditControls'
+
+export { ParseProgress } from './ParseProgress'
+export type { ParseProgressProps } from './ParseProgress'
+
+export { ParseWarnings } from './ParseWarnings'
+export type { ParseWarningsProps } from './ParseWarnings'
+
 // Form components
 export { RadioGroup } from './RadioGroup'
 export type { RadioGroupProps, RadioOption } from './RadioGroup'
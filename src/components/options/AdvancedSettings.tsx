@@ -8,6 +8,7 @@ export interface AdvancedSettingsProps {
   showPerformanceMetrics: boolean
   enableCustomParser: boolean
   autoSwitchThreshold: number
+  jsonContentTypes: string[]
   onChange: (settings: Partial<AdvancedSettingsProps>) => void
 }
 
@@ -19,6 +20,7 @@ export function AdvancedSettings({
   showPerformanceMetrics,
   enableCustomParser,
   autoSwitchThreshold,
+  jsonContentTypes,
   onChange,
 }: AdvancedSettingsProps) {
   const [isExpanded, setIsExpanded] = useState(false)
@@ -84,6 +86,40 @@ export function AdvancedSettings({
           suffix: 'MB',
           helpText: 'Set to 0 to disable auto-switching',
         })
+      ),
+
+      // Detection settings
+      h(
+        'div',
+        { className: 'parser-settings-subsection' },
+        h('h4', { className: 'subsection-title' }, 'Detection'),
+
+        h(
+          'div',
+          { className: 'content-types-group' },
+          h('label', { htmlFor: 'jsonContentTypes' }, 'Content types formatted as JSON:'),
+          // Saved on change (blur) so blank lines can be typed
+          h('textarea', {
+            id: 'jsonContentTypes',
+            rows: 6,
+            spellcheck: false,
+            value: jsonContentTypes.join('\n'),
+            onChange: (e: Event) =>
+              onChange({
+                jsonContentTypes: (e.target as HTMLTextAreaElement).value
+                  .split('\n')
+                  .map((type) => type.trim())
+                  .filter(Boolean),
+              }),
+          }),
+          h(
+            'p',
+            { className: 'help-text' },
+            'One per line; * matches anything, as in application/*+json. ' +
+              'Pages served with these types are formatted even when other ' +
+              'extensions change their markup.'
+          )
+        )
       )
     )
   )
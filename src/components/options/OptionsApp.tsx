@@ -27,6 +27,7 @@ import {
   type ParserType,
   type ParserSettings
 } from '../../lib/parser-selection'
+import { DEFAULT_JSON_CONTENT_TYPES } from '../../lib/getResult'
 import { getRolloutPercentage, FeatureFlag } from '../../lib/featureFlags'
 import { ThemePicker, type Theme } from '../ThemePicker'
 
@@ -360,6 +361,7 @@ ${summary.dateRange.oldest} to ${summary.dateRange.newest}`
           showPerformanceMetrics: settings.showPerformanceMetrics,
           enableCustomParser: settings.enableCustomParser,
           autoSwitchThreshold: settings.autoSwitchThreshold,
+          jsonContentTypes: settings.jsonContentTypes ?? DEFAULT_JSON_CONTENT_TYPES,
           onChange: (partial) => setSettings({ ...settings, ...partial })
         }),
 
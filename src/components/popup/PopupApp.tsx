@@ -2,6 +2,7 @@ import { h } from 'preact'
 import { useState, useEffect } from 'preact/hooks'
 import { PermissionManager } from './PermissionManager'
 import { ParserStatus } from './ParserStatus'
+import { VIEWER_PAGE } from '../../lib/viewer/handoff'
 
 /**
  * Main popup app component
@@ -22,6 +23,10 @@ export function PopupApp() {
     chrome.runtime.openOptionsPage()
   }
 
+  const handleOpenViewer = () => {
+    void chrome.tabs.create({ url: chrome.runtime.getURL(VIEWER_PAGE) })
+  }
+
   return h(
     'div',
     { className: 'popup-container' },
@@ -61,6 +66,14 @@ export function PopupApp() {
       { id: 'parser-section' },
       h('legend', null, 'JSON Parser'),
       h(ParserStatus, { tab: currentTab })
+    ),
+
+    // Viewer page for local files and pasted text
+    h(
+      'fieldset',
+      { id: 'viewer-section' },
+      h('legend', null, 'JSON Viewer'),
+      h('button', { onClick: handleOpenViewer }, 'Open a file or paste JSON')
     )
   )
 }
@@ -0,0 +1,332 @@
+import { h } from 'preact'
+import { useState, useEffect, useMemo, useRef, useCallback } from 'preact/hooks'
+import type { ParserOptions } from '../../lib/parser/types'
+import type { ParserType } from '../../lib/parser-selection'
+import { isJsonNode } from '../../lib/integration/types'
+import { diagnoseParseError } from '../../lib/parser/diagnose'
+import { LineIndex } from '../../lib/parser/line-index'
+import { sourceRangeAtPath, pathAtOffset } from '../../lib/parser/source-map'
+import { renderToolbar } from '../../lib/renderUI'
+import { decodeJsonText, describeEncodings, isEncodedText } from '../../lib/decode'
+import {
+  parseViewerDocument,
+  readViewerFile,
+  saveViewerDocument,
+  VIEWER_FILE_TYPES,
+  type ViewerDocument,
+  type ViewerSource,
+} from '../../lib/viewer'
+import { JsonTreeView, type JsonTreeViewAPI } from '../JsonTreeView'
+import { JsonLinesView } from '../JsonLinesView'
+import { SourceView } from '../SourceView'
+import { ParseErrorPanel } from '../ParseErrorPanel'
+import { ParseWarnings } from '../ParseWarnings'
+import { Breadcrumbs } from '../Breadcrumbs'
+import { Toolbar } from '../Toolbar'
+import { Toggle } from '../Toggle'
+import { ParserIcon } from '../ParserIcon'
+import { Button } from '../Button'
+import { ThemePicker, type Theme } from '../ThemePicker'
+import './ViewerApp.css'
+
+export interface ViewerAppProps {
+  /** Reads the document the page was opened on (null: ask for one) */
+  load: () => Promise<ViewerDocument | null>
+  /** ExactJSON options from the settings */
+  options?: ParserOptions
+  /** Parser selected from the settings (default: 'custom') */
+  parser?: ParserType
+  /** Theme from the settings */
+  theme?: Theme
+  /** Saves a theme chosen in the toolbar */
+  onThemeChange?: (theme: Theme) => void
+  /** Toolbar icon */
+  iconUrl?: string
+}
+
+const SOURCE_LABELS: Record<ViewerSource, string> = {
+  selection: 'Selection',
+  clipboard: 'Clipboard',
+  paste: 'Pasted text',
+  file: 'File',
+}
+
+/**
+ * Extension page showing JSON from a selection, the clipboard, pasted text
+ * or a local file (opened, or dropped anywhere on the page) with the same
+ * toolbar, tree and raw view as formatted pages. Snippets are parsed like a
+ * page's document, falling back to tolerant mode; base64, JWT and
+ * compressed text is offered to be decoded. Without a document it asks
+ * for one.
+ */
+export function ViewerApp({
+  load,
+  options,
+  parser: initialParser = 'custom',
+  theme = 'system',
+  onThemeChange,
+  iconUrl = '../icons/icon32.png',
+}: ViewerAppProps) {
+  const [loading, setLoading] = useState(true)
+  const [doc, setDoc] = useState<ViewerDocument | null>(null)
+  // Incremented for each document shown, so each starts from a fresh tree
+  const [docVersion, setDocVersion] = useState(0)
+  const [draft, setDraft] = useState('')
+  const [parser, setParser] = useState<ParserType>(initialParser)
+  const [isFormatted, setIsFormatted] = useState(true)
+  const [breadcrumbPath, setBreadcrumbPath] = useState<string | null>(null)
+  const [selectedPath, setSelectedPath] = useState<string | null>(null)
+  const [dragging, setDragging] = useState(false)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const treeApi = useRef<JsonTreeViewAPI>(null)
+  const fileInput = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    load()
+      .then(setDoc, (error) => console.error('Viewer document unavailable:', error))
+      .finally(() => setLoading(false))
+  }, [load])
+
+  const view = useMemo(
+    () => (doc ? parseViewerDocument(doc, parser, options) : null),
+    [doc, parser, options]
+  )
+
+  const show = useCallback((next: ViewerDocument) => {
+    saveViewerDocument(next)
+    setDoc(next)
+    setDocVersion((version) => version + 1)
+    setErrorMessage(null)
+    setIsFormatted(true)
+    setBreadcrumbPath(null)
+    setSelectedPath(null)
+  }, [])
+
+  const open = useCallback(
+    async (file: File) => {
+      try {
+        show(await readViewerFile(file))
+      } catch (error) {
+        console.error('File unreadable:', error)
+        setErrorMessage(`${file.name} could not be read: ${(error as Error).message}`)
+      }
+    },
+    [show]
+  )
+
+  // Replaces the document with the JSON it encodes
+  const decode = async () => {
+    if (!doc) return
+    try {
+      const { text, encodings } = await decodeJsonText(doc.text)
+      show({ ...doc, text, encodings: [...(doc.encodings ?? []), ...encodings] })
+    } catch (error) {
+      setErrorMessage(`Could not decode: ${(error as Error).message}`)
+    }
+  }
+
+  const edit = () => {
+    setDraft(doc?.text ?? '')
+    setDoc(null)
+  }
+
+  // Files can be dropped, and text pasted, anywhere on the page
+  useEffect(() => {
+    const handleDragOver = (e: DragEvent) => {
+      if (!e.dataTransfer?.types.includes('Files')) return
+      e.preventDefault()
+      setDragging(true)
+    }
+    const handleDragLeave = (e: DragEvent) => {
+      // Leaving the window, not moving between elements
+      if (!e.relatedTarget) setDragging(false)
+    }
+    const handleDrop = (e: DragEvent) => {
+      const file = e.dataTransfer?.files[0]
+      setDragging(false)
+      if (!file) return
+      e.preventDefault()
+      open(file)
+    }
+    const handlePaste = (e: ClipboardEvent) => {
+      if ((e.target as Element).closest?.('input, textarea')) return
+      const text = e.clipboardData?.getData('text/plain')
+      if (text?.trim()) show({ text, source: 'paste' })
+    }
+
+    document.addEventListener('dragover', handleDragOver)
+    document.addEventListener('dragleave', handleDragLeave)
+    document.addEventListener('drop', handleDrop)
+    document.addEventListener('paste', handlePaste)
+    return () => {
+      document.removeEventListener('dragover', handleDragOver)
+      document.removeEventListener('dragleave', handleDragLeave)
+      document.removeEventListener('drop', handleDrop)
+      document.removeEventListener('paste', handlePaste)
+    }
+  }, [open, show])
+
+  useEffect(() => {
+    document.title = doc?.name ? `${doc.name} - JSON Viewer` : 'JSON Viewer - JSON Formatter Pro'
+  }, [doc])
+
+  // Raw view: the document's text; the tree's offsets are in the part of it
+  // that was parsed
+  const lines = useMemo(() => (doc && !isFormatted ? new LineIndex(doc.text) : null), [
+    doc,
+    isFormatted,
+  ])
+  const inputStart = doc && view && view.kind !== 'lines' ? doc.text.indexOf(view.input) : 0
+  const tree = view?.kind === 'tree' && isJsonNode(view.data) ? view.data : null
+  const highlightRange = tree && selectedPath ? sourceRangeAtPath(tree, selectedPath) : null
+
+  const revealOffset = (offset: number) => {
+    const path = tree && pathAtOffset(tree, offset - inputStart)
+    if (!path) return
+    setIsFormatted(true)
+    // The tree mounts again on the next render
+    setTimeout(() => treeApi.current?.navigateTo(path))
+  }
+
+  const actions = [
+    <input
+      key="file"
+      ref={fileInput}
+      type="file"
+      accept={VIEWER_FILE_TYPES}
+      hidden
+      onChange={(e) => {
+        const input = e.target as HTMLInputElement
+        if (input.files?.[0]) open(input.files[0])
+        input.value = ''
+      }}
+    />,
+    <Button key="open" onClick={() => fileInput.current?.click()}>
+      Open file…
+    </Button>,
+    doc && (
+      <Button key="edit" onClick={edit}>
+        Edit text
+      </Button>
+    ),
+    <ThemePicker key="theme" theme={theme} onThemeChange={onThemeChange} />,
+  ]
+
+  const note = doc
+    ? [
+        doc.name ?? SOURCE_LABELS[doc.source],
+        doc.encodings && `decoded from ${describeEncodings(doc.encodings)}`,
+        view?.kind === 'tree' ? view.note : null,
+      ]
+        .filter(Boolean)
+        .join(' · ')
+    : null
+
+  const toolbar = renderToolbar(h, Toolbar, Toggle, ParserIcon, {
+    h,
+    iconUrl,
+    isFormatted,
+    onFormatToggle: setIsFormatted,
+    currentParser: parser,
+    onParserChange: setParser,
+    showParserSelector: true,
+    note,
+    Breadcrumbs: isFormatted && view?.kind === 'tree' ? Breadcrumbs : undefined,
+    breadcrumbPath,
+    onBreadcrumbNavigate: (path: string) => treeApi.current?.navigateTo(path),
+    ParseWarnings:
+      isFormatted && view?.kind === 'tree' && view.warnings.length > 0 ? ParseWarnings : undefined,
+    parseWarnings:
+      view?.kind === 'tree'
+        ? { errors: view.warnings, onNavigate: (path: string) => treeApi.current?.navigateTo(path) }
+        : null,
+    actions,
+  })
+
+  if (loading) return null
+
+  let content
+  if (!doc || !view) {
+    content = (
+      <form
+        class="viewer-input"
+        onSubmit={(e) => {
+          e.preventDefault()
+          if (draft.trim()) show({ text: draft, source: 'paste' })
+        }}
+      >
+        <label class="viewer-input-label" for="viewer-text">
+          Paste JSON, or text containing JSON
+        </label>
+        <textarea
+          id="viewer-text"
+          class="viewer-input-text"
+          rows={16}
+          spellcheck={false}
+          value={draft}
+          onInput={(e) => setDraft((e.target as HTMLTextAreaElement).value)}
+        />
+        <p class="viewer-input-hint">
+          Or drop a .json, .jsonl or .json.gz file anywhere on this page, or open one from the
+          toolbar.
+        </p>
+        <Button type="submit" variant="primary" disabled={!draft.trim()}>
+          Format
+        </Button>
+      </form>
+    )
+  } else if (!isFormatted && lines) {
+    content = (
+      <SourceView
+        lines={lines}
+        highlight={
+          highlightRange && {
+            start: highlightRange.start + inputStart,
+            end: highlightRange.end + inputStart,
+          }
+        }
+        onOffsetClick={tree ? revealOffset : undefined}
+      />
+    )
+  } else if (view.kind === 'lines') {
+    content = <JsonLinesView data={view.data} />
+  } else if (view.kind === 'tree') {
+    content = (
+      <JsonTreeView
+        key={docVersion}
+        data={view.data}
+        input={view.input}
+        annotations={view.warnings}
+        apiRef={treeApi}
+        onSelect={setSelectedPath}
+        onActivePathChange={setBreadcrumbPath}
+      />
+    )
+  } else {
+    content = (
+      <>
+        {isEncodedText(doc.text) && (
+          <p class="viewer-decode">
+            This looks like base64, a JWT or compressed data.
+            <Button onClick={decode}>Decode as JSON</Button>
+          </p>
+        )}
+        <ParseErrorPanel diagnosis={diagnoseParseError(view.input, view.error)} />
+      </>
+    )
+  }
+
+  return (
+    <div class={`viewer${dragging ? ' viewer-dragging' : ''}`}>
+      {toolbar}
+      <main class="viewer-content">
+        {errorMessage && (
+          <p class="viewer-error" role="alert">
+            {errorMessage}
+          </p>
+        )}
+        {content}
+      </main>
+    </div>
+  )
+}
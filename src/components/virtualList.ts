@@ -0,0 +1,41 @@
+/**
+ * Virtual List Helpers
+ *
+ * Shared by the views that render their rows with react-window's List.
+ */
+
+import type { VNode } from 'preact'
+import type { ListProps, RowComponentProps } from 'react-window'
+
+// Fallback when the window reports no height (jsdom in tests)
+const DEFAULT_WINDOW_HEIGHT = 600
+
+// react-window needs a non-zero height to render any rows
+const MIN_LIST_HEIGHT = 100
+
+/**
+ * A Preact row component typed as react-window's rowComponent
+ *
+ * react-window is typed against React elements; preact/compat renders
+ * Preact's the same way.
+ */
+export function rowComponent<RowProps extends object>(
+  row: (props: RowComponentProps<RowProps>) => VNode | null
+): ListProps<RowProps>['rowComponent'] {
+  return row as unknown as ListProps<RowProps>['rowComponent']
+}
+
+/**
+ * Height for a list: its content's height, at most the window's height
+ * minus what the page shows around the list
+ *
+ * @param contentHeight - Height of all rows
+ * @param reserved - Height of the toolbars and headers above the list
+ */
+export function fitListHeight(contentHeight: number, reserved: number): number {
+  const windowHeight =
+    typeof window !== 'undefined' && window.innerHeight > 0
+      ? window.innerHeight
+      : DEFAULT_WINDOW_HEIGHT
+  return Math.max(MIN_LIST_HEIGHT, Math.min(windowHeight - reserved, contentHeight))
+}
@@ -1,12 +1,54 @@
 import './lib/beforeAll'
-import { getResult } from './lib/getResult'
+import { getResult, stripJsonWrapper } from './lib/getResult'
 import { storage, getParserSettings } from './lib/storage'
 import { themeStorageKey, type Theme } from './lib/constants'
 import { renderToolbar } from './lib/renderUI'
 import { isFeatureEnabled, FeatureFlag } from './lib/featureFlags'
 import { parse as parseCustom } from './lib/parser/parse'
-import { selectParser, getSessionOverride, setActiveParser, type ParserType } from './lib/parser-selection'
+import {
+  selectParser,
+  getSessionOverride,
+  setActiveParser,
+  type ParserType,
+  type ParserSettings,
+} from './lib/parser-selection'
 import { logParserMetric, sanitizeErrorMessage } from './lib/metrics'
+import { hashFromPath, pathFromHash } from './lib/tree/hash'
+import {
+  createEditHistory,
+  commitEdit,
+  undoEdit,
+  redoEdit,
+  downloadJson,
+  downloadFileName,
+  type EditHistory,
+  type TextEdit,
+} from './lib/edit'
+import type { JsonTreeViewAPI } from './components/JsonTreeView'
+import type { CompareDocument, CompareTab } from './components/CompareSource'
+import { isJsonNode, type ParsedData } from './lib/integration/types'
+import { parseJsonLines, readJsonLines, type JsonLinesDocument } from './lib/ndjson'
+import {
+  parseInWorker,
+  ParseCancelledError,
+  ParseWorkerUnavailableError,
+  WORKER_MIN_LENGTH,
+  type WorkerParseResult,
+} from './lib/worker'
+import { createParseWorker } from './lib/worker/create'
+import type {
+  JsonNode,
+  ParseErrorInfo,
+  ParserOptions,
+  ParserResult,
+} from './lib/parser/types'
+import { ParseError } from './lib/parser/events'
+import { streamDocument } from './lib/stream'
+import { LineIndex } from './lib/parser/line-index'
+import { sourceRangeAtPath, pathAtOffset } from './lib/parser/source-map'
+import { diagnoseParseError } from './lib/parser/diagnose'
+import { findDuplicateKeys } from './lib/parser/duplicates'
+import type { ParseProgressProps } from './components/ParseProgress'
 // Use file URLs for stylesheets so we can inject <link> elements (debuggable & CSP-safe)
 // @ts-ignore
 import lightCssUrl from './style.css?url'
@@ -56,13 +98,36 @@ function applyTheme(value: Theme) {
 }
 
 const resultPromise = (async () => {
-  const result = getResult(document)
+  // The configured JSON content types never match an HTML page, so web
+  // pages are detected without reading the settings
+  const jsonContentTypes =
+    document.contentType === 'text/html'
+      ? undefined
+      : (await getParserSettings()).jsonContentTypes
+  const result = getResult(document, { jsonContentTypes })
   if (!result.formatted) return result
 
   const { element: originalPreElement } = result
 
+  // Text of the page. A JSONP callback or XSSI prefix around the JSON is
+  // blanked out, so the JSON keeps its offsets in the page text
+  const pageText = originalPreElement.textContent || ''
   // Store original JSON text for re-parsing with different parsers
-  const originalJsonText = originalPreElement.textContent || ''
+  const originalJsonText = result.wrapper ? stripJsonWrapper(pageText, result.wrapper) : pageText
+  // Document shown in the viewer; differs from the original once edited
+  let currentJsonText = originalJsonText
+
+  // JSONC documents (comments, trailing commas) only parse with ExactJSON
+  const exactJsonOptions = (settings: ParserSettings) => ({
+    ...settings.customParserOptions,
+    syntax: result.syntax,
+  })
+
+  // NDJSON is shown record by record; tree-only tools are left out
+  const isJsonLines = result.format === 'ndjson'
+  // Documents over the size limit are streamed (JSON Lines read in slices)
+  // and never parsed as a whole, so editing and diffs are left out
+  const isStreaming = result.streaming
 
   const themeValue = (await storage.get<Theme>(themeStorageKey, 'system')) || 'system'
   // Apply stylesheet links per current theme
@@ -77,10 +142,20 @@ const resultPromise = (async () => {
     parsedJsonContainer.id = 'jsonFormatterParsed'
     document.body.appendChild(parsedJsonContainer)
 
+    // Diff view; replaces the tree while comparing so the tree keeps its state
+    const diffContainer = document.createElement('div')
+    diffContainer.hidden = true
+    diffContainer.id = 'jsonFormatterDiff'
+    document.body.appendChild(diffContainer)
+
+    // Raw view: the text with line numbers. The pre stays in the page,
+    // hidden, as the document's plain text
     const rawJsonContainer = document.createElement('div')
     rawJsonContainer.hidden = true
     rawJsonContainer.id = 'jsonFormatterRaw'
-    rawJsonContainer.append(originalPreElement)
+    originalPreElement.hidden = true
+    const sourceContainer = document.createElement('div')
+    rawJsonContainer.append(originalPreElement, sourceContainer)
     document.body.appendChild(rawJsonContainer)
 
     // JSON validation complete: Successfully parsed valid JSON structure.
@@ -91,7 +166,16 @@ const resultPromise = (async () => {
 
       // Render Preact toolbar
       const { render, h } = await import('preact')
-      const { Toolbar, Toggle, ParserIcon } = await import('./components')
+      const {
+        Toolbar,
+        Toggle,
+        ParserIcon,
+        Breadcrumbs,
+        EditControls,
+        Button,
+        ParseProgress,
+        ParseWarnings,
+      } = await import('./components')
 
       // Create toolbar container with sticky positioning
       const toolbarContainer = document.createElement('div')
@@ -102,6 +186,37 @@ const resultPromise = (async () => {
       // Track formatting state
       let isFormatted = true
 
+      // Path shown in the breadcrumb bar, and the tree's API for crumb clicks
+      let breadcrumbPath: string | null = null
+      const treeApi: { current: JsonTreeViewAPI | null } = { current: null }
+
+      // Inline editing: undo/redo history while the Edit switch is on
+      let editHistory: EditHistory | null = null
+
+      // Diff mode: choosing the second document, then showing the diff
+      let currentData: ParsedData | null = null
+      let compareState: 'source' | CompareDocument | null = null
+
+      // Raw view: line index of the current text, and the node selected in
+      // the tree, highlighted in the source
+      let lineIndex: LineIndex | null = null
+      let selectedPath: string | null = pathFromHash(window.location.hash)
+      let sourceAst: ParserResult | null = null
+
+      // Background parse in progress; aborting the controller stops the worker
+      let parseController: AbortController | null = null
+      let parseProgress: ParseProgressProps | null = null
+
+      // Errors tolerant mode recovered from and duplicate keys, marked in the tree
+      let parseWarnings: ParseErrorInfo[] = []
+
+      // What was unwrapped to find the JSON
+      const wrapperNote = !result.wrapper
+        ? null
+        : result.wrapper.kind === 'jsonp'
+          ? `JSONP: ${result.wrapper.name}`
+          : 'XSSI prefix stripped'
+
       // Function to render/update toolbar (called on state changes)
       const updateToolbar = () => {
         render(
@@ -113,6 +228,38 @@ const resultPromise = (async () => {
             currentParser: selection.parser,
             onParserChange: handleParserChange,
             showParserSelector: true, // Always show parser selector - ExactJSON is now default
+            // Breadcrumbs only make sense for the tree view
+            Breadcrumbs: isFormatted && !isJsonLines ? Breadcrumbs : undefined,
+            breadcrumbPath,
+            onBreadcrumbNavigate: (path: string) => treeApi.current?.navigateTo(path),
+            // Editing happens in the tree view
+            EditControls: isFormatted && !isJsonLines && !isStreaming ? EditControls : undefined,
+            editControls: {
+              editing: editHistory !== null,
+              onEditToggle: handleEditToggle,
+              canUndo: (editHistory?.undoStack.length ?? 0) > 0,
+              canRedo: (editHistory?.redoStack.length ?? 0) > 0,
+              onUndo: () => editHistory && applyHistory(undoEdit(editHistory)),
+              onRedo: () => editHistory && applyHistory(redoEdit(editHistory)),
+              onDownload: () =>
+                downloadJson(currentJsonText, downloadFileName(window.location.href)),
+            },
+            // Diffs compare the parsed documents, so only offer them in the tree view
+            Button: isFormatted && !isJsonLines && !isStreaming ? Button : undefined,
+            onCompare: () => (compareState ? closeCompare() : openCompare()),
+            comparing: compareState !== null,
+            note: wrapperNote,
+            ParseProgress,
+            parseProgress,
+            ParseWarnings:
+              isFormatted && parseWarnings.length > 0 ? ParseWarnings : undefined,
+            parseWarnings: {
+              errors: parseWarnings,
+              onNavigate: (path: string) => {
+                if (compareState) closeCompare()
+                treeApi.current?.navigateTo(path)
+              },
+            },
           }),
           toolbarContainer
         )
@@ -120,6 +267,7 @@ const resultPromise = (async () => {
 
       const handleFormatToggle = (checked: boolean) => {
         isFormatted = checked
+        if (compareState) closeCompare()
         if (checked) {
           // Show parsed/formatted view
           rawJsonContainer.hidden = true
@@ -128,15 +276,135 @@ const resultPromise = (async () => {
           // Show raw view
           rawJsonContainer.hidden = false
           parsedJsonContainer.hidden = true
+          renderSource()
         }
         // Re-render toolbar to update toggle visual state
         updateToolbar()
       }
 
+      // Shows progress and a Cancel button in the toolbar until finish().
+      // A newer parse (e.g. after switching parsers) replaces a running one.
+      const startBackgroundParse = () => {
+        parseController?.abort()
+        const controller = new AbortController()
+        parseController = controller
+        const showProgress = (loaded: number, total: number) => {
+          parseProgress = {
+            loaded,
+            total,
+            onCancel: () => {
+              controller.abort()
+              handleFormatToggle(false)
+            },
+          }
+          updateToolbar()
+        }
+        const finish = () => {
+          if (parseController === controller) {
+            parseController = null
+            parseProgress = null
+            updateToolbar()
+          }
+        }
+        showProgress(0, currentJsonText.length)
+        return { signal: controller.signal, showProgress, finish }
+      }
+
+      // Large documents are parsed in a worker so the page stays responsive
+      const parseDocument = async (
+        parser: ParserType,
+        options: ParserOptions
+      ): Promise<WorkerParseResult> => {
+        const parseHere = (): WorkerParseResult => {
+          if (parser === 'native') return { data: JSON.parse(currentJsonText) }
+          const { ast, errors } = parseCustom(currentJsonText, options)
+          return { data: ast, errors }
+        }
+        if (currentJsonText.length < WORKER_MIN_LENGTH) return parseHere()
+
+        const background = startBackgroundParse()
+        try {
+          return await parseInWorker(currentJsonText, {
+            parser,
+            options,
+            createWorker: createParseWorker,
+            signal: background.signal,
+            onProgress: background.showProgress,
+          })
+        } catch (error) {
+          // The page's Content Security Policy may not allow workers
+          if (error instanceof ParseWorkerUnavailableError) {
+            console.warn('Parse worker unavailable, parsing on the main thread:', error.message)
+            return parseHere()
+          }
+          throw error
+        } finally {
+          background.finish()
+        }
+      }
+
+      // JSON Lines over the size limit are read in slices, with progress
+      const readLongJsonLines = async (parseLine?: (text: string) => JsonNode) => {
+        const background = startBackgroundParse()
+        try {
+          return await readJsonLines(currentJsonText, {
+            parseLine,
+            signal: background.signal,
+            onProgress: background.showProgress,
+          })
+        } finally {
+          background.finish()
+        }
+      }
+
+      // Why streaming stopped, shown above the partial tree
+      let streamNotice: HTMLElement | null = null
+
+      // Documents over the size limit are read in slices, showing the top
+      // level while the rest is read; deeper levels are parsed when expanded.
+      // Always ExactJSON, whichever parser is selected.
+      const renderStream = async () => {
+        const settings = await getParserSettings()
+        const background = startBackgroundParse()
+        streamNotice?.remove()
+        streamNotice = null
+
+        try {
+          const root = await streamDocument(currentJsonText, {
+            options: exactJsonOptions(settings),
+            signal: background.signal,
+            onUpdate: (partial, loaded, total) => {
+              background.showProgress(loaded, total)
+              renderTree(partial, 1)
+            },
+          })
+          await renderTree(root, 1)
+        } catch (error) {
+          // Cancelled from the toolbar, or replaced by a newer parse
+          if (error instanceof ParseCancelledError) return
+          if (!(error instanceof ParseError)) throw error
+
+          // What was read before the error stays on screen
+          console.error('Parser error:', error)
+          streamNotice = document.createElement('p')
+          streamNotice.className = 'stream-error'
+          streamNotice.setAttribute('role', 'alert')
+          streamNotice.textContent = `Stopped reading: ${error.message}`
+          parsedJsonContainer.before(streamNotice)
+        } finally {
+          background.finish()
+        }
+      }
+
       // Function to render JSON content with selected parser
-      const renderJsonContent = async (parser: ParserType) => {
+      // tolerant: ExactJSON in tolerant mode, whatever the settings say
+      // ("Open in tolerant mode" on the error page)
+      const renderJsonContent = async (parser: ParserType, tolerant = false) => {
         // Get parser settings
         const settings = await getParserSettings()
+        const exactOptions = tolerant
+          ? { ...exactJsonOptions(settings), tolerant: true }
+          : exactJsonOptions(settings)
 
         // Clear existing content - unmount any Preact components first
         const shouldUsePreact = await isFeatureEnabled(FeatureFlag.UsePreactRenderer)
@@ -147,31 +415,55 @@ const resultPromise = (async () => {
           parsedJsonContainer.innerHTML = ''
         }
 
+        if (isStreaming && !isJsonLines) {
+          await renderStream()
+          return
+        }
+
+        parseWarnings = []
+
         // Parse JSON with selected parser
-        let dataToRender: any
+        let dataToRender: ParsedData = null
+        let lines: JsonLinesDocument | undefined
         const startTime = performance.now()
         let parseSuccess = false
         let parseError: { type: string; message: string } | undefined
+        let failure: unknown
 
         try {
-          if (parser === 'custom') {
-            // Use ExactJSON with configured options
-            const parseResult = parseCustom(originalJsonText, settings.customParserOptions)
-            dataToRender = parseResult.ast
-
-            // Log errors if in tolerant mode
-            if (parseResult.errors && parseResult.errors.length > 0) {
-              console.warn('Parser recovered from errors:', parseResult.errors)
-            }
+          if (isJsonLines) {
+            // Each line parses on its own; bad lines are reported in the view
+            const parseLine =
+              parser === 'custom'
+                ? (text: string) => parseCustom(text, exactJsonOptions(settings)).ast
+                : undefined
+            lines = isStreaming
+              ? await readLongJsonLines(parseLine)
+              : parseJsonLines(currentJsonText, parseLine)
+          } else if (
+            parser === 'custom' ||
+            result.syntax !== 'json' ||
+            tolerant ||
+            result.parseError !== undefined
+          ) {
+            // Use ExactJSON with configured options. Pages that JSON.parse()
+            // rejected get it too, so its tolerant setting applies to them
+            const parseResult = await parseDocument('custom', exactOptions)
+            dataToRender = parseResult.data
+
+            parseWarnings = warningsOf(parseResult.data as JsonNode, parseResult.errors)
 
             console.log('Custom parser used with options:', settings.customParserOptions)
           } else {
             // Use native JSON.parse()
-            dataToRender = JSON.parse(originalJsonText)
+            dataToRender = (await parseDocument('native', {})).data
             console.log('Native parser used')
           }
           parseSuccess = true
         } catch (error) {
+          // Cancelled from the toolbar, or replaced by a newer parse
+          if (error instanceof ParseCancelledError) return
+
           console.error('Parser error:', error)
 
           // Capture error details for metrics
@@ -185,16 +477,17 @@ const resultPromise = (async () => {
           if (parser === 'custom') {
             console.warn('Custom parser failed, falling back to native parser')
             try {
-              dataToRender = JSON.parse(originalJsonText)
+              dataToRender = (await parseDocument('native', {})).data
               parseSuccess = true
               // Clear error since fallback succeeded
               parseError = undefined
             } catch (fallbackError) {
+              if (fallbackError instanceof ParseCancelledError) return
               // Both parsers failed
-              throw fallbackError
+              failure = fallbackError
             }
           } else {
-            throw error
+            failure = error
           }
         }
 
@@ -207,7 +500,7 @@ const resultPromise = (async () => {
         await logParserMetric({
           parser,
           selectionReason: selection.reason.type,
-          fileSizeBytes: originalJsonText.length,
+          fileSizeBytes: currentJsonText.length,
           parseTimeMs: parseTime,
           success: parseSuccess,
           error: parseError,
@@ -217,20 +510,252 @@ const resultPromise = (async () => {
           },
         })
 
-        // Render JSON using Preact virtual scrolling renderer
+        // Shows or clears the parse warnings badge
+        updateToolbar()
+
+        if (!parseSuccess) await renderParseError(exactOptions, failure)
+        else if (lines) await renderJsonLines(lines)
+        else await renderTree(dataToRender)
+      }
+
+      // Shown in the toolbar and on the tree's rows: errors tolerant mode
+      // recovered from, and duplicate keys (which JSON.parse would hide)
+      const warningsOf = (ast: JsonNode, errors: ParseErrorInfo[] = []) =>
+        [...errors, ...findDuplicateKeys(ast, currentJsonText)].sort(
+          (a, b) => a.position - b.position
+        )
+
+      // Neither parser could read the document: show where and why
+      const renderParseError = async (options: ParserOptions, error: unknown) => {
+        const { render, h } = await import('preact')
+        const { ParseErrorPanel } = await import('./components/ParseErrorPanel')
+
+        // Errors from the worker and JSON.parse carry no path, so ExactJSON
+        // reports the failure again
+        let reported = error
+        try {
+          parseCustom(currentJsonText, options)
+        } catch (exactError) {
+          reported = exactError
+        }
+
+        render(
+          h(ParseErrorPanel, {
+            diagnosis: diagnoseParseError(currentJsonText, reported),
+            onOpenTolerant: options.tolerant ? undefined : () => renderJsonContent('custom', true),
+            onShowRaw: () => handleFormatToggle(false),
+          }),
+          parsedJsonContainer
+        )
+      }
+
+      const renderJsonLines = async (data: JsonLinesDocument) => {
+        const { render, h } = await import('preact')
+        const { JsonLinesView } = await import('./components/JsonLinesView')
+
+        render(h(JsonLinesView, { data }), parsedJsonContainer)
+      }
+
+      // Render JSON using Preact virtual scrolling renderer. Re-rendering
+      // into the same container keeps the tree's expansion state.
+      const renderTree = async (data: ParsedData, initialExpandDepth = 3) => {
+        currentData = data
         const { render, h } = await import('preact')
         const { JsonTreeView } = await import('./components/JsonTreeView')
 
         render(
           h(JsonTreeView, {
-            data: dataToRender,
-            input: originalJsonText,
-            initialExpandDepth: 3,
+            data,
+            input: currentJsonText,
+            initialExpandDepth,
+            // Deep link: #$.users[12].address opens and scrolls to that node
+            initialPath: pathFromHash(window.location.hash) ?? undefined,
+            onSelect: (path: string) => {
+              selectedPath = path
+              // replaceState: selecting nodes should not flood the back button
+              history.replaceState(null, '', hashFromPath(path))
+            },
+            onActivePathChange: (path: string | null) => {
+              breadcrumbPath = path
+              updateToolbar()
+            },
+            apiRef: treeApi,
+            onEdit: editHistory ? handleEdit : undefined,
+            annotations: parseWarnings,
           }),
           parsedJsonContainer
         )
       }
 
+      // Source offsets of the tree shown. Native JSON.parse values carry none,
+      // so they are mapped with an ExactJSON parse made when first needed.
+      const sourceTree = async (): Promise<JsonNode | null> => {
+        if (isJsonNode(currentData)) return currentData
+        // Streamed documents are never parsed as a whole
+        if (isJsonLines || isStreaming) return null
+        if (sourceAst?.input !== currentJsonText) {
+          const settings = await getParserSettings()
+          try {
+            sourceAst = parseCustom(currentJsonText, exactJsonOptions(settings))
+          } catch (error) {
+            console.warn('Source positions unavailable:', error)
+            return null
+          }
+        }
+        return sourceAst.ast
+      }
+
+      const renderSource = async () => {
+        const { render, h } = await import('preact')
+        const { SourceView } = await import('./components/SourceView')
+        // Until edited, the page text as served, wrapper included
+        const text = currentJsonText === originalJsonText ? pageText : currentJsonText
+        if (lineIndex?.input !== text) lineIndex = new LineIndex(text)
+        const tree = selectedPath ? await sourceTree() : null
+
+        render(
+          h(SourceView, {
+            lines: lineIndex,
+            highlight: tree && selectedPath ? sourceRangeAtPath(tree, selectedPath) : null,
+            onOffsetClick: isJsonLines ? undefined : revealOffset,
+          }),
+          sourceContainer
+        )
+      }
+
+      // Clicking the source shows the node there in the formatted view
+      const revealOffset = async (offset: number) => {
+        const tree = await sourceTree()
+        const path = tree && pathAtOffset(tree, offset)
+        if (!path) return
+        handleFormatToggle(true)
+        treeApi.current?.navigateTo(path)
+      }
+
+      // Editing patches the ExactJSON AST's source text, so the edited
+      // document is always rendered from a fresh ExactJSON parse
+      const renderEditableTree = async () => {
+        const settings = await getParserSettings()
+        const { ast, errors } = parseCustom(currentJsonText, exactJsonOptions(settings))
+        parseWarnings = warningsOf(ast, errors)
+        updateToolbar()
+        await renderTree(ast)
+      }
+
+      const applyHistory = async (next: EditHistory) => {
+        editHistory = next
+        currentJsonText = next.input
+        // Keep the raw view in sync with the edited document
+        originalPreElement.textContent = currentJsonText
+        updateToolbar()
+        await renderEditableTree()
+      }
+
+      const handleEdit = (edit: TextEdit) => {
+        if (editHistory) applyHistory(commitEdit(editHistory, edit))
+      }
+
+      const handleEditToggle = async (editing: boolean) => {
+        editHistory = editing ? createEditHistory(currentJsonText) : null
+        updateToolbar()
+        await renderEditableTree()
+      }
+
+      // Parses the second document the same way as the current one, so
+      // ExactJSON numbers on both sides compare losslessly
+      const renderCompare = async () => {
+        const { render, h } = await import('preact')
+
+        if (compareState === 'source') {
+          const { CompareSource } = await import('./components/CompareSource')
+          const settings = await getParserSettings()
+          render(
+            h(CompareSource, {
+              parse: (text: string) =>
+                isJsonNode(currentData)
+                  ? parseCustom(text, exactJsonOptions(settings)).ast
+                  : JSON.parse(text),
+              loadTabs: loadCompareTabs,
+              loadTab: loadCompareTab,
+              onCompare: (document: CompareDocument) => {
+                compareState = document
+                renderCompare()
+              },
+              onCancel: closeCompare,
+            }),
+            diffContainer
+          )
+        } else if (compareState) {
+          const { JsonDiffView } = await import('./components/JsonDiffView')
+          render(
+            h(JsonDiffView, {
+              left: currentData,
+              leftInput: currentJsonText,
+              right: compareState.data,
+              rightInput: compareState.input,
+              leftLabel: document.title || window.location.href,
+              rightLabel: compareState.label,
+              onClose: closeCompare,
+            }),
+            diffContainer
+          )
+        }
+      }
+
+      const openCompare = () => {
+        compareState = 'source'
+        parsedJsonContainer.hidden = true
+        diffContainer.hidden = false
+        updateToolbar()
+        renderCompare()
+      }
+
+      const closeCompare = async () => {
+        compareState = null
+        const { render } = await import('preact')
+        render(null, diffContainer)
+        diffContainer.hidden = true
+        parsedJsonContainer.hidden = !isFormatted
+        updateToolbar()
+      }
+
+      // Other tabs are reached through the background script
+      const loadCompareTabs = async (): Promise<CompareTab[]> =>
+        (await chrome.runtime.sendMessage({ action: 'listJsonTabs' })) ?? []
+
+      const loadCompareTab = async (tabId: number): Promise<string> => {
+        const text = await chrome.runtime.sendMessage({ action: 'getTabJson', tabId })
+        if (typeof text !== 'string') throw new Error('The tab no longer shows a JSON document')
+        return text
+      }
+
+      // Lets other tabs compare against this document
+      chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+        if (message.action !== 'getJsonDocument') return false
+        sendResponse({
+          title: document.title,
+          url: window.location.href,
+          // Listing tabs only needs the summary
+          text: message.summary ? undefined : currentJsonText,
+        })
+        return false
+      })
+
+      // Undo/redo shortcuts while editing (text fields keep their own undo)
+      document.addEventListener('keydown', (e) => {
+        if (!editHistory || !(e.ctrlKey || e.metaKey)) return
+        if ((e.target as Element).closest?.('input, textarea')) return
+
+        const key = e.key.toLowerCase()
+        if (key === 'z' && !e.shiftKey) {
+          e.preventDefault()
+          applyHistory(undoEdit(editHistory))
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+          e.preventDefault()
+          applyHistory(redoEdit(editHistory))
+        }
+      })
+
       // Handle parser change - triggers re-parse and re-render
       const handleParserChange = async (parser: ParserType) => {
         console.log('Parser changed to:', parser)
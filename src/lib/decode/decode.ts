@@ -0,0 +1,175 @@
+/**
+ * Encoded Payloads
+ *
+ * Event payloads, tokens and cookies often carry JSON as base64 text, as a
+ * JWT, or as base64 of gzip/deflate/Brotli compressed bytes. This module
+ * recognizes such text and decodes it back to JSON text, decompressing
+ * with the browser's DecompressionStream.
+ */
+
+/**
+ * A layer of encoding removed while decoding, outermost first
+ */
+export type Encoding = 'base64' | 'jwt' | 'gzip' | 'deflate' | 'brotli'
+
+export type Compression = 'gzip' | 'deflate' | 'brotli'
+
+export interface DecodedText {
+  /** JSON text (an object or an array) */
+  text: string
+  /** Encodings removed, outermost first */
+  encodings: Encoding[]
+}
+
+// Shorter strings are ids and hashes far more often than payloads
+const MIN_ENCODED_LENGTH = 16
+
+const BASE64 = /^[A-Za-z0-9+/_-]+={0,2}$/
+const JWT = /^([\w-]+)\.([\w-]+)\.([\w-]*)$/
+
+// How base64 text starts when it encodes `{` or `[` (`ey`, `ew`, `e3`, `W`),
+// gzip (`H4sI`) or a zlib header (`eJ`, `eN`, `eA`)
+const ENCODED_JSON_START = /^(e[wy3JNA]|W|H4sI)/
+
+const ENCODING_LABELS: Record<Encoding, string> = {
+  base64: 'base64',
+  jwt: 'JWT',
+  gzip: 'gzip',
+  deflate: 'deflate',
+  brotli: 'Brotli',
+}
+
+/**
+ * Whether text is shaped like base64 (standard or URL-safe, line breaks
+ * allowed) or a JWT, whatever it encodes
+ */
+export function isEncodedText(text: string): boolean {
+  const value = text.replace(/\s+/g, '')
+  return value.length >= MIN_ENCODED_LENGTH && (BASE64.test(value) || JWT.test(value))
+}
+
+/**
+ * Whether a string value is likely encoded JSON: base64 of JSON or of
+ * gzip/zlib data, or a JWT. Checks the text only, so it is cheap enough
+ * for every string row; Brotli data has no signature and is not found.
+ */
+export function looksLikeEncodedJson(text: string): boolean {
+  return isEncodedText(text) && ENCODED_JSON_START.test(text.trimStart())
+}
+
+/**
+ * Decodes base64 or base64url text; padding and line breaks are optional
+ *
+ * @returns The bytes, or null when the text is not base64
+ */
+export function base64ToBytes(text: string): Uint8Array<ArrayBuffer> | null {
+  const base64 = text.replace(/\s+/g, '').replace(/-/g, '+').replace(/_/g, '/').replace(/=+$/, '')
+  if (!/^[A-Za-z0-9+/]*$/.test(base64) || base64.length % 4 === 1) return null
+
+  const binary = atob(base64)
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+/**
+ * Compression recognized by its header: the gzip magic number, or a zlib
+ * header (what DecompressionStream calls deflate)
+ */
+export function compressionOf(bytes: Uint8Array): 'gzip' | 'deflate' | null {
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) return 'gzip'
+  if (bytes.length > 2 && (bytes[0] & 0x0f) === 8 && ((bytes[0] << 8) | bytes[1]) % 31 === 0) {
+    return 'deflate'
+  }
+  return null
+}
+
+/**
+ * Decompresses bytes with DecompressionStream
+ *
+ * @throws TypeError when the browser does not support the format (Brotli
+ *   is newer than the others), or the data is corrupt
+ */
+export async function decompress(
+  bytes: Uint8Array<ArrayBuffer>,
+  format: Compression
+): Promise<Uint8Array<ArrayBuffer>> {
+  // 'brotli' is missing from the DOM typings' CompressionFormat
+  const stream = new DecompressionStream(format as CompressionFormat)
+  const buffer = await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer()
+  return new Uint8Array(buffer)
+}
+
+/**
+ * Describes the encodings removed from a payload, e.g. 'base64 + gzip'
+ */
+export function describeEncodings(encodings: Encoding[]): string {
+  return encodings.map((encoding) => ENCODING_LABELS[encoding]).join(' + ')
+}
+
+/**
+ * Decodes text holding encoded JSON
+ *
+ * A JWT decodes to `{"header": ..., "payload": ...}` (the signature is
+ * dropped). Base64 is decoded, then decompressed when the bytes start with
+ * a gzip or zlib header; bytes that are neither JSON nor either of those
+ * are tried as Brotli, which has no header.
+ *
+ * @throws Error when the text is not encoded, or does not decode to a JSON
+ *   object or array
+ */
+export async function decodeJsonText(text: string): Promise<DecodedText> {
+  const value = text.replace(/\s+/g, '')
+
+  const jwt = decodeJwt(value)
+  if (jwt !== null) return { text: jwt, encodings: ['jwt'] }
+
+  let bytes = base64ToBytes(value)
+  if (bytes === null) throw new Error('Not base64 or a JWT')
+  const encodings: Encoding[] = ['base64']
+
+  const compression = compressionOf(bytes)
+  if (compression) {
+    bytes = await decompress(bytes, compression)
+    encodings.push(compression)
+  }
+
+  let json = jsonText(bytes)
+  if (json === null && !compression) {
+    try {
+      json = jsonText(await decompress(bytes, 'brotli'))
+      if (json !== null) encodings.push('brotli')
+    } catch {
+      // Not Brotli either (or no Brotli support)
+    }
+  }
+
+  if (json === null) throw new Error(`The ${describeEncodings(encodings)} data is not JSON`)
+  return { text: json, encodings }
+}
+
+/**
+ * Header and payload of a JWT as a JSON object's text, or null when the
+ * text is not a JWT
+ */
+function decodeJwt(text: string): string | null {
+  const match = JWT.exec(text)
+  if (!match) return null
+
+  const [header, payload] = [match[1], match[2]].map((part) => {
+    const bytes = base64ToBytes(part)
+    return bytes && jsonText(bytes)
+  })
+  return header && payload ? `{"header": ${header}, "payload": ${payload}}` : null
+}
+
+/**
+ * UTF-8 text of the bytes when it is a JSON object or array
+ */
+function jsonText(bytes: Uint8Array): string | null {
+  let text: string
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    return null
+  }
+  return /^\s*[{[]/.test(text) ? text : null
+}
@@ -0,0 +1,8 @@
+/**
+ * Payload Decoding - Barrel Export
+ *
+ * This module recognizes and decodes base64, JWT and compressed payloads
+ * holding JSON.
+ */
+
+export * from './decode'
@@ -0,0 +1,376 @@
+/**
+ * Structural diff
+ *
+ * Compares two documents value by value and builds a tree of differences.
+ * Works on ParsedData through the DataAdapter interface, so either side can
+ * come from JSON.parse() or ExactJSON. ExactJSON numbers are compared by
+ * their source text in canonical form, so 12345678901234567890 and
+ * 12345678901234567891 differ even though they round to the same double,
+ * whatever the number mode they were parsed with.
+ */
+
+import { ParsedData, DataAdapter, ValueMetadata } from '../integration/types'
+import { createAdapter } from '../integration/adapters'
+import { childPath } from '../parser/json-path'
+import { canonicalNumber } from '../parser/numbers'
+
+/**
+ * How a value differs between the left and right documents
+ *
+ * - added: only in the right document
+ * - removed: only in the left document
+ * - changed: in both, with a different value (for containers: at least one
+ *   descendant differs, or the type changed)
+ * - unchanged: in both, structurally equal
+ */
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged'
+
+/**
+ * A value in the diff tree, paired across both documents
+ */
+export interface DiffNode {
+  status: DiffStatus
+
+  /** Member key for object members; null for array items and the root */
+  key: string | null
+
+  /** Item index in the left array (array items only) */
+  leftIndex?: number
+
+  /** Item index in the right array (array items only) */
+  rightIndex?: number
+
+  /** Path in the left document (absent when added) */
+  leftPath?: string
+
+  /** Path in the right document (absent when removed) */
+  rightPath?: string
+
+  /** Left value (absent when added) */
+  left?: ParsedData
+
+  /** Right value (absent when removed) */
+  right?: ParsedData
+
+  /**
+   * Members or items, when both sides are containers of the same type or
+   * the value exists on one side only. Empty for primitives and type changes.
+   */
+  children: DiffNode[]
+}
+
+/**
+ * Options for diffDocuments
+ */
+export interface DiffOptions {
+  /** Original left input (enables lossless number text for ExactJSON) */
+  leftInput?: string
+
+  /** Original right input */
+  rightInput?: string
+
+  /**
+   * Align array items by this member (e.g. "id") instead of by index.
+   * Items without the member, or whose member is a container, are paired
+   * in order among themselves.
+   */
+  arrayKey?: string
+}
+
+/**
+ * Number of differences, counting added and removed subtrees once
+ */
+export interface DiffSummary {
+  added: number
+  removed: number
+  changed: number
+}
+
+/**
+ * Builds the diff tree of two documents
+ *
+ * Object members are matched by key regardless of order; members keep the
+ * left document's order, followed by members added on the right. When keys
+ * are duplicated, the first member wins (like navigateToPath).
+ *
+ * @param left - Left (original) document
+ * @param right - Right (new) document
+ * @param options - Inputs and array alignment
+ */
+export function diffDocuments(
+  left: ParsedData,
+  right: ParsedData,
+  options: DiffOptions = {}
+): DiffNode {
+  const context: DiffContext = {
+    leftAdapter: createAdapter(left, options.leftInput),
+    rightAdapter: createAdapter(right, options.rightInput),
+    arrayKey: options.arrayKey || undefined,
+  }
+  return diffPair(context, { key: null, leftPath: '$', rightPath: '$' }, left, right)
+}
+
+/**
+ * Stable identifier of a diff node, for expansion state and list keys
+ *
+ * Paths alone are not unique: with key alignment, a removed item and a
+ * paired item can have the same index on different sides.
+ */
+export function diffNodeId(node: DiffNode): string {
+  return `${node.leftPath ?? ''}|${node.rightPath ?? ''}`
+}
+
+/**
+ * Counts the differences in a diff tree
+ */
+export function summarizeDiff(root: DiffNode): DiffSummary {
+  const summary: DiffSummary = { added: 0, removed: 0, changed: 0 }
+
+  const visit = (node: DiffNode) => {
+    if (node.status === 'added') summary.added++
+    else if (node.status === 'removed') summary.removed++
+    else if (node.status === 'changed') {
+      if (node.children.length === 0) summary.changed++
+      else node.children.forEach(visit)
+    }
+  }
+  visit(root)
+
+  return summary
+}
+
+/**
+ * Shared state for one diffDocuments call
+ */
+interface DiffContext {
+  leftAdapter: DataAdapter
+  rightAdapter: DataAdapter
+  arrayKey: string | undefined
+}
+
+/**
+ * Position of a pair of values within their parents
+ */
+type Placement = Pick<DiffNode, 'key' | 'leftIndex' | 'rightIndex' | 'leftPath' | 'rightPath'>
+
+/**
+ * Helper: Diffs two values that occupy the same place
+ */
+function diffPair(
+  context: DiffContext,
+  placement: Placement,
+  left: ParsedData,
+  right: ParsedData
+): DiffNode {
+  const leftMeta = context.leftAdapter.getMetadata(left)
+  const rightMeta = context.rightAdapter.getMetadata(right)
+  const node: DiffNode = { ...placement, status: 'unchanged', left, right, children: [] }
+
+  if (leftMeta.type !== rightMeta.type) {
+    node.status = 'changed'
+    return node
+  }
+
+  if (leftMeta.type === 'object') {
+    node.children = diffObjects(context, node, left, right)
+  } else if (leftMeta.type === 'array') {
+    node.children = diffArrays(context, node, left, right)
+  } else {
+    if (!primitivesEqual(leftMeta, rightMeta)) node.status = 'changed'
+    return node
+  }
+
+  if (node.children.some((child) => child.status !== 'unchanged')) node.status = 'changed'
+  return node
+}
+
+/**
+ * Helper: Builds the subtree of a value that exists on one side only
+ */
+function diffOneSide(
+  adapter: DataAdapter,
+  status: 'added' | 'removed',
+  placement: Placement,
+  value: ParsedData
+): DiffNode {
+  const side = status === 'added' ? 'right' : 'left'
+  const path = side === 'right' ? placement.rightPath! : placement.leftPath!
+
+  const children: DiffNode[] = []
+  for (const child of adapter.getChildren(value)) {
+    const childPlacement: Placement = { key: child.key }
+    childPlacement[`${side}Path`] = childPath(path, child.key, child.index)
+    if (child.key === null) childPlacement[`${side}Index`] = child.index
+    children.push(diffOneSide(adapter, status, childPlacement, child.value))
+  }
+
+  return { ...placement, status, [side]: value, children }
+}
+
+/**
+ * Helper: Matches object members by key
+ */
+function diffObjects(
+  context: DiffContext,
+  parent: DiffNode,
+  left: ParsedData,
+  right: ParsedData
+): DiffNode[] {
+  const rightMembers = new Map<string, ParsedData>()
+  for (const child of context.rightAdapter.getChildren(right)) {
+    if (!rightMembers.has(child.key!)) rightMembers.set(child.key!, child.value)
+  }
+
+  const children: DiffNode[] = []
+  const seen = new Set<string>()
+
+  for (const child of context.leftAdapter.getChildren(left)) {
+    const key = child.key!
+    if (seen.has(key)) continue
+    seen.add(key)
+
+    const leftPath = childPath(parent.leftPath!, key, child.index)
+    const rightValue = rightMembers.get(key)
+    if (rightValue === undefined) {
+      children.push(diffOneSide(context.leftAdapter, 'removed', { key, leftPath }, child.value))
+    } else {
+      const rightPath = childPath(parent.rightPath!, key, child.index)
+      children.push(diffPair(context, { key, leftPath, rightPath }, child.value, rightValue))
+    }
+  }
+
+  for (const [key, value] of rightMembers) {
+    if (seen.has(key)) continue
+    const rightPath = childPath(parent.rightPath!, key, 0)
+    children.push(diffOneSide(context.rightAdapter, 'added', { key, rightPath }, value))
+  }
+
+  return children
+}
+
+/**
+ * Helper: Pairs array items by index, or by context.arrayKey
+ *
+ * With key alignment, the result follows the right array's order; removed
+ * items are placed before the first pair that comes after them on the left,
+ * and before items added at the same position.
+ */
+function diffArrays(
+  context: DiffContext,
+  parent: DiffNode,
+  left: ParsedData,
+  right: ParsedData
+): DiffNode[] {
+  const leftItems = Array.from(context.leftAdapter.getChildren(left), (child) => child.value)
+  const rightItems = Array.from(context.rightAdapter.getChildren(right), (child) => child.value)
+
+  const pair = (i: number, j: number) =>
+    diffPair(
+      context,
+      {
+        key: null,
+        leftIndex: i,
+        rightIndex: j,
+        leftPath: childPath(parent.leftPath!, null, i),
+        rightPath: childPath(parent.rightPath!, null, j),
+      },
+      leftItems[i],
+      rightItems[j]
+    )
+  const removed = (i: number) =>
+    diffOneSide(
+      context.leftAdapter,
+      'removed',
+      { key: null, leftIndex: i, leftPath: childPath(parent.leftPath!, null, i) },
+      leftItems[i]
+    )
+  const added = (j: number) =>
+    diffOneSide(
+      context.rightAdapter,
+      'added',
+      { key: null, rightIndex: j, rightPath: childPath(parent.rightPath!, null, j) },
+      rightItems[j]
+    )
+
+  const children: DiffNode[] = []
+
+  if (context.arrayKey === undefined) {
+    const shared = Math.min(leftItems.length, rightItems.length)
+    for (let i = 0; i < shared; i++) children.push(pair(i, i))
+    for (let i = shared; i < leftItems.length; i++) children.push(removed(i))
+    for (let j = shared; j < rightItems.length; j++) children.push(added(j))
+    return children
+  }
+
+  // Queue of unmatched left indices per key value (undefined: unkeyed items)
+  const queues = new Map<string | undefined, number[]>()
+  leftItems.forEach((item, i) => {
+    const key = alignmentKey(context.leftAdapter, item, context.arrayKey!)
+    const queue = queues.get(key)
+    if (queue) queue.push(i)
+    else queues.set(key, [i])
+  })
+
+  const matched = new Array<boolean>(leftItems.length).fill(false)
+  const matches = rightItems.map((item) => {
+    const key = alignmentKey(context.rightAdapter, item, context.arrayKey!)
+    const i = queues.get(key)?.shift()
+    if (i !== undefined) matched[i] = true
+    return i
+  })
+
+  // Between two pairs, removed items come first, then added ones
+  let nextLeft = 0
+  let pending: number[] = []
+  const flush = (upTo: number) => {
+    for (; nextLeft < upTo; nextLeft++) {
+      if (!matched[nextLeft]) children.push(removed(nextLeft))
+    }
+    pending.forEach((j) => children.push(added(j)))
+    pending = []
+  }
+
+  matches.forEach((i, j) => {
+    if (i === undefined) {
+      pending.push(j)
+      return
+    }
+    flush(i)
+    children.push(pair(i, j))
+  })
+  flush(leftItems.length)
+
+  return children
+}
+
+/**
+ * Helper: Value of an item's alignment member, tagged with its type so that
+ * "1" and 1 do not match. Undefined when the item has no primitive member.
+ */
+function alignmentKey(adapter: DataAdapter, item: ParsedData, key: string): string | undefined {
+  if (adapter.getMetadata(item).type !== 'object') return undefined
+
+  const member = adapter.getChild(item, key)
+  if (member === undefined) return undefined
+
+  const meta = adapter.getMetadata(member)
+  if (meta.hasChildren || meta.type === 'object' || meta.type === 'array') return undefined
+  return `${meta.type}:${meta.displayValue}`
+}
+
+/**
+ * Helper: Compares two primitives of the same type
+ */
+function primitivesEqual(leftMeta: ValueMetadata, rightMeta: ValueMetadata): boolean {
+  if (leftMeta.type === 'number') {
+    return canonicalNumber(numberText(leftMeta)) === canonicalNumber(numberText(rightMeta))
+  }
+  return leftMeta.displayValue === rightMeta.displayValue
+}
+
+/**
+ * Helper: Source lexeme of a number (ExactJSON), else its JavaScript spelling
+ */
+function numberText(meta: ValueMetadata): string {
+  return meta.rawText || meta.displayValue!
+}
@@ -0,0 +1,9 @@
+/**
+ * Diff Utilities - Barrel Export
+ *
+ * This module compares two documents structurally and flattens the result
+ * for the diff view.
+ */
+
+export * from './diff'
+export * from './view'
@@ -0,0 +1,148 @@
+/**
+ * Diff view model
+ *
+ * Flattens a diff tree into rows for the virtualized diff view, and splits
+ * rows into the lines of the unified layout.
+ */
+
+import { ParsedData, DataAdapter, ValueMetadata } from '../integration/types'
+import { DiffNode, diffNodeId } from './diff'
+
+/**
+ * A visible node of the diff tree
+ */
+export interface DiffRow {
+  /** diffNodeId of the node */
+  id: string
+  node: DiffNode
+  depth: number
+  /** Are the node's children shown? */
+  isExpanded: boolean
+}
+
+/**
+ * Which side(s) of a row a unified line shows
+ */
+export type DiffLineSide = 'left' | 'right' | 'both'
+
+/**
+ * A line of the unified layout
+ */
+export interface DiffLine {
+  row: DiffRow
+  side: DiffLineSide
+}
+
+/**
+ * Text and type of a rendered value
+ */
+export interface DiffValueDisplay {
+  type: ValueMetadata['type']
+  /** Primitives as JSON text, containers summarized as {n} or [n] */
+  text: string
+}
+
+/**
+ * Returns the nodes expanded by default: containers that changed
+ *
+ * Unchanged subtrees start collapsed, so differences are visible at a glance.
+ */
+export function defaultExpandedDiff(root: DiffNode): Set<string> {
+  const expanded = new Set<string>()
+
+  const visit = (node: DiffNode) => {
+    if (node.status !== 'changed' || node.children.length === 0) return
+    expanded.add(diffNodeId(node))
+    node.children.forEach(visit)
+  }
+  visit(root)
+
+  return expanded
+}
+
+/**
+ * Flattens the visible part of a diff tree
+ *
+ * @param root - Diff tree
+ * @param expanded - Ids of expanded nodes
+ * @param onlyDifferences - Hide unchanged members and items (the root row stays)
+ */
+export function flattenDiff(
+  root: DiffNode,
+  expanded: Set<string>,
+  onlyDifferences: boolean = false
+): DiffRow[] {
+  const rows: DiffRow[] = []
+
+  const visit = (node: DiffNode, depth: number) => {
+    const id = diffNodeId(node)
+    const isExpanded = node.children.length > 0 && expanded.has(id)
+    rows.push({ id, node, depth, isExpanded })
+    if (!isExpanded) return
+
+    for (const child of node.children) {
+      if (onlyDifferences && child.status === 'unchanged') continue
+      visit(child, depth + 1)
+    }
+  }
+  visit(root, 0)
+
+  return rows
+}
+
+/**
+ * Splits rows into unified lines
+ *
+ * Added rows show the right value and removed rows the left one. Changed
+ * primitives (and type changes) become a removed line followed by an added
+ * line; every other row is a single line.
+ */
+export function unifiedLines(rows: DiffRow[]): DiffLine[] {
+  const lines: DiffLine[] = []
+
+  for (const row of rows) {
+    const { status, children } = row.node
+    if (status === 'added') {
+      lines.push({ row, side: 'right' })
+    } else if (status === 'removed') {
+      lines.push({ row, side: 'left' })
+    } else if (status === 'changed' && children.length === 0) {
+      lines.push({ row, side: 'left' }, { row, side: 'right' })
+    } else {
+      lines.push({ row, side: 'both' })
+    }
+  }
+
+  return lines
+}
+
+/**
+ * Label of a row on one side: the member key, or the item index
+ */
+export function diffLabel(node: DiffNode, side: 'left' | 'right'): string | null {
+  if (node.key !== null) return node.key
+  const index = side === 'left' ? node.leftIndex : node.rightIndex
+  return index === undefined ? null : String(index)
+}
+
+/**
+ * Describes a value for rendering
+ *
+ * @param value - Value from one document
+ * @param adapter - Adapter for that document
+ */
+export function formatDiffValue(value: ParsedData, adapter: DataAdapter): DiffValueDisplay {
+  const meta = adapter.getMetadata(value)
+  switch (meta.type) {
+    case 'object':
+      return { type: 'object', text: `{${meta.childCount}}` }
+    case 'array':
+      return { type: 'array', text: `[${meta.childCount}]` }
+    case 'string':
+      return { type: 'string', text: JSON.stringify(meta.displayValue) }
+    case 'number':
+      return { type: 'number', text: (meta.rawText || meta.displayValue)! }
+    default:
+      return { type: meta.type, text: meta.displayValue ?? '' }
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Download utilities
+ *
+ * Saves edited JSON as a file through a temporary object URL.
+ */
+
+/**
+ * Suggests a file name for a downloaded document, based on its URL
+ *
+ * @param url - Page URL, e.g. `https://api.example.com/v1/users?page=2`
+ * @returns e.g. `users.json`, or `edited.json` when the URL has no file name
+ */
+export function downloadFileName(url: string): string {
+  let name = ''
+  try {
+    const segments = new URL(url).pathname.split('/').filter(Boolean)
+    name = decodeURIComponent(segments[segments.length - 1] ?? '')
+  } catch {
+    // Not a URL (e.g. about:blank)
+  }
+
+  name = name.replace(/[\\/:*?"<>|]/g, '_')
+  if (!name) return 'edited.json'
+  return /\.json$/i.test(name) ? name : `${name}.json`
+}
+
+/**
+ * Downloads text as a JSON file
+ */
+export function downloadJson(text: string, fileName: string): void {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,10 @@
+/**
+ * Editing Utilities - Barrel Export
+ *
+ * This module provides lossless text patches over the ExactJSON AST,
+ * undo/redo history, and downloading the edited document.
+ */
+
+export * from './patch'
+export * from './operations'
+export * from './download'
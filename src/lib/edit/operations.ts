@@ -0,0 +1,336 @@
+/**
+ * Edit operations
+ *
+ * Each operation locates a node in the ExactJSON AST and returns the text
+ * edit that performs the change. Separators and indentation are copied from
+ * neighbouring entries so inserted text matches the document's style.
+ * Operations throw an Error with a user-facing message when the change is
+ * not possible.
+ */
+
+import type { JsonNode, ObjectNode, ArrayNode } from '../parser/types'
+import { parse } from '../parser/parse'
+import { parsePath } from '../parser/json-path'
+import type { TextEdit } from './patch'
+
+/**
+ * What an operation applies to: a path, or the node itself, which tells
+ * apart members whose keys are duplicated (a path names the first)
+ */
+export type EditTarget = string | JsonNode
+
+/**
+ * A node together with its container (null for the root)
+ */
+interface Located {
+  node: JsonNode
+  parent: ObjectNode | ArrayNode | null
+  /** Entry/item index within the parent */
+  index: number
+}
+
+/**
+ * Replaces a value with new JSON text
+ *
+ * @param root - Document AST
+ * @param target - Path or node of the value
+ * @param text - Replacement JSON text, e.g. `"abc"`, `42` or `null`
+ */
+export function replaceValue(root: JsonNode, target: EditTarget, text: string): TextEdit {
+  const { node } = locate(root, target)
+  return { start: node.start, end: node.end, text: validateValue(text) }
+}
+
+/**
+ * Renames an object member
+ *
+ * @param root - Document AST
+ * @param target - Path or node of the member's value
+ * @param name - New key
+ */
+export function renameKey(root: JsonNode, target: EditTarget, name: string): TextEdit {
+  const { parent, index } = locate(root, target)
+  if (!parent || parent.kind !== 'object') {
+    throw new Error('Only object members can be renamed')
+  }
+  if (parent.entries.some((entry, i) => i !== index && entry.key.value === name)) {
+    throw new Error(`Key "${name}" already exists`)
+  }
+
+  const key = parent.entries[index].key
+  return { start: key.start, end: key.end, text: JSON.stringify(name) }
+}
+
+/**
+ * Removes an object member or array item, including its separator
+ *
+ * Comments after the separator on the same line go with the entry; those
+ * on the following lines belong to the next entry and stay.
+ *
+ * @param root - Document AST
+ * @param input - Document text the AST was parsed from
+ * @param target - Path or node of the member's value or the item
+ */
+export function removeEntry(root: JsonNode, input: string, target: EditTarget): TextEdit {
+  const { parent, index } = locate(root, target)
+  if (!parent) throw new Error('The root value cannot be removed')
+
+  const spans = childSpans(parent)
+  if (spans.length === 1) {
+    // Leave an empty container: {} or []
+    return { start: parent.start + 1, end: parent.end - 1, text: '' }
+  }
+  if (index < spans.length - 1) {
+    return { start: spans[index].start, end: separatorEnd(input, spans[index].end), text: '' }
+  }
+
+  // The last entry: from the comma before it to its own comments on its
+  // line. Comments between the comma and the end of its line stay with the
+  // previous entry
+  const previousEnd = spans[index - 1].end
+  const comma = skipComments(input, previousEnd, /\s/)
+  const kept =
+    input.slice(previousEnd, comma) +
+    input.slice(comma + 1, skipComments(input, comma + 1, /[ \t]/)).trimEnd()
+  return { start: previousEnd, end: trailingEnd(input, spans[index].end), text: kept }
+}
+
+/**
+ * Appends a member to an object or an item to an array
+ *
+ * @param root - Document AST
+ * @param input - Document text the AST was parsed from
+ * @param target - Path or node of the object or array
+ * @param key - Member name (ignored for arrays)
+ * @param text - JSON text of the new value
+ */
+export function insertEntry(
+  root: JsonNode,
+  input: string,
+  target: EditTarget,
+  key: string,
+  text: string
+): TextEdit {
+  const { node } = locate(root, target)
+  if (node.kind !== 'object' && node.kind !== 'array') {
+    throw new Error('Entries can only be added to objects and arrays')
+  }
+
+  const value = validateValue(text)
+  let member = value
+  if (node.kind === 'object') {
+    if (node.entries.some((entry) => entry.key.value === key)) {
+      throw new Error(`Key "${key}" already exists`)
+    }
+    // Reuse the document's colon spacing, e.g. `"a": 1` or `"a" : 1`
+    const last = node.entries[node.entries.length - 1]
+    const colon = last ? input.slice(last.key.end, last.value.start) : ': '
+    member = JSON.stringify(key) + colon + value
+  }
+
+  const spans = childSpans(node)
+  if (spans.length === 0) {
+    return { start: node.start + 1, end: node.end - 1, text: member }
+  }
+
+  // Reuse the line break and indentation before the last entry (or the
+  // spacing after the comma before it), so pretty-printed documents stay
+  // pretty. Comments after the last entry on its line stay with it
+  const last = spans[spans.length - 1]
+  const before =
+    spans.length >= 2
+      ? input.slice(spans[spans.length - 2].end, last.start)
+      : input.slice(node.start + 1, last.start)
+  const spacing = spans.length >= 2 ? (/,([ \t]*)/.exec(before)?.[1] ?? ' ') : ' '
+  const end = trailingEnd(input, last.end)
+  const comments = input.slice(last.end, end)
+  return { start: last.end, end, text: ',' + comments + lineBreak(before, spacing) + member }
+}
+
+/**
+ * Returns a key that is not yet used in an object: `key`, `key2`, `key3`...
+ *
+ * @param root - Document AST
+ * @param target - Path or node of the object
+ * @param base - Preferred key
+ */
+export function unusedKey(root: JsonNode, target: EditTarget, base: string = 'key'): string {
+  const { node } = locate(root, target)
+  if (node.kind !== 'object') return base
+
+  const used = new Set(node.entries.map((entry) => entry.key.value))
+  let key = base
+  for (let n = 2; used.has(key); n++) key = `${base}${n}`
+  return key
+}
+
+/**
+ * Moves an array item to another index
+ *
+ * Item texts are reordered while the separators between them stay in
+ * place, so the array keeps its layout.
+ *
+ * @param root - Document AST
+ * @param input - Document text the AST was parsed from
+ * @param target - Path or node of the item
+ * @param toIndex - Destination index
+ */
+export function moveItem(
+  root: JsonNode,
+  input: string,
+  target: EditTarget,
+  toIndex: number
+): TextEdit {
+  const { parent, index } = locate(root, target)
+  if (!parent || parent.kind !== 'array') {
+    throw new Error('Only array items can be moved')
+  }
+  if (toIndex < 0 || toIndex >= parent.items.length) {
+    throw new Error(`Index ${toIndex} is out of range`)
+  }
+
+  const items = parent.items
+  const texts = items.map((item) => input.slice(item.start, item.end))
+  const [moved] = texts.splice(index, 1)
+  texts.splice(toIndex, 0, moved)
+
+  let text = texts[0]
+  for (let i = 1; i < items.length; i++) {
+    text += input.slice(items[i - 1].end, items[i].start) + texts[i]
+  }
+  return { start: items[0].start, end: items[items.length - 1].end, text }
+}
+
+/**
+ * Helper: Checks that text is a single JSON value and trims it
+ */
+function validateValue(text: string): string {
+  const trimmed = text.trim()
+  try {
+    parse(trimmed)
+  } catch (error) {
+    throw new Error(`Invalid JSON value: ${(error as Error).message}`)
+  }
+  return trimmed
+}
+
+/**
+ * Helper: Source range of each member (key through value) or item
+ */
+function childSpans(node: ObjectNode | ArrayNode): Array<{ start: number; end: number }> {
+  if (node.kind === 'array') return node.items
+  return node.entries.map((entry) => ({ start: entry.key.start, end: entry.value.end }))
+}
+
+/**
+ * Helper: End of the separator after an entry: the comma, whitespace and
+ * comments up to the end of the comma's line, then the whitespace before
+ * whatever comes next
+ */
+function separatorEnd(input: string, from: number): number {
+  let i = skipComments(input, from, /\s/)
+  i = skipComments(input, i + 1, /[ \t]/)
+  while (/\s/.test(input[i] ?? '')) i++
+  return i
+}
+
+/**
+ * Helper: End of the comments after an entry on its line, without the
+ * spaces after them
+ */
+function trailingEnd(input: string, from: number): number {
+  let end = skipComments(input, from, /[ \t]/)
+  while (end > from && /[ \t]/.test(input[end - 1])) end--
+  return end
+}
+
+/**
+ * Helper: The line break and indentation starting the last line of the
+ * text between entries, or the spacing to use when it has no line break
+ */
+function lineBreak(between: string, spacing: string): string {
+  const lineStart = between.lastIndexOf('\n')
+  if (lineStart === -1) return spacing
+  const newline = between[lineStart - 1] === '\r' ? '\r\n' : '\n'
+  return newline + /^[ \t]*/.exec(between.slice(lineStart + 1))![0]
+}
+
+/**
+ * Helper: Skips characters matching a pattern and comments, stopping at a
+ * line comment's line break
+ */
+function skipComments(input: string, from: number, space: RegExp): number {
+  let i = from
+  for (;;) {
+    if (space.test(input[i] ?? '')) i++
+    else if (input.startsWith('/*', i)) i = input.indexOf('*/', i + 2) + 2
+    else if (input.startsWith('//', i)) i = lineEnd(input, i)
+    else return i
+  }
+}
+
+/**
+ * Helper: Offset of the line break ending the line at `from`
+ */
+function lineEnd(input: string, from: number): number {
+  const end = input.indexOf('\n', from)
+  return end === -1 ? input.length : end
+}
+
+/**
+ * Helper: Finds a node and its container by path or by the node itself
+ *
+ * Like navigateToPath, a path names the first member when keys are
+ * duplicated; a node is found by its source range.
+ */
+function locate(root: JsonNode, target: EditTarget): Located {
+  if (typeof target !== 'string') return locateNode(root, target)
+
+  const path = target
+  let located: Located = { node: root, parent: null, index: 0 }
+
+  for (const segment of parsePath(path)) {
+    const current = located.node
+    if (segment.type === 'property' && current.kind === 'object') {
+      const index = current.entries.findIndex((entry) => entry.key.value === segment.name)
+      if (index !== -1) {
+        located = { node: current.entries[index].value, parent: current, index }
+        continue
+      }
+    } else if (segment.type === 'index' && current.kind === 'array') {
+      if (segment.index < current.items.length) {
+        located = { node: current.items[segment.index], parent: current, index: segment.index }
+        continue
+      }
+    } else if (segment.type === 'root') {
+      continue
+    }
+    throw new Error(`No value at ${path}`)
+  }
+
+  return located
+}
+
+/**
+ * Helper: Descends into the children whose range contains the target's
+ */
+function locateNode(root: JsonNode, target: JsonNode): Located {
+  let located: Located = { node: root, parent: null, index: 0 }
+
+  while (located.node.start !== target.start || located.node.end !== target.end) {
+    const current = located.node
+    const children =
+      current.kind === 'object'
+        ? current.entries.map((entry) => entry.value)
+        : current.kind === 'array'
+          ? current.items
+          : []
+    const index = children.findIndex(
+      (child) => child.start <= target.start && target.end <= child.end
+    )
+    if (index === -1) throw new Error('The value is not in the document')
+    located = { node: children[index], parent: current as ObjectNode | ArrayNode, index }
+  }
+
+  return located
+}
@@ -0,0 +1,101 @@
+/**
+ * Text patches and edit history
+ *
+ * Edits are splices of the source text at AST offsets, so every byte
+ * outside an edit keeps its original formatting. Undo and redo replay the
+ * inverse splices.
+ */
+
+/**
+ * Replaces input[start, end) with text
+ */
+export interface TextEdit {
+  /** Start offset in the text being edited */
+  start: number
+  /** End offset (exclusive) */
+  end: number
+  /** Replacement text */
+  text: string
+}
+
+/**
+ * Edited document with undo/redo stacks
+ *
+ * Each stack entry is the edit that reverts (undo) or replays (redo) one
+ * change against the current input.
+ */
+export interface EditHistory {
+  /** Current document text */
+  input: string
+  /** Inverse edits, most recent last */
+  undoStack: TextEdit[]
+  /** Edits undone since the last change, most recent last */
+  redoStack: TextEdit[]
+}
+
+/**
+ * Applies a text edit
+ */
+export function applyTextEdit(input: string, edit: TextEdit): string {
+  return input.slice(0, edit.start) + edit.text + input.slice(edit.end)
+}
+
+/**
+ * Returns the edit that reverts `edit` once it has been applied to input
+ *
+ * @param input - Text before the edit
+ * @param edit - Edit to invert
+ */
+export function invertTextEdit(input: string, edit: TextEdit): TextEdit {
+  return {
+    start: edit.start,
+    end: edit.start + edit.text.length,
+    text: input.slice(edit.start, edit.end),
+  }
+}
+
+/**
+ * Starts an edit history for a document
+ */
+export function createEditHistory(input: string): EditHistory {
+  return { input, undoStack: [], redoStack: [] }
+}
+
+/**
+ * Applies a change, making it undoable and clearing the redo stack
+ */
+export function commitEdit(history: EditHistory, edit: TextEdit): EditHistory {
+  return {
+    input: applyTextEdit(history.input, edit),
+    undoStack: [...history.undoStack, invertTextEdit(history.input, edit)],
+    redoStack: [],
+  }
+}
+
+/**
+ * Reverts the most recent change (no-op when there is nothing to undo)
+ */
+export function undoEdit(history: EditHistory): EditHistory {
+  const edit = history.undoStack[history.undoStack.length - 1]
+  if (!edit) return history
+
+  return {
+    input: applyTextEdit(history.input, edit),
+    undoStack: history.undoStack.slice(0, -1),
+    redoStack: [...history.redoStack, invertTextEdit(history.input, edit)],
+  }
+}
+
+/**
+ * Replays the most recently undone change (no-op when there is nothing to redo)
+ */
+export function redoEdit(history: EditHistory): EditHistory {
+  const edit = history.redoStack[history.redoStack.length - 1]
+  if (!edit) return history
+
+  return {
+    input: applyTextEdit(history.input, edit),
+    undoStack: [...history.undoStack, invertTextEdit(history.input, edit)],
+    redoStack: history.redoStack.slice(0, -1),
+  }
+}
@@ -1,3 +1,6 @@
-export { MAX_LENGTH } from './getResult/policy'
+export { MAX_LENGTH, stripJsonWrapper } from './getResult/policy'
+export type { JsonWrapper } from './getResult/policy'
+export { DEFAULT_JSON_CONTENT_TYPES } from './getResult/detect'
+export type { DetectionOptions } from './getResult/detect'
 export { getResult } from './getResult/getResult'
 export type { Result } from './getResult/getResult'
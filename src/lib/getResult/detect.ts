@@ -0,0 +1,129 @@
+import { isJsonLinesType } from './policy'
+
+// Content types treated as JSON. A * matches any run of characters, so
+// application/*+json covers structured syntax suffixes (RFC 6839)
+export const DEFAULT_JSON_CONTENT_TYPES = [
+  'application/json',
+  'application/*+json',
+  'application/problem+json',
+  'application/vnd.api+json',
+  'text/json',
+  'text/x-json',
+]
+
+// Content types Chrome renders as a text document: a body > pre it generates
+const TEXT_CONTENT_TYPES = [
+  'text/plain',
+  'text/javascript',
+  'application/javascript',
+  'application/x-javascript',
+]
+
+const JSON_EXTENSION = /\.(json|jsonc|json5|geojson|webmanifest|jsonl|ndjson)$/i
+const JSON_LINES_EXTENSIONS = ['.jsonl', '.ndjson']
+
+/**
+ * What decided how the document is detected
+ *
+ * - content-type: the Content-Type is a JSON (or JSON Lines) type
+ * - extension: a text document whose URL ends in a JSON file extension
+ * - text: any other text document
+ * - markup: an HTML (or other) document, detected from its DOM shape
+ */
+export type DetectionSignal =
+  | { kind: 'content-type'; contentType: string }
+  | { kind: 'extension'; contentType: string; extension: string }
+  | { kind: 'text'; contentType: string }
+  | { kind: 'markup'; contentType: string }
+
+export interface DetectionOptions {
+  /** Content types treated as JSON (default: DEFAULT_JSON_CONTENT_TYPES) */
+  jsonContentTypes?: string[]
+}
+
+/**
+ * Media type of a Content-Type, without parameters, in lowercase
+ */
+export const mediaType = (contentType: string): string =>
+  contentType.split(';')[0].trim().toLowerCase()
+
+/**
+ * Whether the Content-Type matches one of the patterns
+ */
+export const matchesContentType = (contentType: string, patterns: string[]): boolean => {
+  const type = mediaType(contentType)
+  return patterns.some((pattern) => {
+    const regexPattern = mediaType(pattern)
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')
+    return new RegExp(`^${regexPattern}$`).test(type)
+  })
+}
+
+/**
+ * JSON file extension of the URL's path, in lowercase
+ *
+ * @returns The extension with its dot, or null
+ */
+export const jsonExtension = (url: string): string | null => {
+  let pathname: string
+  try {
+    pathname = new URL(url).pathname
+  } catch (_e) {
+    return null
+  }
+  const match = JSON_EXTENSION.exec(pathname)
+  return match ? `.${match[1].toLowerCase()}` : null
+}
+
+/**
+ * Finds the signal that decides how the document is detected
+ *
+ * A JSON Content-Type wins over the URL. Only text documents are checked
+ * for a JSON extension: an HTML page at /data.json is still a web page.
+ */
+export const detectSignal = (
+  document: Document,
+  { jsonContentTypes = DEFAULT_JSON_CONTENT_TYPES }: DetectionOptions = {}
+): DetectionSignal => {
+  const contentType = mediaType(document.contentType ?? '')
+
+  if (isJsonLinesType(contentType) || matchesContentType(contentType, jsonContentTypes))
+    return { kind: 'content-type', contentType }
+
+  if (!TEXT_CONTENT_TYPES.includes(contentType)) return { kind: 'markup', contentType }
+
+  const extension = jsonExtension(document.URL)
+  if (extension) return { kind: 'extension', contentType, extension }
+  return { kind: 'text', contentType }
+}
+
+/**
+ * Whether the signal declares line-delimited JSON
+ */
+export const declaresJsonLines = (signal: DetectionSignal): boolean =>
+  isJsonLinesType(signal.contentType) ||
+  (signal.kind === 'extension' && JSON_LINES_EXTENSIONS.includes(signal.extension))
+
+/**
+ * Whether the signal declares JSON: a JSON Content-Type, or a JSON file
+ * extension on a text document
+ */
+export const declaresJson = (signal: DetectionSignal): boolean =>
+  signal.kind === 'content-type' || signal.kind === 'extension'
+
+/**
+ * Describes the signal, for the detection note
+ */
+export const describeSignal = (signal: DetectionSignal): string => {
+  switch (signal.kind) {
+    case 'content-type':
+    case 'text':
+      return `Content-Type is ${signal.contentType}`
+    case 'extension':
+      return `${signal.extension} file served as ${signal.contentType}`
+    case 'markup':
+      return `${signal.contentType || 'document'} markup`
+  }
+}
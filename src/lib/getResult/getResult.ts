@@ -1,7 +1,23 @@
 import type { JsonValue } from '../types'
+import type { JsonSyntax } from '../parser/types'
 import { findSingleBodyPre, isRendered } from './scan'
-import { MAX_LENGTH, isTooLong, startsLikeJson } from './policy'
-import { tryParseJson } from './parse'
+import {
+  MAX_LENGTH,
+  MAX_STREAMING_LENGTH,
+  isTooLong,
+  startsLikeJson,
+  findJsonWrapper,
+  stripJsonWrapper,
+  type JsonWrapper,
+} from './policy'
+import {
+  detectSignal,
+  declaresJson,
+  declaresJsonLines,
+  describeSignal,
+  type DetectionOptions,
+} from './detect'
+import { tryParseJson, tryParseJsonc, tryParseJsonLines, sniffJson } from './parse'
 
 export type Result =
   | {
@@ -10,63 +26,164 @@ export type Result =
       rawLength: number
       element: HTMLPreElement
       parsed: JsonValue
+      // 'jsonc' when only the ExactJSON JSONC syntax accepts the document
+      syntax: JsonSyntax
+      // 'ndjson': one value per line; parsed is the array of those values
+      format: 'json' | 'ndjson'
+      // Over MAX_LENGTH: not parsed here (parsed is null), the viewer streams
+      // JSON and reads JSON Lines in slices
+      streaming: boolean
+      // JSONP callback or XSSI prefix around the JSON, which is parsed with
+      // the wrapper blanked out (see stripJsonWrapper)
+      wrapper: JsonWrapper | null
+      // Set when a page that declares JSON does not parse (parsed is null):
+      // JSON.parse()'s message, for the viewer to show with the error panel
+      parseError?: string
     }
   | { formatted: false; note: string; rawLength: number | null }
 
-export function getResult(document = globalThis.document): Result {
-  if (document.title)
-    return {
-      formatted: false,
-      note: 'document.title is contentful',
-      rawLength: null,
-    }
+/**
+ * Detects whether the document is JSON the viewer should format
+ *
+ * The note says why not, or for text documents and JSON content types,
+ * which signal decided (see describeSignal). HTML pages are judged by their
+ * DOM shape, with the original short notes.
+ */
+export function getResult(
+  document = globalThis.document,
+  options: DetectionOptions = {}
+): Result {
+  const signal = detectSignal(document, options)
+  const explain = (note: string) =>
+    signal.kind === 'markup' ? note : `${note} (${describeSignal(signal)})`
 
-  const found = findSingleBodyPre(document)
-  if (found === 'multiple')
-    return {
-      formatted: false,
-      note: 'Multiple body > pre elements',
-      rawLength: null,
-    }
-  if (found === 'textual')
-    return {
-      formatted: false,
-      note: 'body contains textual elements',
-      rawLength: null,
-    }
-  if (!found) return { formatted: false, note: 'No body > pre', rawLength: null }
+  let pre: HTMLPreElement
+  if (signal.kind === 'markup') {
+    const found = findPreByShape(document)
+    if (typeof found === 'string') return { formatted: false, note: found, rawLength: null }
+    pre = found
+  } else {
+    // Chrome generates the markup of text documents. Other extensions may
+    // add elements, and Chrome's JSON viewer may hide the pre behind its
+    // pretty-printed copy, so only the first body > pre counts
+    const found = document.querySelector<HTMLPreElement>('body > pre')
+    if (!found) return { formatted: false, note: explain('No body > pre'), rawLength: null }
+    pre = found
+  }
 
-  const pre = found
-  if (!isRendered(pre))
-    return {
-      formatted: false,
-      note: 'body > pre is not rendered',
-      rawLength: null,
-    }
+  const text = pre.textContent ?? ''
+  const rawLength = text.length
 
-  const raw = pre.textContent ?? ''
-  const rawLength = raw.length
+  if (!text)
+    return { formatted: false, note: explain('No content in body > pre'), rawLength }
 
-  if (!raw)
-    return { formatted: false, note: 'No content in body > pre', rawLength }
+  if (isTooLong(rawLength, MAX_STREAMING_LENGTH))
+    return { formatted: false, note: explain('Too long'), rawLength }
 
-  if (isTooLong(rawLength, MAX_LENGTH))
-    return { formatted: false, note: 'Too long', rawLength }
+  const wrapper = findJsonWrapper(text)
+  const raw = wrapper ? stripJsonWrapper(text, wrapper) : text
 
   if (!startsLikeJson(raw))
-    return { formatted: false, note: 'Does not start with { or [', rawLength }
+    return { formatted: false, note: explain('Does not start with { or ['), rawLength }
+
+  const declaredLines = declaresJsonLines(signal)
+
+  if (isTooLong(rawLength, MAX_LENGTH)) {
+    // Only the start is parsed here. Text that is not JSON is left alone
+    // unless the page declares JSON, whose errors the viewer reports
+    const sniffed = declaredLines ? 'json-lines' : sniffJson(raw)
+    if (!sniffed && !declaresJson(signal))
+      return { formatted: false, note: explain('Does not parse as JSON'), rawLength }
 
-  const parsed = tryParseJson(raw)
-  if (!parsed.ok)
-    return { formatted: false, note: 'Does not parse as JSON', rawLength }
+    return {
+      formatted: true,
+      note: explain('streaming'),
+      element: pre,
+      rawLength,
+      parsed: null,
+      syntax: 'json',
+      format: sniffed === 'json-lines' ? 'ndjson' : 'json',
+      streaming: true,
+      wrapper,
+    }
+  }
+
+  const parsed = declaredLines ? null : tryParseJson(raw)
+  if (parsed) {
+    if (parsed.ok)
+      return {
+        formatted: true,
+        note: explain('done'),
+        element: pre,
+        rawLength,
+        parsed: parsed.parsed,
+        syntax: 'json',
+        format: 'json',
+        streaming: false,
+        wrapper,
+      }
+
+    const jsonc = tryParseJsonc(raw)
+    if (jsonc.ok)
+      return {
+        formatted: true,
+        note: explain('done'),
+        element: pre,
+        rawLength,
+        parsed: jsonc.parsed,
+        syntax: 'jsonc',
+        format: 'json',
+        streaming: false,
+        wrapper,
+      }
+  }
+
+  const lines = tryParseJsonLines(raw, declaredLines)
+  if (!lines.ok) {
+    if (parsed && !parsed.ok && declaresJson(signal))
+      // Declared JSON with a syntax error: the viewer explains the error
+      return {
+        formatted: true,
+        note: explain('Does not parse as JSON'),
+        element: pre,
+        rawLength,
+        parsed: null,
+        syntax: 'json',
+        format: 'json',
+        streaming: false,
+        wrapper,
+        parseError: parsed.error,
+      }
+    return { formatted: false, note: explain('Does not parse as JSON'), rawLength }
+  }
 
   return {
     formatted: true,
-    note: 'done',
+    note: explain('done'),
     element: pre,
     rawLength,
-    parsed: parsed.parsed,
+    parsed: lines.parsed,
+    syntax: 'json',
+    format: 'ndjson',
+    streaming: false,
+    wrapper,
   }
 }
 
+/**
+ * Finds the pre of an HTML page that is only a pre of JSON
+ *
+ * @returns The pre, or why the page is not JSON
+ */
+function findPreByShape(document: Document): HTMLPreElement | string {
+  if (document.title) return 'document.title is contentful'
+
+  const found = findSingleBodyPre(document)
+  if (found === 'multiple') return 'Multiple body > pre elements'
+  if (found === 'textual') return 'body contains textual elements'
+  if (!found) return 'No body > pre'
+  if (!isRendered(found)) return 'body > pre is not rendered'
+  return found
+}
+
 export { MAX_LENGTH }
@@ -1,13 +1,91 @@
 import type { JsonValue } from '../types'
+import type { JsonNode } from '../parser/types'
+import { parse } from '../parser/parse'
+import { PullParser } from '../parser/pull-parser'
+import { ParseError } from '../parser/events'
+import { TokenizerError } from '../parser/tokens'
+import { parseJsonLines, looksLikeJsonLines } from '../ndjson'
 
+// error: JSON.parse()'s message, where there is one
 export type ParseResult =
   | { ok: true; parsed: JsonValue }
-  | { ok: false }
+  | { ok: false; error?: string }
 
 export const tryParseJson = (text: string): ParseResult => {
   try {
     return { ok: true, parsed: JSON.parse(text) as JsonValue }
+  } catch (error) {
+    return { ok: false, error: (error as Error).message }
+  }
+}
+
+// For tsconfig/VS Code-style documents that JSON.parse() rejects. JSON5 is
+// not detected: it also accepts non-JSON such as a trailing no-break space.
+export const tryParseJsonc = (text: string): ParseResult => {
+  try {
+    return { ok: true, parsed: toJsonValue(parse(text, { syntax: 'jsonc' }).ast) }
   } catch {
     return { ok: false }
   }
 }
+
+// One value per line. Declared NDJSON needs a single good line; otherwise
+// the document must read as NDJSON (see looksLikeJsonLines).
+export const tryParseJsonLines = (text: string, declared: boolean): ParseResult => {
+  const document = parseJsonLines(text)
+  if (declared ? document.records === 0 : !looksLikeJsonLines(document)) return { ok: false }
+
+  const parsed: JsonValue[] = []
+  for (const line of document.lines) if (line.ok) parsed.push(line.value as JsonValue)
+  return { ok: true, parsed }
+}
+
+// How much of a document over MAX_LENGTH is parsed before streaming it
+export const SNIFF_LENGTH = 65_536
+
+// What a token cut off by the end of the sniffed text can look like: an
+// open string (possibly mid-escape), or part of a number or literal
+const PARTIAL_TOKEN = /^(?:"(?:[^"\\\n]|\\[^\n])*\\?|[-+.\w]*)$/
+
+// The start of a document too long to parse here: 'json' when it parses up
+// to where it was cut off, 'json-lines' when a second value follows the
+// first on a new line, null when it is not JSON (e.g. a `[date] INFO` log).
+export const sniffJson = (text: string): 'json' | 'json-lines' | null => {
+  const chunk = text.slice(0, SNIFF_LENGTH)
+  const cut = chunk.length < text.length
+
+  try {
+    for (const _event of new PullParser(chunk).events()) {
+      // Only whether the events parse matters
+    }
+    return 'json'
+  } catch (error) {
+    if (error instanceof ParseError) {
+      if (error.reason.endsWith('after root value'))
+        return /\n[\x20\x09\x0d]*$/.test(chunk.slice(0, error.position)) ? 'json-lines' : null
+      return cut && error.position >= chunk.trimEnd().length ? 'json' : null
+    }
+    if (error instanceof TokenizerError)
+      return cut && PARTIAL_TOKEN.test(chunk.slice(error.position)) ? 'json' : null
+    throw error
+  }
+}
+
+const toJsonValue = (node: JsonNode): JsonValue => {
+  switch (node.kind) {
+    case 'object':
+      // Like JSON.parse(): the last duplicate key wins, __proto__ is an own key
+      return Object.fromEntries(
+        node.entries.map(({ key, value }) => [key.value, toJsonValue(value)])
+      )
+    case 'array':
+      return node.items.map(toJsonValue)
+    case 'number':
+      // Always set in the default native number mode
+      return node.value as number
+    case 'null':
+      return null
+    default:
+      return node.value
+  }
+}
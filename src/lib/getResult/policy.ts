@@ -1,8 +1,83 @@
 export const MAX_LENGTH = 3_000_000
 
+// Documents over MAX_LENGTH are streamed by the viewer, up to this length
+export const MAX_STREAMING_LENGTH = 250_000_000
+
+// Content types of line-delimited JSON (NDJSON / JSON Lines)
+export const JSON_LINES_TYPES = [
+  'application/x-ndjson',
+  'application/ndjson',
+  'application/jsonl',
+  'application/x-jsonlines',
+  'application/jsonlines',
+]
+
+export const isJsonLinesType = (contentType: string): boolean =>
+  JSON_LINES_TYPES.includes(contentType.split(';')[0].trim().toLowerCase())
+
 export const isTooLong = (len: number, max: number = MAX_LENGTH): boolean => len > max
 
+// A leading comment (// or /*) may start a JSONC document
 export const startsLikeJson = (text: string): boolean => {
-  const [startChar] = text.match(/[^\x20\x0a\x0d\x09]/) ?? []
-  return !!startChar && '{["'.includes(startChar)
+  const [start] = text.match(/[^\x20\x0a\x0d\x09](?:[/*])?/) ?? []
+  return !!start && ('{["'.includes(start[0]) || start === '//' || start === '/*')
+}
+
+/**
+ * Wrapper around a JSON document: a JSONP callback, `callback({...});`, or
+ * an anti-hijacking (XSSI) prefix such as `)]}',` or `while(1);`
+ */
+export interface JsonWrapper {
+  kind: 'jsonp' | 'xssi'
+  /** Callback name, or the prefix as written */
+  name: string
+  /** Where the JSON starts and ends in the text (end exclusive) */
+  start: number
+  end: number
+}
+
+// Optional /**/ guard (against Flash-era content sniffing), then a dotted name
+const JSONP_START = /^\s*(?:\/\*\*\/\s*)?([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\s*\(/
+const XSSI_PREFIX = /^\s*(\)\]\}',?|while\s*\(\s*1\s*\)\s*;|for\s*\(\s*;\s*;\s*\)\s*;)/
+
+const isSpace = (char: string): boolean => '\x20\x0a\x0d\x09'.includes(char)
+
+/**
+ * Detects a JSONP callback or XSSI prefix around the text
+ *
+ * Only the wrapper is checked; whether the text inside is JSON is left to
+ * the caller.
+ *
+ * @returns The wrapper, or null if the text has none
+ */
+export const findJsonWrapper = (text: string): JsonWrapper | null => {
+  const prefix = XSSI_PREFIX.exec(text)
+  if (prefix) {
+    return { kind: 'xssi', name: prefix[1], start: prefix[0].length, end: text.length }
+  }
+
+  const callback = JSONP_START.exec(text)
+  if (!callback) return null
+
+  // callback(...) with an optional semicolon, up to trailing whitespace
+  let end = text.length
+  while (end > 0 && isSpace(text[end - 1])) end--
+  if (text[end - 1] === ';') end--
+  while (end > 0 && isSpace(text[end - 1])) end--
+  if (text[end - 1] !== ')' || end - 1 < callback[0].length) return null
+
+  return { kind: 'jsonp', name: callback[1], start: callback[0].length, end: end - 1 }
+}
+
+/**
+ * Replaces the wrapper with spaces, keeping line breaks, so the JSON parses
+ * at the same offsets, lines and columns as in the original text
+ */
+export const stripJsonWrapper = (text: string, wrapper: JsonWrapper): string => {
+  const blank = (part: string) => part.replace(/[^\n\r]/g, ' ')
+  return (
+    blank(text.slice(0, wrapper.start)) +
+    text.slice(wrapper.start, wrapper.end) +
+    blank(text.slice(wrapper.end))
+  )
 }
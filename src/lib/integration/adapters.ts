@@ -12,10 +12,13 @@ import {
   ChildEntry,
   JsonValue,
   JsonNode,
+  EmbeddedJson,
   isJsonNode,
   isJsonValue,
 } from './types'
 import { getValueType } from '../getValueType'
+import { parse } from '../parser/parse'
+import { isLazyNode, lazyNodeKind, realizeLazyNode, type LazyNode } from '../parser/partial'
 import {
   TYPE_STRING,
   TYPE_NUMBER,
@@ -159,11 +162,18 @@ export class JsonValueAdapter implements DataAdapter {
  * providing lossless metadata and preserving key ordering.
  *
  * Accepts optional input string for on-demand raw text computation.
+ *
+ * LazyNode placeholders (parsePartial, streamed documents) are containers
+ * whose children are parsed one level at a time when first listed.
  */
 export class JsonNodeAdapter implements DataAdapter {
   constructor(private input?: string) {}
 
   getMetadata(data: ParsedData): ValueMetadata {
+    if (isLazyNode(data)) {
+      return this.getLazyMetadata(data)
+    }
+
     if (!isJsonNode(data)) {
       throw new Error('JsonNodeAdapter expects JsonNode')
     }
@@ -221,6 +231,11 @@ export class JsonNodeAdapter implements DataAdapter {
   }
 
   *getChildren(data: ParsedData): IterableIterator<ChildEntry> {
+    if (isLazyNode(data)) {
+      yield* this.getChildren(realizeLazyNode(data, data.options, 1))
+      return
+    }
+
     if (!isJsonNode(data)) return
 
     const node = data as JsonNode
@@ -249,6 +264,10 @@ export class JsonNodeAdapter implements DataAdapter {
     data: ParsedData,
     keyOrIndex: string | number
   ): ParsedData | undefined {
+    if (isLazyNode(data)) {
+      return this.getChild(realizeLazyNode(data, data.options, 1), keyOrIndex)
+    }
+
     if (!isJsonNode(data)) return undefined
 
     const node = data as JsonNode
@@ -265,6 +284,28 @@ export class JsonNodeAdapter implements DataAdapter {
     return undefined
   }
 
+  /**
+   * Metadata of a lazy container, without parsing it
+   */
+  private getLazyMetadata(lazy: LazyNode): ValueMetadata {
+    const realized = lazy._cached
+    const childCount = realized
+      ? realized.kind === 'object'
+        ? realized.entries.length
+        : realized.kind === 'array'
+          ? realized.items.length
+          : 0
+      : (lazy.childCount ?? 0)
+
+    return {
+      type: lazyNodeKind(lazy),
+      displayValue: null,
+      hasChildren: true,
+      childCount,
+      sourceRange: { start: lazy.start, end: lazy.end },
+    }
+  }
+
   private mapKindToType(
     kind: string
   ): 'string' | 'number' | 'boolean' | 'null' | 'object' | 'array' {
@@ -287,10 +328,143 @@ export class JsonNodeAdapter implements DataAdapter {
   }
 }
 
+// ============================================================================
+// EmbeddedJsonAdapter - JSON held in string values
+// ============================================================================
+
+const EMBEDDED_LABEL = 'parsed from string'
+
+// Longer strings are left as text: parsing one for every row that shows it
+// (or every search) would cost more than it is worth
+const EMBEDDED_MAX_LENGTH = 10_000
+
+// Parsed strings (null: not a JSON object or array), so rows and searches
+// parse each string once. Bounded by their total length rather than their
+// number, so a pass over thousands of short strings keeps them all; the
+// least recently used are dropped when full
+const embeddedCache = new Map<string, EmbeddedJson | null>()
+const EMBEDDED_CACHE_LENGTH = 5_000_000
+let embeddedCacheLength = 0
+
+/**
+ * Parses a string holding a non-empty JSON object or array, such as
+ * `"{\"id\": 1}"` in an API response, with ExactJSON
+ *
+ * @returns The tree, or null for any other string and strings over
+ *   EMBEDDED_MAX_LENGTH
+ */
+export function parseEmbeddedJson(text: string): EmbeddedJson | null {
+  if (text.length > EMBEDDED_MAX_LENGTH || !isBracketed(text)) return null
+
+  let embedded = embeddedCache.get(text)
+  if (embedded !== undefined) {
+    // Most recently used go last
+    embeddedCache.delete(text)
+  } else {
+    embedded = null
+    try {
+      const { ast } = parse(text)
+      if (
+        (ast.kind === 'object' && ast.entries.length > 0) ||
+        (ast.kind === 'array' && ast.items.length > 0)
+      ) {
+        embedded = { data: ast, input: text, label: EMBEDDED_LABEL }
+      }
+    } catch {
+      // Text that only looks like JSON
+    }
+    embeddedCacheLength += text.length
+    for (const oldest of embeddedCache.keys()) {
+      if (embeddedCacheLength <= EMBEDDED_CACHE_LENGTH) break
+      embeddedCache.delete(oldest)
+      embeddedCacheLength -= oldest.length
+    }
+  }
+  embeddedCache.set(text, embedded)
+  return embedded
+}
+
+/**
+ * Helper: Whether the first and last non-blank characters of text could
+ * open and close a JSON object or array, read without scanning the rest
+ */
+function isBracketed(text: string): boolean {
+  let first = 0
+  while (first < text.length && isBlank(text.charCodeAt(first))) first++
+  let last = text.length - 1
+  while (last > first && isBlank(text.charCodeAt(last))) last--
+  const open = text[first]
+  const close = text[last]
+  return last > first && (open === '{' || open === '[') && (close === '}' || close === ']')
+}
+
+/**
+ * Helper: Whether a character code is JSON whitespace
+ */
+function isBlank(code: number): boolean {
+  return code === 0x20 || code === 0x0a || code === 0x0d || code === 0x09
+}
+
+/**
+ * Adapter listing the JSON held in string values as their children
+ *
+ * Wraps the adapter of the data. A string holding a JSON object or array
+ * keeps its type and value, and gets the parsed tree's children; those are
+ * ExactJSON nodes of the string's text, which their entries carry as
+ * input. The document is not changed.
+ */
+export class EmbeddedJsonAdapter implements DataAdapter {
+  constructor(private base: DataAdapter) {}
+
+  getMetadata(data: ParsedData): ValueMetadata {
+    const meta = this.base.getMetadata(data)
+    if (meta.type !== 'string') return meta
+
+    const embedded = parseEmbeddedJson(meta.displayValue!)
+    if (!embedded) return meta
+
+    const childCount =
+      embedded.data.kind === 'object' ? embedded.data.entries.length : embedded.data.items.length
+    return { ...meta, hasChildren: true, childCount, embedded }
+  }
+
+  *getChildren(data: ParsedData): IterableIterator<ChildEntry> {
+    const embedded = this.embeddedIn(data)
+    if (!embedded) {
+      yield* this.base.getChildren(data)
+      return
+    }
+
+    for (const child of new JsonNodeAdapter(embedded.input).getChildren(embedded.data)) {
+      yield { ...child, input: embedded.input }
+    }
+  }
+
+  getChild(data: ParsedData, keyOrIndex: string | number): ParsedData | undefined {
+    const embedded = this.embeddedIn(data)
+    return embedded
+      ? new JsonNodeAdapter(embedded.input).getChild(embedded.data, keyOrIndex)
+      : this.base.getChild(data, keyOrIndex)
+  }
+
+  private embeddedIn(data: ParsedData): EmbeddedJson | null {
+    const meta = this.base.getMetadata(data)
+    return meta.type === 'string' ? parseEmbeddedJson(meta.displayValue!) : null
+  }
+}
+
 // ============================================================================
 // Adapter Factory
 // ============================================================================
 
+/**
+ * Adapter features beyond reading the data
+ */
+export interface AdapterOptions {
+  /** List the JSON held in string values as their children (EmbeddedJsonAdapter) */
+  embeddedJson?: boolean
+}
+
 /**
  * Creates appropriate adapter based on data type
  *
@@ -299,11 +473,14 @@ export class JsonNodeAdapter implements DataAdapter {
  *
  * @param data - The parsed data (JsonValue or JsonNode)
  * @param input - Optional original input string for on-demand raw computation
+ * @param options - Adapter features (default: none)
  */
-export function createAdapter(data: ParsedData, input?: string): DataAdapter {
-  if (isJsonNode(data)) {
-    return new JsonNodeAdapter(input)
-  } else {
-    return new JsonValueAdapter()
-  }
+export function createAdapter(
+  data: ParsedData,
+  input?: string,
+  options: AdapterOptions = {}
+): DataAdapter {
+  const adapter =
+    isJsonNode(data) || isLazyNode(data) ? new JsonNodeAdapter(input) : new JsonValueAdapter()
+  return options.embeddedJson ? new EmbeddedJsonAdapter(adapter) : adapter
 }
@@ -38,7 +38,7 @@ export type {
   JsonString,
 } from '../parser/types'
 
-import type { JsonNode } from '../parser/types'
+import type { JsonNode, ObjectNode, ArrayNode } from '../parser/types'
 import { isJsonNode as isJsonNodeImpl } from '../parser/guards'
 
 /**
@@ -81,6 +81,23 @@ export interface ValueMetadata {
 
   /** Raw lexeme for lossless display (optional, Phase II) */
   rawText?: string
+
+  /** JSON the string holds, listed as its children (EmbeddedJsonAdapter only) */
+  embedded?: EmbeddedJson
+}
+
+/**
+ * A JSON object or array held in a string value, parsed with ExactJSON
+ */
+export interface EmbeddedJson {
+  /** Tree parsed from input */
+  data: ObjectNode | ArrayNode
+
+  /** The string's text, which the tree's positions refer to */
+  input: string
+
+  /** How it was obtained, shown on the string's row (e.g. "parsed from string") */
+  label: string
 }
 
 /**
@@ -95,6 +112,9 @@ export interface ChildEntry {
 
   /** Index within parent (for ordering) */
   index: number
+
+  /** Text the child was parsed from, when it is not the document's (embedded JSON) */
+  input?: string
 }
 
 /**
@@ -0,0 +1,8 @@
+/**
+ * NDJSON Utilities - Barrel Export
+ *
+ * This module parses line-delimited JSON and flattens it for the NDJSON
+ * viewer.
+ */
+
+export * from './ndjson'
@@ -0,0 +1,186 @@
+/**
+ * NDJSON / JSON Lines
+ *
+ * Line-delimited JSON: one value per line, as served by log and streaming
+ * endpoints (application/x-ndjson). Each line is parsed on its own, so a bad
+ * line is reported without losing the records around it.
+ */
+
+import type { ParsedData } from '../integration/types'
+import { flattenTree } from '../tree/flatten'
+import type { FlatNode, TreeState } from '../tree/types'
+import { ParseCancelledError } from '../worker/client'
+
+/**
+ * A non-blank line of the document
+ */
+export type JsonLine = {
+  /** Line number (1-based) */
+  line: number
+  /** Offset of the line in the document */
+  start: number
+  /** Line text, without the line break */
+  text: string
+} & ({ ok: true; value: ParsedData } | { ok: false; error: string })
+
+/**
+ * Parsed NDJSON document
+ */
+export interface JsonLinesDocument {
+  lines: JsonLine[]
+  /** Number of lines that parsed */
+  records: number
+  /** Number of lines that did not parse */
+  errors: number
+}
+
+/**
+ * Parses each non-blank line as a JSON value
+ *
+ * @param input - Document text (LF or CRLF line breaks)
+ * @param parseLine - Parser for one line (default: JSON.parse)
+ */
+export function parseJsonLines(
+  input: string,
+  parseLine: (text: string) => ParsedData = JSON.parse
+): JsonLinesDocument {
+  const document: JsonLinesDocument = { lines: [], records: 0, errors: 0 }
+
+  let start = 0
+  for (let line = 1; start !== -1; line++) {
+    start = parseLineAt(input, start, line, parseLine, document)
+  }
+
+  return document
+}
+
+export interface ReadJsonLinesOptions {
+  /** Parser for one line (default: JSON.parse) */
+  parseLine?: (text: string) => ParsedData
+  /** Aborting stops reading and rejects with ParseCancelledError */
+  signal?: AbortSignal
+  /** Called after each slice with the number of characters read */
+  onProgress?: (loaded: number, total: number) => void
+  /** Milliseconds of parsing before yielding to the page (default: 12) */
+  sliceMs?: number
+  /** Yields to the page between slices (default: a zero-delay timeout) */
+  yieldToPage?: () => Promise<void>
+}
+
+const nextTask = () => new Promise<void>((resolve) => setTimeout(resolve, 0))
+
+/**
+ * Parses each non-blank line like parseJsonLines, in short slices that
+ * yield to the page in between, for documents too long to parse at once
+ */
+export async function readJsonLines(
+  input: string,
+  {
+    parseLine = JSON.parse,
+    signal,
+    onProgress,
+    sliceMs = 12,
+    yieldToPage = nextTask,
+  }: ReadJsonLinesOptions = {}
+): Promise<JsonLinesDocument> {
+  const document: JsonLinesDocument = { lines: [], records: 0, errors: 0 }
+
+  let start = 0
+  let line = 1
+  while (start !== -1) {
+    if (signal?.aborted) throw new ParseCancelledError()
+
+    const sliceEnd = performance.now() + sliceMs
+    do {
+      start = parseLineAt(input, start, line++, parseLine, document)
+    } while (start !== -1 && performance.now() < sliceEnd)
+
+    onProgress?.(start === -1 ? input.length : start, input.length)
+    if (start !== -1) await yieldToPage()
+  }
+
+  return document
+}
+
+/**
+ * Helper: Parses the line starting at an offset into the document
+ *
+ * @returns Offset of the next line, or -1 after the last one
+ */
+function parseLineAt(
+  input: string,
+  start: number,
+  line: number,
+  parseLine: (text: string) => ParsedData,
+  document: JsonLinesDocument
+): number {
+  const newline = input.indexOf('\n', start)
+  const end = newline === -1 ? input.length : newline
+  const text = input.slice(start, end > start && input[end - 1] === '\r' ? end - 1 : end)
+
+  if (text.trim() !== '') {
+    try {
+      document.lines.push({ line, start, text, ok: true, value: parseLine(text) })
+      document.records++
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      document.lines.push({ line, start, text, ok: false, error: message })
+      document.errors++
+    }
+  }
+
+  return newline === -1 ? -1 : newline + 1
+}
+
+/**
+ * Checks if a document that is not a single JSON value reads as NDJSON
+ *
+ * Needs at least two records, a first line that parses, and more records
+ * than bad lines, so that prose or broken JSON is not mistaken for it.
+ */
+export function looksLikeJsonLines(document: JsonLinesDocument): boolean {
+  const [first] = document.lines
+  return (
+    first !== undefined &&
+    first.ok &&
+    document.records >= 2 &&
+    document.records > document.errors
+  )
+}
+
+/**
+ * Row of the NDJSON viewer: a tree row of a record, or a bad line
+ */
+export type JsonLinesRow =
+  | { kind: 'record'; line: JsonLine; node: FlatNode }
+  | { kind: 'error'; line: JsonLine }
+
+/**
+ * Path of a line's root, used for its tree rows and expansion state
+ *
+ * @param index - Position of the line in JsonLinesDocument.lines
+ */
+export function lineRootPath(index: number): string {
+  return `$[${index}]`
+}
+
+/**
+ * Flattens the visible rows: each record is a top-level tree, expanded
+ * according to state
+ */
+export function flattenJsonLines(document: JsonLinesDocument, state: TreeState): JsonLinesRow[] {
+  const rows: JsonLinesRow[] = []
+
+  document.lines.forEach((line, index) => {
+    if (!line.ok) {
+      rows.push({ kind: 'error', line })
+      return
+    }
+    const path = lineRootPath(index)
+    for (const node of flattenTree(line.value, state, null, 0, path, 0, 1, line.text)) {
+      rows.push({ kind: 'record', line, node })
+    }
+  })
+
+  return rows
+}
@@ -6,6 +6,7 @@
  */
 
 import type { NumberMode } from './parser/types'
+import { DEFAULT_JSON_CONTENT_TYPES } from './getResult/detect'
 
 /**
  * Parser types available
@@ -65,6 +66,10 @@ export interface ParserSettings {
   // Gradual rollout opt-in/opt-out (Week 20)
   forceEnableCustomParser: boolean // Default: false (user opts in to beta)
   forceDisableCustomParser: boolean // Default: false (user opts out after issues)
+
+  // Detection: Content-Types formatted as JSON, * matching any characters
+  // (missing in settings saved before it existed)
+  jsonContentTypes?: string[] // Default: DEFAULT_JSON_CONTENT_TYPES
 }
 
 /**
@@ -91,6 +96,7 @@ export const DEFAULT_PARSER_SETTINGS: ParserSettings = {
   enableCustomParser: true,
   forceEnableCustomParser: false,
   forceDisableCustomParser: false,
+  jsonContentTypes: DEFAULT_JSON_CONTENT_TYPES,
 }
 
 /**
@@ -0,0 +1,171 @@
+/**
+ * Parse Error Diagnosis
+ *
+ * Turns a parse failure into what the error page shows: the message, the
+ * line and column, a code frame around the offending character, the JSON
+ * path, and likely fixes for common mistakes (missing or trailing commas,
+ * unquoted keys, curly quotes pasted from documents).
+ */
+
+import { ParseError } from './events'
+import { TokenizerError } from './tokens'
+import { LineIndex } from './line-index'
+
+/**
+ * A line of a code frame
+ */
+export interface CodeFrameLine {
+  /** Line number (1-based) */
+  line: number
+  /** Line text, clipped around the error on long lines */
+  text: string
+  /** Position of the caret in text (1-based), on the error line only */
+  caret?: number
+}
+
+export type FixSuggestionKind = 'missing-comma' | 'trailing-comma' | 'unquoted-key' | 'smart-quotes'
+
+export interface FixSuggestion {
+  kind: FixSuggestionKind
+  message: string
+}
+
+export interface ParseDiagnosis {
+  /** What went wrong, without the location */
+  message: string
+  /** Offset of the offending character (null when the error has none) */
+  position: number | null
+  /** Line and column of position (1-based) */
+  line: number | null
+  column: number | null
+  /** JSON path of the container or member being parsed */
+  path: string | null
+  /** Lines around the error, empty when position is unknown */
+  frame: CodeFrameLine[]
+  suggestions: FixSuggestion[]
+}
+
+// Lines shown before and after the error line
+const FRAME_CONTEXT = 2
+// Characters of each line shown; long lines are clipped around the caret
+const FRAME_WIDTH = 80
+
+const SMART_QUOTES = /[“”‘’]/
+const UNQUOTED_KEY = /^([A-Za-z_$][\w$]*)\s*:/
+const VALUE_START = /^["{[tfn\-\d]/
+
+/**
+ * Describes a parse failure
+ *
+ * @param input - Document that failed to parse
+ * @param error - Error thrown by ExactJSON (ParseError, TokenizerError) or
+ *   JSON.parse (whose message may carry "at position N")
+ */
+export function diagnoseParseError(
+  input: string,
+  error: unknown,
+  lines: LineIndex = new LineIndex(input)
+): ParseDiagnosis {
+  let message = error instanceof Error ? error.message : String(error)
+  let position: number | null = null
+  let path: string | null = null
+
+  if (error instanceof ParseError) {
+    message = error.reason
+    position = error.position
+    path = error.path
+  } else if (error instanceof TokenizerError) {
+    position = error.position
+  } else {
+    const match = /at position (\d+)/.exec(message)
+    if (match) position = Number(match[1])
+  }
+
+  if (position === null) {
+    return { message, position, line: null, column: null, path, frame: [], suggestions: [] }
+  }
+
+  const { line, column } = lines.locate(position)
+  return {
+    message,
+    position,
+    line,
+    column,
+    path,
+    frame: codeFrame(lines, position),
+    suggestions: suggestFixes(input, position, message),
+  }
+}
+
+/**
+ * Lines around an offset, with a caret under it
+ */
+export function codeFrame(lines: LineIndex, offset: number): CodeFrameLine[] {
+  const { line, column } = lines.locate(offset)
+  // Keep the caret in view on long lines (minified JSON is one line)
+  const from = Math.max(0, column - 1 - FRAME_WIDTH / 2)
+
+  const frame: CodeFrameLine[] = []
+  const first = Math.max(1, line - FRAME_CONTEXT)
+  const last = Math.min(lines.lineCount, line + FRAME_CONTEXT)
+  for (let number = first; number <= last; number++) {
+    const text = lines.lineText(number)
+    const clipped =
+      (from > 0 ? '…' : '') +
+      text.slice(from, from + FRAME_WIDTH) +
+      (text.length > from + FRAME_WIDTH ? '…' : '')
+    frame.push(
+      number === line
+        ? { line: number, text: clipped, caret: column - from + (from > 0 ? 1 : 0) }
+        : { line: number, text: clipped }
+    )
+  }
+  return frame
+}
+
+/**
+ * Likely fixes for the error at position
+ */
+export function suggestFixes(input: string, position: number, message: string): FixSuggestion[] {
+  const suggestions: FixSuggestion[] = []
+  const rest = input.slice(position, position + 200)
+  const char = input[position] ?? ''
+
+  // Curly quotes anywhere on the error line
+  const lineStart = input.lastIndexOf('\n', position - 1) + 1
+  const lineEnd = input.indexOf('\n', position)
+  if (SMART_QUOTES.test(input.slice(lineStart, lineEnd === -1 ? undefined : lineEnd))) {
+    suggestions.push({
+      kind: 'smart-quotes',
+      message: 'Replace curly quotes (“ ” ‘ ’) with straight double quotes (")',
+    })
+  }
+
+  // ExactJSON points at the comma ("Trailing comma before }"), other parsers
+  // at the bracket after it
+  const before = input.slice(Math.max(0, position - 200), position).trimEnd()
+  const closing = message.startsWith('Trailing comma') ? message.slice(-1) : char
+  if (
+    message.startsWith('Trailing comma') ||
+    ((char === '}' || char === ']') && before.endsWith(','))
+  ) {
+    suggestions.push({ kind: 'trailing-comma', message: `Remove the comma before ${closing}` })
+  }
+
+  if (message.startsWith('Expected comma') && VALUE_START.test(rest)) {
+    suggestions.push({
+      kind: 'missing-comma',
+      message: 'Add a comma between the previous value and this one',
+    })
+  }
+
+  const key = UNQUOTED_KEY.exec(rest)
+  if (key) {
+    suggestions.push({
+      kind: 'unquoted-key',
+      message: `Put the key in double quotes: "${key[1]}"`,
+    })
+  }
+
+  return suggestions
+}
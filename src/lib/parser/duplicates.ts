@@ -0,0 +1,74 @@
+/**
+ * Duplicate Key Detection
+ *
+ * RFC 8259 leaves objects with repeated keys undefined, and JSON.parse
+ * silently keeps the last value, which hides bugs in the services that
+ * produced them. ExactJSON keeps every entry in source order, so this
+ * validation pass can report each occurrence and which one JSON.parse uses.
+ */
+
+import type { JsonNode, ParseErrorInfo } from './types'
+import { childPath } from './json-path'
+import { LineIndex } from './line-index'
+import { isLazyNode } from './partial'
+
+/**
+ * Reports every occurrence of a repeated object key
+ *
+ * Each occurrence is a validation error at the member's path (occurrences
+ * share it) and the position of its key. Its recovery says whether
+ * JSON.parse uses that value: only the last occurrence's is kept.
+ * Containers not parsed yet (lazy placeholders of streamed documents) are
+ * skipped.
+ *
+ * @param root - ExactJSON AST
+ * @param input - Document the AST was parsed from (for line and column)
+ * @returns The errors in document order (empty when keys are unique)
+ */
+export function findDuplicateKeys(root: JsonNode, input: string): ParseErrorInfo[] {
+  const errors: ParseErrorInfo[] = []
+  visit(root, '$', errors)
+  if (errors.length === 0) return errors
+
+  errors.sort((a, b) => a.position - b.position)
+  const lines = new LineIndex(input)
+  for (const error of errors) Object.assign(error, lines.locate(error.position))
+  return errors
+}
+
+function visit(node: JsonNode, path: string, errors: ParseErrorInfo[]): void {
+  const placeholder: unknown = node
+  if (isLazyNode(placeholder)) return
+
+  if (node.kind === 'array') {
+    node.items.forEach((item, index) => visit(item, childPath(path, null, index), errors))
+    return
+  }
+  if (node.kind !== 'object') return
+
+  // Entry indices of each key, in source order
+  const occurrences = new Map<string, number[]>()
+  node.entries.forEach((entry, index) => {
+    const indices = occurrences.get(entry.key.value)
+    if (indices) indices.push(index)
+    else occurrences.set(entry.key.value, [index])
+  })
+
+  for (const [key, indices] of occurrences) {
+    if (indices.length < 2) continue
+    const last = indices[indices.length - 1]
+    for (const index of indices) {
+      errors.push({
+        message: `Duplicate key ${JSON.stringify(key)}`,
+        position: node.entries[index].key.start,
+        path: childPath(path, key, index),
+        type: 'validation',
+        recovery: index === last ? 'JSON.parse uses this value' : 'JSON.parse uses a later value',
+      })
+    }
+  }
+
+  node.entries.forEach((entry, index) =>
+    visit(entry.value, childPath(path, entry.key.value, index), errors)
+  )
+}
@@ -13,14 +13,15 @@ import type { NumberMode } from './numbers'
  * Parser event types
  *
  * Events are emitted during parsing to represent the structure
- * of the JSON document as it's being processed.
+ * of the JSON document as it's being processed. Offsets (start, end) are
+ * positions in the input; end is exclusive.
  */
 export type ParserEvent =
-  | { type: 'startObject'; path: string }
-  | { type: 'endObject'; path: string }
-  | { type: 'startArray'; path: string }
-  | { type: 'endArray'; path: string }
-  | { type: 'key'; value: string; path: string }
+  | { type: 'startObject'; path: string; start: number }
+  | { type: 'endObject'; path: string; end: number }
+  | { type: 'startArray'; path: string; start: number }
+  | { type: 'endArray'; path: string; end: number }
+  | { type: 'key'; value: string; path: string; start: number; end: number }
   | { type: 'value'; value: JsonNode; path: string }
 
 /**
@@ -42,11 +43,12 @@ export interface ParserOptions {
  */
 export class ParseError extends SyntaxError {
   constructor(
-    message: string,
+    /** What went wrong, without the location (the message includes both) */
+    public reason: string,
     public position: number,
     public path: string
   ) {
-    super(`${message} at position ${position}, path: ${path}`)
+    super(`${reason} at position ${position}, path: ${path}`)
     this.name = 'ParseError'
   }
 }
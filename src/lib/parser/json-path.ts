@@ -0,0 +1,275 @@
+/**
+ * JSON Path Model
+ *
+ * A single representation of node locations shared by the parser, the tree
+ * utilities and the UI:
+ *
+ * - Display paths: `$.users[0].name`, with member names that are not valid
+ *   RFC 9535 shorthand written bracket-quoted (`$['a.b']['x[0]']`), so every
+ *   key maps to exactly one path string.
+ * - Normalized paths (RFC 9535 §2.7): `$['users'][0]['name']`.
+ * - JSON Pointers (RFC 6901): `/users/0/name`.
+ *
+ * parsePath accepts both dot shorthand and bracket notation (single or
+ * double quoted), so any formatted path round-trips.
+ */
+
+/**
+ * Path segment types
+ */
+export type PathSegment =
+  | { type: 'root' }
+  | { type: 'property'; name: string }
+  | { type: 'index'; index: number }
+
+// RFC 9535 member-name-shorthand: name-first *name-char
+const SHORTHAND_NAME =
+  /^[A-Za-z_\u{80}-\u{D7FF}\u{E000}-\u{10FFFF}][A-Za-z0-9_\u{80}-\u{D7FF}\u{E000}-\u{10FFFF}]*$/u
+
+/**
+ * Formats the path step for an object member, e.g. `.name` or `['a.b']`
+ */
+export function keySegment(name: string): string {
+  return SHORTHAND_NAME.test(name) ? `.${name}` : `[${quoteName(name)}]`
+}
+
+/**
+ * Builds the path of a child node from its parent's path
+ *
+ * @param path - Parent path
+ * @param key - Object key, or null for array elements
+ * @param index - Array index (used when key is null)
+ */
+export function childPath(path: string, key: string | null, index: number): string {
+  return key !== null ? path + keySegment(key) : `${path}[${index}]`
+}
+
+/**
+ * Formats segments as a display path (dot shorthand where possible)
+ */
+export function formatPath(segments: PathSegment[]): string {
+  let path = '$'
+  for (const segment of segments) {
+    if (segment.type === 'property') path += keySegment(segment.name)
+    else if (segment.type === 'index') path += `[${segment.index}]`
+  }
+  return path
+}
+
+/**
+ * Formats segments as an RFC 9535 normalized path, e.g. `$['a'][0]`
+ */
+export function formatNormalizedPath(segments: PathSegment[]): string {
+  let path = '$'
+  for (const segment of segments) {
+    if (segment.type === 'property') path += `[${quoteName(segment.name)}]`
+    else if (segment.type === 'index') path += `[${segment.index}]`
+  }
+  return path
+}
+
+/**
+ * Returns the parent of a path, or null for the root
+ */
+export function parentPath(path: string): string | null {
+  const segments = parsePath(path)
+  if (segments.length <= 1) return null
+  return formatPath(segments.slice(0, -1))
+}
+
+/**
+ * Parse a JSONPath string into segments
+ *
+ * Supports singular paths in either notation:
+ * - $ (root)
+ * - $.property
+ * - $[0]
+ * - $['a.b'] / $["a.b"] (escapes per RFC 9535)
+ *
+ * @param path - JSONPath string
+ * @returns Array of path segments, starting with the root
+ */
+export function parsePath(path: string): PathSegment[] {
+  const segments: PathSegment[] = []
+
+  // Must start with $
+  if (!path.startsWith('$')) {
+    throw new Error('JSONPath must start with $')
+  }
+
+  let i = 1 // Skip initial $
+  segments.push({ type: 'root' })
+
+  while (i < path.length) {
+    const ch = path[i]
+
+    if (ch === '.') {
+      // Property access: .propertyName
+      i++ // Skip .
+
+      let name = ''
+      while (i < path.length && path[i] !== '.' && path[i] !== '[') {
+        name += path[i]
+        i++
+      }
+
+      if (name.length === 0) {
+        throw new Error('Empty property name in path')
+      }
+
+      segments.push({ type: 'property', name })
+    } else if (ch === '[') {
+      i++ // Skip [
+
+      const quote = path[i]
+      if (quote === "'" || quote === '"') {
+        // Quoted member name: ['name']
+        const { name, end } = readQuotedName(path, i)
+        if (path[end] !== ']') {
+          throw new Error('Unclosed bracket in path')
+        }
+        i = end + 1
+        segments.push({ type: 'property', name })
+        continue
+      }
+
+      // Array index: [0]
+      let indexStr = ''
+      while (i < path.length && path[i] !== ']') {
+        indexStr += path[i]
+        i++
+      }
+
+      if (i >= path.length) {
+        throw new Error('Unclosed bracket in path')
+      }
+
+      i++ // Skip ]
+
+      if (!/^\d+$/.test(indexStr)) {
+        throw new Error(`Invalid array index: ${indexStr}`)
+      }
+
+      segments.push({ type: 'index', index: parseInt(indexStr, 10) })
+    } else {
+      throw new Error(`Unexpected character '${ch}' in path at position ${i}`)
+    }
+  }
+
+  return segments
+}
+
+/**
+ * Formats reference tokens as an RFC 6901 JSON Pointer, e.g. `/a~1b/0`
+ */
+export function formatJsonPointer(tokens: Array<string | number>): string {
+  return tokens
+    .map((token) => '/' + String(token).replace(/~/g, '~0').replace(/\//g, '~1'))
+    .join('')
+}
+
+/**
+ * Parses an RFC 6901 JSON Pointer into its reference tokens
+ *
+ * Tokens are always strings: whether "0" names an array index or an object
+ * key depends on the document, not the pointer.
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') return []
+  if (!pointer.startsWith('/')) {
+    throw new Error('JSON Pointer must be empty or start with /')
+  }
+
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((token) => {
+      if (/~(?![01])/.test(token)) {
+        throw new Error(`Invalid escape in JSON Pointer token: ${token}`)
+      }
+      return token.replace(/~1/g, '/').replace(/~0/g, '~')
+    })
+}
+
+/**
+ * Converts a JSONPath string to the equivalent JSON Pointer
+ */
+export function pathToJsonPointer(path: string): string {
+  const tokens: Array<string | number> = []
+  for (const segment of parsePath(path)) {
+    if (segment.type === 'property') tokens.push(segment.name)
+    else if (segment.type === 'index') tokens.push(segment.index)
+  }
+  return formatJsonPointer(tokens)
+}
+
+/**
+ * Helper: Single-quoted string literal with RFC 9535 normalized escaping
+ */
+function quoteName(name: string): string {
+  let out = "'"
+  for (let i = 0; i < name.length; i++) {
+    const ch = name[i]
+    const code = name.charCodeAt(i)
+    if (ch === "'") out += "\\'"
+    else if (ch === '\\') out += '\\\\'
+    else if (ch === '\b') out += '\\b'
+    else if (ch === '\f') out += '\\f'
+    else if (ch === '\n') out += '\\n'
+    else if (ch === '\r') out += '\\r'
+    else if (ch === '\t') out += '\\t'
+    else if (code < 0x20) out += '\\u' + code.toString(16).padStart(4, '0')
+    else out += ch
+  }
+  return out + "'"
+}
+
+/**
+ * Helper: Reads a quoted member name starting at the opening quote
+ *
+ * @returns The unescaped name and the position after the closing quote
+ */
+function readQuotedName(path: string, start: number): { name: string; end: number } {
+  const quote = path[start]
+  let name = ''
+  let i = start + 1
+
+  while (i < path.length && path[i] !== quote) {
+    if (path[i] !== '\\') {
+      name += path[i]
+      i++
+      continue
+    }
+
+    const esc = path[i + 1]
+    switch (esc) {
+      case 'b': name += '\b'; break
+      case 'f': name += '\f'; break
+      case 'n': name += '\n'; break
+      case 'r': name += '\r'; break
+      case 't': name += '\t'; break
+      case '/': name += '/'; break
+      case '\\': name += '\\'; break
+      case "'": name += "'"; break
+      case '"': name += '"'; break
+      case 'u': {
+        const hex = path.substring(i + 2, i + 6)
+        if (!/^[0-9A-Fa-f]{4}$/.test(hex)) {
+          throw new Error(`Invalid unicode escape in path at position ${i}`)
+        }
+        name += String.fromCharCode(parseInt(hex, 16))
+        i += 4
+        break
+      }
+      default:
+        throw new Error(`Invalid escape in path at position ${i}`)
+    }
+    i += 2
+  }
+
+  if (i >= path.length) {
+    throw new Error('Unterminated string in path')
+  }
+
+  return { name, end: i + 1 }
+}
@@ -0,0 +1,108 @@
+/**
+ * Line Index
+ *
+ * Maps offsets in a document to line and column numbers and back. The index
+ * is built once per document (a single pass recording where each line
+ * starts); each lookup is then a binary search, so every node and error can
+ * report its line:column without rescanning the text.
+ *
+ * Lines and columns are 1-based and lines end at '\n', as in the
+ * Tokenizer's error positions. Columns count UTF-16 code units.
+ */
+
+/**
+ * Line and column of an offset (both 1-based)
+ */
+export interface SourceLocation {
+  line: number
+  column: number
+}
+
+export class LineIndex {
+  /** Offset at which each line starts (index 0 is line 1) */
+  private lineStarts: Uint32Array
+
+  constructor(readonly input: string) {
+    let count = 1
+    for (let i = input.indexOf('\n'); i !== -1; i = input.indexOf('\n', i + 1)) count++
+
+    this.lineStarts = new Uint32Array(count)
+    let line = 1
+    for (let i = input.indexOf('\n'); i !== -1; i = input.indexOf('\n', i + 1)) {
+      this.lineStarts[line++] = i + 1
+    }
+  }
+
+  /**
+   * Number of lines (an empty document has one empty line)
+   */
+  get lineCount(): number {
+    return this.lineStarts.length
+  }
+
+  /**
+   * Line and column of an offset
+   *
+   * Offsets past the end of the input are clamped to it.
+   */
+  locate(offset: number): SourceLocation {
+    const position = Math.max(0, Math.min(offset, this.input.length))
+    const line = this.lineAt(position)
+    return { line, column: position - this.lineStarts[line - 1] + 1 }
+  }
+
+  /**
+   * Line (1-based) containing an offset
+   */
+  lineAt(offset: number): number {
+    let low = 0
+    let high = this.lineStarts.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >>> 1
+      if (this.lineStarts[mid] <= offset) low = mid
+      else high = mid - 1
+    }
+    return low + 1
+  }
+
+  /**
+   * Offset of a line and column
+   *
+   * @throws RangeError when the line does not exist
+   */
+  offsetOf(line: number, column: number = 1): number {
+    return Math.min(this.lineStart(line) + column - 1, this.lineEnd(line))
+  }
+
+  /**
+   * Offset at which a line starts
+   *
+   * @throws RangeError when the line does not exist
+   */
+  lineStart(line: number): number {
+    if (line < 1 || line > this.lineStarts.length) {
+      throw new RangeError(`Line ${line} is out of range (1-${this.lineStarts.length})`)
+    }
+    return this.lineStarts[line - 1]
+  }
+
+  /**
+   * Offset at which a line ends, before its line break ('\n' or '\r\n')
+   *
+   * @throws RangeError when the line does not exist
+   */
+  lineEnd(line: number): number {
+    const start = this.lineStart(line)
+    if (line === this.lineStarts.length) return this.input.length
+
+    const end = this.lineStarts[line] - 1
+    return end > start && this.input.charCodeAt(end - 1) === 13 ? end - 1 : end
+  }
+
+  /**
+   * Text of a line, without its line break
+   */
+  lineText(line: number): string {
+    return this.input.slice(this.lineStart(line), this.lineEnd(line))
+  }
+}
@@ -57,6 +57,11 @@ export interface ParsedNumber {
  * ```
  */
 export function parseNumber(raw: string, mode: NumberMode = 'native'): ParsedNumber {
+  const hex = HEX_NUMBER.exec(raw)
+  if (hex) {
+    return parseHexNumber(raw, hex[1] === '-', hex[2], mode)
+  }
+
   const result: ParsedNumber = { raw }
 
   // Always try native parsing for convenience
@@ -102,6 +107,43 @@ export function parseNumber(raw: string, mode: NumberMode = 'native'): ParsedNum
   return result
 }
 
+/**
+ * JSON5 hexadecimal integer: optional sign, 0x prefix, hex digits
+ */
+const HEX_NUMBER = /^([+-]?)0[xX]([0-9a-fA-F]+)$/
+
+/**
+ * Helper: Parse a JSON5 hexadecimal integer
+ *
+ * Number() does not accept signed hex, so the digits go through BigInt.
+ * Decimal mode stores the value in base 10.
+ */
+function parseHexNumber(
+  raw: string,
+  negative: boolean,
+  digits: string,
+  mode: NumberMode
+): ParsedNumber {
+  const result: ParsedNumber = { raw }
+  if (mode === 'string') return result
+
+  const magnitude = BigInt('0x' + digits)
+  const big = negative ? -magnitude : magnitude
+  const nativeValue = Number(big)
+
+  if (mode === 'bigint') {
+    result.bigInt = big
+    if (Number.isSafeInteger(nativeValue)) {
+      result.value = nativeValue
+    }
+  } else {
+    result.value = nativeValue
+    if (mode === 'decimal') result.decimal = big.toString()
+  }
+
+  return result
+}
+
 /**
  * Check if a number string represents a safe integer
  *
@@ -134,6 +176,45 @@ export function isInteger(raw: string): boolean {
   return !raw.includes('.') && !raw.includes('e') && !raw.includes('E')
 }
 
+/**
+ * Canonical form of a number lexeme: equal for lexemes with the same exact
+ * value, whatever their spelling or size
+ *
+ * The digits lose their leading and trailing zeros and the exponent counts
+ * the rest, so no precision is lost. Infinity and NaN (JSON5) keep their
+ * spelling without a plus sign.
+ *
+ * @param raw - The raw number string
+ * @returns Canonical string, `0` or e.g. `-12345e-2`
+ *
+ * @example
+ * ```typescript
+ * canonicalNumber('1.50')  // => '15e-1'
+ * canonicalNumber('150e-2') // => '15e-1'
+ * canonicalNumber('0x10')  // => '16e0'
+ * ```
+ */
+export function canonicalNumber(raw: string): string {
+  const hex = HEX_NUMBER.exec(raw)
+  if (hex) return canonicalNumber(hex[1] + BigInt('0x' + hex[2]).toString())
+
+  const match = DECIMAL_NUMBER.exec(raw)
+  if (!match) return raw.replace(/^\+/, '')
+
+  const [, sign, integer, fraction = '', exponent = '0'] = match
+  const digits = (integer + fraction).replace(/^0+/, '')
+  if (digits === '') return '0'
+
+  const significant = digits.replace(/0+$/, '')
+  const scale = Number(exponent) - fraction.length + digits.length - significant.length
+  return `${sign === '-' ? '-' : ''}${significant}e${scale}`
+}
+
+/**
+ * JSON or JSON5 decimal number: sign, integer digits, fraction, exponent
+ */
+const DECIMAL_NUMBER = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/
+
 /**
  * Format a parsed number for display
  *
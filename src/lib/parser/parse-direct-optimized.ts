@@ -39,6 +39,8 @@ export class DirectParserOptimized {
       maxDepth: options.maxDepth || 1000,
       maxKeyLength: options.maxKeyLength || 10000,
       maxStringLength: options.maxStringLength || 10000000,
+      // JSONC/JSON5 input is only supported by DirectParser
+      syntax: 'json',
     }
   }
 
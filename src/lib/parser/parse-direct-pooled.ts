@@ -38,6 +38,8 @@ export class DirectParserPooled {
       maxDepth: options.maxDepth || 1000,
       maxKeyLength: options.maxKeyLength || 10000,
       maxStringLength: options.maxStringLength || 10000000,
+      // JSONC/JSON5 input is only supported by DirectParser
+      syntax: 'json',
     }
     // Use provided pools or get global shared pools
     this.pools = pools || getGlobalPools()
@@ -5,6 +5,10 @@
  * This eliminates one full traversal compared to parse.ts.
  *
  * Performance target: 3-5x faster than event-based parser
+ *
+ * With the jsonc/json5 syntax options, accepts trailing commas and unquoted
+ * JSON5 keys, and attaches comments to the nodes as trivia
+ * (leadingComments, trailingComments, innerComments).
  */
 
 import { TokenizerOptimized } from './tokenizer-optimized'
@@ -18,10 +22,44 @@ import type {
   BooleanNode,
   NullNode,
   JsonString,
+  JsonComment,
   ParserOptions,
 } from './types'
 import type { Token } from './tokens'
 import { ParseError } from './events'
+import { keySegment } from './json-path'
+import { LineIndex } from './line-index'
+
+/**
+ * Input offset advanced between two progress reports while tokenizing
+ */
+const PROGRESS_INTERVAL = 1 << 16
+
+/**
+ * Tokens that end a value: a value expected here is missing
+ */
+const ENDS_VALUE = new Set<Token['type']>(['comma', 'rbrace', 'rbracket', 'eof'])
+
+/**
+ * Called while tokenizing with the input offset reached so far
+ */
+export type ParseProgressCallback = (offset: number) => void
+
+/**
+ * Collects the tokens, reporting progress every PROGRESS_INTERVAL characters
+ */
+function collectTokens(tokens: Iterable<Token>, onProgress: ParseProgressCallback): Token[] {
+  const result: Token[] = []
+  let next = PROGRESS_INTERVAL
+  for (const token of tokens) {
+    result.push(token)
+    if (token.end >= next) {
+      onProgress(token.end)
+      next = token.end + PROGRESS_INTERVAL
+    }
+  }
+  return result
+}
 
 /**
  * Direct parser - builds AST in single pass
@@ -33,17 +71,25 @@ export class DirectParser {
   private keyCache: Map<string, string> = new Map()
   private errors: import('./types').ParseErrorInfo[] = []
   private path: string[] = []
+  private input: string
+  private comments: JsonComment[]
+  private commentIndex: number = 0 // First comment not yet attached to a node
 
-  constructor(input: string, options: ParserOptions = {}) {
-    const tokenizer = new TokenizerOptimized(input)
-    this.tokens = Array.from(tokenizer.tokenize())
+  constructor(input: string, options: ParserOptions = {}, onProgress?: ParseProgressCallback) {
     this.options = {
       numberMode: options.numberMode || 'native',
       tolerant: options.tolerant || false,
       maxDepth: options.maxDepth || 1000,
       maxKeyLength: options.maxKeyLength || 10000,
       maxStringLength: options.maxStringLength || 10000000,
+      syntax: options.syntax || 'json',
     }
+    const tokenizer = new TokenizerOptimized(input, { syntax: this.options.syntax })
+    this.tokens = onProgress
+      ? collectTokens(tokenizer.tokenize(), onProgress)
+      : Array.from(tokenizer.tokenize())
+    this.input = input
+    this.comments = tokenizer.getComments()
   }
 
   /**
@@ -52,13 +98,19 @@ export class DirectParser {
   parse(): JsonNode {
     const result = this.parseValue(0)
 
+    // Comments after the root value (and at the end of the document)
+    const trailing = this.takeComments(Infinity)
+    if (trailing) {
+      result.trailingComments = trailing
+    }
+
     // Should be at EOF
     if (this.pos < this.tokens.length - 1) {
       const token = this.tokens[this.pos]
       throw new ParseError(
         `Unexpected token after value: ${token.type}`,
         token.start,
-        []
+        this.currentPath()
       )
     }
 
@@ -75,6 +127,13 @@ export class DirectParser {
     this.keyCache.clear()
   }
 
+  /**
+   * Get all comments in source order (jsonc/json5)
+   */
+  getComments(): JsonComment[] {
+    return this.comments
+  }
+
   /**
    * Get collected errors (for tolerant mode)
    */
@@ -94,12 +153,19 @@ export class DirectParser {
     this.errors.push({
       message,
       position,
-      path: '$' + this.path.join(''),
+      path: this.currentPath(),
       type,
       recovery,
     })
   }
 
+  /**
+   * Path of the container or member being parsed
+   */
+  private currentPath(): string {
+    return '$' + this.path.join('')
+  }
+
   /**
    * Handle error - throw or record depending on tolerant mode
    */
@@ -107,7 +173,7 @@ export class DirectParser {
     if (this.options.tolerant) {
       this.recordError(message, position)
     } else {
-      throw new ParseError(message, position, [])
+      throw new ParseError(message, position, this.currentPath())
     }
   }
 
@@ -124,33 +190,150 @@ export class DirectParser {
     return value
   }
 
+  /**
+   * Claim the unattached comments that start before a position
+   *
+   * @param limit - Source offset the comments must start before
+   * @param sameLineAs - If set, stop at the first comment on a later line
+   *   than this offset
+   * @returns The comments, or undefined if there are none
+   */
+  private takeComments(limit: number, sameLineAs?: number): JsonComment[] | undefined {
+    let taken: JsonComment[] | undefined
+
+    while (this.commentIndex < this.comments.length) {
+      const comment = this.comments[this.commentIndex]
+      if (comment.start >= limit) break
+      if (sameLineAs !== undefined && this.input.lastIndexOf('\n', comment.start) >= sameLineAs) {
+        break
+      }
+      taken = taken || []
+      taken.push(comment)
+      this.commentIndex++
+    }
+
+    return taken
+  }
+
+  /**
+   * Attach comments on the same line after a value (and its comma)
+   */
+  private attachTrailingComments(node: JsonNode): void {
+    let next = this.tokens[this.pos]
+    if (next.type === 'comma') {
+      next = this.tokens[this.pos + 1]
+    }
+
+    const comments = this.takeComments(next.start, node.end)
+    if (comments) {
+      node.trailingComments = comments
+    }
+  }
+
+  /**
+   * Attach comments left before a closing bracket to the container
+   */
+  private closeContainer<T extends ObjectNode | ArrayNode>(node: T, closeToken: Token): T {
+    const comments = this.takeComments(closeToken.start)
+    if (comments) {
+      node.innerComments = comments
+    }
+    return node
+  }
+
+  /**
+   * Tolerant mode: close a container the input ended inside of
+   */
+  private closeAtEnd<T extends ObjectNode | ArrayNode>(node: T, eofToken: Token): T {
+    this.recordError(
+      `Unexpected end of input, expected ${node.kind === 'object' ? '}' : ']'}`,
+      eofToken.start,
+      'syntax',
+      `Closed unterminated ${node.kind}`
+    )
+    return this.closeContainer(node, eofToken)
+  }
+
+  /**
+   * Key text of an unquoted JSON5 key, or undefined if the token is not one
+   *
+   * JSON5 keys may be any identifier name, including true, false, null,
+   * Infinity and NaN (which the tokenizer reports as literals and numbers).
+   */
+  private unquotedKey(token: Token): string | undefined {
+    if (this.options.syntax !== 'json5') {
+      return undefined
+    }
+
+    switch (token.type) {
+      case 'identifier':
+        return token.value
+      case 'true':
+      case 'false':
+      case 'null':
+        return token.type
+      case 'number':
+        return token.raw === 'Infinity' || token.raw === 'NaN' ? token.raw : undefined
+      default:
+        return undefined
+    }
+  }
+
   /**
    * Parse any JSON value
    */
   private parseValue(depth: number): JsonNode {
     if (depth > this.options.maxDepth) {
-      throw new ParseError(`Maximum nesting depth exceeded (${this.options.maxDepth})`, 0, [])
+      throw new ParseError(
+        `Maximum nesting depth exceeded (${this.options.maxDepth})`,
+        0,
+        this.currentPath()
+      )
     }
 
     const token = this.tokens[this.pos]
+    const leading = this.takeComments(token.start)
+    let node: JsonNode
 
     switch (token.type) {
       case 'lbrace':
-        return this.parseObject(depth)
+        node = this.parseObject(depth)
+        break
       case 'lbracket':
-        return this.parseArray(depth)
+        node = this.parseArray(depth)
+        break
       case 'string':
-        return this.parseString(token)
+        node = this.parseString(token)
+        break
       case 'number':
-        return this.parseNumberNode(token)
+        node = this.parseNumberNode(token)
+        break
       case 'true':
       case 'false':
-        return this.parseBoolean(token)
+        node = this.parseBoolean(token)
+        break
       case 'null':
-        return this.parseNull(token)
+        node = this.parseNull(token)
+        break
       default:
-        throw new ParseError(`Unexpected token: ${token.type}`, token.start, [])
+        if (this.options.tolerant && depth > 0 && ENDS_VALUE.has(token.type)) {
+          // Leave the token for the container: {"a": } and [1,,2] get a null
+          this.recordError(
+            `Expected value, got ${token.type}`,
+            token.start,
+            'syntax',
+            'Inserted null for missing value'
+          )
+          node = { kind: 'null', start: token.start, end: token.start }
+          break
+        }
+        throw new ParseError(`Unexpected token: ${token.type}`, token.start, this.currentPath())
+    }
+
+    if (leading) {
+      node.leadingComments = leading
     }
+    return node
   }
 
   /**
@@ -166,27 +349,41 @@ export class DirectParser {
     if (this.tokens[this.pos].type === 'rbrace') {
       const endToken = this.tokens[this.pos]
       this.pos++ // Skip '}'
-      return {
-        kind: 'object',
-        entries,
-        start: startToken.start,
-        end: endToken.end,
-      }
+      return this.closeContainer(
+        {
+          kind: 'object',
+          entries,
+          start: startToken.start,
+          end: endToken.end,
+        },
+        endToken
+      )
     }
 
     while (true) {
-      // Expect string key
+      // Expect string key (or unquoted key in JSON5)
       const keyToken = this.tokens[this.pos]
-      if (keyToken.type !== 'string') {
+      const keyValue = keyToken.type === 'string' ? keyToken.value : this.unquotedKey(keyToken)
+      if (keyValue === undefined) {
         // Check for closing brace
         if (keyToken.type === 'rbrace') {
           this.pos++
-          return {
-            kind: 'object',
-            entries,
-            start: startToken.start,
-            end: keyToken.end,
-          }
+          return this.closeContainer(
+            {
+              kind: 'object',
+              entries,
+              start: startToken.start,
+              end: keyToken.end,
+            },
+            keyToken
+          )
+        }
+
+        if (keyToken.type === 'eof' && this.options.tolerant) {
+          return this.closeAtEnd(
+            { kind: 'object', entries, start: startToken.start, end: keyToken.start },
+            keyToken
+          )
         }
 
         if (this.options.tolerant) {
@@ -194,20 +391,27 @@ export class DirectParser {
           this.pos++ // Skip invalid token
           continue
         } else {
-          throw new ParseError(`Expected string key, got ${keyToken.type}`, keyToken.start, [])
+          throw new ParseError(
+            `Expected string key, got ${keyToken.type}`,
+            keyToken.start,
+            this.currentPath()
+          )
         }
       }
 
+      // Comments before the key lead the member's value
+      const keyComments = this.takeComments(keyToken.start)
+
       const key: JsonString = {
         kind: 'string',
-        value: this.internString(keyToken.value!), // Intern keys to reduce memory
+        value: this.internString(keyValue), // Intern keys to reduce memory
         // raw field omitted to save memory (~50% reduction for object keys)
         start: keyToken.start,
         end: keyToken.end,
       }
       this.pos++
 
-      this.path.push('.' + key.value)
+      this.path.push(keySegment(key.value))
 
       // Expect colon
       const colonToken = this.tokens[this.pos]
@@ -224,7 +428,7 @@ export class DirectParser {
           throw new ParseError(
             `Expected colon after key, got ${colonToken.type}`,
             colonToken.start,
-            []
+            this.currentPath()
           )
         }
       } else {
@@ -233,6 +437,10 @@ export class DirectParser {
 
       // Parse value
       const value = this.parseValue(depth + 1)
+      if (keyComments) {
+        value.leadingComments = keyComments.concat(value.leadingComments || [])
+      }
+      this.attachTrailingComments(value)
 
       entries.push({ key, value })
 
@@ -243,33 +451,47 @@ export class DirectParser {
 
       if (next.type === 'rbrace') {
         this.pos++ // Skip '}'
-        return {
-          kind: 'object',
-          entries,
-          start: startToken.start,
-          end: next.end,
-        }
+        return this.closeContainer(
+          {
+            kind: 'object',
+            entries,
+            start: startToken.start,
+            end: next.end,
+          },
+          next
+        )
       } else if (next.type === 'comma') {
         this.pos++ // Skip ','
 
         // Check if this was a trailing comma (next token is closing brace)
         const afterComma = this.tokens[this.pos]
         if (afterComma.type === 'rbrace') {
-          if (this.options.tolerant) {
-            this.recordError('Trailing comma before }', next.start, 'syntax', 'Skipped trailing comma')
-            this.pos++ // Skip '}'
-            return {
-              kind: 'object',
-              entries,
-              start: startToken.start,
-              end: afterComma.end,
+          // Allowed in JSONC and JSON5
+          if (this.options.syntax !== 'json' || this.options.tolerant) {
+            if (this.options.syntax === 'json') {
+              this.recordError('Trailing comma before }', next.start, 'syntax', 'Skipped trailing comma')
             }
+            this.pos++ // Skip '}'
+            return this.closeContainer(
+              {
+                kind: 'object',
+                entries,
+                start: startToken.start,
+                end: afterComma.end,
+              },
+              afterComma
+            )
           } else {
-            throw new ParseError('Trailing comma before }', next.start, [])
+            throw new ParseError('Trailing comma before }', next.start, this.currentPath())
           }
         }
 
         continue
+      } else if (next.type === 'eof' && this.options.tolerant) {
+        return this.closeAtEnd(
+          { kind: 'object', entries, start: startToken.start, end: next.start },
+          next
+        )
       } else {
         // Missing comma
         if (this.options.tolerant) {
@@ -277,7 +499,7 @@ export class DirectParser {
           // Continue without consuming token - next iteration will try to parse it as key
           continue
         } else {
-          throw new ParseError(`Expected comma or }, got ${next.type}`, next.start, [])
+          throw new ParseError(`Expected comma or }, got ${next.type}`, next.start, this.currentPath())
         }
       }
     }
@@ -296,20 +518,32 @@ export class DirectParser {
     if (this.tokens[this.pos].type === 'rbracket') {
       const endToken = this.tokens[this.pos]
       this.pos++ // Skip ']'
-      return {
-        kind: 'array',
-        items,
-        start: startToken.start,
-        end: endToken.end,
-      }
+      return this.closeContainer(
+        {
+          kind: 'array',
+          items,
+          start: startToken.start,
+          end: endToken.end,
+        },
+        endToken
+      )
     }
 
     let index = 0
     while (true) {
+      const token = this.tokens[this.pos]
+      if (token.type === 'eof' && this.options.tolerant) {
+        return this.closeAtEnd(
+          { kind: 'array', items, start: startToken.start, end: token.start },
+          token
+        )
+      }
+
       this.path.push(`[${index}]`)
 
       // Parse value
       const value = this.parseValue(depth + 1)
+      this.attachTrailingComments(value)
       items.push(value)
 
       this.path.pop()
@@ -320,33 +554,47 @@ export class DirectParser {
 
       if (next.type === 'rbracket') {
         this.pos++ // Skip ']'
-        return {
-          kind: 'array',
-          items,
-          start: startToken.start,
-          end: next.end,
-        }
+        return this.closeContainer(
+          {
+            kind: 'array',
+            items,
+            start: startToken.start,
+            end: next.end,
+          },
+          next
+        )
       } else if (next.type === 'comma') {
         this.pos++ // Skip ','
 
         // Check if this was a trailing comma (next token is closing bracket)
         const afterComma = this.tokens[this.pos]
         if (afterComma.type === 'rbracket') {
-          if (this.options.tolerant) {
-            this.recordError('Trailing comma before ]', next.start, 'syntax', 'Skipped trailing comma')
-            this.pos++ // Skip ']'
-            return {
-              kind: 'array',
-              items,
-              start: startToken.start,
-              end: afterComma.end,
+          // Allowed in JSONC and JSON5
+          if (this.options.syntax !== 'json' || this.options.tolerant) {
+            if (this.options.syntax === 'json') {
+              this.recordError('Trailing comma before ]', next.start, 'syntax', 'Skipped trailing comma')
             }
+            this.pos++ // Skip ']'
+            return this.closeContainer(
+              {
+                kind: 'array',
+                items,
+                start: startToken.start,
+                end: afterComma.end,
+              },
+              afterComma
+            )
           } else {
-            throw new ParseError('Trailing comma before ]', next.start, [])
+            throw new ParseError('Trailing comma before ]', next.start, this.currentPath())
           }
         }
 
         continue
+      } else if (next.type === 'eof' && this.options.tolerant) {
+        return this.closeAtEnd(
+          { kind: 'array', items, start: startToken.start, end: next.start },
+          next
+        )
       } else {
         // Missing comma
         if (this.options.tolerant) {
@@ -354,7 +602,7 @@ export class DirectParser {
           // Continue without consuming token - next iteration will try to parse it as value
           continue
         } else {
-          throw new ParseError(`Expected comma or ], got ${next.type}`, next.start, [])
+          throw new ParseError(`Expected comma or ], got ${next.type}`, next.start, this.currentPath())
         }
       }
     }
@@ -430,12 +678,19 @@ export class DirectParser {
  *
  * @param input - JSON string to parse
  * @param options - Parser configuration options
- * @returns ParserResult containing AST, input, and errors (if tolerant mode)
+ * @param onProgress - Called while tokenizing, roughly every 64K characters
+ * @returns ParserResult containing AST, input, errors (if tolerant mode) and
+ *   comments (jsonc/json5)
  */
-export function parseDirect(input: string, options?: ParserOptions): import('./types').ParserResult {
-  const parser = new DirectParser(input, options)
+export function parseDirect(
+  input: string,
+  options?: ParserOptions,
+  onProgress?: ParseProgressCallback
+): import('./types').ParserResult {
+  const parser = new DirectParser(input, options, onProgress)
   const ast = parser.parse()
   const errors = parser.getErrors()
+  const comments = parser.getComments()
 
   // Clear tokens array to allow garbage collection
   // This reduces memory footprint by ~2-3MB per parse
@@ -445,8 +700,14 @@ export function parseDirect(input: string, options?: ParserOptions): import('./t
 
   // Include errors only if there are any (tolerant mode)
   if (errors.length > 0) {
+    const lines = new LineIndex(input)
+    for (const error of errors) Object.assign(error, lines.locate(error.position))
     result.errors = errors
   }
 
+  if (comments.length > 0) {
+    result.comments = comments
+  }
+
   return result
 }
@@ -7,8 +7,7 @@
 
 import { PullParser } from './pull-parser'
 import { parseDirect } from './parse-direct'
-import type { JsonNode, ObjectNode, ArrayNode, JsonString } from './types'
-import type { ParserOptions } from './events'
+import type { JsonNode, ObjectNode, ArrayNode, JsonString, ParserOptions } from './types'
 import { ParseError } from './events'
 
 /**
@@ -8,9 +8,10 @@
 
 import { PullParser } from './pull-parser'
 import { parse } from './parse'
-import type { JsonNode, ObjectNode, ArrayNode } from './types'
-import type { ParserOptions } from './events'
+import type { JsonNode, ObjectNode, ArrayNode, JsonString } from './types'
+import type { ParserEvent, ParserOptions } from './events'
 import { ParseError } from './events'
+import { parsePath, type PathSegment } from './json-path'
 
 /**
  * Parse a subtree at a specific JSON path
@@ -48,7 +49,7 @@ export function parseSubtree(
  */
 export function navigateToPath(root: JsonNode, path: string): JsonNode | undefined {
   // Parse the JSONPath
-  const segments = parseJSONPath(path)
+  const segments = parsePath(path)
 
   let current: JsonNode | undefined = root
 
@@ -75,84 +76,14 @@ export function navigateToPath(root: JsonNode, path: string): JsonNode | undefin
   return current
 }
 
-/**
- * Path segment types
- */
-type PathSegment =
-  | { type: 'root' }
-  | { type: 'property'; name: string }
-  | { type: 'index'; index: number }
-
 /**
  * Parse a JSONPath string into segments
  *
- * Supports simple paths like:
- * - $ (root)
- * - $.property
- * - $[0]
- * - $.users[0].name
- *
- * @param path - JSONPath string
- * @returns Array of path segments
+ * Kept under its original name; see parsePath in ./json-path for the
+ * accepted syntax (dot shorthand and bracket-quoted member names).
  */
-export function parseJSONPath(path: string): PathSegment[] {
-  const segments: PathSegment[] = []
-
-  // Must start with $
-  if (!path.startsWith('$')) {
-    throw new Error('JSONPath must start with $')
-  }
-
-  let i = 1 // Skip initial $
-  segments.push({ type: 'root' })
-
-  while (i < path.length) {
-    const ch = path[i]
-
-    if (ch === '.') {
-      // Property access: .propertyName
-      i++ // Skip .
-
-      let name = ''
-      while (i < path.length && path[i] !== '.' && path[i] !== '[') {
-        name += path[i]
-        i++
-      }
-
-      if (name.length === 0) {
-        throw new Error('Empty property name in path')
-      }
-
-      segments.push({ type: 'property', name })
-    } else if (ch === '[') {
-      // Array index: [0]
-      i++ // Skip [
-
-      let indexStr = ''
-      while (i < path.length && path[i] !== ']') {
-        indexStr += path[i]
-        i++
-      }
-
-      if (i >= path.length) {
-        throw new Error('Unclosed bracket in path')
-      }
-
-      i++ // Skip ]
-
-      const index = parseInt(indexStr, 10)
-      if (isNaN(index) || index < 0) {
-        throw new Error(`Invalid array index: ${indexStr}`)
-      }
-
-      segments.push({ type: 'index', index })
-    } else {
-      throw new Error(`Unexpected character '${ch}' in path at position ${i}`)
-    }
-  }
-
-  return segments
-}
+export { parsePath as parseJSONPath }
+export type { PathSegment }
 
 /**
  * Lazy-parsed placeholder node
@@ -170,6 +101,10 @@ export interface LazyNode {
   end: number
   /** Path to this node */
   path: string
+  /** Number of direct children (set by parsePartial) */
+  childCount?: number
+  /** Parser options to realize the node with (set by parsePartial) */
+  options?: ParserOptions
   /** Cached parsed result */
   _cached?: JsonNode
 }
@@ -185,23 +120,35 @@ export function isLazyNode(node: unknown): node is LazyNode {
   )
 }
 
+/**
+ * Container kind of a lazy node (only objects and arrays are left lazy)
+ */
+export function lazyNodeKind(lazy: LazyNode): 'object' | 'array' {
+  return lazy.raw.startsWith('[') ? 'array' : 'object'
+}
+
 /**
  * Realize a lazy node (parse it on demand)
  *
+ * Offsets in the result are positions in the original JSON, like the lazy
+ * node's own.
+ *
  * @param lazy - Lazy node to realize
- * @param options - Parser options
+ * @param options - Parser options (default: the options it was left lazy with)
+ * @param depth - Levels to parse; deeper containers stay lazy (default: all)
  * @returns Parsed JsonNode
  */
 export function realizeLazyNode(
   lazy: LazyNode,
-  options?: ParserOptions
+  options: ParserOptions | undefined = lazy.options,
+  depth?: number
 ): JsonNode {
   if (lazy._cached) {
     return lazy._cached
   }
 
   // Parse the raw substring
-  const { ast: parsed } = parse(lazy.raw, options)
+  const parsed = parseLazyNode(lazy, options, depth)
 
   // Cache it
   lazy._cached = parsed
@@ -210,114 +157,250 @@ export function realizeLazyNode(
 }
 
 /**
- * Create a partial AST where deep objects/arrays are left as lazy nodes
- *
- * @param input - JSON string
- * @param maxDepth - Maximum depth to eagerly parse (default: 2)
- * @param options - Parser options
- * @returns JsonNode tree with LazyNode placeholders for deep structures
+ * Reads a lazy node one level deep without caching it, for walks over the
+ * whole document (search, filter mode) that would otherwise keep every
+ * subtree parsed. A realized node is returned as it is.
  */
-export function parsePartial(
-  input: string,
-  maxDepth: number = 2,
-  options?: ParserOptions
+export function readLazyNode(lazy: LazyNode): JsonNode {
+  return lazy._cached ?? parseLazyNode(lazy, lazy.options, 1)
+}
+
+/**
+ * Helper: Parses a lazy node's raw text, at its offsets in the original JSON
+ */
+function parseLazyNode(
+  lazy: LazyNode,
+  options: ParserOptions | undefined,
+  depth: number | undefined
 ): JsonNode {
-  const parser = new PullParser(input, options)
-  const stack: any[] = []
-  let root: JsonNode | null = null
-  let currentDepth = 0
+  return depth === undefined
+    ? shiftOffsets(parse(lazy.raw, options).ast, lazy.start)
+    : buildPartial(new PartialTreeBuilder(lazy.raw, depth, options, lazy.start, lazy.path))
+}
+
+/**
+ * Moves the offsets of a subtree parsed on its own to its place in the
+ * original JSON
+ */
+function shiftOffsets(node: JsonNode, delta: number): JsonNode {
+  if (delta === 0) return node
+
+  node.start += delta
+  node.end += delta
+  if (node.kind === 'object') {
+    for (const entry of node.entries) {
+      entry.key.start += delta
+      entry.key.end += delta
+      shiftOffsets(entry.value, delta)
+    }
+  } else if (node.kind === 'array') {
+    for (const item of node.items) shiftOffsets(item, delta)
+  }
+  return node
+}
+
+type BuilderFrame =
+  | { kind: 'object'; node: ObjectNode; key?: JsonString }
+  | { kind: 'array'; node: ArrayNode }
+  /** Inside a lazy container: nesting counts the containers opened within it */
+  | { kind: 'lazy'; node: LazyNode; isObject: boolean; nesting: number }
+
+/**
+ * Builds a partial AST from the PullParser event stream, a few events at a
+ * time
+ *
+ * Objects and arrays nested deeper than maxDepth become LazyNode
+ * placeholders: their events are only counted, so memory grows with the
+ * shallow structure alone. Containers are added to their parent as soon as
+ * they open, so between steps `root` is the document read so far (the end
+ * offset of a container still open equals its start).
+ */
+export class PartialTreeBuilder {
+  /** Root of the tree read so far (null before the first event) */
+  root: JsonNode | null = null
+  private parser: PullParser
+  private events: Iterator<ParserEvent>
+  private stack: BuilderFrame[] = []
+  private done = false
+
+  /**
+   * @param input - JSON string
+   * @param maxDepth - Levels to parse eagerly (the root is level 1)
+   * @param options - Parser options (also kept on the lazy nodes)
+   * @param offset - Position of input in the original JSON, for node offsets
+   * @param basePath - Path of input's root in the original JSON
+   */
+  constructor(
+    private input: string,
+    private maxDepth: number = 2,
+    private options: ParserOptions = {},
+    private offset: number = 0,
+    private basePath: string = '$'
+  ) {
+    this.parser = new PullParser(input, options)
+    this.events = this.parser.events()
+  }
+
+  /**
+   * Offset in the original JSON parsed up to
+   */
+  get position(): number {
+    return this.offset + this.parser.position
+  }
+
+  /**
+   * Handle up to `count` events
+   *
+   * @returns True once the whole input has been read
+   * @throws ParseError when the input is not valid JSON
+   */
+  step(count: number = Infinity): boolean {
+    for (let i = 0; i < count && !this.done; i++) {
+      const next = this.events.next()
+      if (next.done) {
+        this.done = true
+      } else {
+        this.handle(next.value)
+      }
+    }
+    return this.done
+  }
+
+  private handle(event: ParserEvent): void {
+    const top = this.stack[this.stack.length - 1]
+    if (top?.kind === 'lazy') {
+      this.skip(top, event)
+      return
+    }
 
-  for (const event of parser.events()) {
     switch (event.type) {
       case 'startObject':
-        currentDepth++
-        if (currentDepth > maxDepth) {
-          // Create lazy node instead
-          // This is simplified - in practice we'd need to track token positions
-          // to extract the raw substring
-          // For now, just parse normally
+      case 'startArray': {
+        const start = this.offset + event.start
+        const isObject = event.type === 'startObject'
+        if (this.stack.length >= this.maxDepth) {
+          const lazy: LazyNode = {
+            kind: 'lazy',
+            raw: '',
+            start,
+            end: start,
+            path: this.basePath + event.path.slice(1),
+            childCount: 0,
+            options: this.options,
+          }
+          this.stack.push({ kind: 'lazy', node: lazy, isObject, nesting: 0 })
+        } else if (isObject) {
+          const node: ObjectNode = { kind: 'object', entries: [], start, end: start }
+          this.add(node)
+          this.stack.push({ kind: 'object', node })
+        } else {
+          const node: ArrayNode = { kind: 'array', items: [], start, end: start }
+          this.add(node)
+          this.stack.push({ kind: 'array', node })
         }
-        stack.push({ kind: 'object', entries: [], depth: currentDepth })
         break
+      }
 
       case 'endObject':
-        const objFrame = stack.pop()
-        const objNode: ObjectNode = {
-          kind: 'object',
-          entries: objFrame.entries,
-          start: 0,
-          end: 0,
-        }
-        currentDepth--
+      case 'endArray':
+        this.stack.pop()!.node.end = this.offset + event.end
+        break
 
-        if (stack.length === 0) {
-          root = objNode
-        } else {
-          addToParent(stack, objFrame.currentKey, objNode)
+      case 'key':
+        if (top?.kind === 'object') {
+          top.key = {
+            kind: 'string',
+            value: event.value,
+            start: this.offset + event.start,
+            end: this.offset + event.end,
+          }
         }
         break
 
+      case 'value':
+        this.add(shiftOffsets(event.value, this.offset))
+        break
+    }
+  }
+
+  /**
+   * Count the children of a lazy container until it closes
+   */
+  private skip(frame: Extract<BuilderFrame, { kind: 'lazy' }>, event: ParserEvent): void {
+    const lazy = frame.node
+
+    switch (event.type) {
+      case 'startObject':
       case 'startArray':
-        currentDepth++
-        stack.push({ kind: 'array', items: [], depth: currentDepth })
+        if (frame.nesting === 0 && !frame.isObject) lazy.childCount!++
+        frame.nesting++
         break
 
+      case 'endObject':
       case 'endArray':
-        const arrFrame = stack.pop()
-        const arrNode: ArrayNode = {
-          kind: 'array',
-          items: arrFrame.items,
-          start: 0,
-          end: 0,
-        }
-        currentDepth--
-
-        if (stack.length === 0) {
-          root = arrNode
-        } else {
-          addToParent(stack, arrFrame.currentKey, arrNode)
+        if (frame.nesting > 0) {
+          frame.nesting--
+          break
         }
+        // The lazy container itself closes
+        lazy.end = this.offset + event.end
+        lazy.raw = this.input.slice(lazy.start - this.offset, event.end)
+        this.stack.pop()
+        this.add(lazy as unknown as JsonNode)
         break
 
       case 'key':
-        const parent = stack[stack.length - 1]
-        parent.currentKey = {
-          kind: 'string',
-          value: event.value,
-          raw: JSON.stringify(event.value),
-          start: 0,
-          end: 0,
-        }
+        if (frame.nesting === 0) lazy.childCount!++
         break
 
       case 'value':
-        if (stack.length === 0) {
-          root = event.value
-        } else {
-          const parent = stack[stack.length - 1]
-          addToParent(stack, parent.currentKey, event.value)
-          parent.currentKey = undefined
-        }
+        if (frame.nesting === 0 && !frame.isObject) lazy.childCount!++
         break
     }
   }
 
-  if (root === null) {
-    throw new ParseError('No root value found', 0, '$')
+  /**
+   * Add a node to the open container, or make it the root
+   */
+  private add(node: JsonNode): void {
+    const parent = this.stack[this.stack.length - 1]
+
+    if (!parent) {
+      this.root = node
+    } else if (parent.kind === 'object') {
+      parent.node.entries.push({ key: parent.key!, value: node })
+      parent.key = undefined
+    } else if (parent.kind === 'array') {
+      parent.node.items.push(node)
+    }
   }
-
-  return root
 }
 
 /**
- * Helper to add a value to parent structure
+ * Run a builder to the end and return its root
  */
-function addToParent(stack: any[], key: any, value: JsonNode): void {
-  const parent = stack[stack.length - 1]
+function buildPartial(builder: PartialTreeBuilder): JsonNode {
+  builder.step()
 
-  if (parent.kind === 'object') {
-    parent.entries.push({ key, value })
-  } else if (parent.kind === 'array') {
-    parent.items.push(value)
+  if (builder.root === null) {
+    throw new ParseError('No root value found', 0, '$')
   }
+
+  return builder.root
+}
+
+/**
+ * Create a partial AST where deep objects/arrays are left as lazy nodes
+ *
+ * @param input - JSON string
+ * @param maxDepth - Maximum depth to eagerly parse (default: 2)
+ * @param options - Parser options
+ * @returns JsonNode tree with LazyNode placeholders for deep structures
+ */
+export function parsePartial(
+  input: string,
+  maxDepth: number = 2,
+  options?: ParserOptions
+): JsonNode {
+  return buildPartial(new PartialTreeBuilder(input, maxDepth, options))
 }
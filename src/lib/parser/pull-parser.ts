@@ -3,6 +3,8 @@
  *
  * Implements a streaming pull parser that yields events as JSON is parsed.
  * This allows incremental processing without building the full AST upfront.
+ * Tokens are read from the tokenizer as events are pulled, so a partially
+ * consumed event stream has only tokenized the input up to that point.
  */
 
 import { tokenizeOptimized as tokenize } from './tokenizer-optimized'
@@ -11,6 +13,7 @@ import type { Token } from './tokens'
 import type { JsonNode } from './types'
 import type { ParserEvent, ParserOptions } from './events'
 import { ParseError } from './events'
+import { keySegment } from './json-path'
 
 /**
  * Pull Parser class
@@ -19,13 +22,14 @@ import { ParseError } from './events'
  * Maintains a path stack to track current location in the JSON structure.
  */
 export class PullParser {
-  private tokens: Token[]
-  private pos: number = 0
+  private tokens: Iterator<Token>
+  private token: Token // Lookahead: the next token to consume
   private path: string[] = []
   private options: Required<ParserOptions>
 
   constructor(input: string, options: ParserOptions = {}) {
-    this.tokens = Array.from(tokenize(input))
+    this.tokens = tokenize(input)
+    this.token = this.tokens.next().value
     this.options = {
       numberMode: options.numberMode || 'native',
       maxDepth: options.maxDepth || 1000,
@@ -34,6 +38,13 @@ export class PullParser {
     }
   }
 
+  /**
+   * Offset of the next token, i.e. how far the input has been parsed
+   */
+  get position(): number {
+    return this.token.start
+  }
+
   /**
    * Generate parser events
    *
@@ -106,14 +117,15 @@ export class PullParser {
     }
 
     const path = this.getCurrentPath()
-    yield { type: 'startObject', path }
+    yield { type: 'startObject', path, start: startToken.start }
 
     this.consume('lbrace')
 
     // Empty object
     if (this.current().type === 'rbrace') {
-      this.pos++
-      yield { type: 'endObject', path }
+      const end = this.current().end
+      this.advance()
+      yield { type: 'endObject', path, end }
       return
     }
 
@@ -130,9 +142,9 @@ export class PullParser {
         )
       }
 
-      yield { type: 'key', value: keyToken.value, path }
+      yield { type: 'key', value: keyToken.value, path, start: keyToken.start, end: keyToken.end }
 
-      this.path.push('.' + keyToken.value)
+      this.path.push(keySegment(keyToken.value))
 
       this.consume('colon')
 
@@ -144,11 +156,12 @@ export class PullParser {
       // Check for more entries
       const next = this.current()
       if (next.type === 'comma') {
-        this.pos++
+        this.advance()
         continue
       } else if (next.type === 'rbrace') {
-        this.pos++
-        break
+        this.advance()
+        yield { type: 'endObject', path, end: next.end }
+        return
       } else {
         throw new ParseError(
           `Expected ',' or '}', got '${next.type}'`,
@@ -157,8 +170,6 @@ export class PullParser {
         )
       }
     }
-
-    yield { type: 'endObject', path }
   }
 
   /**
@@ -179,14 +190,15 @@ export class PullParser {
     }
 
     const path = this.getCurrentPath()
-    yield { type: 'startArray', path }
+    yield { type: 'startArray', path, start: startToken.start }
 
     this.consume('lbracket')
 
     // Empty array
     if (this.current().type === 'rbracket') {
-      this.pos++
-      yield { type: 'endArray', path }
+      const end = this.current().end
+      this.advance()
+      yield { type: 'endArray', path, end }
       return
     }
 
@@ -202,11 +214,12 @@ export class PullParser {
 
       const next = this.current()
       if (next.type === 'comma') {
-        this.pos++
+        this.advance()
         continue
       } else if (next.type === 'rbracket') {
-        this.pos++
-        break
+        this.advance()
+        yield { type: 'endArray', path, end: next.end }
+        return
       } else {
         throw new ParseError(
           `Expected ',' or ']', got '${next.type}'`,
@@ -215,8 +228,6 @@ export class PullParser {
         )
       }
     }
-
-    yield { type: 'endArray', path }
   }
 
   /**
@@ -226,7 +237,7 @@ export class PullParser {
    */
   private parsePrimitive(): JsonNode {
     const token = this.current()
-    this.pos++
+    this.advance()
 
     switch (token.type) {
       case 'string':
@@ -278,15 +289,15 @@ export class PullParser {
    * Get the current token without consuming it
    */
   private current(): Token {
-    if (this.pos >= this.tokens.length) {
-      const lastToken = this.tokens[this.tokens.length - 1]
-      throw new ParseError(
-        'Unexpected end of input',
-        lastToken?.end || 0,
-        this.getCurrentPath()
-      )
-    }
-    return this.tokens[this.pos]
+    return this.token
+  }
+
+  /**
+   * Move to the next token (the tokenizer keeps returning eof at the end)
+   */
+  private advance(): void {
+    const next = this.tokens.next()
+    if (!next.done) this.token = next.value
   }
 
   /**
@@ -303,7 +314,7 @@ export class PullParser {
         this.getCurrentPath()
       )
     }
-    this.pos++
+    this.advance()
     return token
   }
 
@@ -0,0 +1,113 @@
+/**
+ * Source Mapping
+ *
+ * Connects AST nodes to their text in the document: the source range of
+ * the node at a path, and the path of the innermost node at an offset.
+ * Lazy placeholders (streamed documents) are realized a level at a time on
+ * the way down, like the tree view does when they are expanded.
+ */
+
+import type { JsonNode } from './types'
+import { childPath, parsePath } from './json-path'
+import { isLazyNode, realizeLazyNode } from './partial'
+
+/**
+ * Range of a node in the document (end is exclusive)
+ */
+export interface SourceRange {
+  start: number
+  end: number
+}
+
+// Lazy nodes stand in for JsonNodes in the tree (see PartialTreeBuilder)
+function realized(node: JsonNode): JsonNode {
+  const placeholder: unknown = node
+  return isLazyNode(placeholder) ? realizeLazyNode(placeholder, placeholder.options, 1) : node
+}
+
+/**
+ * Source range of the node at a path
+ *
+ * Object members include their key, so the range covers `"key": value`.
+ *
+ * @returns The range, or undefined if the path does not exist
+ */
+export function sourceRangeAtPath(root: JsonNode, path: string): SourceRange | undefined {
+  let node = root
+  let range: SourceRange = { start: root.start, end: root.end }
+
+  for (const segment of parsePath(path)) {
+    if (segment.type === 'root') continue
+
+    const container = realized(node)
+    if (segment.type === 'property' && container.kind === 'object') {
+      const entry = container.entries.find((e) => e.key.value === segment.name)
+      if (!entry) return undefined
+      node = entry.value
+      range = { start: entry.key.start, end: entry.value.end }
+    } else if (segment.type === 'index' && container.kind === 'array') {
+      node = container.items[segment.index]
+      if (!node) return undefined
+      range = { start: node.start, end: node.end }
+    } else {
+      return undefined
+    }
+  }
+
+  return range
+}
+
+/**
+ * Path of the innermost node whose source contains an offset
+ *
+ * An offset on an object member's key maps to that member. Offsets between
+ * children (commas, whitespace, comments) map to the enclosing container.
+ *
+ * @returns The path, or null if the offset is outside the root value
+ */
+export function pathAtOffset(root: JsonNode, offset: number): string | null {
+  if (offset < root.start || offset >= root.end) return null
+
+  let node = root
+  let path = '$'
+  while (true) {
+    const container = realized(node)
+    if (container.kind === 'object') {
+      const { entries } = container
+      const index = lastStartingAtOrBefore(entries.length, (i) => entries[i].key.start, offset)
+      const entry = entries[index]
+      if (!entry || offset >= entry.value.end) return path
+      path = childPath(path, entry.key.value, index)
+      node = entry.value
+    } else if (container.kind === 'array') {
+      const { items } = container
+      const index = lastStartingAtOrBefore(items.length, (i) => items[i].start, offset)
+      const item = items[index]
+      if (!item || offset >= item.end) return path
+      path = childPath(path, null, index)
+      node = item
+    } else {
+      return path
+    }
+  }
+}
+
+/**
+ * Binary search over children in source order
+ *
+ * @returns Index of the last child starting at or before offset, or -1
+ */
+function lastStartingAtOrBefore(
+  count: number,
+  startOf: (index: number) => number,
+  offset: number
+): number {
+  let low = -1
+  let high = count - 1
+  while (low < high) {
+    const mid = (low + high + 1) >>> 1
+    if (startOf(mid) <= offset) low = mid
+    else high = mid - 1
+  }
+  return low
+}
@@ -0,0 +1,55 @@
+/**
+ * JSON5 Character Classes
+ *
+ * Shared by both tokenizers for the relaxed syntaxes (JSONC, JSON5).
+ * ASCII is checked with code comparisons; other characters fall back to
+ * Unicode property escapes.
+ */
+
+const ID_START = /[\p{ID_Start}]/u
+const ID_CONTINUE = /[\p{ID_Continue}\u200C\u200D]/u
+const SPACE_SEPARATOR = /\p{Zs}/u
+
+/**
+ * Check if a UTF-16 code unit can start a JSON5 identifier (unquoted key)
+ */
+export function isIdentifierStart(code: number): boolean {
+  if (code < 128) {
+    return (
+      (code >= 97 && code <= 122) || // a-z
+      (code >= 65 && code <= 90) || // A-Z
+      code === 36 || // $
+      code === 95 // _
+    )
+  }
+  return ID_START.test(String.fromCharCode(code))
+}
+
+/**
+ * Check if a UTF-16 code unit can continue a JSON5 identifier
+ */
+export function isIdentifierPart(code: number): boolean {
+  if (code < 128) {
+    return isIdentifierStart(code) || (code >= 48 && code <= 57) // 0-9
+  }
+  return ID_CONTINUE.test(String.fromCharCode(code))
+}
+
+/**
+ * Check if a UTF-16 code unit is whitespace in JSON5 but not in JSON
+ *
+ * JSON whitespace (space, tab, CR, LF) is handled by the tokenizers.
+ */
+export function isJson5Whitespace(code: number): boolean {
+  switch (code) {
+    case 0x0b: // \v
+    case 0x0c: // \f
+    case 0xa0: // no-break space
+    case 0x2028: // line separator
+    case 0x2029: // paragraph separator
+    case 0xfeff: // byte order mark
+      return true
+    default:
+      return code > 127 && SPACE_SEPARATOR.test(String.fromCharCode(code))
+  }
+}
@@ -9,10 +9,17 @@
  * - Optimized whitespace skipping
  *
  * Target: 5-10x speedup over original tokenizer
+ *
+ * With the jsonc/json5 syntax options, also accepts comments (collected for
+ * getComments()) and the JSON5 additions: single-quoted strings, unquoted
+ * keys, hex numbers, Infinity/NaN, leading/trailing decimal points and a
+ * leading plus sign.
  */
 
-import type { Token } from './tokens'
+import type { Token, TokenizerOptions } from './tokens'
+import type { JsonComment, JsonSyntax } from './types'
 import { TokenizerError } from './tokens'
+import { isIdentifierStart, isIdentifierPart, isJson5Whitespace } from './syntax'
 
 // Character code constants for fast comparison
 const CHAR_LBRACE = 123 // {
@@ -22,6 +29,8 @@ const CHAR_RBRACKET = 93 // ]
 const CHAR_COLON = 58 // :
 const CHAR_COMMA = 44 // ,
 const CHAR_QUOTE = 34 // "
+const CHAR_APOSTROPHE = 39 // '
+const CHAR_STAR = 42 // *
 const CHAR_BACKSLASH = 92 // \
 const CHAR_SLASH = 47 // /
 const CHAR_MINUS = 45 // -
@@ -32,6 +41,9 @@ const CHAR_1 = 49 // 1
 const CHAR_9 = 57 // 9
 const CHAR_e = 101 // e
 const CHAR_E = 69 // E
+const CHAR_x = 120 // x
+const CHAR_X = 88 // X
+const CHAR_v = 118 // v
 const CHAR_t = 116 // t
 const CHAR_f = 102 // f
 const CHAR_n = 110 // n
@@ -55,6 +67,13 @@ const ESCAPE_MAP: Record<number, string> = {
   [CHAR_t]: '\t',
 }
 
+// Additional single-character escapes in JSON5 strings
+const JSON5_ESCAPE_MAP: Record<number, string> = {
+  [CHAR_APOSTROPHE]: "'",
+  [CHAR_v]: '\v',
+  [CHAR_0]: '\0',
+}
+
 /**
  * Optimized streaming JSON tokenizer
  *
@@ -66,10 +85,20 @@ export class TokenizerOptimized {
   private pos: number = 0
   private line: number = 1
   private column: number = 1
+  private syntax: JsonSyntax
+  private comments: JsonComment[] = []
 
-  constructor(input: string) {
+  constructor(input: string, options: TokenizerOptions = {}) {
     this.input = input
     this.length = input.length
+    this.syntax = options.syntax || 'json'
+  }
+
+  /**
+   * Comments skipped so far, in source order (jsonc/json5 only)
+   */
+  getComments(): JsonComment[] {
+    return this.comments
   }
 
   /**
@@ -127,7 +156,7 @@ export class TokenizerOptimized {
         return { type: 'comma', start, end: this.pos }
 
       case CHAR_QUOTE:
-        return this.scanString()
+        return this.scanString(CHAR_QUOTE)
 
       case CHAR_MINUS:
       case CHAR_0:
@@ -140,18 +169,26 @@ export class TokenizerOptimized {
       case CHAR_1 + 6:
       case CHAR_1 + 7:
       case CHAR_9:
-        return this.scanNumber()
+        return this.syntax === 'json5' ? this.scanNumberJson5() : this.scanNumber()
 
       case CHAR_t:
+        if (this.syntax === 'json5') return this.scanIdentifier()
         return this.scanLiteral('true', 'true')
 
       case CHAR_f:
+        if (this.syntax === 'json5') return this.scanIdentifier()
         return this.scanLiteral('false', 'false')
 
       case CHAR_n:
+        if (this.syntax === 'json5') return this.scanIdentifier()
         return this.scanLiteral('null', 'null')
 
       default:
+        if (this.syntax === 'json5') {
+          if (ch === CHAR_APOSTROPHE) return this.scanString(CHAR_APOSTROPHE)
+          if (ch === CHAR_PLUS || ch === CHAR_DOT) return this.scanNumberJson5()
+          if (isIdentifierStart(ch)) return this.scanIdentifier()
+        }
         throw new TokenizerError(
           `Unexpected character '${String.fromCharCode(ch)}'`,
           this.pos,
@@ -165,8 +202,10 @@ export class TokenizerOptimized {
    * Scan a JSON string with escape handling
    *
    * Optimized with array buffer instead of string concatenation
+   *
+   * @param quote - Opening and closing quote (single quotes in JSON5 only)
    */
-  private scanString(): Token {
+  private scanString(quote: number): Token {
     const start = this.pos
     const startLine = this.line
     const startColumn = this.column
@@ -180,7 +219,7 @@ export class TokenizerOptimized {
     while (this.pos < this.length) {
       const ch = this.input.charCodeAt(this.pos)
 
-      if (ch === CHAR_QUOTE) {
+      if (ch === quote) {
         this.pos++ // Skip closing quote
         this.column++
         const raw = this.input.substring(start, this.pos)
@@ -259,6 +298,14 @@ export class TokenizerOptimized {
           continue
         }
 
+        if (this.syntax === 'json5') {
+          const value = this.scanJson5Escape(escaped)
+          if (value !== null) {
+            chars.push(value)
+            continue
+          }
+        }
+
         throw new TokenizerError(
           `Invalid escape sequence: \\${String.fromCharCode(escaped)}`,
           this.pos - 1,
@@ -440,6 +487,212 @@ export class TokenizerOptimized {
     return { type: 'number', raw, start, end: this.pos }
   }
 
+  /**
+   * Scan a JSON5 escape sequence that JSON does not allow
+   *
+   * Handles \', \v, \0, \xHH, line continuations and escaped characters
+   * that stand for themselves. Returns null for invalid escapes (\1-\9),
+   * otherwise advances past the escape.
+   */
+  private scanJson5Escape(escaped: number): string | null {
+    if (JSON5_ESCAPE_MAP[escaped]) {
+      const next = this.input.charCodeAt(this.pos + 1)
+      if (escaped === CHAR_0 && next >= CHAR_0 && next <= CHAR_9) return null
+      this.pos++
+      this.column++
+      return JSON5_ESCAPE_MAP[escaped]
+    }
+
+    if (escaped >= CHAR_1 && escaped <= CHAR_9) return null
+
+    if (escaped === CHAR_x) {
+      const hex = this.input.substring(this.pos + 1, this.pos + 3)
+      if (!/^[0-9a-fA-F]{2}$/.test(hex)) {
+        throw new TokenizerError(
+          `Invalid hex escape: \\x${hex}`,
+          this.pos,
+          this.line,
+          this.column
+        )
+      }
+      this.pos += 3
+      this.column += 3
+      return String.fromCharCode(parseInt(hex, 16))
+    }
+
+    // Line continuation: the escaped line break is not part of the value
+    if (escaped === CHAR_LF || escaped === CHAR_CR) {
+      this.pos++
+      if (escaped === CHAR_CR && this.input.charCodeAt(this.pos) === CHAR_LF) this.pos++
+      this.line++
+      this.column = 1
+      return ''
+    }
+    if (escaped === 0x2028 || escaped === 0x2029) {
+      this.pos++
+      this.column++
+      return ''
+    }
+
+    this.pos++
+    this.column++
+    return String.fromCharCode(escaped)
+  }
+
+  /**
+   * Scan a JSON5 number
+   *
+   * Extends the JSON grammar with a leading plus sign, hexadecimal integers,
+   * Infinity and NaN, and decimal points without leading or trailing digits.
+   */
+  private scanNumberJson5(): Token {
+    const start = this.pos
+
+    // Optional sign
+    const first = this.input.charCodeAt(this.pos)
+    if (first === CHAR_PLUS || first === CHAR_MINUS) {
+      this.pos++
+      this.column++
+    }
+
+    for (const word of ['Infinity', 'NaN']) {
+      if (this.input.startsWith(word, this.pos)) {
+        this.pos += word.length
+        this.column += word.length
+        const raw = this.input.substring(start, this.pos)
+        return { type: 'number', raw, start, end: this.pos }
+      }
+    }
+
+    // Hexadecimal integer
+    const next = this.input.charCodeAt(this.pos + 1)
+    if (this.input.charCodeAt(this.pos) === CHAR_0 && (next === CHAR_x || next === CHAR_X)) {
+      this.pos += 2
+      this.column += 2
+      const digitsStart = this.pos
+      while (this.pos < this.length && /[0-9a-fA-F]/.test(this.input[this.pos])) {
+        this.pos++
+        this.column++
+      }
+      if (this.pos === digitsStart) {
+        throw new TokenizerError(
+          'Invalid number: expected hex digit',
+          this.pos,
+          this.line,
+          this.column
+        )
+      }
+      const raw = this.input.substring(start, this.pos)
+      return { type: 'number', raw, start, end: this.pos }
+    }
+
+    // Integer part (may be empty before a decimal point)
+    const intStart = this.pos
+    if (this.input.charCodeAt(this.pos) === CHAR_0) {
+      const afterZero = this.input.charCodeAt(this.pos + 1)
+      if (afterZero >= CHAR_0 && afterZero <= CHAR_9) {
+        throw new TokenizerError(
+          'Invalid number: leading zeros not allowed',
+          this.pos + 1,
+          this.line,
+          this.column + 1
+        )
+      }
+    }
+    this.skipDigits()
+    let digits = this.pos - intStart
+
+    // Fractional part (may be empty after an integer part)
+    if (this.pos < this.length && this.input.charCodeAt(this.pos) === CHAR_DOT) {
+      this.pos++
+      this.column++
+      const fracStart = this.pos
+      this.skipDigits()
+      digits += this.pos - fracStart
+    }
+
+    if (digits === 0) {
+      const ch = this.input[this.pos] ?? 'end of input'
+      throw new TokenizerError(
+        `Invalid number: expected digit but got '${ch}'`,
+        this.pos,
+        this.line,
+        this.column
+      )
+    }
+
+    // Exponent (optional)
+    if (this.pos < this.length) {
+      const ch = this.input.charCodeAt(this.pos)
+      if (ch === CHAR_e || ch === CHAR_E) {
+        this.pos++
+        this.column++
+
+        const sign = this.input.charCodeAt(this.pos)
+        if (sign === CHAR_PLUS || sign === CHAR_MINUS) {
+          this.pos++
+          this.column++
+        }
+
+        const expStart = this.pos
+        this.skipDigits()
+        if (this.pos === expStart) {
+          throw new TokenizerError(
+            'Invalid number: expected digit in exponent',
+            this.pos,
+            this.line,
+            this.column
+          )
+        }
+      }
+    }
+
+    const raw = this.input.substring(start, this.pos)
+    return { type: 'number', raw, start, end: this.pos }
+  }
+
+  /**
+   * Skip a run of decimal digits
+   */
+  private skipDigits(): void {
+    while (this.pos < this.length) {
+      const ch = this.input.charCodeAt(this.pos)
+      if (ch < CHAR_0 || ch > CHAR_9) break
+      this.pos++
+      this.column++
+    }
+  }
+
+  /**
+   * Scan a JSON5 identifier
+   *
+   * true, false and null become literal tokens, Infinity and NaN number
+   * tokens; anything else is an identifier (only valid as an object key).
+   */
+  private scanIdentifier(): Token {
+    const start = this.pos
+
+    this.pos++
+    this.column++
+    while (this.pos < this.length && isIdentifierPart(this.input.charCodeAt(this.pos))) {
+      this.pos++
+      this.column++
+    }
+
+    const value = this.input.substring(start, this.pos)
+    switch (value) {
+      case 'true':
+      case 'false':
+      case 'null':
+        return { type: value, start, end: this.pos }
+      case 'Infinity':
+      case 'NaN':
+        return { type: 'number', raw: value, start, end: this.pos }
+      default:
+        return { type: 'identifier', value, start, end: this.pos }
+    }
+  }
+
   /**
    * Scan a literal keyword (true, false, null)
    */
@@ -464,6 +717,8 @@ export class TokenizerOptimized {
 
   /**
    * Skip whitespace - optimized with charCodeAt
+   *
+   * Also skips comments (jsonc/json5) and JSON5 whitespace.
    */
   private skipWhitespace(): void {
     while (this.pos < this.length) {
@@ -477,17 +732,69 @@ export class TokenizerOptimized {
           this.column++
         }
         this.pos++
+      } else if (ch === CHAR_SLASH && this.syntax !== 'json') {
+        // A lone '/' is left for nextToken() to report
+        if (!this.skipComment()) break
+      } else if (this.syntax === 'json5' && isJson5Whitespace(ch)) {
+        this.pos++
+        this.column++
       } else {
         break
       }
     }
   }
+
+  /**
+   * Skip a line or block comment and record it
+   *
+   * @returns False if the '/' does not start a comment
+   */
+  private skipComment(): boolean {
+    const start = this.pos
+    const next = this.input.charCodeAt(start + 1)
+
+    if (next === CHAR_SLASH) {
+      let end = start + 2
+      while (end < this.length) {
+        const ch = this.input.charCodeAt(end)
+        if (ch === CHAR_LF || ch === CHAR_CR) break
+        end++
+      }
+      this.comments.push({ style: 'line', text: this.input.substring(start + 2, end), start, end })
+      this.column += end - start
+      this.pos = end
+      return true
+    }
+
+    if (next === CHAR_STAR) {
+      const close = this.input.indexOf('*/', start + 2)
+      if (close === -1) {
+        throw new TokenizerError('Unterminated comment', start, this.line, this.column)
+      }
+      const end = close + 2
+      this.comments.push({ style: 'block', text: this.input.substring(start + 2, close), start, end })
+      for (; this.pos < end; this.pos++) {
+        if (this.input.charCodeAt(this.pos) === CHAR_LF) {
+          this.line++
+          this.column = 1
+        } else {
+          this.column++
+        }
+      }
+      return true
+    }
+
+    return false
+  }
 }
 
 /**
  * Convenience function to tokenize JSON input with optimized tokenizer
  */
-export function tokenizeOptimized(input: string): IterableIterator<Token> {
-  const tokenizer = new TokenizerOptimized(input)
+export function tokenizeOptimized(
+  input: string,
+  options: TokenizerOptions = {}
+): IterableIterator<Token> {
+  const tokenizer = new TokenizerOptimized(input, options)
   return tokenizer.tokenize()
 }
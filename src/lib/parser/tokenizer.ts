@@ -7,10 +7,17 @@
  * - Unicode escape sequences (\uXXXX)
  * - Number format validation
  * - Position tracking for error reporting
+ *
+ * The jsonc and json5 syntax options relax the grammar: comments (both),
+ * trailing commas (handled by the parser), and for JSON5 single-quoted
+ * strings, unquoted keys, hex numbers, Infinity/NaN, leading/trailing
+ * decimal points and a leading plus sign.
  */
 
-import type { Token } from './tokens'
+import type { Token, TokenizerOptions } from './tokens'
+import type { JsonComment, JsonSyntax } from './types'
 import { TokenizerError } from './tokens'
+import { isIdentifierStart, isIdentifierPart, isJson5Whitespace } from './syntax'
 
 /**
  * Streaming JSON tokenizer
@@ -23,9 +30,19 @@ export class Tokenizer {
   private pos: number = 0
   private line: number = 1
   private column: number = 1
+  private syntax: JsonSyntax
+  private comments: JsonComment[] = []
 
-  constructor(input: string) {
+  constructor(input: string, options: TokenizerOptions = {}) {
     this.input = input
+    this.syntax = options.syntax || 'json'
+  }
+
+  /**
+   * Comments skipped so far, in source order (jsonc/json5 only)
+   */
+  getComments(): JsonComment[] {
+    return this.comments
   }
 
   /**
@@ -86,23 +103,31 @@ export class Tokenizer {
         return { type: 'comma', start, end: this.pos }
 
       case '"':
-        return this.scanString()
+        return this.scanString('"')
 
       case '-':
       case '0': case '1': case '2': case '3': case '4':
       case '5': case '6': case '7': case '8': case '9':
-        return this.scanNumber()
+        return this.syntax === 'json5' ? this.scanNumberJson5() : this.scanNumber()
 
       case 't':
+        if (this.syntax === 'json5') return this.scanIdentifier()
         return this.scanLiteral('true', 'true')
 
       case 'f':
+        if (this.syntax === 'json5') return this.scanIdentifier()
         return this.scanLiteral('false', 'false')
 
       case 'n':
+        if (this.syntax === 'json5') return this.scanIdentifier()
         return this.scanLiteral('null', 'null')
 
       default:
+        if (this.syntax === 'json5') {
+          if (ch === "'") return this.scanString("'")
+          if (ch === '+' || ch === '.') return this.scanNumberJson5()
+          if (isIdentifierStart(ch.charCodeAt(0))) return this.scanIdentifier()
+        }
         throw new TokenizerError(
           `Unexpected character '${ch}'`,
           this.pos,
@@ -114,8 +139,10 @@ export class Tokenizer {
 
   /**
    * Scan a JSON string with escape handling
+   *
+   * @param quote - Opening and closing quote (single quotes in JSON5 only)
    */
-  private scanString(): Token {
+  private scanString(quote: string): Token {
     const start = this.pos
     const startLine = this.line
     const startColumn = this.column
@@ -128,7 +155,7 @@ export class Tokenizer {
     while (this.pos < this.input.length) {
       const ch = this.input[this.pos]
 
-      if (ch === '"') {
+      if (ch === quote) {
         this.pos++ // Skip closing quote
         this.column++
         const raw = this.input.substring(start, this.pos)
@@ -205,13 +232,18 @@ export class Tokenizer {
             this.column += 3
             break
 
-          default:
-            throw new TokenizerError(
-              `Invalid escape sequence: \\${escaped}`,
-              this.pos - 1,
-              this.line,
-              this.column - 1
-            )
+          default: {
+            const json5Value = this.syntax === 'json5' ? this.scanJson5Escape(escaped) : null
+            if (json5Value === null) {
+              throw new TokenizerError(
+                `Invalid escape sequence: \\${escaped}`,
+                this.pos - 1,
+                this.line,
+                this.column - 1
+              )
+            }
+            value += json5Value
+          }
         }
 
         this.pos++
@@ -350,6 +382,196 @@ export class Tokenizer {
     return { type: 'number', raw, start, end: this.pos }
   }
 
+  /**
+   * Scan a JSON5 escape sequence that JSON does not allow
+   *
+   * Handles \', \v, \0, \xHH, line continuations and escaped characters
+   * that stand for themselves. Returns null for invalid escapes (\1-\9).
+   * Leaves pos on the last character of the escape, like scanString().
+   */
+  private scanJson5Escape(escaped: string): string | null {
+    switch (escaped) {
+      case "'":
+        return "'"
+      case 'v':
+        return '\v'
+      case '0':
+        return /[0-9]/.test(this.input[this.pos + 1] ?? '') ? null : '\0'
+      case 'x': {
+        const hex = this.input.substring(this.pos + 1, this.pos + 3)
+        if (!/^[0-9a-fA-F]{2}$/.test(hex)) {
+          throw new TokenizerError(
+            `Invalid hex escape: \\x${hex}`,
+            this.pos,
+            this.line,
+            this.column
+          )
+        }
+        this.pos += 2
+        this.column += 2
+        return String.fromCharCode(parseInt(hex, 16))
+      }
+      case '\r':
+      case '\n':
+        // Line continuation: the escaped line break is not part of the value
+        if (escaped === '\r' && this.input[this.pos + 1] === '\n') this.pos++
+        this.line++
+        this.column = 0 // Incremented to 1 by scanString()
+        return ''
+      case '\u2028':
+      case '\u2029':
+        return ''
+      default:
+        return /[1-9]/.test(escaped) ? null : escaped
+    }
+  }
+
+  /**
+   * Scan a JSON5 number
+   *
+   * Extends the JSON grammar with a leading plus sign, hexadecimal integers,
+   * Infinity and NaN, and decimal points without leading or trailing digits:
+   *   number = [ sign ] ( "Infinity" / "NaN" / hex / decimal )
+   *   hex = "0" ( "x" / "X" ) 1*HEXDIG
+   *   decimal = ( int [ "." *DIGIT ] / "." 1*DIGIT ) [ exp ]
+   */
+  private scanNumberJson5(): Token {
+    const start = this.pos
+
+    // Optional sign
+    if (this.input[this.pos] === '+' || this.input[this.pos] === '-') {
+      this.pos++
+      this.column++
+    }
+
+    for (const word of ['Infinity', 'NaN']) {
+      if (this.input.startsWith(word, this.pos)) {
+        this.pos += word.length
+        this.column += word.length
+        const raw = this.input.substring(start, this.pos)
+        return { type: 'number', raw, start, end: this.pos }
+      }
+    }
+
+    // Hexadecimal integer
+    if (this.input[this.pos] === '0' && /[xX]/.test(this.input[this.pos + 1] ?? '')) {
+      this.pos += 2
+      this.column += 2
+      const digitsStart = this.pos
+      while (this.pos < this.input.length && /[0-9a-fA-F]/.test(this.input[this.pos])) {
+        this.pos++
+        this.column++
+      }
+      if (this.pos === digitsStart) {
+        throw new TokenizerError(
+          'Invalid number: expected hex digit',
+          this.pos,
+          this.line,
+          this.column
+        )
+      }
+      const raw = this.input.substring(start, this.pos)
+      return { type: 'number', raw, start, end: this.pos }
+    }
+
+    // Integer part (may be empty before a decimal point)
+    if (this.input[this.pos] === '0' && /[0-9]/.test(this.input[this.pos + 1] ?? '')) {
+      throw new TokenizerError(
+        'Invalid number: leading zeros not allowed',
+        this.pos + 1,
+        this.line,
+        this.column + 1
+      )
+    }
+    let digits = this.skipDigits()
+
+    // Fractional part (may be empty after an integer part)
+    if (this.input[this.pos] === '.') {
+      this.pos++
+      this.column++
+      digits += this.skipDigits()
+    }
+
+    if (digits === 0) {
+      throw new TokenizerError(
+        `Invalid number: expected digit but got '${this.input[this.pos] ?? 'end of input'}'`,
+        this.pos,
+        this.line,
+        this.column
+      )
+    }
+
+    // Exponent (optional)
+    if (this.input[this.pos] === 'e' || this.input[this.pos] === 'E') {
+      this.pos++
+      this.column++
+
+      if (this.input[this.pos] === '+' || this.input[this.pos] === '-') {
+        this.pos++
+        this.column++
+      }
+
+      if (this.skipDigits() === 0) {
+        throw new TokenizerError(
+          'Invalid number: expected digit in exponent',
+          this.pos,
+          this.line,
+          this.column
+        )
+      }
+    }
+
+    const raw = this.input.substring(start, this.pos)
+    return { type: 'number', raw, start, end: this.pos }
+  }
+
+  /**
+   * Skip a run of decimal digits
+   *
+   * @returns Number of digits skipped
+   */
+  private skipDigits(): number {
+    const start = this.pos
+    while (this.pos < this.input.length && /[0-9]/.test(this.input[this.pos])) {
+      this.pos++
+      this.column++
+    }
+    return this.pos - start
+  }
+
+  /**
+   * Scan a JSON5 identifier
+   *
+   * true, false and null become literal tokens, Infinity and NaN number
+   * tokens; anything else is an identifier (only valid as an object key).
+   */
+  private scanIdentifier(): Token {
+    const start = this.pos
+
+    this.pos++
+    this.column++
+    while (
+      this.pos < this.input.length &&
+      isIdentifierPart(this.input.charCodeAt(this.pos))
+    ) {
+      this.pos++
+      this.column++
+    }
+
+    const value = this.input.substring(start, this.pos)
+    switch (value) {
+      case 'true':
+      case 'false':
+      case 'null':
+        return { type: value, start, end: this.pos }
+      case 'Infinity':
+      case 'NaN':
+        return { type: 'number', raw: value, start, end: this.pos }
+      default:
+        return { type: 'identifier', value, start, end: this.pos }
+    }
+  }
+
   /**
    * Scan a literal keyword (true, false, null)
    */
@@ -374,6 +596,8 @@ export class Tokenizer {
 
   /**
    * Skip whitespace and track line/column positions
+   *
+   * Also skips comments (jsonc/json5) and JSON5 whitespace.
    */
   private skipWhitespace(): void {
     while (this.pos < this.input.length) {
@@ -387,20 +611,68 @@ export class Tokenizer {
           this.column++
         }
         this.pos++
+      } else if (ch === '/' && this.syntax !== 'json') {
+        // A lone '/' is left for nextToken() to report
+        if (!this.skipComment()) break
+      } else if (this.syntax === 'json5' && isJson5Whitespace(ch.charCodeAt(0))) {
+        this.pos++
+        this.column++
       } else {
         break
       }
     }
   }
+
+  /**
+   * Skip a line or block comment and record it
+   *
+   * @returns False if the '/' does not start a comment
+   */
+  private skipComment(): boolean {
+    const start = this.pos
+    const next = this.input[start + 1]
+
+    if (next === '/') {
+      let end = start + 2
+      while (end < this.input.length && this.input[end] !== '\n' && this.input[end] !== '\r') {
+        end++
+      }
+      this.comments.push({ style: 'line', text: this.input.substring(start + 2, end), start, end })
+      this.column += end - start
+      this.pos = end
+      return true
+    }
+
+    if (next === '*') {
+      const close = this.input.indexOf('*/', start + 2)
+      if (close === -1) {
+        throw new TokenizerError('Unterminated comment', start, this.line, this.column)
+      }
+      const end = close + 2
+      this.comments.push({ style: 'block', text: this.input.substring(start + 2, close), start, end })
+      for (; this.pos < end; this.pos++) {
+        if (this.input[this.pos] === '\n') {
+          this.line++
+          this.column = 1
+        } else {
+          this.column++
+        }
+      }
+      return true
+    }
+
+    return false
+  }
 }
 
 /**
  * Convenience function to tokenize JSON input
  *
  * @param input - JSON string to tokenize
+ * @param options - Tokenizer options (accepted syntax)
  * @returns Iterator of tokens
  */
-export function tokenize(input: string): IterableIterator<Token> {
-  const tokenizer = new Tokenizer(input)
+export function tokenize(input: string, options: TokenizerOptions = {}): IterableIterator<Token> {
+  const tokenizer = new Tokenizer(input, options)
   return tokenizer.tokenize()
 }
@@ -6,6 +6,8 @@
  * and source mapping.
  */
 
+import type { JsonSyntax } from './types'
+
 /**
  * Union type representing all possible tokens
  */
@@ -21,8 +23,17 @@ export type Token =
   | { type: 'true'; start: number; end: number }
   | { type: 'false'; start: number; end: number }
   | { type: 'null'; start: number; end: number }
+  | { type: 'identifier'; value: string; start: number; end: number } // JSON5 unquoted key
   | { type: 'eof'; start: number; end: number }
 
+/**
+ * Tokenizer configuration options
+ */
+export interface TokenizerOptions {
+  /** Accepted input syntax (default: 'json') */
+  syntax?: JsonSyntax
+}
+
 /**
  * Position in source text
  *
@@ -20,13 +20,42 @@ export type JsonNode =
   | BooleanNode
   | NullNode
 
+/**
+ * Comment kept as trivia when parsing JSONC or JSON5
+ */
+export interface JsonComment {
+  /** Line comment (// ...) or block comment (/* ... *\/) */
+  style: 'line' | 'block'
+  /** Text between the delimiters */
+  text: string
+  /** Start offset in source text */
+  start: number
+  /** End offset in source text (exclusive) */
+  end: number
+}
+
+/**
+ * Comments attached to a node (JSONC and JSON5 only)
+ *
+ * Comments before an object member (before its key) and between key and
+ * value lead the member's value node.
+ */
+export interface NodeTrivia {
+  /** Comments on the lines before the node */
+  leadingComments?: JsonComment[]
+  /** Comments after the node on the same line (after its comma, if any) */
+  trailingComments?: JsonComment[]
+  /** Comments left before a container's closing bracket */
+  innerComments?: JsonComment[]
+}
+
 /**
  * Object node with key-value entries
  *
  * Stores entries in an array to preserve exact textual order.
  * This differs from native JSON.parse() which may reorder numeric keys.
  */
-export interface ObjectNode {
+export interface ObjectNode extends NodeTrivia {
   kind: 'object'
   /** Entries in source text order */
   entries: Array<{ key: JsonString; value: JsonNode }>
@@ -39,7 +68,7 @@ export interface ObjectNode {
 /**
  * Array node with ordered elements
  */
-export interface ArrayNode {
+export interface ArrayNode extends NodeTrivia {
   kind: 'array'
   /** Array elements in source order */
   items: JsonNode[]
@@ -55,7 +84,7 @@ export interface ArrayNode {
  * Note: raw field is optional to reduce memory overhead.
  * If needed, it can be computed on-demand using: input.substring(start, end)
  */
-export interface StringNode {
+export interface StringNode extends NodeTrivia {
   kind: 'string'
   /** Unescaped string value (e.g., "hello") */
   value: string
@@ -78,7 +107,7 @@ export interface StringNode {
  * Note: raw field is optional to reduce memory overhead.
  * If omitted, it can be computed on-demand using: input.substring(start, end)
  */
-export interface NumberNode {
+export interface NumberNode extends NodeTrivia {
   kind: 'number'
   /** Standard JS number (may lose precision) */
   value?: number
@@ -97,7 +126,7 @@ export interface NumberNode {
 /**
  * Boolean node (true or false)
  */
-export interface BooleanNode {
+export interface BooleanNode extends NodeTrivia {
   kind: 'boolean'
   /** The boolean value */
   value: boolean
@@ -110,7 +139,7 @@ export interface BooleanNode {
 /**
  * Null node
  */
-export interface NullNode {
+export interface NullNode extends NodeTrivia {
   kind: 'null'
   /** Start offset in source text */
   start: number
@@ -134,11 +163,15 @@ export interface ParseErrorInfo {
   message: string
   /** Position in input where error occurred */
   position: number
+  /** Line of position (1-based, set by parse) */
+  line?: number
+  /** Column of position (1-based, set by parse) */
+  column?: number
   /** JSONPath to location of error */
   path: string
   /** Type of error */
   type: 'syntax' | 'recovery' | 'validation'
-  /** How the error was recovered (if applicable) */
+  /** How the error was recovered, or for duplicate keys which value JSON.parse uses */
   recovery?: string
 }
 
@@ -157,6 +190,8 @@ export interface ParserResult {
   input: string
   /** Parse errors (only populated in tolerant mode) */
   errors?: ParseErrorInfo[]
+  /** Every comment in source order (JSONC and JSON5 only, when present) */
+  comments?: JsonComment[]
 }
 
 /**
@@ -164,6 +199,16 @@ export interface ParserResult {
  */
 export type NumberMode = 'native' | 'bigint' | 'decimal' | 'string'
 
+/**
+ * Accepted input syntax
+ *
+ * - json: RFC 8259
+ * - jsonc: JSON with comments and trailing commas (tsconfig, VS Code settings)
+ * - json5: JSONC plus single-quoted strings, unquoted keys, hex numbers,
+ *   Infinity/NaN, leading/trailing decimal points and a leading plus sign
+ */
+export type JsonSyntax = 'json' | 'jsonc' | 'json5'
+
 /**
  * Parser options
  */
@@ -178,4 +223,6 @@ export interface ParserOptions {
   maxKeyLength?: number
   /** Maximum string length (default: 10000000) */
   maxStringLength?: number
+  /** Accepted input syntax (default: 'json') */
+  syntax?: JsonSyntax
 }
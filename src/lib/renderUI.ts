@@ -1,5 +1,8 @@
-import type { h as hType } from 'preact'
+import type { h as hType, ComponentChildren } from 'preact'
 import type { ParserType } from './parser-selection'
+import type { EditControlsProps } from '../components/EditControls'
+import type { ParseProgressProps } from '../components/ParseProgress'
+import type { ParseWarningsProps } from '../components/ParseWarnings'
 
 export interface RenderToolbarOptions {
   h: typeof hType
@@ -10,10 +13,35 @@ export interface RenderToolbarOptions {
   currentParser?: ParserType
   onParserChange?: (parser: ParserType) => void
   showParserSelector?: boolean
+  // Short note after the title, e.g. what was unwrapped to find the JSON
+  note?: string | null
+  // Breadcrumb options (center slot; omitted when Breadcrumbs is not given)
+  Breadcrumbs?: any
+  breadcrumbPath?: string | null
+  onBreadcrumbNavigate?: (path: string) => void
+  // Inline editing options (right slot; omitted when EditControls is not given)
+  EditControls?: any
+  editControls?: EditControlsProps
+  // Diff options (right slot; omitted when Button or onCompare is not given)
+  Button?: any
+  onCompare?: () => void
+  comparing?: boolean
+  // Background parse progress (center slot, in place of breadcrumbs; omitted
+  // when ParseProgress or parseProgress is not given)
+  ParseProgress?: any
+  parseProgress?: ParseProgressProps | null
+  // Errors recovered from in tolerant mode and duplicate keys (right slot;
+  // omitted when ParseWarnings or parseWarnings is not given)
+  ParseWarnings?: any
+  parseWarnings?: ParseWarningsProps | null
+  // Controls of the host page, e.g. the viewer page's Open file button
+  // (right slot, first)
+  actions?: ComponentChildren
 }
 
 /**
- * Renders the JSON Formatter Pro toolbar with branding, format toggle, and parser selector.
+ * Renders the JSON Formatter Pro toolbar with branding, breadcrumbs (or parse progress), the
+ * parse warnings badge, edit controls, compare button, format toggle, and parser selector.
  * This is used by both the content script and preview pages.
  */
 export function renderToolbar(
@@ -30,6 +58,20 @@ export function renderToolbar(
     currentParser,
     onParserChange,
     showParserSelector = true,
+    note = null,
+    Breadcrumbs,
+    breadcrumbPath = null,
+    onBreadcrumbNavigate,
+    EditControls,
+    editControls,
+    Button,
+    onCompare,
+    comparing = false,
+    ParseProgress,
+    parseProgress = null,
+    ParseWarnings,
+    parseWarnings = null,
+    actions = null,
   } = options
 
   // Handler to open options page in new tab
@@ -68,8 +110,28 @@ export function renderToolbar(
           },
           'JSON Formatter Pro'
         ),
-      ]
+        note
+          ? h(
+              'span',
+              {
+                class: 'toolbar-note',
+                style: {
+                  fontSize: '12px',
+                  color: 'var(--jf-secondary-text-color, #656d76)',
+                  whiteSpace: 'nowrap',
+                },
+              },
+              note
+            )
+          : null,
+      ].filter(Boolean)
     ),
+    center:
+      ParseProgress && parseProgress
+        ? h(ParseProgress, parseProgress)
+        : Breadcrumbs && onBreadcrumbNavigate
+          ? h(Breadcrumbs, { path: breadcrumbPath, onNavigate: onBreadcrumbNavigate })
+          : null,
     right: h(
       'div',
       {
@@ -80,6 +142,20 @@ export function renderToolbar(
         },
       },
       [
+        actions,
+        ParseWarnings && parseWarnings ? h(ParseWarnings, parseWarnings) : null,
+        EditControls && editControls ? h(EditControls, editControls) : null,
+        Button && onCompare
+          ? h(
+              Button,
+              {
+                variant: comparing ? 'primary' : 'secondary',
+                onClick: onCompare,
+                ariaLabel: comparing ? 'Close comparison' : 'Compare with another document',
+              },
+              comparing ? 'Close diff' : 'Compare'
+            )
+          : null,
         h(Toggle, {
           label: 'Format',
           checked: isFormatted,
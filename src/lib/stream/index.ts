@@ -0,0 +1,8 @@
+/**
+ * Streaming - Barrel Export
+ *
+ * This module reads documents too long to parse up front in slices,
+ * rendering the top level while the rest is read.
+ */
+
+export * from './stream'
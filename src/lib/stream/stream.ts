@@ -0,0 +1,99 @@
+/**
+ * Streaming Documents
+ *
+ * Documents too long to parse up front (over MAX_LENGTH) are read with a
+ * PartialTreeBuilder in short slices, yielding to the page in between, so
+ * the page stays responsive and the top-level structure shows up while the
+ * rest is still being read. Deeper levels are left as LazyNode placeholders
+ * and parsed when expanded, so memory grows with what is expanded.
+ */
+
+import { PartialTreeBuilder } from '../parser/partial'
+import { ParseError, type ParserOptions } from '../parser/events'
+import type { JsonNode } from '../parser/types'
+import { ParseCancelledError } from '../worker/client'
+
+/**
+ * Levels parsed while streaming (the root is level 1)
+ */
+export const STREAM_EAGER_DEPTH = 1
+
+// Events handled between two clock checks
+const EVENTS_PER_CHECK = 1000
+
+export interface StreamOptions {
+  /** Parser options (numberMode and limits) */
+  options?: ParserOptions
+  /** Levels to parse while streaming (default: STREAM_EAGER_DEPTH) */
+  maxDepth?: number
+  /** Aborting stops reading and rejects with ParseCancelledError */
+  signal?: AbortSignal
+  /**
+   * Called with the tree read so far: a new root object each time, so views
+   * memoized on it refresh
+   */
+  onUpdate?: (root: JsonNode, loaded: number, total: number) => void
+  /** Milliseconds of parsing before yielding to the page (default: 12) */
+  sliceMs?: number
+  /** Minimum milliseconds between two updates (default: 250) */
+  updateMs?: number
+  /** Yields to the page between slices (default: a zero-delay timeout) */
+  yieldToPage?: () => Promise<void>
+}
+
+const nextTask = () => new Promise<void>((resolve) => setTimeout(resolve, 0))
+
+/**
+ * Reads a document progressively
+ *
+ * On a parse error, onUpdate receives the tree read up to the error before
+ * the promise rejects with the ParseError.
+ *
+ * @returns Root of the partial AST, once the whole document has been read
+ */
+export async function streamDocument(
+  input: string,
+  {
+    options = {},
+    maxDepth = STREAM_EAGER_DEPTH,
+    signal,
+    onUpdate,
+    sliceMs = 12,
+    updateMs = 250,
+    yieldToPage = nextTask,
+  }: StreamOptions = {}
+): Promise<JsonNode> {
+  const builder = new PartialTreeBuilder(input, maxDepth, options)
+  const update = () => {
+    if (builder.root) onUpdate?.({ ...builder.root }, builder.position, input.length)
+  }
+  let lastUpdate = -Infinity
+
+  try {
+    while (true) {
+      if (signal?.aborted) throw new ParseCancelledError()
+
+      const sliceEnd = performance.now() + sliceMs
+      let done: boolean
+      do {
+        done = builder.step(EVENTS_PER_CHECK)
+      } while (!done && performance.now() < sliceEnd)
+      if (done) break
+
+      const now = performance.now()
+      if (now - lastUpdate >= updateMs) {
+        update()
+        lastUpdate = now
+      }
+      await yieldToPage()
+    }
+  } catch (error) {
+    if (error instanceof ParseError) update()
+    throw error
+  }
+
+  if (builder.root === null) {
+    throw new ParseError('No root value found', 0, '$')
+  }
+  return builder.root
+}
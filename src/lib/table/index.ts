@@ -0,0 +1,7 @@
+/**
+ * Table Utilities - Barrel Export
+ *
+ * This module builds and sorts the table view for arrays of objects.
+ */
+
+export * from './table'
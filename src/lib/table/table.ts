@@ -0,0 +1,227 @@
+/**
+ * Table view model
+ *
+ * Turns an array of (mostly) objects into rows × union-of-keys columns.
+ * Works on ParsedData through the DataAdapter interface, so native
+ * JSON.parse() values and ExactJSON nodes produce the same table.
+ */
+
+import { ParsedData, DataAdapter, ValueMetadata } from '../integration/types'
+import { createAdapter } from '../integration/adapters'
+import { childPath } from '../parser/json-path'
+
+/**
+ * A column: one key found in at least one row object
+ */
+export interface TableColumn {
+  /** Object key */
+  key: string
+
+  /** Number of rows that have this key */
+  count: number
+}
+
+/**
+ * A row: one array item
+ */
+export interface TableRow {
+  /** Index of the item in the array */
+  index: number
+
+  /** Cell values by column key (non-object items have no cells) */
+  cells: Map<string, ParsedData>
+}
+
+/**
+ * Rows and columns of a table view
+ */
+export interface TableModel {
+  columns: TableColumn[]
+  rows: TableRow[]
+}
+
+/**
+ * Sort direction for a column
+ */
+export type SortDirection = 'ascending' | 'descending'
+
+/**
+ * Text and type of a rendered cell
+ */
+export interface CellDisplay {
+  /** Value type; 'missing' when the row has no such key */
+  type: ValueMetadata['type'] | 'missing'
+
+  /** Text shown in the cell: primitives as written, containers summarized */
+  text: string
+}
+
+/**
+ * Is this value an array that reads well as a table?
+ *
+ * Requires at least two items, mostly objects, with at least one key shared
+ * by half of them. Only the first sampleSize items are inspected, so it is
+ * cheap enough to call while rendering tree rows.
+ *
+ * @param data - Candidate array
+ * @param sampleSize - Number of leading items to inspect
+ */
+export function isTabular(data: ParsedData, sampleSize: number = 100): boolean {
+  const adapter = createAdapter(data)
+  const meta = adapter.getMetadata(data)
+  if (meta.type !== 'array' || meta.childCount < 2) return false
+
+  let sampled = 0
+  let objects = 0
+  const keyCounts = new Map<string, number>()
+
+  for (const item of adapter.getChildren(data)) {
+    if (sampled === sampleSize) break
+    sampled++
+    if (adapter.getMetadata(item.value).type !== 'object') continue
+    objects++
+    for (const child of adapter.getChildren(item.value)) {
+      keyCounts.set(child.key!, (keyCounts.get(child.key!) ?? 0) + 1)
+    }
+  }
+
+  // "Mostly objects": at least 80% of the sampled items
+  if (objects < 2 || objects < sampled * 0.8) return false
+
+  for (const count of keyCounts.values()) {
+    if (count * 2 >= objects) return true
+  }
+  return false
+}
+
+/**
+ * Builds the table for an array
+ *
+ * Columns are the union of the item keys, in order of first appearance.
+ *
+ * @param data - Array value
+ * @param input - Original input string (enables lossless number text)
+ */
+export function buildTable(data: ParsedData, input?: string): TableModel {
+  const adapter = createAdapter(data, input)
+  const columnIndex = new Map<string, TableColumn>()
+  const columns: TableColumn[] = []
+  const rows: TableRow[] = []
+
+  for (const item of adapter.getChildren(data)) {
+    const cells = new Map<string, ParsedData>()
+
+    if (adapter.getMetadata(item.value).type === 'object') {
+      for (const child of adapter.getChildren(item.value)) {
+        const key = child.key!
+        cells.set(key, child.value)
+
+        let column = columnIndex.get(key)
+        if (!column) {
+          column = { key, count: 0 }
+          columnIndex.set(key, column)
+          columns.push(column)
+        }
+        column.count++
+      }
+    }
+
+    rows.push({ index: item.index, cells })
+  }
+
+  return { columns, rows }
+}
+
+/**
+ * Describes a cell for rendering
+ *
+ * @param value - Cell value, or undefined when the row has no such key
+ * @param adapter - Adapter for the table data
+ */
+export function getCellDisplay(
+  value: ParsedData | undefined,
+  adapter: DataAdapter
+): CellDisplay {
+  if (value === undefined) return { type: 'missing', text: '' }
+
+  const meta = adapter.getMetadata(value)
+  switch (meta.type) {
+    case 'object':
+      return { type: 'object', text: `{${meta.childCount}}` }
+    case 'array':
+      return { type: 'array', text: `[${meta.childCount}]` }
+    case 'number':
+      return { type: 'number', text: (meta.rawText || meta.displayValue)! }
+    default:
+      return { type: meta.type, text: meta.displayValue ?? '' }
+  }
+}
+
+/**
+ * Path of a cell's value, for opening nested cells in the tree
+ *
+ * @param arrayPath - Path of the table's array
+ * @param row - Row index in the array
+ * @param key - Column key
+ */
+export function getCellPath(arrayPath: string, row: number, key: string): string {
+  return childPath(childPath(arrayPath, null, row), key, 0)
+}
+
+// Ordering of types within a sorted column; missing cells always sort last
+const TYPE_RANK: Record<CellDisplay['type'], number> = {
+  number: 0,
+  string: 1,
+  boolean: 2,
+  null: 3,
+  object: 4,
+  array: 5,
+  missing: 6,
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true })
+
+/**
+ * Returns the rows sorted by a column
+ *
+ * Numbers compare numerically and strings with a locale-aware collator;
+ * mixed columns group values by type. Rows without the key stay at the end
+ * in both directions. The sort is stable, so ties keep array order.
+ *
+ * @param rows - Rows to sort
+ * @param key - Column key
+ * @param direction - Sort direction
+ * @param adapter - Adapter for the table data
+ */
+export function sortRows(
+  rows: TableRow[],
+  key: string,
+  direction: SortDirection,
+  adapter: DataAdapter
+): TableRow[] {
+  const sign = direction === 'ascending' ? 1 : -1
+
+  // Compute each sort key once instead of on every comparison
+  const entries = rows.map((row) => {
+    const display = getCellDisplay(row.cells.get(key), adapter)
+    return {
+      row,
+      rank: TYPE_RANK[display.type],
+      number: display.type === 'number' ? Number(display.text) : 0,
+      text: display.text,
+    }
+  })
+
+  entries.sort((a, b) => {
+    if (a.rank !== b.rank) {
+      if (a.rank === TYPE_RANK.missing || b.rank === TYPE_RANK.missing) {
+        return a.rank - b.rank
+      }
+      return sign * (a.rank - b.rank)
+    }
+    if (a.rank === TYPE_RANK.number) return sign * (a.number - b.number)
+    return sign * collator.compare(a.text, b.text)
+  })
+
+  return entries.map((entry) => entry.row)
+}
@@ -0,0 +1,210 @@
+/**
+ * Copy utilities
+ *
+ * Produces the clipboard text for a node's copy menu. ExactJSON subtrees
+ * are copied from the source slice so big integers, number formatting and
+ * key order survive; native JSON.parse() data is re-serialized.
+ */
+
+import { ParsedData, isJsonNode } from '../integration/types'
+import { createAdapter } from '../integration/adapters'
+import { pathToJsonPointer } from '../parser/json-path'
+import { isLazyNode } from '../parser/partial'
+import { FlatNode } from './types'
+
+/**
+ * What to copy from a node
+ */
+export type CopyFormat = 'value' | 'path' | 'pointer' | 'pretty' | 'minified'
+
+/**
+ * Builds the clipboard text for a node
+ *
+ * "value" copies strings without quotes and primitives as displayed;
+ * containers fall back to the pretty subtree.
+ *
+ * @param node - The flattened node
+ * @param format - What to copy
+ * @param input - Original input string (enables lossless ExactJSON slices)
+ */
+export function getCopyText(node: FlatNode, format: CopyFormat, input?: string): string {
+  switch (format) {
+    case 'path':
+      return node.path
+    case 'pointer':
+      return pathToJsonPointer(node.path)
+    case 'minified':
+      return stringifySubtree(node.value, input, 0)
+    case 'pretty':
+      return stringifySubtree(node.value, input, 2)
+    case 'value':
+      // String rows with a graft copy the string itself
+      if (node.type === 'object' || node.type === 'array') {
+        return stringifySubtree(node.value, input, 2)
+      }
+      if (node.type === 'number') return (node.rawText || node.displayValue)!
+      return node.displayValue ?? ''
+  }
+}
+
+/**
+ * Serializes a subtree as JSON text
+ *
+ * @param value - Subtree root
+ * @param input - Original input string (used for ExactJSON source slices)
+ * @param indent - Spaces per level (0 for minified)
+ */
+export function stringifySubtree(value: ParsedData, input: string | undefined, indent: number): string {
+  // Streamed documents: subtrees not parsed yet still have their source text
+  if (isLazyNode(value)) return reformatJson(value.raw, indent)
+
+  if (!isJsonNode(value)) {
+    return indent > 0 ? JSON.stringify(value, null, indent) : JSON.stringify(value)
+  }
+
+  // JSONC, JSON5 and tolerant mode's recovered text are not JSON: their
+  // subtrees are serialized from the nodes instead
+  const slice = input?.substring(value.start, value.end)
+  const source =
+    slice !== undefined && isJsonText(slice) ? slice : serializeNode(value, input)
+  return reformatJson(source, indent)
+}
+
+/**
+ * Re-indents JSON text without re-parsing values
+ *
+ * Only whitespace outside string literals changes, so numbers and key order
+ * are copied exactly as written.
+ *
+ * @param text - Valid JSON text
+ * @param indent - Spaces per level (0 for minified)
+ */
+export function reformatJson(text: string, indent: number): string {
+  const pad = (level: number) => '\n' + ' '.repeat(level * indent)
+  let out = ''
+  let level = 0
+  let inString = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+
+    if (inString) {
+      out += ch
+      if (ch === '\\') {
+        out += text[++i]
+      } else if (ch === '"') {
+        inString = false
+      }
+      continue
+    }
+
+    if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r') continue
+
+    if (ch === '"') {
+      inString = true
+      out += ch
+    } else if (ch === '{' || ch === '[') {
+      // Keep empty containers on one line
+      const next = nextSignificant(text, i + 1)
+      if (text[next] === (ch === '{' ? '}' : ']')) {
+        out += ch + text[next]
+        i = next
+      } else {
+        level++
+        out += indent > 0 ? ch + pad(level) : ch
+      }
+    } else if (ch === '}' || ch === ']') {
+      level--
+      out += indent > 0 ? pad(level) + ch : ch
+    } else if (ch === ',') {
+      out += indent > 0 ? ch + pad(level) : ch
+    } else if (ch === ':') {
+      out += indent > 0 ? ': ' : ':'
+    } else {
+      out += ch
+    }
+  }
+
+  return out
+}
+
+/**
+ * Helper: Index of the next non-whitespace character
+ */
+function nextSignificant(text: string, from: number): number {
+  let i = from
+  while (i < text.length && /\s/.test(text[i])) i++
+  return i
+}
+
+/**
+ * Helper: Whether text is strict JSON (comments, single quotes, trailing
+ * commas and the like are not)
+ */
+function isJsonText(text: string): boolean {
+  try {
+    JSON.parse(text)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const JSON_NUMBER = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/
+const HEX_NUMBER = /^([+-]?)0[xX]([\da-fA-F]+)$/
+const JSON5_DECIMAL = /^([+-]?)(\d*)(?:\.(\d*))?([eE][+-]?\d+)?$/
+
+/**
+ * Helper: A number's text as JSON, keeping its digits: JSON5's `0x1F`,
+ * `.5` and `+2` become `31`, `0.5` and `2`; Infinity and NaN become null,
+ * like JSON.stringify()
+ */
+function jsonNumber(raw: string): string {
+  if (JSON_NUMBER.test(raw)) return raw
+
+  const hex = HEX_NUMBER.exec(raw)
+  if (hex) return (hex[1] === '-' ? '-' : '') + BigInt('0x' + hex[2]).toString()
+
+  const decimal = JSON5_DECIMAL.exec(raw)
+  if (!decimal) return 'null'
+  const [, sign, integer, fraction, exponent = ''] = decimal
+  return (
+    (sign === '-' ? '-' : '') +
+    (integer.replace(/^0+(?=\d)/, '') || '0') +
+    (fraction ? '.' + fraction : '') +
+    exponent
+  )
+}
+
+/**
+ * Helper: Minified JSON for an ExactJSON node when the input is unavailable
+ * or not JSON, using the lossless number text from the adapter
+ */
+function serializeNode(value: ParsedData, input?: string): string {
+  const adapter = createAdapter(value, input)
+  const meta = adapter.getMetadata(value)
+
+  switch (meta.type) {
+    case 'string':
+      return JSON.stringify(meta.displayValue)
+    case 'number':
+      return jsonNumber((meta.rawText || meta.displayValue)!)
+    case 'boolean':
+    case 'null':
+      return meta.displayValue!
+    case 'object': {
+      const parts: string[] = []
+      for (const child of adapter.getChildren(value)) {
+        parts.push(JSON.stringify(child.key) + ':' + serializeNode(child.value, input))
+      }
+      return '{' + parts.join(',') + '}'
+    }
+    case 'array': {
+      const parts: string[] = []
+      for (const child of adapter.getChildren(value)) {
+        parts.push(serializeNode(child.value, input))
+      }
+      return '[' + parts.join(',') + ']'
+    }
+  }
+}
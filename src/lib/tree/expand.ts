@@ -6,6 +6,7 @@
 
 import { ParsedData } from '../integration/types'
 import { createAdapter } from '../integration/adapters'
+import { childPath, formatPath, parentPath, parsePath } from '../parser/json-path'
 import { TreeState, FlatNode } from './types'
 
 /**
@@ -25,51 +26,31 @@ export function toggleNode(state: TreeState, path: string): TreeState {
 
 /**
  * Expands a node and all its ancestors (for deep linking)
+ *
+ * @throws Error if the path is not a valid JSONPath
  */
 export function expandPath(state: TreeState, path: string): TreeState {
   const newExpanded = new Set(state.expandedPaths)
+  const segments = parsePath(path)
 
-  if (path === '$') {
-    newExpanded.add('$')
-    return { expandedPaths: newExpanded }
-  }
-
-  // Build paths incrementally by parsing the path string
-  let currentPath = '$'
-  newExpanded.add(currentPath)
-
-  let i = 1 // Skip the '$'
-  while (i < path.length) {
-    if (path[i] === '.') {
-      // Object property
-      i++ // Skip the '.'
-      let propName = ''
-      while (i < path.length && path[i] !== '.' && path[i] !== '[') {
-        propName += path[i]
-        i++
-      }
-      currentPath += `.${propName}`
-      newExpanded.add(currentPath)
-    } else if (path[i] === '[') {
-      // Array index
-      let indexStr = '['
-      i++ // Skip the '['
-      while (i < path.length && path[i] !== ']') {
-        indexStr += path[i]
-        i++
-      }
-      indexStr += ']'
-      i++ // Skip the ']'
-      currentPath += indexStr
-      newExpanded.add(currentPath)
-    } else {
-      i++
-    }
+  // Add every prefix: $, $.users, $.users[0], ...
+  for (let i = 1; i <= segments.length; i++) {
+    newExpanded.add(formatPath(segments.slice(0, i)))
   }
 
   return { expandedPaths: newExpanded }
 }
 
+/**
+ * Expands the ancestors of a node so it becomes visible, leaving the node
+ * itself as it was (used to reveal search hits)
+ */
+export function revealPath(state: TreeState, path: string): TreeState {
+  const parent = parentPath(path)
+  if (parent === null) return state
+  return expandPath(state, parent)
+}
+
 /**
  * Expands all nodes up to a given depth
  */
@@ -93,10 +74,13 @@ export function expandToDepth(
 
   // Recurse into children
   for (const child of adapter.getChildren(value)) {
-    const childPath =
-      child.key !== null ? `${path}.${child.key}` : `${path}[${child.index}]`
-
-    const childExpanded = expandToDepth(child.value, maxDepth, childPath, depth + 1, input)
+    const childExpanded = expandToDepth(
+      child.value,
+      maxDepth,
+      childPath(path, child.key, child.index),
+      depth + 1,
+      input
+    )
 
     childExpanded.forEach((p) => expanded.add(p))
   }
@@ -124,29 +108,16 @@ export function expandAllSiblings(
 
   const newExpanded = new Set(state.expandedPaths)
 
-  // Find all siblings (same depth, same parent)
+  // Find all expandable siblings (same depth, same parent)
+  const parent = parentPath(path)
   const siblings = allNodes.filter(
     (n) =>
-      n.depth === node.depth && getParentPath(n.path) === getParentPath(path)
+      n.hasChildren && n.depth === node.depth && parentPath(n.path) === parent
   )
 
   siblings.forEach((sibling) => {
-    if (sibling.hasChildren) {
-      newExpanded.add(sibling.path)
-    }
+    newExpanded.add(sibling.path)
   })
 
   return { expandedPaths: newExpanded }
 }
-
-/**
- * Helper: Extract parent path from a JSON path
- */
-function getParentPath(path: string): string {
-  const lastDot = path.lastIndexOf('.')
-  const lastBracket = path.lastIndexOf('[')
-  const lastDelim = Math.max(lastDot, lastBracket)
-
-  if (lastDelim === -1) return ''
-  return path.substring(0, lastDelim)
-}
@@ -5,15 +5,19 @@
  * Uses the Integration Contract's DataAdapter for polymorphic data access.
  */
 
-import { ParsedData } from '../integration/types'
+import { ParsedData, ChildEntry, ValueMetadata } from '../integration/types'
 import { createAdapter } from '../integration/adapters'
-import { FlatNode, TreeState } from './types'
+import { childPath } from '../parser/json-path'
+import { isLazyNode, readLazyNode } from '../parser/partial'
+import { FlatNode, TreeState, NodePredicate, Graft } from './types'
 
 /**
  * Flattens a JSON tree into an array of visible nodes.
  *
  * Only includes nodes that should be rendered (children of collapsed nodes excluded).
  * Works with both JsonValue (Phase I) and JsonNode (Phase II) via the DataAdapter.
+ * A string row with a graft in the state is a container of the grafted tree,
+ * and so is a string holding JSON when the state shows embedded JSON.
  *
  * @param value - The JSON value to flatten
  * @param state - Current tree state (expanded paths)
@@ -23,6 +27,8 @@ import { FlatNode, TreeState } from './types'
  * @param indexInParent - Position in parent array/object
  * @param siblingCount - Total number of siblings
  * @param input - Optional input string for on-demand raw text computation
+ * @param filter - Optional predicate; when given, only matching nodes and
+ *   their ancestors are emitted (see flattenFiltered)
  * @returns Array of flat nodes
  */
 export function flattenTree(
@@ -33,11 +39,27 @@ export function flattenTree(
   path: string = '$',
   indexInParent: number = 0,
   siblingCount: number = 1,
-  input?: string
+  input?: string,
+  filter?: NodePredicate
 ): FlatNode[] {
+  if (filter) {
+    return flattenFiltered(
+      value,
+      state,
+      keyName,
+      depth,
+      path,
+      indexInParent,
+      siblingCount,
+      input,
+      filter
+    )
+  }
+
   // Create appropriate adapter based on data type
-  const adapter = createAdapter(value, input)
+  const adapter = createAdapter(value, input, { embeddedJson: state.embeddedJson })
   const meta = adapter.getMetadata(value)
+  const graft = graftAt(state, path, meta)
 
   const isExpanded = state.expandedPaths.has(path)
 
@@ -48,59 +70,217 @@ export function flattenTree(
     value, // Store original data (polymorphic)
     type: meta.type,
     path,
-    hasChildren: meta.hasChildren,
+    hasChildren: meta.hasChildren || graft !== undefined,
     isExpanded,
-    childCount: meta.childCount,
+    childCount: graft ? graftChildren(graft).length : meta.childCount,
     indexInParent,
     isLastSibling: indexInParent === siblingCount - 1,
     displayValue: meta.displayValue,
     rawText: meta.rawText, // Lossless display (undefined for Phase I)
   }
+  if (graft || meta.embedded) node.graft = graft ?? meta.embedded
 
   const result: FlatNode[] = [node]
 
   // Only recurse if expanded
-  if (isExpanded && meta.hasChildren) {
-    const children = Array.from(adapter.getChildren(value))
+  if (isExpanded && node.hasChildren) {
+    const children = graft ? graftChildren(graft) : Array.from(adapter.getChildren(value))
+    const keys = new Set<string>()
 
     for (const child of children) {
-      const childPath =
-        child.key !== null ? `${path}.${child.key}` : `${path}[${child.index}]`
-
       const childNodes = flattenTree(
         child.value,
         state,
         child.key,
         depth + 1,
-        childPath,
+        childPath(path, child.key, child.index),
         child.index,
         children.length,
-        input
+        child.input ?? input
       )
+      distinctIds(childNodes, child, keys)
+      if (child.input !== undefined) markGrafted(childNodes, child.input)
 
       result.push(...childNodes)
     }
 
     // Add closing node for expanded containers
-    if (meta.type === 'object' || meta.type === 'array') {
-      const closingType = meta.type === 'object' ? 'object_close' : 'array_close'
-      const closingNode: FlatNode = {
-        id: `${path}__close`,
-        depth,
-        key: null,
-        value: null as any, // Sentinel value
-        type: closingType as any,
-        path: `${path}__close`,
-        hasChildren: false,
-        isExpanded: false,
-        childCount: 0,
-        indexInParent: -1,
-        isLastSibling: node.isLastSibling,
-        displayValue: null,
-      }
-      result.push(closingNode)
+    if (node.graft || meta.type === 'object' || meta.type === 'array') {
+      result.push(createClosingNode(node))
     }
   }
 
   return result
 }
+
+/**
+ * Flattens only the nodes matching a predicate, plus their ancestor chain.
+ *
+ * A matching node is flattened normally (its subtree follows the expansion
+ * state). A non-matching container with matching descendants is emitted
+ * expanded, containing only the branches that lead to matches, unless the
+ * user closed it (state.collapsedPaths). Everything else is pruned. Paths
+ * and indexInParent keep their original values, so `$.items[4381]` still
+ * names the same element after filtering.
+ *
+ * Streamed subtrees not opened yet are read without keeping what is
+ * parsed, and skipped when the filter rules out their raw text.
+ */
+function flattenFiltered(
+  value: ParsedData,
+  state: TreeState,
+  keyName: string | null,
+  depth: number,
+  path: string,
+  indexInParent: number,
+  siblingCount: number,
+  input: string | undefined,
+  filter: NodePredicate
+): FlatNode[] {
+  const adapter = createAdapter(value, input, { embeddedJson: state.embeddedJson })
+  const meta = adapter.getMetadata(value)
+  const graft = graftAt(state, path, meta)
+
+  const node: FlatNode = {
+    id: path,
+    depth,
+    key: keyName,
+    value,
+    type: meta.type,
+    path,
+    hasChildren: meta.hasChildren || graft !== undefined,
+    isExpanded: state.expandedPaths.has(path),
+    childCount: graft ? graftChildren(graft).length : meta.childCount,
+    indexInParent,
+    isLastSibling: indexInParent === siblingCount - 1,
+    displayValue: meta.displayValue,
+    rawText: meta.rawText,
+  }
+  if (graft || meta.embedded) node.graft = graft ?? meta.embedded
+
+  if (filter(node)) {
+    return flattenTree(
+      value,
+      state,
+      keyName,
+      depth,
+      path,
+      indexInParent,
+      siblingCount,
+      input
+    )
+  }
+
+  if (!node.hasChildren) return []
+
+  let parent = value
+  if (isLazyNode(value) && !value._cached) {
+    if (filter.mayMatchRaw?.(value.raw) === false) return []
+    parent = readLazyNode(value)
+  }
+
+  const children = graft ? graftChildren(graft) : Array.from(adapter.getChildren(parent))
+  const branches: FlatNode[][] = []
+  const keys = new Set<string>()
+
+  for (const child of children) {
+    const childNodes = flattenFiltered(
+      child.value,
+      state,
+      child.key,
+      depth + 1,
+      childPath(path, child.key, child.index),
+      child.index,
+      children.length,
+      child.input ?? input,
+      filter
+    )
+    distinctIds(childNodes, child, keys)
+    if (child.input !== undefined) markGrafted(childNodes, child.input)
+
+    if (childNodes.length > 0) branches.push(childNodes)
+  }
+
+  if (branches.length === 0) return []
+
+  // Comma rendering follows the pruned sibling list, not the original one
+  const last = branches[branches.length - 1]
+  last[0] = { ...last[0], isLastSibling: true }
+  const lastClose = last[last.length - 1]
+  if (last.length > 1 && lastClose.path === `${last[0].path}__close`) {
+    last[last.length - 1] = { ...lastClose, isLastSibling: true }
+  }
+
+  // Ancestors of matches are open until the user closes them
+  node.filterBranch = true
+  node.isExpanded = !state.collapsedPaths?.has(path)
+  if (!node.isExpanded) return [node]
+
+  const result: FlatNode[] = [node]
+  for (const branch of branches) result.push(...branch)
+  result.push(createClosingNode(node))
+
+  return result
+}
+
+/**
+ * Keeps row ids unique when an object repeats a key (ExactJSON keeps every
+ * occurrence): later occurrences share their paths with the first, so their
+ * rows' ids get the entry index
+ *
+ * @param keys - Keys of the container's children flattened so far
+ */
+function distinctIds(rows: FlatNode[], child: ChildEntry, keys: Set<string>): void {
+  if (child.key === null) return
+  if (keys.has(child.key)) {
+    for (const row of rows) row.id = `${row.id}#${child.index}`
+  } else {
+    keys.add(child.key)
+  }
+}
+
+/**
+ * Graft of a string row, unless the string changed since it was made
+ */
+function graftAt(state: TreeState, path: string, meta: ValueMetadata): Graft | undefined {
+  const graft = state.grafts?.get(path)
+  return graft && meta.type === 'string' && meta.displayValue === graft.source ? graft : undefined
+}
+
+function graftChildren(graft: Graft): ChildEntry[] {
+  return Array.from(createAdapter(graft.data, graft.input).getChildren(graft.data), (child) => ({
+    ...child,
+    input: graft.input,
+  }))
+}
+
+/**
+ * Marks rows as parsed from a string's text, not the document. Rows under
+ * a nested graft keep the innermost text.
+ */
+function markGrafted(rows: FlatNode[], input: string): void {
+  for (const row of rows) row.graftInput ??= input
+}
+
+/**
+ * Creates the closing bracket row for an expanded container (or string row
+ * with a graft)
+ */
+function createClosingNode(node: FlatNode): FlatNode {
+  const type = node.graft ? node.graft.data.kind : node.type
+  const closingType = type === 'object' ? 'object_close' : 'array_close'
+  return {
+    id: `${node.path}__close`,
+    depth: node.depth,
+    key: null,
+    value: null as any, // Sentinel value
+    type: closingType as any,
+    path: `${node.path}__close`,
+    hasChildren: false,
+    isExpanded: false,
+    childCount: 0,
+    indexInParent: -1,
+    isLastSibling: node.isLastSibling,
+    displayValue: null,
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Grafts
+ *
+ * Trees shown under string rows (see Graft): JSON decoded from a base64,
+ * JWT or compressed string by "Decode as JSON".
+ */
+
+import { parse } from '../parser/parse'
+import { decodeJsonText, describeEncodings } from '../decode'
+import { Graft } from './types'
+
+/**
+ * Decodes a string value and parses it with ExactJSON
+ *
+ * @throws Error when the string is not encoded JSON, or the decoded text
+ *   is not valid JSON
+ */
+export async function decodeGraft(value: string): Promise<Graft> {
+  const { text, encodings } = await decodeJsonText(value)
+  return {
+    source: value,
+    data: parseContainer(text),
+    input: text,
+    label: `decoded from ${describeEncodings(encodings)}`,
+  }
+}
+
+function parseContainer(text: string): Graft['data'] {
+  let ast
+  try {
+    ast = parse(text).ast
+  } catch (error) {
+    throw new Error(`The decoded text is not valid JSON: ${(error as Error).message}`)
+  }
+  if (ast.kind !== 'object' && ast.kind !== 'array') {
+    throw new Error('The decoded text is not a JSON object or array')
+  }
+  return ast
+}
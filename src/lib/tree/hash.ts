@@ -0,0 +1,37 @@
+/**
+ * URL fragment utilities
+ *
+ * Converts between JSON paths and `location.hash` so a node can be
+ * deep-linked, e.g. `https://api.example.com/users#$.users[12].address`.
+ */
+
+import { formatPath, parsePath } from '../parser/json-path'
+
+// Characters left readable in the fragment; everything else is percent-encoded
+const READABLE = /%(24|2E|5B|5D|27|3A|40|21|2A|28|29|2C|3B|3D|2B|2F)/gi
+
+/**
+ * Builds a URL fragment (including the leading '#') for a JSON path
+ */
+export function hashFromPath(path: string): string {
+  return '#' + encodeURIComponent(path).replace(READABLE, decodeURIComponent)
+}
+
+/**
+ * Extracts a JSON path from a URL fragment
+ *
+ * @param hash - Value of `location.hash` (with or without the leading '#')
+ * @returns The path in display form (so it matches the tree's row paths),
+ *   or null if the fragment does not hold a valid JSON path
+ */
+export function pathFromHash(hash: string): string | null {
+  const fragment = hash.startsWith('#') ? hash.slice(1) : hash
+  if (!fragment.startsWith('$')) return null
+
+  try {
+    return formatPath(parsePath(decodeURIComponent(fragment)))
+  } catch {
+    // Malformed percent-encoding or path syntax (hand-edited URL)
+    return null
+  }
+}
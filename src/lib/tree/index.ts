@@ -1,10 +1,18 @@
 /**
  * Tree Utilities - Barrel Export
  *
- * This module provides utilities for flattening JSON trees
- * and managing expansion state.
+ * This module provides utilities for flattening JSON trees,
+ * managing expansion state, keyboard navigation, searching the whole
+ * document, deep-linking nodes through the URL fragment, sticky ancestor
+ * headers, and trees decoded from string values.
  */
 
 export * from './types'
 export * from './flatten'
 export * from './expand'
+export * from './search'
+export * from './hash'
+export * from './navigation'
+export * from './copy'
+export * from './sticky'
+export * from './graft'
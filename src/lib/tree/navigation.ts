@@ -0,0 +1,86 @@
+/**
+ * Keyboard navigation utilities
+ *
+ * Maps keys to actions on the flattened tree following the WAI-ARIA tree
+ * view pattern. Pure functions: the component applies the returned action.
+ */
+
+import { parentPath } from '../parser/json-path'
+import { FlatNode } from './types'
+
+/**
+ * Result of a navigation key press
+ */
+export type NavigationAction =
+  | { type: 'focus'; path: string }
+  | { type: 'expand'; path: string }
+  | { type: 'collapse'; path: string }
+  | { type: 'expandSiblings'; path: string }
+
+/**
+ * Is this row a closing bracket/brace (not focusable)?
+ */
+export function isClosingNode(node: FlatNode): boolean {
+  return (node.type as string) === 'object_close' || (node.type as string) === 'array_close'
+}
+
+/**
+ * Determines what a key press does on the focused row
+ *
+ * - ArrowDown / ArrowUp: next / previous row
+ * - ArrowRight: expand a collapsed node, or move to its first child
+ * - ArrowLeft: collapse an expanded node, or move to its parent
+ * - Home / End: first / last row
+ * - `*`: expand all siblings of the focused node
+ *
+ * Closing bracket rows are skipped.
+ *
+ * @param nodes - Flattened rows as rendered
+ * @param path - Path of the focused row
+ * @param key - KeyboardEvent.key
+ * @returns The action to apply, or null if the key is not handled
+ */
+export function getNavigationAction(
+  nodes: FlatNode[],
+  path: string,
+  key: string
+): NavigationAction | null {
+  const index = nodes.findIndex((n) => n.path === path)
+  if (index === -1) return null
+  const node = nodes[index]
+
+  // Rows of a repeated object key share its path, so moving to the next or
+  // previous row skips them (skip: the focused path)
+  const focusFrom = (start: number, step: 1 | -1, skip?: string): NavigationAction | null => {
+    for (let i = start; i >= 0 && i < nodes.length; i += step) {
+      if (!isClosingNode(nodes[i]) && nodes[i].path !== skip) {
+        return { type: 'focus', path: nodes[i].path }
+      }
+    }
+    return null
+  }
+
+  switch (key) {
+    case 'ArrowDown':
+      return focusFrom(index + 1, 1, path)
+    case 'ArrowUp':
+      return focusFrom(index - 1, -1, path)
+    case 'Home':
+      return focusFrom(0, 1)
+    case 'End':
+      return focusFrom(nodes.length - 1, -1)
+    case 'ArrowRight':
+      if (!node.hasChildren) return null
+      if (!node.isExpanded) return { type: 'expand', path }
+      return focusFrom(index + 1, 1, path)
+    case 'ArrowLeft': {
+      if (node.hasChildren && node.isExpanded) return { type: 'collapse', path }
+      const parent = parentPath(path)
+      return parent === null ? null : { type: 'focus', path: parent }
+    }
+    case '*':
+      return { type: 'expandSiblings', path }
+    default:
+      return null
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Tree search utilities
+ *
+ * Full-text search across the whole parsed document (not just the rows
+ * currently flattened), so matches inside collapsed or virtualized
+ * subtrees can be found and revealed.
+ */
+
+import { ParsedData } from '../integration/types'
+import { createAdapter } from '../integration/adapters'
+import { childPath } from '../parser/json-path'
+import { isLazyNode, readLazyNode } from '../parser/partial'
+import { NodePredicate } from './types'
+
+/**
+ * Search options
+ */
+export interface SearchOptions {
+  /** Match case exactly (default: false) */
+  caseSensitive?: boolean
+
+  /** Also search the JSON held in string values (default: false) */
+  embeddedJson?: boolean
+}
+
+/**
+ * A single search hit
+ *
+ * A node can produce two hits: one for its key and one for its value.
+ */
+export interface SearchMatch {
+  /** JSON path of the node containing the hit */
+  path: string
+
+  /** Which part of the node matched */
+  field: 'key' | 'value'
+}
+
+/**
+ * Searches keys, string values and number raw text in document order.
+ *
+ * Works with both JsonValue and JsonNode via the DataAdapter. Booleans and
+ * nulls are not searched, matching what a user would type into a find bar.
+ *
+ * @param value - The JSON value to search
+ * @param query - Text to look for (empty query returns no matches)
+ * @param options - Search options
+ * @param input - Optional input string for on-demand raw text computation
+ * @returns Matches in the order their rows appear when fully expanded
+ */
+export function searchTree(
+  value: ParsedData,
+  query: string,
+  options: SearchOptions = {},
+  input?: string
+): SearchMatch[] {
+  const matches: SearchMatch[] = []
+  if (!query) return matches
+
+  const test = createMatcher(query, options)
+  const mayMatchRaw = createRawMatcher(query, options)
+
+  const visit = (node: ParsedData, key: string | null, path: string, text?: string) => {
+    const adapter = createAdapter(node, text, { embeddedJson: options.embeddedJson })
+    const meta = adapter.getMetadata(node)
+
+    if (key !== null && test(key)) {
+      matches.push({ path, field: 'key' })
+    }
+
+    const searchable = searchableText(meta.type, meta.displayValue, meta.rawText)
+    if (searchable !== null && test(searchable)) {
+      matches.push({ path, field: 'value' })
+    }
+
+    if (!meta.hasChildren) return
+
+    // Streamed subtrees not opened yet are skipped when their text cannot
+    // hold a match, and read without keeping what is parsed otherwise
+    let parent = node
+    if (isLazyNode(node) && !node._cached) {
+      if (!mayMatchRaw(node.raw)) return
+      parent = readLazyNode(node)
+    }
+
+    for (const child of adapter.getChildren(parent)) {
+      visit(child.value, child.key, childPath(path, child.key, child.index), child.input ?? text)
+    }
+  }
+
+  visit(value, null, '$', input)
+  return matches
+}
+
+/**
+ * Builds a filter-mode predicate matching the same keys and values as
+ * searchTree, for use with flattenTree.
+ *
+ * @param query - Text to look for (an empty query matches nothing)
+ * @param options - Search options
+ */
+export function createSearchPredicate(
+  query: string,
+  options: SearchOptions = {}
+): NodePredicate {
+  if (!query) return () => false
+
+  const test = createMatcher(query, options)
+  const predicate: NodePredicate = (node) => {
+    if (node.key !== null && test(node.key)) return true
+    const text = searchableText(node.type, node.displayValue, node.rawText)
+    return text !== null && test(text)
+  }
+  predicate.mayMatchRaw = createRawMatcher(query, options)
+  return predicate
+}
+
+/**
+ * Helper: Substring test honouring the case sensitivity option
+ */
+function createMatcher(
+  query: string,
+  options: SearchOptions
+): (text: string) => boolean {
+  const needle = options.caseSensitive ? query : query.toLowerCase()
+  return (text) =>
+    (options.caseSensitive ? text : text.toLowerCase()).includes(needle)
+}
+
+/**
+ * Helper: Whether raw JSON text may hold a key or value matching the query
+ *
+ * Only rules text out when the query cannot be in it: the query is not in
+ * the text as written, and no escape in the text could spell it.
+ */
+function createRawMatcher(query: string, options: SearchOptions): (raw: string) => boolean {
+  // Quotes, backslashes and control characters are always escaped, and
+  // case folding outside ASCII differs from toLowerCase()
+  const escaped = /["\\\x00-\x1f]/.test(query)
+  if (escaped || (!options.caseSensitive && /[^\x00-\x7f]/.test(query))) return () => true
+
+  const pattern = new RegExp(
+    query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'),
+    options.caseSensitive ? '' : 'i'
+  )
+  const escapes = query.includes('/') ? /\\[u/]/ : /\\u/
+  return (raw) => pattern.test(raw) || escapes.test(raw)
+}
+
+/**
+ * Helper: Text of a value that search looks at (strings and numbers only)
+ */
+function searchableText(
+  type: string,
+  displayValue: string | null,
+  rawText: string | undefined
+): string | null {
+  if (type === 'string') return displayValue
+  if (type === 'number') return rawText || displayValue
+  return null
+}
+
+/**
+ * Splits text into alternating plain and matching segments for highlighting.
+ *
+ * Offsets are taken on the original text, so characters whose lowercase
+ * form has another length (e.g. "İ") do not shift the highlights.
+ *
+ * @param text - Text to split
+ * @param query - Text to highlight
+ * @param caseSensitive - Match case exactly (default: false)
+ * @returns Segments in order; concatenating their text yields the input
+ */
+export function splitByQuery(
+  text: string,
+  query: string,
+  caseSensitive: boolean = false
+): Array<{ text: string; match: boolean }> {
+  if (!query) return [{ text, match: false }]
+
+  const { haystack, starts, ends } = caseSensitive
+    ? { haystack: text, starts: null, ends: null }
+    : lowercaseWithOffsets(text)
+  const needle = caseSensitive ? query : query.toLowerCase()
+  const segments: Array<{ text: string; match: boolean }> = []
+
+  let from = 0
+  let at = haystack.indexOf(needle)
+  while (at !== -1) {
+    // A match can start inside a character the previous one ended in
+    const start = Math.max(starts ? starts[at] : at, from)
+    const end = ends ? ends[at + needle.length - 1] : at + needle.length
+    if (start > from) segments.push({ text: text.substring(from, start), match: false })
+    segments.push({ text: text.substring(start, end), match: true })
+    from = end
+    at = haystack.indexOf(needle, at + needle.length)
+  }
+  if (from < text.length) segments.push({ text: text.substring(from), match: false })
+
+  return segments
+}
+
+/**
+ * Helper: Lowercased text, with the range of the original character each
+ * of its code units comes from
+ */
+function lowercaseWithOffsets(text: string): {
+  haystack: string
+  starts: number[]
+  ends: number[]
+} {
+  let haystack = ''
+  const starts: number[] = []
+  const ends: number[] = []
+
+  let index = 0
+  for (const char of text) {
+    const lower = char.toLowerCase()
+    haystack += lower
+    for (let i = 0; i < lower.length; i++) {
+      starts.push(index)
+      ends.push(index + char.length)
+    }
+    index += char.length
+  }
+  return { haystack, starts, ends }
+}
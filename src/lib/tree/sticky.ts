@@ -0,0 +1,73 @@
+/**
+ * Sticky ancestor utilities
+ *
+ * Computes which container rows should stick to the top of the viewport
+ * while scrolling (like VS Code's sticky scroll), from the flat node array.
+ */
+
+import { FlatNode } from './types'
+
+/**
+ * Computes the index of each row's enclosing container row
+ *
+ * Closing bracket rows belong to the same parent as their opening row.
+ * Runs in O(n) with a stack, so it can be memoized per flattening.
+ *
+ * @param nodes - Flattened rows
+ * @returns Parent row index for every row (-1 for top-level rows)
+ */
+export function getParentIndices(nodes: FlatNode[]): Int32Array {
+  const parents = new Int32Array(nodes.length)
+  const stack: number[] = []
+
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i]
+    while (stack.length > 0 && nodes[stack[stack.length - 1]].depth >= node.depth) {
+      stack.pop()
+    }
+    parents[i] = stack.length > 0 ? stack[stack.length - 1] : -1
+
+    // Only expanded containers have rows nested under them
+    if (node.hasChildren && node.isExpanded) stack.push(i)
+  }
+
+  return parents
+}
+
+/**
+ * Returns the ancestor rows to pin above the first visible row
+ *
+ * Headers cover the rows beneath them, so each additional header is taken
+ * from the ancestors of the row that ends up just below the stack. Growing
+ * the stack one level at a time keeps the result stable near the end of a
+ * container. When there are more than maxRows ancestors, the innermost ones
+ * are kept.
+ *
+ * @param parents - Result of getParentIndices for the same rows
+ * @param topIndex - Index of the first visible row
+ * @param maxRows - Maximum number of pinned rows
+ * @returns Row indices of the pinned ancestors, outermost first
+ */
+export function getStickyAncestors(
+  parents: Int32Array,
+  topIndex: number,
+  maxRows: number = 5
+): number[] {
+  const headers: number[] = []
+
+  while (true) {
+    const row = topIndex + Math.min(headers.length, maxRows)
+    if (row >= parents.length) break
+
+    const ancestors: number[] = []
+    for (let p = parents[row]; p !== -1; p = parents[p]) ancestors.push(p)
+    ancestors.reverse()
+
+    // The row below must still be inside every header pinned so far
+    if (ancestors.length <= headers.length) break
+    if (headers.some((h, i) => ancestors[i] !== h)) break
+    headers.push(ancestors[headers.length])
+  }
+
+  return headers.slice(-maxRows)
+}
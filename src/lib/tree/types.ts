@@ -5,7 +5,7 @@
  * for virtual scrolling, based on expansion state.
  */
 
-import { ParsedData } from '../integration/types'
+import { ParsedData, EmbeddedJson } from '../integration/types'
 
 /**
  * A flat representation of a tree node for rendering
@@ -52,6 +52,30 @@ export interface FlatNode {
 
   /** Raw lexeme for lossless display (Phase II feature) */
   rawText?: string
+
+  /** Tree grafted under this string row (its children come from it) */
+  graft?: EmbeddedJson
+
+  /**
+   * Text a grafted row was parsed from, which is not the document: set on
+   * every row under a graft, and such rows are read-only
+   */
+  graftInput?: string
+
+  /**
+   * Set in filter mode on the ancestors of matches, which are open unless
+   * listed in TreeState.collapsedPaths
+   */
+  filterBranch?: boolean
+}
+
+/**
+ * A tree shown under a string row on request: JSON decoded from the string,
+ * without changing the document
+ */
+export interface Graft extends EmbeddedJson {
+  /** The string it was made from; it is dropped if the string changes */
+  source: string
 }
 
 /**
@@ -62,4 +86,27 @@ export interface FlatNode {
 export interface TreeState {
   /** Set of paths that are expanded */
   expandedPaths: Set<string>
+
+  /** Trees grafted under string rows, by the string's path */
+  grafts?: Map<string, Graft>
+
+  /** Show strings holding JSON objects or arrays as expandable (EmbeddedJsonAdapter) */
+  embeddedJson?: boolean
+
+  /** Ancestors of filter matches that the user closed in filter mode */
+  collapsedPaths?: Set<string>
+}
+
+/**
+ * Predicate used by filter mode to decide which nodes match
+ *
+ * Receives the node as it would be flattened (key, type, display value,
+ * raw text), before its children are visited.
+ */
+export type NodePredicate = ((node: FlatNode) => boolean) & {
+  /**
+   * Whether the raw text of a streamed subtree not parsed yet may hold a
+   * match; subtrees it rules out are skipped without parsing them
+   */
+  mayMatchRaw?: (raw: string) => boolean
 }
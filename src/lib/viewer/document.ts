@@ -0,0 +1,81 @@
+/**
+ * Viewer Documents
+ *
+ * Parses a viewer page's document with the parser selected in its toolbar,
+ * the way the content script parses a page: JSON Lines line by line, and
+ * documents with ExactJSON (see parseSnippet) or JSON.parse, falling back
+ * to ExactJSON when JSON.parse fails.
+ */
+
+import { parse } from '../parser/parse'
+import { parseJsonLines, type JsonLinesDocument } from '../ndjson'
+import type { ParsedData } from '../integration/types'
+import type { ParseErrorInfo, ParserOptions } from '../parser/types'
+import type { ParserType } from '../parser-selection'
+import type { ViewerDocument } from './handoff'
+import { extractJson, parseSnippet, type SnippetParse } from './snippet'
+
+export type ViewerParse =
+  | {
+      kind: 'tree'
+      data: ParsedData
+      /** Text the tree was parsed from, a part of the document's text */
+      input: string
+      warnings: ParseErrorInfo[]
+      /** How the text was read, when not as plain JSON */
+      note: string | null
+    }
+  | { kind: 'lines'; data: JsonLinesDocument }
+  | { kind: 'error'; input: string; error: unknown }
+
+/**
+ * How a parsed snippet was read, when not as plain JSON
+ */
+export function snippetNote(result: SnippetParse & { ok: true }): string | null {
+  const parts: string[] = []
+  if (result.syntax !== 'json') parts.push(`${result.syntax.toUpperCase()} syntax`)
+  if (result.tolerant) parts.push(parts.length > 0 ? 'tolerant mode' : 'Tolerant mode')
+  return parts.length > 0 ? parts.join(', ') : null
+}
+
+/**
+ * Parses a viewer document with the selected parser
+ *
+ * @param options - ExactJSON options from the settings
+ */
+export function parseViewerDocument(
+  document: ViewerDocument,
+  parser: ParserType,
+  options: ParserOptions = {}
+): ViewerParse {
+  if (document.format === 'ndjson') {
+    return {
+      kind: 'lines',
+      data: parseJsonLines(
+        document.text,
+        parser === 'custom' ? (text) => parse(text, options).ast : undefined
+      ),
+    }
+  }
+
+  if (parser === 'native') {
+    const input = extractJson(document.text)
+    try {
+      return { kind: 'tree', data: JSON.parse(input), input, warnings: [], note: null }
+    } catch {
+      // Sloppy snippets only parse with ExactJSON
+    }
+  }
+
+  const result = parseSnippet(document.text, options)
+  if (!result.ok) return { kind: 'error', input: result.input, error: result.error }
+
+  const note = snippetNote(result)
+  return {
+    kind: 'tree',
+    data: result.ast,
+    input: result.input,
+    warnings: result.warnings,
+    note: parser === 'native' ? `ExactJSON${note ? `: ${note}` : ''}` : note,
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Local Files
+ *
+ * Files opened in the viewer page: JSON, JSON Lines, and either compressed
+ * with gzip (logs.jsonl.gz) or Brotli (data.json.br), read through the
+ * browser's DecompressionStream.
+ */
+
+import { compressionOf, decompress } from '../decode/decode'
+import type { ViewerDocument } from './handoff'
+
+/**
+ * File types offered by the viewer's file picker
+ */
+export const VIEWER_FILE_TYPES = '.json,.jsonc,.json5,.jsonl,.ndjson,.gz,.br,application/json'
+
+const JSON_LINES_NAME = /\.(jsonl|ndjson)$/i
+
+const BROTLI_NAME = /\.br$/i
+
+/**
+ * Reads a local file as a viewer document
+ *
+ * Gzip is recognized by its magic number, whatever the file is named;
+ * Brotli has none, so it is recognized by the .br extension. The name
+ * (without .gz or .br) tells JSON Lines from JSON.
+ *
+ * @throws Error when the compressed data is corrupt, or the browser cannot
+ *   decompress Brotli
+ */
+export async function readViewerFile(file: Blob & { name: string }): Promise<ViewerDocument> {
+  let bytes = new Uint8Array(await file.arrayBuffer())
+  const compression =
+    compressionOf(bytes) === 'gzip' ? 'gzip' : BROTLI_NAME.test(file.name) ? 'brotli' : null
+  if (compression) bytes = await decompress(bytes, compression)
+
+  const name = file.name.replace(/\.(gz|br)$/i, '')
+  return {
+    text: new TextDecoder().decode(bytes),
+    source: 'file',
+    name: file.name,
+    format: JSON_LINES_NAME.test(name) ? 'ndjson' : 'json',
+  }
+}
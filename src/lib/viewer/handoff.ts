@@ -0,0 +1,94 @@
+/**
+ * Viewer Page Handoff
+ *
+ * The background script opens the viewer page on text the user selected or
+ * copied. Selected text is passed through chrome.storage.session (URLs are
+ * too short for large documents), under a key named in the page URL; the
+ * page removes it once read and keeps a copy in its sessionStorage for
+ * reloads. Session storage is cleared when the browser closes, so text a
+ * tab never read does not stay behind.
+ */
+
+import type { Encoding } from '../decode/decode'
+
+export const VIEWER_PAGE = 'viewer/viewer.html'
+
+const HANDOFF_KEY_PREFIX = 'viewerDocument:'
+const SESSION_KEY = 'viewerDocument'
+
+/**
+ * Where the viewer's text came from
+ */
+export type ViewerSource = 'selection' | 'clipboard' | 'paste' | 'file'
+
+export interface ViewerDocument {
+  text: string
+  source: ViewerSource
+  /** File name, for opened and dropped files */
+  name?: string
+  /** 'ndjson': one value per line (default: 'json') */
+  format?: 'json' | 'ndjson'
+  /** Encodings removed from the text the viewer was given */
+  encodings?: Encoding[]
+}
+
+/**
+ * Stores selected text for a viewer page
+ *
+ * @returns The path of the viewer page showing it, relative to the extension
+ */
+export async function handOffSelection(text: string): Promise<string> {
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+  await chrome.storage.session.set({ [HANDOFF_KEY_PREFIX + id]: text })
+  return `${VIEWER_PAGE}?selection=${id}`
+}
+
+/**
+ * Path of a viewer page showing the clipboard's contents
+ */
+export const clipboardViewerPath = (): string => `${VIEWER_PAGE}?source=clipboard`
+
+/**
+ * Reads the document a viewer page was opened on
+ *
+ * @param search - The page URL's query string
+ * @returns The document, or null when there is none (or the clipboard
+ *   could not be read), so the page asks for one
+ */
+export async function loadViewerDocument(search: string): Promise<ViewerDocument | null> {
+  const saved = sessionStorage.getItem(SESSION_KEY)
+  if (saved) return JSON.parse(saved) as ViewerDocument
+
+  const params = new URLSearchParams(search)
+  let document: ViewerDocument | null = null
+
+  const id = params.get('selection')
+  if (id) {
+    const key = HANDOFF_KEY_PREFIX + id
+    const stored = await chrome.storage.session.get(key)
+    const text = (stored as Record<string, unknown>)[key]
+    await chrome.storage.session.remove(key)
+    if (typeof text === 'string') document = { text, source: 'selection' }
+  } else if (params.get('source') === 'clipboard') {
+    try {
+      document = { text: await navigator.clipboard.readText(), source: 'clipboard' }
+    } catch (error) {
+      console.warn('Clipboard unavailable:', error)
+    }
+  }
+
+  if (document?.text) saveViewerDocument(document)
+  return document?.text ? document : null
+}
+
+/**
+ * Keeps the document shown across reloads of the page
+ */
+export function saveViewerDocument(document: ViewerDocument): void {
+  try {
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(document))
+  } catch (error) {
+    // Over the storage quota: a reload asks for the document again
+    console.warn('Viewer document not saved:', error)
+  }
+}
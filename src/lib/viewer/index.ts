@@ -0,0 +1,12 @@
+/**
+ * Viewer Page Utilities - Barrel Export
+ *
+ * This module parses selected, pasted and opened documents for the
+ * extension's viewer page, and hands documents to it from the background
+ * script.
+ */
+
+export * from './snippet'
+export * from './handoff'
+export * from './document'
+export * from './file'
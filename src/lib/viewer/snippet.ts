@@ -0,0 +1,95 @@
+/**
+ * Snippet Parsing
+ *
+ * Text selected in a page or copied from a log or a chat message is rarely
+ * a clean JSON document: it comes with surrounding words, JavaScript-style
+ * quotes and keys, or a missing bracket. The viewer page parses it with the
+ * strictest syntax that accepts it, then in tolerant mode.
+ */
+
+import { parse } from '../parser/parse'
+import { findDuplicateKeys } from '../parser/duplicates'
+import { startsLikeJson } from '../getResult/policy'
+import type { JsonNode, JsonSyntax, ParseErrorInfo, ParserOptions } from '../parser/types'
+
+export type SnippetParse =
+  | {
+      ok: true
+      /** JSON found in the snippet (positions refer to it) */
+      input: string
+      ast: JsonNode
+      /** Strictest syntax that parsed */
+      syntax: JsonSyntax
+      /** Whether only tolerant mode could parse it */
+      tolerant: boolean
+      /** Recovered errors and duplicate keys, in document order */
+      warnings: ParseErrorInfo[]
+    }
+  | {
+      ok: false
+      input: string
+      /** Error of the strict JSON parse, which is the most telling */
+      error: unknown
+    }
+
+const SYNTAXES: JsonSyntax[] = ['json', 'jsonc', 'json5']
+
+/**
+ * Cuts the JSON out of surrounding text
+ *
+ * Text that does not start like JSON is cut from its first { or [, and text
+ * is cut after its last } or ], so `payload: {...} (200 OK)` gives `{...}`.
+ */
+export function extractJson(text: string): string {
+  const start = startsLikeJson(text) ? 0 : text.search(/[{[]/)
+  if (start === -1) return text.trim()
+
+  const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']')) + 1
+  return text.slice(start, end > start ? end : undefined).trim()
+}
+
+/**
+ * Parses a snippet with ExactJSON
+ *
+ * @param text - Selected or pasted text
+ * @param options - ExactJSON options from the settings (syntax is ignored)
+ */
+export function parseSnippet(text: string, options: ParserOptions = {}): SnippetParse {
+  const input = extractJson(text)
+  let strictError: unknown = null
+
+  for (const syntax of SYNTAXES) {
+    try {
+      const { ast, errors } = parse(input, { ...options, syntax })
+      return {
+        ok: true,
+        input,
+        ast,
+        syntax,
+        tolerant: !!options.tolerant && !!errors?.length,
+        warnings: warningsOf(ast, input, errors),
+      }
+    } catch (error) {
+      strictError ??= error
+    }
+  }
+  if (options.tolerant) return { ok: false, input, error: strictError }
+
+  try {
+    const { ast, errors } = parse(input, { ...options, syntax: 'json5', tolerant: true })
+    return {
+      ok: true,
+      input,
+      ast,
+      syntax: 'json5',
+      tolerant: true,
+      warnings: warningsOf(ast, input, errors),
+    }
+  } catch {
+    return { ok: false, input, error: strictError }
+  }
+}
+
+function warningsOf(ast: JsonNode, input: string, errors: ParseErrorInfo[] = []) {
+  return [...errors, ...findDuplicateKeys(ast, input)].sort((a, b) => a.position - b.position)
+}
@@ -0,0 +1,142 @@
+/**
+ * Parse Worker Client
+ *
+ * Runs a parse in a fresh worker and resolves with the decoded document.
+ * Each parse gets its own worker, so cancelling simply terminates it.
+ */
+
+import type { ParsedData } from '../integration/types'
+import type { ParserType } from '../parser-selection'
+import type { JsonComment, ParseErrorInfo, ParserOptions } from '../parser/types'
+import { decodeTree } from './compact'
+import type { ParseRequest, ParseResponse, ParsedPayload } from './protocol'
+
+/**
+ * Documents shorter than this are parsed on the main thread, where they
+ * take less time than starting a worker
+ */
+export const WORKER_MIN_LENGTH = 512 * 1024
+
+/**
+ * Thrown when a parse is cancelled through its AbortSignal
+ */
+export class ParseCancelledError extends Error {
+  constructor() {
+    super('Parsing was cancelled')
+    this.name = 'ParseCancelledError'
+  }
+}
+
+/**
+ * Thrown when the worker cannot run, e.g. when the page's Content Security
+ * Policy blocks it; callers fall back to parsing on the main thread
+ */
+export class ParseWorkerUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ParseWorkerUnavailableError'
+  }
+}
+
+export interface WorkerParseOptions {
+  parser: ParserType
+  /** ExactJSON options (ignored by the native parser) */
+  options?: ParserOptions
+  /** Starts the worker (createParseWorker in the extension) */
+  createWorker: () => Worker
+  /** Aborting terminates the worker and rejects with ParseCancelledError */
+  signal?: AbortSignal
+  /** Called with the characters parsed so far (0 until the parser reports) */
+  onProgress?: (loaded: number, total: number) => void
+}
+
+export interface WorkerParseResult {
+  /** ExactJSON AST, or the native JSON.parse value */
+  data: ParsedData
+  /** Errors recovered from (ExactJSON tolerant mode) */
+  errors?: ParseErrorInfo[]
+  /** Comments (ExactJSON JSONC/JSON5) */
+  comments?: JsonComment[]
+}
+
+// Request ids; a worker only ever answers its own request, so this is a safeguard
+let nextId = 1
+
+function toResult(payload: ParsedPayload, input: string): WorkerParseResult {
+  if (payload.kind === 'value') {
+    return { data: payload.value as ParsedData }
+  }
+  const result: WorkerParseResult = { data: decodeTree(payload.tree, input) }
+  if (payload.errors) result.errors = payload.errors
+  if (payload.comments) result.comments = payload.comments
+  return result
+}
+
+/**
+ * Parses a document in a worker
+ *
+ * Rejects with the parser's error (same name and message), with
+ * ParseCancelledError when aborted, or with ParseWorkerUnavailableError.
+ */
+export function parseInWorker(
+  input: string,
+  { parser, options = {}, createWorker, signal, onProgress }: WorkerParseOptions
+): Promise<WorkerParseResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ParseCancelledError())
+      return
+    }
+
+    let worker: Worker
+    try {
+      worker = createWorker()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      reject(new ParseWorkerUnavailableError(message))
+      return
+    }
+
+    const id = nextId++
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', cancel)
+    }
+    const cancel = () => {
+      finish()
+      reject(new ParseCancelledError())
+    }
+    signal?.addEventListener('abort', cancel)
+
+    worker.onerror = (event) => {
+      event.preventDefault()
+      finish()
+      reject(new ParseWorkerUnavailableError(event.message || 'Parse worker failed to start'))
+    }
+
+    worker.onmessage = (event: MessageEvent<ParseResponse>) => {
+      const response = event.data
+      if (response.id !== id) return
+
+      switch (response.type) {
+        case 'progress':
+          onProgress?.(response.loaded, response.total)
+          break
+        case 'result':
+          finish()
+          resolve(toResult(response.payload, input))
+          break
+        case 'error': {
+          finish()
+          const error = new Error(response.message)
+          error.name = response.name
+          reject(error)
+          break
+        }
+      }
+    }
+
+    const request: ParseRequest = { type: 'parse', id, input, parser, options }
+    worker.postMessage(request)
+  })
+}
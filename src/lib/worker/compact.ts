@@ -0,0 +1,215 @@
+/**
+ * Compact AST Encoding
+ *
+ * Copying an ExactJSON AST between threads clones one object per node,
+ * which costs about as much as parsing. The tree is sent instead as a few
+ * typed arrays (transferred, not copied) in pre-order, plus the strings
+ * that cannot be sliced from the input. Numbers are re-read from the input
+ * on decode, so lossless BigInt/decimal values survive the trip.
+ */
+
+import { parseNumber } from '../parser/numbers'
+import type { JsonNode, NodeTrivia, NumberMode, StringNode } from '../parser/types'
+
+const KIND_OBJECT = 0
+const KIND_ARRAY = 1
+const KIND_STRING = 2
+const KIND_NUMBER = 3
+const KIND_TRUE = 4
+const KIND_FALSE = 5
+const KIND_NULL = 6
+
+/**
+ * ExactJSON AST encoded in pre-order; an object's entries are encoded as
+ * key string followed by the value
+ */
+export interface CompactTree {
+  /** Node kinds (KIND_* codes) */
+  kinds: Uint8Array
+  /**
+   * Entry or item count of containers; for strings, 0 when the value is the
+   * source text between the quotes, else 1 + its index in strings
+   */
+  values: Uint32Array
+  starts: Uint32Array
+  ends: Uint32Array
+  /** String values that differ from their source text (escapes, recovery) */
+  strings: string[]
+  /** Comments, by node index (JSONC and JSON5 only) */
+  trivia: Array<[number, NodeTrivia]>
+  numberMode: NumberMode
+}
+
+function countNodes(node: JsonNode): number {
+  switch (node.kind) {
+    case 'object': {
+      let count = 1
+      for (const entry of node.entries) count += 1 + countNodes(entry.value)
+      return count
+    }
+    case 'array': {
+      let count = 1
+      for (const item of node.items) count += countNodes(item)
+      return count
+    }
+    default:
+      return 1
+  }
+}
+
+function triviaOf(node: JsonNode): NodeTrivia | null {
+  const { leadingComments, trailingComments, innerComments } = node
+  if (!leadingComments && !trailingComments && !innerComments) return null
+  const trivia: NodeTrivia = {}
+  if (leadingComments) trivia.leadingComments = leadingComments
+  if (trailingComments) trivia.trailingComments = trailingComments
+  if (innerComments) trivia.innerComments = innerComments
+  return trivia
+}
+
+/**
+ * Encodes an ExactJSON AST
+ *
+ * @param ast - Root node
+ * @param input - Source text the AST was parsed from
+ * @param numberMode - Number mode the AST was parsed with
+ */
+export function encodeTree(ast: JsonNode, input: string, numberMode: NumberMode): CompactTree {
+  const count = countNodes(ast)
+  const tree: CompactTree = {
+    kinds: new Uint8Array(count),
+    values: new Uint32Array(count),
+    starts: new Uint32Array(count),
+    ends: new Uint32Array(count),
+    strings: [],
+    trivia: [],
+    numberMode,
+  }
+  let index = 0
+
+  const encodeString = (node: StringNode) => {
+    const i = index++
+    tree.kinds[i] = KIND_STRING
+    tree.starts[i] = node.start
+    tree.ends[i] = node.end
+    if (node.value !== input.slice(node.start + 1, node.end - 1)) {
+      tree.values[i] = tree.strings.push(node.value)
+    }
+    return i
+  }
+
+  const encode = (node: JsonNode) => {
+    let i: number
+    switch (node.kind) {
+      case 'object':
+        i = index++
+        tree.kinds[i] = KIND_OBJECT
+        tree.values[i] = node.entries.length
+        for (const entry of node.entries) {
+          encodeString(entry.key)
+          encode(entry.value)
+        }
+        break
+      case 'array':
+        i = index++
+        tree.kinds[i] = KIND_ARRAY
+        tree.values[i] = node.items.length
+        for (const item of node.items) encode(item)
+        break
+      case 'string':
+        i = encodeString(node)
+        break
+      case 'number':
+        i = index++
+        tree.kinds[i] = KIND_NUMBER
+        break
+      case 'boolean':
+        i = index++
+        tree.kinds[i] = node.value ? KIND_TRUE : KIND_FALSE
+        break
+      case 'null':
+        i = index++
+        tree.kinds[i] = KIND_NULL
+        break
+    }
+    tree.starts[i] = node.start
+    tree.ends[i] = node.end
+    const trivia = triviaOf(node)
+    if (trivia) tree.trivia.push([i, trivia])
+  }
+
+  encode(ast)
+  return tree
+}
+
+/**
+ * Buffers of a CompactTree, for postMessage's transfer list
+ */
+export function transferables(tree: CompactTree): ArrayBuffer[] {
+  return [tree.kinds.buffer, tree.values.buffer, tree.starts.buffer, tree.ends.buffer] as
+    ArrayBuffer[]
+}
+
+/**
+ * Decodes a CompactTree back into an ExactJSON AST
+ *
+ * @param tree - Encoded tree
+ * @param input - Source text the tree was encoded from
+ */
+export function decodeTree(tree: CompactTree, input: string): JsonNode {
+  const { kinds, values, starts, ends, strings, numberMode } = tree
+  const trivia = new Map(tree.trivia)
+  let index = 0
+
+  const decodeString = (i: number): StringNode => ({
+    kind: 'string',
+    value: values[i] === 0 ? input.slice(starts[i] + 1, ends[i] - 1) : strings[values[i] - 1],
+    start: starts[i],
+    end: ends[i],
+  })
+
+  const decode = (): JsonNode => {
+    const i = index++
+    const start = starts[i]
+    const end = ends[i]
+    let node: JsonNode
+
+    switch (kinds[i]) {
+      case KIND_OBJECT: {
+        const entries: Array<{ key: StringNode; value: JsonNode }> = new Array(values[i])
+        for (let e = 0; e < entries.length; e++) {
+          const key = decodeString(index++)
+          entries[e] = { key, value: decode() }
+        }
+        node = { kind: 'object', entries, start, end }
+        break
+      }
+      case KIND_ARRAY: {
+        const items: JsonNode[] = new Array(values[i])
+        for (let item = 0; item < items.length; item++) items[item] = decode()
+        node = { kind: 'array', items, start, end }
+        break
+      }
+      case KIND_STRING:
+        node = decodeString(i)
+        break
+      case KIND_NUMBER: {
+        const { value, bigInt, decimal } = parseNumber(input.slice(start, end), numberMode)
+        node = { kind: 'number', value, bigInt, decimal, start, end }
+        break
+      }
+      case KIND_TRUE:
+      case KIND_FALSE:
+        node = { kind: 'boolean', value: kinds[i] === KIND_TRUE, start, end }
+        break
+      default:
+        node = { kind: 'null', start, end }
+    }
+
+    const comments = trivia.get(i)
+    if (comments) Object.assign(node, comments)
+    return node
+  }
+
+  return decode()
+}
@@ -0,0 +1,17 @@
+/**
+ * Bundled Parse Worker
+ *
+ * Vite bundles parse.worker.ts on its own and inlines it, so the worker
+ * starts from a Blob URL: content scripts cannot start workers from
+ * extension URLs, which are cross-origin to the page.
+ */
+
+// @ts-ignore - Vite's ?worker&inline import
+import ParseWorker from './parse.worker?worker&inline'
+
+/**
+ * Starts a parse worker
+ */
+export function createParseWorker(): Worker {
+  return new ParseWorker()
+}
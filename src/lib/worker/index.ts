@@ -0,0 +1,12 @@
+/**
+ * Parse Worker - Barrel Export
+ *
+ * This module parses documents in a Web Worker, with progress reports and
+ * cancellation, and moves the ExactJSON AST back in a compact encoding.
+ * The worker itself is started with createParseWorker from './create'.
+ */
+
+export * from './protocol'
+export * from './compact'
+export * from './parse-task'
+export * from './client'
@@ -0,0 +1,52 @@
+/**
+ * Parse Task
+ *
+ * What the parse worker does with a request, kept free of worker globals so
+ * it can run (and be tested) on any thread.
+ */
+
+import { parseDirect } from '../parser/parse-direct'
+import { encodeTree, transferables } from './compact'
+import type { ParseRequest, ParseResponse, ParsedPayload } from './protocol'
+
+/**
+ * Posts a response, transferring the given buffers
+ */
+export type PostResponse = (response: ParseResponse, transfer?: ArrayBuffer[]) => void
+
+function parsePayload(
+  request: ParseRequest,
+  onProgress: (offset: number) => void
+): { payload: ParsedPayload; transfer: ArrayBuffer[] } {
+  const { input, parser, options } = request
+
+  if (parser === 'native') {
+    return { payload: { kind: 'value', value: JSON.parse(input) }, transfer: [] }
+  }
+
+  const { ast, errors, comments } = parseDirect(input, options, onProgress)
+  const tree = encodeTree(ast, input, options.numberMode ?? 'native')
+  const payload: ParsedPayload = { kind: 'ast', tree }
+  if (errors) payload.errors = errors
+  if (comments) payload.comments = comments
+  return { payload, transfer: transferables(tree) }
+}
+
+/**
+ * Parses a requested document, posting progress and then its result or error
+ */
+export function handleParseRequest(request: ParseRequest, post: PostResponse): void {
+  const { id, input } = request
+  const total = input.length
+  post({ type: 'progress', id, loaded: 0, total })
+
+  try {
+    const { payload, transfer } = parsePayload(request, (loaded) =>
+      post({ type: 'progress', id, loaded, total })
+    )
+    post({ type: 'result', id, payload }, transfer)
+  } catch (error) {
+    const { name, message } = error instanceof Error ? error : new Error(String(error))
+    post({ type: 'error', id, name, message })
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Parse Worker
+ *
+ * Parses documents off the main thread so large responses do not freeze
+ * the page. See protocol.ts for the messages.
+ */
+
+import { handleParseRequest } from './parse-task'
+import type { ParseRequest, ParseResponse } from './protocol'
+
+// The DOM lib types `self` as Window; only the worker scope's messaging is used
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<ParseRequest>) => void) | null
+  postMessage(message: ParseResponse, transfer: Transferable[]): void
+}
+
+scope.onmessage = (event) => {
+  handleParseRequest(event.data, (response, transfer = []) =>
+    scope.postMessage(response, transfer)
+  )
+}
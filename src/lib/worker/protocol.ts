@@ -0,0 +1,39 @@
+/**
+ * Parse Worker Protocol
+ *
+ * Messages exchanged between the page and the parse worker. The worker
+ * handles one request at a time; a running parse is cancelled by
+ * terminating the worker, since it cannot read messages while parsing.
+ */
+
+import type { ParserType } from '../parser-selection'
+import type { JsonComment, ParseErrorInfo, ParserOptions } from '../parser/types'
+import type { CompactTree } from './compact'
+
+/**
+ * Request to parse a document
+ */
+export interface ParseRequest {
+  type: 'parse'
+  id: number
+  input: string
+  parser: ParserType
+  /** ExactJSON options (ignored by the native parser) */
+  options: ParserOptions
+}
+
+/**
+ * Parsed document: an encoded ExactJSON AST, or a native JSON.parse value
+ * (structured clone already copies plain values compactly)
+ */
+export type ParsedPayload =
+  | { kind: 'ast'; tree: CompactTree; errors?: ParseErrorInfo[]; comments?: JsonComment[] }
+  | { kind: 'value'; value: unknown }
+
+/**
+ * Messages posted by the worker
+ */
+export type ParseResponse =
+  | { type: 'progress'; id: number; loaded: number; total: number }
+  | { type: 'result'; id: number; payload: ParsedPayload }
+  | { type: 'error'; id: number; name: string; message: string }
@@ -0,0 +1,31 @@
+import { render, h } from 'preact'
+import { ViewerApp } from '../components/viewer/ViewerApp'
+import { loadViewerDocument } from '../lib/viewer'
+import { storage, getParserSettings } from '../lib/storage'
+import { selectParser } from '../lib/parser-selection'
+import { themeStorageKey, type Theme } from '../lib/constants'
+
+const root = document.getElementById('app')
+if (root) {
+  void (async () => {
+    const [settings, theme] = await Promise.all([
+      getParserSettings(),
+      storage.get<Theme>(themeStorageKey, 'system'),
+    ])
+
+    // Same tokens as formatted pages; 'system' follows prefers-color-scheme
+    if (theme === 'light' || theme === 'dark') document.documentElement.dataset.theme = theme
+
+    render(
+      h(ViewerApp, {
+        load: () => loadViewerDocument(window.location.search),
+        options: settings.customParserOptions,
+        parser: selectParser(window.location.href, settings).parser,
+        theme: theme ?? 'system',
+        onThemeChange: (value: Theme) => storage.set(themeStorageKey, value),
+        iconUrl: chrome.runtime.getURL('icons/icon32.png'),
+      }),
+      root
+    )
+  })()
+}
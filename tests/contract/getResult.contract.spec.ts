@@ -89,18 +89,21 @@ describe('getResult Contract Tests', () => {
       }
     })
 
-    it('returns specific note when content is too long', () => {
+    it('leaves content over MAX_LENGTH to be streamed', () => {
       const pre = document.createElement('pre')
-      pre.textContent = '{' + 'x'.repeat(MAX_LENGTH) + '}'
+      pre.textContent = '{"x": "' + 'x'.repeat(MAX_LENGTH) + '"}'
       document.body.appendChild(pre)
       const r = getResult(document)
-      expect(r.formatted).toBe(false)
-      if (!r.formatted) {
-        expect(r.note).toBe('Too long')
+      expect(r.formatted).toBe(true)
+      if (r.formatted) {
+        expect(r.note).toBe('streaming')
+        expect(r.streaming).toBe(true)
+        expect(r.parsed).toBeNull()
         expect(r.rawLength).toBeGreaterThan(MAX_LENGTH)
       }
     })
 
+
     it('returns specific note for bad start character (number)', () => {
       document.body.innerHTML = '<pre>  123</pre>'
       const r = getResult(document)
@@ -150,6 +153,42 @@ describe('getResult Contract Tests', () => {
   })
 
   describe('Success Cases (formatted: true)', () => {
+    it('reads undeclared JSON Lines over MAX_LENGTH line by line', () => {
+      const pre = document.createElement('pre')
+      pre.textContent = '{"a":1}\n'.repeat(MAX_LENGTH / 8 + 1)
+      document.body.appendChild(pre)
+      const r = getResult(document)
+      expect(r.formatted).toBe(true)
+      if (r.formatted) {
+        expect(r.format).toBe('ndjson')
+        expect(r.streaming).toBe(true)
+      }
+    })
+
+    it('does not stream text over MAX_LENGTH that only starts with [', () => {
+      const pre = document.createElement('pre')
+      pre.textContent = '[2024-01-01] INFO started\n'.repeat(MAX_LENGTH / 26 + 1)
+      document.body.appendChild(pre)
+      const r = getResult(document)
+      expect(r.formatted).toBe(false)
+      if (!r.formatted) expect(r.note).toBe('Does not parse as JSON')
+    })
+
+    it('leaves JSON Lines over MAX_LENGTH to be read line by line', () => {
+      const doc = document.implementation.createHTMLDocument('')
+      Object.defineProperty(doc, 'contentType', { value: 'application/x-ndjson' })
+      doc.body.innerHTML = '<pre></pre>'
+      doc.querySelector('pre')!.textContent = '{}\n'.repeat(MAX_LENGTH / 3 + 1)
+      const r = getResult(doc)
+      expect(r.formatted).toBe(true)
+      if (r.formatted) {
+        expect(r.note).toBe('streaming (Content-Type is application/x-ndjson)')
+        expect(r.format).toBe('ndjson')
+        expect(r.streaming).toBe(true)
+        expect(r.parsed).toBeNull()
+      }
+    })
+
     it('successfully parses valid JSON object', () => {
       document.body.innerHTML = '<pre>{"a":1}</pre>'
       const r = getResult(document)
@@ -0,0 +1,68 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/preact'
+import { h } from 'preact'
+import { Breadcrumbs } from '../../../src/components/Breadcrumbs'
+import { renderToolbar } from '../../../src/lib/renderUI'
+import { Toolbar } from '../../../src/components/Toolbar'
+import { Toggle } from '../../../src/components/Toggle'
+import { ParserIcon } from '../../../src/components/ParserIcon'
+
+describe('Breadcrumbs Component', () => {
+  it('renders one crumb per path segment', () => {
+    render(<Breadcrumbs path="$.users[12].address" onNavigate={vi.fn()} />)
+
+    expect(screen.getAllByRole('button').map((el) => el.textContent)).toEqual([
+      '$',
+      'users',
+      '[12]',
+      'address',
+    ])
+  })
+
+  it('shows quoted keys by name', () => {
+    render(<Breadcrumbs path="$['a.b']" onNavigate={vi.fn()} />)
+
+    expect(screen.getByText('a.b')).toHaveAttribute('title', "$['a.b']")
+  })
+
+  it('marks the last crumb as the current location', () => {
+    render(<Breadcrumbs path="$.a.b" onNavigate={vi.fn()} />)
+
+    expect(screen.getByText('b')).toHaveAttribute('aria-current', 'location')
+    expect(screen.getByText('a')).not.toHaveAttribute('aria-current')
+  })
+
+  it('calls onNavigate with the ancestor path', () => {
+    const onNavigate = vi.fn()
+    render(<Breadcrumbs path="$.users[12].address" onNavigate={onNavigate} />)
+
+    fireEvent.click(screen.getByText('[12]'))
+    expect(onNavigate).toHaveBeenCalledWith('$.users[12]')
+  })
+
+  it('renders nothing without a path', () => {
+    const { container } = render(<Breadcrumbs path={null} onNavigate={vi.fn()} />)
+
+    expect(container.querySelector('.breadcrumbs')).toBeNull()
+  })
+
+  it('is rendered in the toolbar center slot', () => {
+    const { container } = render(
+      renderToolbar(h, Toolbar, Toggle, ParserIcon, {
+        h,
+        iconUrl: 'icon.png',
+        isFormatted: true,
+        onFormatToggle: vi.fn(),
+        Breadcrumbs,
+        breadcrumbPath: '$.a',
+        onBreadcrumbNavigate: vi.fn(),
+      })
+    )
+
+    expect(container.querySelector('.toolbar-center .breadcrumbs')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,114 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/preact'
+import { h } from 'preact'
+import { CompareSource } from '../../../src/components/CompareSource'
+import { renderToolbar } from '../../../src/lib/renderUI'
+import { Toolbar } from '../../../src/components/Toolbar'
+import { Toggle } from '../../../src/components/Toggle'
+import { ParserIcon } from '../../../src/components/ParserIcon'
+import { Button } from '../../../src/components/Button'
+
+const props = {
+  parse: (text: string) => JSON.parse(text),
+  onCompare: vi.fn(),
+  onCancel: vi.fn(),
+}
+
+describe('CompareSource Component', () => {
+  it('compares pasted JSON', () => {
+    const onCompare = vi.fn()
+    render(<CompareSource {...props} onCompare={onCompare} />)
+
+    expect(screen.getByText('Compare')).toBeDisabled()
+    fireEvent.input(screen.getByLabelText('Paste JSON'), { target: { value: '{"a": 1}' } })
+    fireEvent.click(screen.getByText('Compare'))
+
+    expect(onCompare).toHaveBeenCalledWith({
+      data: { a: 1 },
+      input: '{"a": 1}',
+      label: 'Pasted JSON',
+    })
+  })
+
+  it('reports invalid JSON', () => {
+    const onCompare = vi.fn()
+    render(<CompareSource {...props} onCompare={onCompare} />)
+
+    fireEvent.input(screen.getByLabelText('Paste JSON'), { target: { value: '{oops' } })
+    fireEvent.click(screen.getByText('Compare'))
+
+    expect(screen.getByRole('alert').textContent).toMatch(/^Pasted JSON is not valid JSON/)
+    expect(onCompare).not.toHaveBeenCalled()
+  })
+
+  it('compares a local file', async () => {
+    const onCompare = vi.fn()
+    const { container } = render(<CompareSource {...props} onCompare={onCompare} />)
+
+    const file = new File(['[1, 2]'], 'other.json', { type: 'application/json' })
+    // jsdom's File has no text()
+    file.text = () => Promise.resolve('[1, 2]')
+    fireEvent.change(container.querySelector('input[type="file"]')!, {
+      target: { files: [file] },
+    })
+
+    await waitFor(() =>
+      expect(onCompare).toHaveBeenCalledWith({ data: [1, 2], input: '[1, 2]', label: 'other.json' })
+    )
+  })
+
+  it('lists other JSON tabs and compares one', async () => {
+    const onCompare = vi.fn()
+    const loadTab = vi.fn().mockResolvedValue('{"b": 2}')
+    render(
+      <CompareSource
+        {...props}
+        onCompare={onCompare}
+        loadTabs={() => Promise.resolve([{ tabId: 7, title: 'API v2', url: 'https://x/v2' }])}
+        loadTab={loadTab}
+      />
+    )
+
+    fireEvent.click(await screen.findByText('API v2'))
+
+    await waitFor(() =>
+      expect(onCompare).toHaveBeenCalledWith({ data: { b: 2 }, input: '{"b": 2}', label: 'API v2' })
+    )
+    expect(loadTab).toHaveBeenCalledWith(7)
+  })
+
+  it('says when no other tab shows JSON', async () => {
+    render(<CompareSource {...props} loadTabs={() => Promise.resolve([])} loadTab={vi.fn()} />)
+
+    expect(await screen.findByText('No other tabs with JSON documents')).toBeInTheDocument()
+  })
+
+  it('cancels', () => {
+    const onCancel = vi.fn()
+    render(<CompareSource {...props} onCancel={onCancel} />)
+
+    fireEvent.click(screen.getByText('Cancel'))
+    expect(onCancel).toHaveBeenCalled()
+  })
+
+  it('is opened from the toolbar Compare button', () => {
+    const onCompare = vi.fn()
+    render(
+      renderToolbar(h, Toolbar, Toggle, ParserIcon, {
+        h,
+        iconUrl: 'icon.png',
+        isFormatted: true,
+        onFormatToggle: vi.fn(),
+        Button,
+        onCompare,
+      })
+    )
+
+    fireEvent.click(screen.getByLabelText('Compare with another document'))
+    expect(onCompare).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/preact'
+import { CopyMenu } from '../../../src/components/CopyMenu'
+
+describe('CopyMenu Component', () => {
+  it('renders all copy actions as menu items', () => {
+    render(<CopyMenu x={10} y={20} onCopy={vi.fn()} onClose={vi.fn()} />)
+
+    expect(screen.getByRole('menu')).toBeInTheDocument()
+    expect(screen.getAllByRole('menuitem').map((el) => el.textContent)).toEqual([
+      'Copy value',
+      'Copy path',
+      'Copy JSON Pointer',
+      'Copy subtree (pretty)',
+      'Copy subtree (minified)',
+    ])
+  })
+
+  it('focuses the first item when opened', () => {
+    render(<CopyMenu x={0} y={0} onCopy={vi.fn()} onClose={vi.fn()} />)
+
+    expect(document.activeElement).toBe(screen.getByText('Copy value'))
+  })
+
+  it('calls onCopy with the chosen format', () => {
+    const onCopy = vi.fn()
+    render(<CopyMenu x={0} y={0} onCopy={onCopy} onClose={vi.fn()} />)
+
+    fireEvent.click(screen.getByText('Copy JSON Pointer'))
+    expect(onCopy).toHaveBeenCalledWith('pointer')
+  })
+
+  it('moves focus with arrow keys', () => {
+    render(<CopyMenu x={0} y={0} onCopy={vi.fn()} onClose={vi.fn()} />)
+    const menu = screen.getByRole('menu')
+
+    fireEvent.keyDown(menu, { key: 'ArrowDown' })
+    expect(document.activeElement).toBe(screen.getByText('Copy path'))
+
+    fireEvent.keyDown(menu, { key: 'ArrowUp' })
+    fireEvent.keyDown(menu, { key: 'ArrowUp' })
+    expect(document.activeElement).toBe(screen.getByText('Copy subtree (minified)'))
+  })
+
+  it('closes on Escape and on clicks outside', () => {
+    const onClose = vi.fn()
+    render(<CopyMenu x={0} y={0} onCopy={vi.fn()} onClose={onClose} />)
+
+    fireEvent.keyDown(screen.getByRole('menu'), { key: 'Escape' })
+    fireEvent.mouseDown(document.body)
+    expect(onClose).toHaveBeenCalledTimes(2)
+  })
+
+  it('lists extra actions after a separator and skips disabled ones', () => {
+    const onSelect = vi.fn()
+    render(
+      <CopyMenu
+        x={0}
+        y={0}
+        onCopy={vi.fn()}
+        onClose={vi.fn()}
+        actions={[
+          { label: 'Remove', onSelect },
+          { label: 'Move up', onSelect: vi.fn(), disabled: true },
+        ]}
+      />
+    )
+    const menu = screen.getByRole('menu')
+
+    expect(screen.getByRole('separator')).toBeInTheDocument()
+    expect(screen.getByText('Move up')).toBeDisabled()
+
+    // Wraps from the last enabled item back to the first
+    fireEvent.keyDown(menu, { key: 'ArrowUp' })
+    expect(document.activeElement).toBe(screen.getByText('Remove'))
+    fireEvent.keyDown(menu, { key: 'ArrowDown' })
+    expect(document.activeElement).toBe(screen.getByText('Copy value'))
+
+    fireEvent.click(screen.getByText('Remove'))
+    expect(onSelect).toHaveBeenCalled()
+  })
+})
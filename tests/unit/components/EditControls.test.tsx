@@ -0,0 +1,73 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/preact'
+import { h } from 'preact'
+import { EditControls } from '../../../src/components/EditControls'
+import { renderToolbar } from '../../../src/lib/renderUI'
+import { Toolbar } from '../../../src/components/Toolbar'
+import { Toggle } from '../../../src/components/Toggle'
+import { ParserIcon } from '../../../src/components/ParserIcon'
+
+const props = {
+  editing: true,
+  onEditToggle: vi.fn(),
+  canUndo: true,
+  canRedo: false,
+  onUndo: vi.fn(),
+  onRedo: vi.fn(),
+  onDownload: vi.fn(),
+}
+
+describe('EditControls Component', () => {
+  it('shows only the Edit switch when not editing', () => {
+    render(<EditControls {...props} editing={false} />)
+
+    expect(screen.getByText('Edit')).toBeInTheDocument()
+    expect(screen.queryByLabelText('Undo')).toBeNull()
+    expect(screen.queryByText('Download')).toBeNull()
+  })
+
+  it('turns editing on from the switch', () => {
+    const onEditToggle = vi.fn()
+    render(<EditControls {...props} editing={false} onEditToggle={onEditToggle} />)
+
+    fireEvent.click(screen.getByRole('switch'))
+    expect(onEditToggle).toHaveBeenCalledWith(true)
+  })
+
+  it('enables undo and redo from the history state', () => {
+    render(<EditControls {...props} />)
+
+    expect(screen.getByLabelText('Undo')).not.toBeDisabled()
+    expect(screen.getByLabelText('Redo')).toBeDisabled()
+  })
+
+  it('calls the undo and download handlers', () => {
+    const onUndo = vi.fn()
+    const onDownload = vi.fn()
+    render(<EditControls {...props} onUndo={onUndo} onDownload={onDownload} />)
+
+    fireEvent.click(screen.getByLabelText('Undo'))
+    fireEvent.click(screen.getByText('Download'))
+    expect(onUndo).toHaveBeenCalled()
+    expect(onDownload).toHaveBeenCalled()
+  })
+
+  it('is rendered in the toolbar right slot', () => {
+    const { container } = render(
+      renderToolbar(h, Toolbar, Toggle, ParserIcon, {
+        h,
+        iconUrl: 'icon.png',
+        isFormatted: true,
+        onFormatToggle: vi.fn(),
+        EditControls,
+        editControls: props,
+      })
+    )
+
+    expect(container.querySelector('.toolbar-right .edit-controls')).toBeInTheDocument()
+  })
+})
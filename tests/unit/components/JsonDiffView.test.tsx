@@ -0,0 +1,154 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/preact'
+import { JsonDiffView } from '../../../src/components/JsonDiffView'
+import type { JsonValue } from '../../../src/lib/integration/types'
+import { parse } from '../../../src/lib/parser/parse'
+
+const left: JsonValue = {
+  same: { x: 1 },
+  users: [
+    { id: 1, name: 'Ann' },
+    { id: 2, name: 'Bob' },
+  ],
+  gone: true,
+}
+const right: JsonValue = {
+  same: { x: 1 },
+  users: [
+    { id: 2, name: 'Bob' },
+    { id: 1, name: 'Anne' },
+  ],
+  added: null,
+}
+
+const renderDiff = (props: Partial<Parameters<typeof JsonDiffView>[0]> = {}) =>
+  render(
+    <JsonDiffView
+      left={left}
+      right={right}
+      leftLabel="page.json"
+      rightLabel="Pasted JSON"
+      onClose={vi.fn()}
+      {...props}
+    />
+  )
+
+const rowTexts = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll('.json-diff-row')).map((row) =>
+    row.textContent!.replace(/[▾▸]/g, '').replace(/ /g, ' ')
+  )
+
+describe('JsonDiffView Component', () => {
+  it('shows both documents side by side with markers', () => {
+    const { container } = renderDiff()
+
+    expect(screen.getByText('page.json')).toBeInTheDocument()
+    expect(screen.getByText('Pasted JSON')).toBeInTheDocument()
+    expect(container.querySelector('.json-diff-removed')).toHaveTextContent('gone: true')
+    expect(container.querySelector('.json-diff-added')).toHaveTextContent('added: null')
+    // Changed containers start expanded, unchanged ones collapsed
+    expect(rowTexts(container)).toContain('same: {1}same: {1}')
+    expect(rowTexts(container)).toContain('~name: "Ann"name: "Bob"')
+  })
+
+  it('summarizes the differences', () => {
+    renderDiff()
+
+    expect(screen.getByRole('status').textContent).toBe('+1 added −1 removed ~4 changed')
+  })
+
+  it('reports identical documents', () => {
+    renderDiff({ right: left })
+
+    expect(screen.getByRole('status').textContent).toBe('No differences')
+  })
+
+  it('aligns array items by a key member', () => {
+    const { container } = renderDiff()
+
+    fireEvent.change(screen.getByPlaceholderText('index'), { target: { value: 'id' } })
+
+    expect(screen.getByRole('status').textContent).toBe('+1 added −1 removed ~1 changed')
+    expect(rowTexts(container)).toContain('~name: "Ann"name: "Anne"')
+  })
+
+  it('hides unchanged rows when showing only differences', () => {
+    const { container } = renderDiff()
+
+    fireEvent.click(screen.getByLabelText('Only differences'))
+
+    expect(rowTexts(container).some((text) => text.includes('same'))).toBe(false)
+    expect(rowTexts(container).some((text) => text.includes('gone'))).toBe(true)
+  })
+
+  it('splits changed values into removed and added lines in the unified layout', () => {
+    const { container } = renderDiff()
+
+    fireEvent.click(screen.getByText('Unified'))
+    fireEvent.click(screen.getByLabelText('Only differences'))
+
+    expect(screen.getByText('Unified')).toHaveAttribute('aria-pressed', 'true')
+    const texts = rowTexts(container)
+    expect(texts).toContain('−name: "Ann"')
+    expect(texts).toContain('+name: "Bob"')
+    expect(texts.indexOf('−name: "Ann"') + 1).toBe(texts.indexOf('+name: "Bob"'))
+  })
+
+  it('expands and collapses rows', () => {
+    const { container } = renderDiff()
+
+    fireEvent.click(screen.getAllByLabelText('Expand')[0])
+    expect(rowTexts(container)).toContain('x: 1x: 1')
+
+    fireEvent.click(screen.getAllByLabelText('Collapse')[0])
+    expect(container.querySelectorAll('.json-diff-row')).toHaveLength(1)
+  })
+
+  it('compares ExactJSON numbers losslessly', () => {
+    const leftInput = '[12345678901234567890, 1.0]'
+    const rightInput = '[12345678901234567891, 1]'
+    const { container } = renderDiff({
+      left: parse(leftInput, { numberMode: 'bigint' }).ast,
+      leftInput,
+      right: parse(rightInput, { numberMode: 'bigint' }).ast,
+      rightInput,
+    })
+
+    expect(rowTexts(container)).toContain('~0: 123456789012345678900: 12345678901234567891')
+    expect(rowTexts(container)).toContain('1: 1.01: 1')
+  })
+
+  it('compares ExactJSON numbers losslessly in native mode', () => {
+    const leftInput = '[12345678901234567890, 1.0]'
+    const rightInput = '[12345678901234567891, 1]'
+    const { container } = renderDiff({
+      left: parse(leftInput).ast,
+      leftInput,
+      right: parse(rightInput).ast,
+      rightInput,
+    })
+
+    expect(rowTexts(container)).toContain('~0: 123456789012345678900: 12345678901234567891')
+    expect(rowTexts(container)).toContain('1: 1.01: 1')
+  })
+
+  it('returns to the tree', () => {
+    const onClose = vi.fn()
+    renderDiff({ onClose })
+
+    fireEvent.click(screen.getByText('← Tree'))
+    expect(onClose).toHaveBeenCalled()
+  })
+
+  it('virtualizes large diffs', () => {
+    const many = Array.from({ length: 500 }, (_, i) => i)
+    const { container } = renderDiff({ left: many, right: many.map((i) => i + 1) })
+
+    expect(screen.getByRole('status').textContent).toBe('+0 added −0 removed ~500 changed')
+    expect(container.querySelectorAll('.json-diff-row').length).toBeLessThan(100)
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/preact'
+import { JsonLinesView } from '../../../src/components/JsonLinesView'
+import { parseJsonLines } from '../../../src/lib/ndjson/ndjson'
+
+const logs = [
+  '{"level":"info","msg":"start"}',
+  '{"level":"warn"',
+  '',
+  '{"level":"info","msg":"done"}',
+  'oops',
+].join('\n')
+
+const numbers = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll('.json-lines-number')).map((n) => n.textContent)
+
+describe('JsonLinesView Component', () => {
+  it('summarizes records and bad lines', () => {
+    render(<JsonLinesView data={parseJsonLines(logs)} />)
+
+    expect(screen.getByRole('status').textContent).toBe('2 records, 2 bad lines')
+  })
+
+  it('numbers each entry by its line', () => {
+    const { container } = render(<JsonLinesView data={parseJsonLines(logs)} />)
+
+    expect(numbers(container)).toEqual(['1', '2', '4', '5'])
+    expect(container.querySelectorAll('.json-lines-bad')).toHaveLength(2)
+    expect(screen.getByTitle('oops')).toBeInTheDocument()
+  })
+
+  it('expands and collapses records', () => {
+    const { container } = render(<JsonLinesView data={parseJsonLines(logs)} />)
+
+    fireEvent.click(container.querySelector('.e')!)
+    expect(container.textContent).toContain('start')
+    // Only the first row of a record is numbered
+    expect(numbers(container)).toEqual(['1', '', '', '', '2', '4', '5'])
+
+    fireEvent.click(screen.getByText('Collapse all'))
+    expect(container.textContent).not.toContain('start')
+
+    fireEvent.click(screen.getByText('Expand all'))
+    expect(container.textContent).toContain('start')
+    expect(container.textContent).toContain('done')
+  })
+
+  it('steps through bad lines', () => {
+    const { container } = render(<JsonLinesView data={parseJsonLines(logs)} />)
+    const active = () => container.querySelector('.json-lines-active .json-lines-number')
+
+    fireEvent.click(screen.getByText('Next bad line'))
+    expect(active()).toHaveTextContent('2')
+    fireEvent.click(screen.getByText('Next bad line'))
+    expect(active()).toHaveTextContent('5')
+    fireEvent.click(screen.getByText('Next bad line'))
+    expect(active()).toHaveTextContent('2')
+  })
+
+  it('hides the bad line controls when every line parses', () => {
+    render(<JsonLinesView data={parseJsonLines('1\n2')} />)
+
+    expect(screen.getByRole('status').textContent).toBe('2 records')
+    expect(screen.queryByText('Next bad line')).toBeNull()
+  })
+
+  it('virtualizes large documents', () => {
+    const many = Array.from({ length: 5000 }, (_, i) => JSON.stringify({ id: i })).join('\n')
+    const { container } = render(<JsonLinesView data={parseJsonLines(many)} />)
+
+    expect(screen.getByRole('status').textContent).toBe('5000 records')
+    expect(container.querySelectorAll('.json-lines-row').length).toBeLessThan(100)
+  })
+})
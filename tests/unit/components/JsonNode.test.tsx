@@ -5,6 +5,8 @@ import { render, fireEvent } from '@testing-library/preact'
 import { expect, describe, test, vi } from 'vitest'
 import { JsonNode } from '../../../src/components/JsonNode'
 import type { FlatNode } from '../../../src/lib/tree/types'
+import { parse } from '../../../src/lib/parser/parse'
+import type { ObjectNode } from '../../../src/lib/parser/types'
 
 describe('JsonNode', () => {
   const mockToggle = vi.fn()
@@ -362,6 +364,60 @@ describe('JsonNode', () => {
         expandAllSiblings: true,
       })
     })
+
+    test('calls onSelect when the row is clicked', () => {
+      const onSelect = vi.fn()
+      const node: FlatNode = {
+        id: '$.users',
+        depth: 1,
+        key: 'users',
+        value: {},
+        type: 'object',
+        path: '$.users',
+        hasChildren: true,
+        isExpanded: false,
+        childCount: 2,
+        indexInParent: 0,
+        isLastSibling: false,
+        displayValue: null,
+      }
+
+      const { container } = render(
+        <JsonNode node={node} onToggle={mockToggle} onSelect={onSelect} />
+      )
+
+      fireEvent.click(container.querySelector('.k') as HTMLElement)
+      expect(onSelect).toHaveBeenCalledWith('$.users')
+
+      onSelect.mockClear()
+      fireEvent.click(container.querySelector('.e') as HTMLElement)
+      expect(onSelect).not.toHaveBeenCalled()
+    })
+
+    test('marks the selected row', () => {
+      const node: FlatNode = {
+        id: '$.id',
+        depth: 1,
+        key: 'id',
+        value: 1,
+        type: 'number',
+        path: '$.id',
+        hasChildren: false,
+        isExpanded: false,
+        childCount: 0,
+        indexInParent: 0,
+        isLastSibling: true,
+        displayValue: '1',
+      }
+
+      const { container } = render(
+        <JsonNode node={node} onToggle={mockToggle} onSelect={vi.fn()} isSelected />
+      )
+
+      const entry = container.querySelector('.entry')
+      expect(entry).toHaveClass('selected')
+      expect(entry).toHaveAttribute('aria-selected', 'true')
+    })
   })
 
   describe('Keys and commas', () => {
@@ -735,4 +791,201 @@ describe('JsonNode', () => {
       expect(entry?.getAttribute('role')).toBe('treeitem')
     })
   })
+
+  describe('Search highlighting', () => {
+    const node: FlatNode = {
+      id: '$.username',
+      depth: 1,
+      key: 'username',
+      value: 'user_name',
+      type: 'string',
+      path: '$.username',
+      hasChildren: false,
+      isExpanded: false,
+      childCount: 0,
+      indexInParent: 0,
+      isLastSibling: true,
+      displayValue: 'user_name',
+    }
+
+    test('wraps query occurrences in key and value with mark', () => {
+      const { container } = render(
+        <JsonNode node={node} onToggle={mockToggle} searchQuery="name" />
+      )
+
+      const marks = container.querySelectorAll('mark.search-hit')
+      expect(marks).toHaveLength(2)
+      expect(container.querySelector('.k')?.textContent).toBe('username')
+    })
+
+    test('renders no marks without a query', () => {
+      const { container } = render(<JsonNode node={node} onToggle={mockToggle} />)
+
+      expect(container.querySelector('mark')).toBeNull()
+    })
+
+    test('marks the active match row', () => {
+      const { container } = render(
+        <JsonNode node={node} onToggle={mockToggle} searchQuery="name" isActiveMatch />
+      )
+
+      expect(container.querySelector('.entry')).toHaveClass('search-active')
+    })
+
+    test('highlights what search matched in escaped text', () => {
+      const value = 'say "hi"\nbye'
+      const { container } = render(
+        <JsonNode
+          node={{ ...node, key: 'a\\b', value, displayValue: value }}
+          onToggle={mockToggle}
+          searchQuery={'"hi"\nb'}
+        />
+      )
+
+      expect(container.querySelector('.s mark')?.textContent).toBe('\\"hi\\"\\nb')
+      expect(container.querySelector('.s')?.textContent).toBe('"say \\"hi\\"\\nbye"')
+    })
+
+    test('highlights backslashes in keys', () => {
+      const { container } = render(
+        <JsonNode node={{ ...node, key: 'C:\\temp' }} onToggle={mockToggle} searchQuery={'\\'} />
+      )
+
+      expect(container.querySelector('.k mark')?.textContent).toBe('\\\\')
+    })
+  })
+
+  describe('Comments', () => {
+    const input = '{\n  // Port\n  "port": 8080, /* dev\n  only */\n}'
+    const { ast } = parse(input, { syntax: 'jsonc' })
+    const port = (ast as ObjectNode).entries[0].value
+
+    const node: FlatNode = {
+      id: '$.port',
+      depth: 1,
+      key: 'port',
+      value: port,
+      type: 'number',
+      path: '$.port',
+      hasChildren: false,
+      isExpanded: false,
+      childCount: 0,
+      indexInParent: 0,
+      isLastSibling: false,
+      displayValue: '8080',
+    }
+
+    test('shows JSONC comments after the value', () => {
+      const { container } = render(<JsonNode node={node} onToggle={mockToggle} />)
+
+      const comment = container.querySelector('.comment')
+      expect(comment?.textContent).toBe('// Port /* dev only */')
+      expect(comment?.previousElementSibling).toHaveClass('comma')
+    })
+
+    test('renders no comment without comments', () => {
+      const { container } = render(
+        <JsonNode node={{ ...node, value: 8080 }} onToggle={mockToggle} />
+      )
+
+      expect(container.querySelector('.comment')).toBeNull()
+    })
+  })
+
+  describe('Recovered errors', () => {
+    const node: FlatNode = {
+      id: '$.a',
+      depth: 1,
+      key: 'a',
+      value: [1, 2],
+      type: 'array',
+      path: '$.a',
+      hasChildren: true,
+      isExpanded: true,
+      childCount: 2,
+      indexInParent: 0,
+      isLastSibling: true,
+      displayValue: '',
+    }
+
+    test('marks the row with what tolerant mode recovered', () => {
+      const { container } = render(
+        <JsonNode
+          node={node}
+          onToggle={mockToggle}
+          annotations={[
+            {
+              message: 'Trailing comma before ]',
+              position: 12,
+              line: 1,
+              column: 13,
+              path: '$.a',
+              type: 'syntax',
+              recovery: 'Skipped trailing comma',
+            },
+          ]}
+        />
+      )
+
+      const annotation = container.querySelector('.annotation')
+      expect(annotation?.textContent).toBe('⚠ Skipped trailing comma')
+      expect(annotation).toHaveAttribute('title', 'Line 1, column 13: Trailing comma before ]')
+    })
+
+    test('renders no marker without errors', () => {
+      const { container } = render(<JsonNode node={node} onToggle={mockToggle} />)
+
+      expect(container.querySelector('.annotation')).toBeNull()
+    })
+  })
+
+  describe('Grafts', () => {
+    const input = '{"sub": "ada", "admin": true}'
+    const node: FlatNode = {
+      id: '$.token',
+      depth: 1,
+      key: 'token',
+      value: 'eyJzdWIiOiAiYWRhIiwgImFkbWluIjogdHJ1ZX0=',
+      type: 'string',
+      path: '$.token',
+      hasChildren: true,
+      isExpanded: false,
+      childCount: 2,
+      indexInParent: 0,
+      isLastSibling: true,
+      displayValue: 'eyJzdWIiOiAiYWRhIiwgImFkbWluIjogdHJ1ZX0=',
+      graft: {
+        source: 'eyJzdWIiOiAiYWRhIiwgImFkbWluIjogdHJ1ZX0=',
+        data: parse(input).ast as ObjectNode,
+        input,
+        label: 'decoded from base64',
+      },
+    }
+
+    test('shows the grafted object after the string', () => {
+      const { container } = render(
+        <JsonNode node={node} onToggle={mockToggle} onDecode={vi.fn()} />
+      )
+
+      expect(container.querySelector('.s')).toHaveTextContent('eyJzdWIi')
+      expect(container.querySelector('.oBrace')).toBeTruthy()
+      expect(container.querySelector('.size')).toHaveTextContent('// 2 items')
+      expect(container.querySelector('.graft-label')).toHaveTextContent('decoded from base64')
+      expect(container.querySelector('.decode-button')).toBeNull()
+    })
+
+    test('offers to decode the string before it is decoded', () => {
+      const onDecode = vi.fn()
+      const { getByLabelText } = render(
+        <JsonNode
+          node={{ ...node, hasChildren: false, childCount: 0, graft: undefined }}
+          onToggle={mockToggle}
+          onDecode={onDecode}
+        />
+      )
+
+      fireEvent.click(getByLabelText('Decode as JSON'))
+      expect(onDecode).toHaveBeenCalledWith('$.token')
+    })
+  })
 })
@@ -0,0 +1,104 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/preact'
+import { JsonTableView } from '../../../src/components/JsonTableView'
+import type { JsonValue } from '../../../src/lib/integration/types'
+import { parse } from '../../../src/lib/parser/parse'
+
+const data: JsonValue = [
+  { id: 2, name: 'Bob', address: { city: 'Oslo' } },
+  { id: 10, name: 'Alice' },
+  { id: 1, tags: ['x'] },
+]
+
+const columnText = (container: HTMLElement, column: number) =>
+  Array.from(container.querySelectorAll('.json-table-row:not(.json-table-header)')).map(
+    (row) => row.children[column].textContent
+  )
+
+describe('JsonTableView Component', () => {
+  it('renders one row per item and one column per key', () => {
+    render(<JsonTableView data={data} path="$.users" onOpenPath={vi.fn()} onClose={vi.fn()} />)
+
+    expect(screen.getByRole('table')).toHaveAttribute('aria-rowcount', '4')
+    expect(screen.getAllByRole('columnheader').map((el) => el.textContent)).toEqual([
+      '#',
+      'id×',
+      'name×',
+      'address×',
+      'tags×',
+    ])
+    expect(screen.getAllByRole('row')).toHaveLength(4)
+  })
+
+  it('cycles sorting through ascending, descending and off', () => {
+    const { container } = render(
+      <JsonTableView data={data} path="$" onOpenPath={vi.fn()} onClose={vi.fn()} />
+    )
+    const sortButton = screen.getByText('id')
+    const header = sortButton.closest('[role="columnheader"]')!
+
+    fireEvent.click(sortButton)
+    expect(header).toHaveAttribute('aria-sort', 'ascending')
+    expect(columnText(container, 1)).toEqual(['1', '2', '10'])
+
+    fireEvent.click(sortButton)
+    expect(header).toHaveAttribute('aria-sort', 'descending')
+    expect(columnText(container, 1)).toEqual(['10', '2', '1'])
+
+    fireEvent.click(sortButton)
+    expect(header).toHaveAttribute('aria-sort', 'none')
+    expect(columnText(container, 1)).toEqual(['2', '10', '1'])
+  })
+
+  it('hides columns and shows them again', () => {
+    render(<JsonTableView data={data} path="$" onOpenPath={vi.fn()} onClose={vi.fn()} />)
+
+    fireEvent.click(screen.getByLabelText('Hide column name'))
+    expect(screen.queryByText('name')).toBeNull()
+
+    fireEvent.click(screen.getByText('Show 1 hidden column'))
+    expect(screen.getByText('name')).toBeInTheDocument()
+  })
+
+  it('opens nested cells and rows in the tree', () => {
+    const onOpenPath = vi.fn()
+    render(<JsonTableView data={data} path="$.users" onOpenPath={onOpenPath} onClose={vi.fn()} />)
+
+    fireEvent.click(screen.getByText('{1}'))
+    expect(onOpenPath).toHaveBeenCalledWith('$.users[0].address')
+
+    fireEvent.click(screen.getByTitle('Open $.users[2] in the tree'))
+    expect(onOpenPath).toHaveBeenCalledWith('$.users[2]')
+  })
+
+  it('calls onClose from the back button', () => {
+    const onClose = vi.fn()
+    render(<JsonTableView data={data} path="$" onOpenPath={vi.fn()} onClose={onClose} />)
+
+    fireEvent.click(screen.getByText('← Tree'))
+    expect(onClose).toHaveBeenCalled()
+  })
+
+  it('renders ExactJSON arrays losslessly', () => {
+    const input = '[{"n": 12345678901234567890}, {"n": 1.0}]'
+    const { ast } = parse(input)
+    render(<JsonTableView data={ast!} input={input} path="$" onOpenPath={vi.fn()} onClose={vi.fn()} />)
+
+    expect(screen.getByText('12345678901234567890')).toBeInTheDocument()
+    expect(screen.getByText('1.0')).toBeInTheDocument()
+  })
+
+  it('virtualizes large arrays', () => {
+    const big: JsonValue = Array.from({ length: 100000 }, (_, i) => ({ id: i }))
+    const { container } = render(
+      <JsonTableView data={big} path="$" onOpenPath={vi.fn()} onClose={vi.fn()} />
+    )
+
+    expect(screen.getByRole('table')).toHaveAttribute('aria-rowcount', '100001')
+    expect(container.querySelectorAll('.json-table-row').length).toBeLessThan(100)
+  })
+})
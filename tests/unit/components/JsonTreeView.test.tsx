@@ -1,10 +1,14 @@
 // @vitest-environment jsdom
 
 import { h } from 'preact'
+import { useState } from 'preact/hooks'
 import { render, fireEvent, waitFor } from '@testing-library/preact'
-import { expect, describe, test } from 'vitest'
-import { JsonTreeView } from '../../../src/components/JsonTreeView'
+import { expect, describe, test, vi } from 'vitest'
+import { JsonTreeView, type JsonTreeViewAPI } from '../../../src/components/JsonTreeView'
 import type { JsonValue } from '../../../src/lib/integration/types'
+import { parse } from '../../../src/lib/parser/parse'
+import { findDuplicateKeys } from '../../../src/lib/parser/duplicates'
+import { applyTextEdit, type TextEdit } from '../../../src/lib/edit/patch'
 
 describe('JsonTreeView', () => {
   test('renders small JSON tree without virtualization', () => {
@@ -198,4 +202,828 @@ describe('JsonTreeView', () => {
     expect(container.textContent).toContain('level4')
     expect(container.textContent).toContain('deep')
   })
+
+  describe('Search', () => {
+    const openSearch = () => {
+      fireEvent.keyDown(document, { key: 'f', ctrlKey: true })
+    }
+
+    test('Ctrl+F opens the search bar', async () => {
+      const data: JsonValue = { a: 1 }
+      const { container } = render(<JsonTreeView data={data} />)
+
+      expect(container.querySelector('.search-bar')).toBeNull()
+      openSearch()
+
+      await waitFor(() => {
+        expect(container.querySelector('.search-bar')).toBeTruthy()
+      })
+    })
+
+    test('highlights matches and shows the match count', async () => {
+      const data: JsonValue = { name: 'Alice', nickname: 'Al' }
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} />
+      )
+
+      openSearch()
+      const input = await waitFor(
+        () => container.querySelector('.search-bar-input') as HTMLInputElement
+      )
+      fireEvent.input(input, { target: { value: 'name' } })
+
+      await waitFor(() => {
+        expect(container.querySelectorAll('mark.search-hit')).toHaveLength(2)
+        expect(container.querySelector('.search-bar-status')?.textContent).toBe(
+          '1 of 2'
+        )
+      })
+    })
+
+    test('searches once typing pauses', async () => {
+      const data: JsonValue = { name: 'Alice' }
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} />
+      )
+
+      openSearch()
+      const input = await waitFor(
+        () => container.querySelector('.search-bar-input') as HTMLInputElement
+      )
+      fireEvent.input(input, { target: { value: 'n' } })
+      fireEvent.input(input, { target: { value: 'na' } })
+
+      expect(input.value).toBe('na')
+      expect(container.querySelector('mark.search-hit')).toBeNull()
+      await waitFor(() => {
+        expect(container.querySelector('mark.search-hit')?.textContent).toBe('na')
+      })
+    })
+
+    test('reveals matches inside collapsed subtrees', async () => {
+      const data: JsonValue = { outer: { inner: { needle: 'found' } } }
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} />
+      )
+
+      expect(container.textContent).not.toContain('needle')
+
+      openSearch()
+      const input = await waitFor(
+        () => container.querySelector('.search-bar-input') as HTMLInputElement
+      )
+      fireEvent.input(input, { target: { value: 'needle' } })
+
+      await waitFor(() => {
+        expect(container.textContent).toContain('needle')
+        expect(
+          container.querySelector('[data-path="$.outer.inner.needle"]')
+        ).toHaveClass('search-active')
+      })
+    })
+
+    test('Enter and Shift+Enter cycle through matches', async () => {
+      const data: JsonValue = ['x1', 'x2', 'x3']
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} />
+      )
+
+      openSearch()
+      const input = await waitFor(
+        () => container.querySelector('.search-bar-input') as HTMLInputElement
+      )
+      fireEvent.input(input, { target: { value: 'x' } })
+
+      const status = () => container.querySelector('.search-bar-status')?.textContent
+      await waitFor(() => expect(status()).toBe('1 of 3'))
+
+      fireEvent.keyDown(input, { key: 'Enter' })
+      await waitFor(() => expect(status()).toBe('2 of 3'))
+
+      fireEvent.keyDown(input, { key: 'Enter', shiftKey: true })
+      fireEvent.keyDown(input, { key: 'Enter', shiftKey: true })
+      await waitFor(() => expect(status()).toBe('3 of 3'))
+    })
+
+    test('Escape closes the search bar and clears highlights', async () => {
+      const data: JsonValue = { a: 'abc' }
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} />
+      )
+
+      openSearch()
+      const input = await waitFor(
+        () => container.querySelector('.search-bar-input') as HTMLInputElement
+      )
+      fireEvent.input(input, { target: { value: 'abc' } })
+      await waitFor(() => {
+        expect(container.querySelector('mark.search-hit')).toBeTruthy()
+      })
+
+      fireEvent.keyDown(input, { key: 'Escape' })
+      await waitFor(() => {
+        expect(container.querySelector('.search-bar')).toBeNull()
+        expect(container.querySelector('mark.search-hit')).toBeNull()
+      })
+    })
+
+    test('finds matches in virtualized trees', async () => {
+      const data: JsonValue = Array.from({ length: 1000 }, (_, i) => ({
+        id: i === 900 ? 'target' : `item-${i}`,
+      }))
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} />
+      )
+
+      openSearch()
+      const input = await waitFor(
+        () => container.querySelector('.search-bar-input') as HTMLInputElement
+      )
+      fireEvent.input(input, { target: { value: 'target' } })
+
+      await waitFor(() => {
+        expect(container.querySelector('.search-bar-status')?.textContent).toBe(
+          '1 of 1'
+        )
+      })
+    })
+    test('filter toggle prunes the tree to matches and their ancestors', async () => {
+      const data: JsonValue = {
+        items: Array.from({ length: 200 }, (_, i) => ({
+          id: i,
+          level: i === 137 ? 'error' : 'ok',
+        })),
+      }
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} />
+      )
+
+      openSearch()
+      const input = await waitFor(
+        () => container.querySelector('.search-bar-input') as HTMLInputElement
+      )
+      fireEvent.input(input, { target: { value: 'error' } })
+      fireEvent.click(container.querySelector('.search-bar-filter')!)
+
+      await waitFor(() => {
+        expect(container.querySelector('.search-bar-filter')).toHaveAttribute(
+          'aria-pressed',
+          'true'
+        )
+        const paths = Array.from(container.querySelectorAll('[data-path]')).map(
+          (el) => el.getAttribute('data-path')
+        )
+        expect(paths).toContain('$.items[137].level')
+        expect(paths).not.toContain('$.items[0]')
+      })
+    })
+
+    test('ancestors of matches collapse and expand in filter mode', async () => {
+      const data: JsonValue = { items: [{ level: 'ok' }, { level: 'error' }] }
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} />
+      )
+
+      openSearch()
+      const input = await waitFor(
+        () => container.querySelector('.search-bar-input') as HTMLInputElement
+      )
+      fireEvent.input(input, { target: { value: 'error' } })
+      fireEvent.click(container.querySelector('.search-bar-filter')!)
+
+      const row = () => container.querySelector('[data-path="$.items[1]"]')!
+      const toggle = () => row().querySelector('.e') as HTMLElement
+      await waitFor(() => expect(row()).toHaveAttribute('aria-expanded', 'true'))
+
+      fireEvent.click(toggle())
+      await waitFor(() => {
+        expect(row()).toHaveAttribute('aria-expanded', 'false')
+        expect(container.querySelector('[data-path="$.items[1].level"]')).toBeNull()
+      })
+
+      fireEvent.click(toggle())
+      await waitFor(() => {
+        expect(container.querySelector('[data-path="$.items[1].level"]')).toBeTruthy()
+      })
+    })
+  })
+  describe('Deep links', () => {
+    test('initialPath expands, selects and renders the target node', () => {
+      const data: JsonValue = { users: [{ address: { city: 'Oslo' } }] }
+      const { container } = render(
+        <JsonTreeView
+          data={data}
+          initialExpandDepth={0}
+          initialPath="$.users[0].address"
+        />
+      )
+
+      const row = container.querySelector('[data-path="$.users[0].address"]')
+      expect(row).toHaveClass('selected')
+      expect(row).toHaveAttribute('aria-expanded', 'true')
+      expect(container.textContent).toContain('Oslo')
+    })
+
+    test('clicking a row selects it and reports the path', async () => {
+      const onSelect = vi.fn()
+      const data: JsonValue = { a: 1, b: 2 }
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} onSelect={onSelect} />
+      )
+
+      const row = container.querySelector('[data-path="$.b"]')!
+      fireEvent.click(row)
+
+      expect(onSelect).toHaveBeenCalledWith('$.b')
+      await waitFor(() => {
+        expect(container.querySelector('[data-path="$.b"]')).toHaveClass('selected')
+      })
+    })
+
+    test('scrolls to a deep-linked row in virtualized trees', () => {
+      const data: JsonValue = Array.from({ length: 1000 }, (_, i) => ({ id: i }))
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} initialPath="$[900]" />
+      )
+
+      expect(container.querySelector('[data-path="$[900]"]')).toHaveClass('selected')
+    })
+  })
+  describe('Sticky headers', () => {
+    test('pins the enclosing containers after scrolling into them', async () => {
+      const data: JsonValue = {
+        items: Array.from({ length: 1000 }, (_, i) => i),
+      }
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={2} initialPath="$.items[900]" />
+      )
+
+      await waitFor(() => {
+        const headers = container.querySelector('.sticky-headers')!
+        expect(headers).toHaveAttribute('aria-hidden', 'true')
+        const paths = Array.from(headers.querySelectorAll('[data-path]')).map((el) =>
+          el.getAttribute('data-path')
+        )
+        expect(paths).toEqual(['$', '$.items'])
+      })
+    })
+
+    test('sticky copies are not tab stops', async () => {
+      const data: JsonValue = {
+        items: Array.from({ length: 1000 }, (_, i) => i),
+      }
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={2} initialPath="$.items[900]" />
+      )
+
+      await waitFor(() => {
+        expect(container.querySelector('.sticky-headers [data-path="$"]')).not.toBeNull()
+      })
+      expect(container.querySelector('.sticky-headers [tabindex]')).toBeNull()
+    })
+
+    test('are not rendered at the top of the tree', () => {
+      const data: JsonValue = Array.from({ length: 1000 }, (_, i) => i)
+      const { container } = render(<JsonTreeView data={data} initialExpandDepth={1} />)
+
+      expect(container.querySelector('.sticky-headers')).toBeNull()
+    })
+  })
+  describe('Keyboard navigation', () => {
+    const row = (container: HTMLElement, path: string) =>
+      Array.from(container.querySelectorAll<HTMLElement>('[role="treeitem"]')).find(
+        (el) => el.dataset.path === path
+      )!
+
+    test('uses a roving tabindex with the first row as tab stop', () => {
+      const data: JsonValue = { a: 1, b: 2 }
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} />
+      )
+
+      expect(row(container, '$').tabIndex).toBe(0)
+      expect(row(container, '$.a').tabIndex).toBe(-1)
+      expect(row(container, '$.b').tabIndex).toBe(-1)
+    })
+
+    test('ArrowDown and ArrowUp move focus between rows', async () => {
+      const data: JsonValue = { a: 1, b: 2 }
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} />
+      )
+
+      row(container, '$').focus()
+      fireEvent.keyDown(row(container, '$'), { key: 'ArrowDown' })
+      await waitFor(() => {
+        expect(document.activeElement).toBe(row(container, '$.a'))
+        expect(row(container, '$.a').tabIndex).toBe(0)
+        expect(row(container, '$').tabIndex).toBe(-1)
+      })
+
+      fireEvent.keyDown(row(container, '$.a'), { key: 'ArrowUp' })
+      await waitFor(() => expect(document.activeElement).toBe(row(container, '$')))
+    })
+
+    test('ArrowRight expands and ArrowLeft collapses', async () => {
+      const data: JsonValue = { obj: { inner: true } }
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} />
+      )
+
+      fireEvent.keyDown(row(container, '$'), { key: 'ArrowDown' })
+      await waitFor(() => expect(row(container, '$.obj').tabIndex).toBe(0))
+
+      fireEvent.keyDown(row(container, '$.obj'), { key: 'ArrowRight' })
+      await waitFor(() => {
+        expect(row(container, '$.obj')).toHaveAttribute('aria-expanded', 'true')
+      })
+
+      fireEvent.keyDown(row(container, '$.obj'), { key: 'ArrowLeft' })
+      await waitFor(() => {
+        expect(row(container, '$.obj')).toHaveAttribute('aria-expanded', 'false')
+      })
+    })
+
+    test('* expands all siblings', async () => {
+      const data: JsonValue = { a: { x: 1 }, b: { y: 2 } }
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} />
+      )
+
+      fireEvent.keyDown(row(container, '$'), { key: 'ArrowDown' })
+      await waitFor(() => expect(row(container, '$.a').tabIndex).toBe(0))
+      fireEvent.keyDown(row(container, '$.a'), { key: '*' })
+
+      await waitFor(() => {
+        expect(row(container, '$.a')).toHaveAttribute('aria-expanded', 'true')
+        expect(row(container, '$.b')).toHaveAttribute('aria-expanded', 'true')
+      })
+    })
+
+    test('End focuses the last row in virtualized trees', async () => {
+      const data: JsonValue = Array.from({ length: 1000 }, (_, i) => i)
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} />
+      )
+
+      fireEvent.keyDown(row(container, '$'), { key: 'End' })
+
+      await waitFor(() => {
+        expect(document.activeElement?.getAttribute('data-path')).toBe('$[999]')
+      })
+    })
+
+    test('keys typed in the search bar are not handled by the tree', async () => {
+      const data: JsonValue = { a: 1, b: 2 }
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} />
+      )
+
+      fireEvent.keyDown(document, { key: 'f', ctrlKey: true })
+      const input = await waitFor(
+        () => container.querySelector('.search-bar-input') as HTMLInputElement
+      )
+      fireEvent.keyDown(input, { key: 'End' })
+
+      expect(row(container, '$').tabIndex).toBe(0)
+    })
+  })
+  describe('Copy menu', () => {
+    test('right-click opens the menu and copies the JSON Pointer', async () => {
+      const writeText = vi.fn().mockResolvedValue(undefined)
+      Object.assign(navigator, { clipboard: { writeText } })
+
+      const data: JsonValue = { 'a/b': { c: 1 } }
+      const { container, getByText } = render(
+        <JsonTreeView data={data} initialExpandDepth={2} />
+      )
+
+      const row = Array.from(container.querySelectorAll<HTMLElement>('[data-path]')).find(
+        (el) => el.dataset.path === "$['a/b']"
+      )!
+      fireEvent.contextMenu(row, { clientX: 50, clientY: 60 })
+
+      await waitFor(() => expect(container.querySelector('.copy-menu')).toBeTruthy())
+      fireEvent.click(getByText('Copy JSON Pointer'))
+
+      expect(writeText).toHaveBeenCalledWith('/a~1b')
+      await waitFor(() => expect(container.querySelector('.copy-menu')).toBeNull())
+    })
+
+    test('copies lossless subtrees from the ExactJSON source', async () => {
+      const writeText = vi.fn().mockResolvedValue(undefined)
+      Object.assign(navigator, { clipboard: { writeText } })
+
+      const input = '{"big": {"n": 12345678901234567890}}'
+      const { ast } = parse(input)
+      const { container, getByText } = render(
+        <JsonTreeView data={ast} input={input} initialExpandDepth={1} />
+      )
+
+      const button = container.querySelector('[data-path="$.big"] .copy-button')!
+      fireEvent.click(button)
+      await waitFor(() => expect(container.querySelector('.copy-menu')).toBeTruthy())
+      fireEvent.click(getByText('Copy subtree (minified)'))
+
+      expect(writeText).toHaveBeenCalledWith('{"n":12345678901234567890}')
+    })
+  })
+  describe('Table view', () => {
+    const data: JsonValue = {
+      users: [
+        { id: 1, name: 'Ann', address: { city: 'Oslo' } },
+        { id: 2, name: 'Ben' },
+      ],
+      tags: ['a', 'b'],
+    }
+
+    test('offers the table button only for arrays of objects', () => {
+      const { container } = render(<JsonTreeView data={data} initialExpandDepth={1} />)
+
+      expect(container.querySelector('[data-path="$.users"] .table-button')).not.toBeNull()
+      expect(container.querySelector('[data-path="$.tags"] .table-button')).toBeNull()
+    })
+
+    test('opens the table and returns to the array row', async () => {
+      const { container, getByText } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} />
+      )
+
+      fireEvent.click(container.querySelector('[data-path="$.users"] .table-button')!)
+      await waitFor(() => expect(container.querySelector('[role="table"]')).not.toBeNull())
+
+      fireEvent.click(getByText('← Tree'))
+      await waitFor(() => {
+        expect(container.querySelector('[data-path="$.users"]')).toHaveClass('selected')
+      })
+    })
+
+    test('nested cells open back into the tree', async () => {
+      const onSelect = vi.fn()
+      const { container, getByText } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} onSelect={onSelect} />
+      )
+
+      fireEvent.click(container.querySelector('[data-path="$.users"] .table-button')!)
+      await waitFor(() => expect(getByText('{1}')).toBeTruthy())
+      fireEvent.click(getByText('{1}'))
+
+      expect(onSelect).toHaveBeenCalledWith('$.users[0].address')
+      await waitFor(() => {
+        expect(container.querySelector('[data-path="$.users[0].address"]')).toHaveClass(
+          'selected'
+        )
+      })
+    })
+  })
+  describe('Inline editing', () => {
+    // Renders an editable tree that applies each edit like the content script
+    function EditableTree({
+      initial,
+      onChange,
+    }: {
+      initial: string
+      onChange?: (text: string) => void
+    }) {
+      const [text, setText] = useState(initial)
+      const handleEdit = (edit: TextEdit) => {
+        const next = applyTextEdit(text, edit)
+        setText(next)
+        onChange?.(next)
+      }
+      return (
+        <JsonTreeView
+          data={parse(text).ast}
+          input={text}
+          initialExpandDepth={2}
+          onEdit={handleEdit}
+        />
+      )
+    }
+
+    const editor = (container: Element) =>
+      container.querySelector('.inline-editor') as HTMLInputElement
+    const row = (container: Element, path: string) =>
+      container.querySelector(`[data-path="${path}"]`) as HTMLElement
+
+    test('double-clicking a value edits it in place, keeping other bytes', async () => {
+      const onChange = vi.fn()
+      const input = '{\n  "big": 12345678901234567890,\n  "name": "x"\n}'
+      const { container } = render(<EditableTree initial={input} onChange={onChange} />)
+
+      fireEvent.dblClick(container.querySelector('[data-path="$.name"] .s')!)
+      expect(editor(container).value).toBe('"x"')
+
+      fireEvent.input(editor(container), { target: { value: '"y"' } })
+      fireEvent.keyDown(editor(container), { key: 'Enter' })
+
+      expect(onChange).toHaveBeenCalledWith(
+        '{\n  "big": 12345678901234567890,\n  "name": "y"\n}'
+      )
+      await waitFor(() => expect(editor(container)).toBeNull())
+    })
+
+    test('invalid values keep the editor open with an error', () => {
+      const onChange = vi.fn()
+      const { container } = render(<EditableTree initial='{"a": 1}' onChange={onChange} />)
+
+      fireEvent.dblClick(container.querySelector('[data-path="$.a"] .n')!)
+      fireEvent.input(editor(container), { target: { value: 'oops' } })
+      fireEvent.keyDown(editor(container), { key: 'Enter' })
+
+      expect(onChange).not.toHaveBeenCalled()
+      expect(editor(container)).toHaveAttribute('aria-invalid', 'true')
+    })
+
+    test('Escape cancels the edit', async () => {
+      const onChange = vi.fn()
+      const { container } = render(<EditableTree initial='{"a": 1}' onChange={onChange} />)
+
+      fireEvent.dblClick(container.querySelector('[data-path="$.a"] .k')!)
+      fireEvent.keyDown(editor(container), { key: 'Escape' })
+
+      await waitFor(() => expect(editor(container)).toBeNull())
+      expect(onChange).not.toHaveBeenCalled()
+    })
+
+    test('renaming a key moves focus to the renamed row', async () => {
+      const { container } = render(<EditableTree initial='{"a": 1}' />)
+
+      fireEvent.dblClick(container.querySelector('[data-path="$.a"] .k')!)
+      fireEvent.input(editor(container), { target: { value: 'b' } })
+      fireEvent.keyDown(editor(container), { key: 'Enter' })
+
+      await waitFor(() => {
+        expect(document.activeElement?.getAttribute('data-path')).toBe('$.b')
+      })
+    })
+
+    test('keyboard shortcuts remove and reorder items', async () => {
+      const onChange = vi.fn()
+      const { container } = render(<EditableTree initial="[1, 2, 3]" onChange={onChange} />)
+
+      fireEvent.click(row(container, '$[2]'))
+      await waitFor(() => expect(row(container, '$[2]').tabIndex).toBe(0))
+      fireEvent.keyDown(row(container, '$[2]'), {
+        key: 'ArrowUp',
+        altKey: true,
+      })
+      expect(onChange).toHaveBeenLastCalledWith('[1, 3, 2]')
+
+      await waitFor(() => expect(row(container, '$[1]').tabIndex).toBe(0))
+      fireEvent.keyDown(row(container, '$[1]'), { key: 'Delete' })
+      expect(onChange).toHaveBeenLastCalledWith('[1, 2]')
+    })
+
+    test('the context menu adds an entry and opens its key editor', async () => {
+      const onChange = vi.fn()
+      const { container, getByText } = render(
+        <EditableTree initial='{"o": {"key": 1}}' onChange={onChange} />
+      )
+
+      fireEvent.contextMenu(container.querySelector('[data-path="$.o"]')!, {
+        clientX: 10,
+        clientY: 10,
+      })
+      fireEvent.click(getByText('Add entry'))
+
+      expect(onChange).toHaveBeenCalledWith('{"o": {"key": 1, "key2": null}}')
+      await waitFor(() => expect(editor(container).value).toBe('key2'))
+    })
+
+    test('edits the occurrence of a duplicate key that was double-clicked', () => {
+      const onChange = vi.fn()
+      const { container } = render(
+        <EditableTree initial='{"a": 1, "a": 2}' onChange={onChange} />
+      )
+
+      const values = container.querySelectorAll('[data-path="$.a"] .n')
+      fireEvent.dblClick(values[1])
+      expect(editor(container).value).toBe('2')
+
+      fireEvent.input(editor(container), { target: { value: '20' } })
+      fireEvent.keyDown(editor(container), { key: 'Enter' })
+      expect(onChange).toHaveBeenCalledWith('{"a": 1, "a": 20}')
+    })
+
+    test('read-only trees have no edit actions', () => {
+      const { container, queryByText } = render(
+        <JsonTreeView data={{ a: 1 }} initialExpandDepth={1} onEdit={vi.fn()} />
+      )
+
+      fireEvent.dblClick(container.querySelector('[data-path="$.a"] .n')!)
+      expect(editor(container)).toBeNull()
+
+      fireEvent.contextMenu(container.querySelector('[data-path="$.a"]')!, {
+        clientX: 10,
+        clientY: 10,
+      })
+      expect(queryByText('Edit value')).toBeNull()
+    })
+  })
+  describe('Breadcrumb integration', () => {
+    test('reports the active row path', async () => {
+      const onActivePathChange = vi.fn()
+      const data: JsonValue = { a: { b: 1 } }
+      const { container } = render(
+        <JsonTreeView
+          data={data}
+          initialExpandDepth={2}
+          onActivePathChange={onActivePathChange}
+        />
+      )
+
+      expect(onActivePathChange).toHaveBeenLastCalledWith('$')
+      fireEvent.click(container.querySelector('[data-path="$.a.b"]')!)
+      await waitFor(() => expect(onActivePathChange).toHaveBeenLastCalledWith('$.a.b'))
+    })
+
+    test('apiRef.navigateTo reveals and selects an ancestor', async () => {
+      const apiRef: { current: JsonTreeViewAPI | null } = { current: null }
+      const onSelect = vi.fn()
+      const data: JsonValue = { a: { b: { c: 1 } } }
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={0} apiRef={apiRef} onSelect={onSelect} />
+      )
+
+      apiRef.current!.navigateTo('$.a.b')
+
+      await waitFor(() => {
+        const row = container.querySelector('[data-path="$.a.b"]')
+        expect(row).toHaveClass('selected')
+        expect(document.activeElement).toBe(row)
+      })
+      expect(onSelect).toHaveBeenCalledWith('$.a.b')
+    })
+  })
+
+  describe('Recovered errors', () => {
+    test('marks each error on the row at its path', () => {
+      const input = '{"a": [1, 2,], "b": , "c": 3}'
+      const { ast, errors } = parse(input, { tolerant: true })
+      const { container } = render(
+        <JsonTreeView data={ast} input={input} initialExpandDepth={2} annotations={errors} />
+      )
+
+      const marked = Array.from(container.querySelectorAll('.annotation'), (annotation) => [
+        annotation.closest<HTMLElement>('[data-path]')!.dataset.path,
+        annotation.textContent,
+      ])
+      expect(marked).toEqual([
+        ['$.a', '⚠ Skipped trailing comma'],
+        ['$.b', '⚠ Inserted null for missing value'],
+      ])
+    })
+
+    test('marks each occurrence of a duplicate key with its own error', () => {
+      const input = '{"id": 1, "name": "x", "id": 2}'
+      const { ast } = parse(input)
+      const { container } = render(
+        <JsonTreeView
+          data={ast}
+          input={input}
+          initialExpandDepth={1}
+          annotations={findDuplicateKeys(ast, input)}
+        />
+      )
+
+      const rows = container.querySelectorAll('[data-path="$.id"]')
+      expect(rows).toHaveLength(2)
+      expect(rows[0].querySelector('.annotation')).toHaveTextContent(
+        '⚠ Duplicate key "id": JSON.parse uses a later value'
+      )
+      expect(rows[1].querySelector('.annotation')).toHaveTextContent(
+        '⚠ Duplicate key "id": JSON.parse uses this value'
+      )
+      expect(rows[1]).toHaveTextContent('2')
+    })
+  })
+
+  describe('Decoding strings', () => {
+    const payload = btoa('{"id": 7, "tags": ["a"]}')
+
+    test('offers to decode strings that look like encoded JSON', () => {
+      const data: JsonValue = { payload, name: 'plain text that is not encoded' }
+      const { container } = render(<JsonTreeView data={data} initialExpandDepth={1} />)
+
+      expect(container.querySelector('[data-path="$.payload"] .decode-button')).not.toBeNull()
+      expect(container.querySelector('[data-path="$.name"] .decode-button')).toBeNull()
+    })
+
+    test('grafts the decoded JSON under the string, read-only', async () => {
+      const input = JSON.stringify({ payload })
+      const { ast } = parse(input)
+      const { container, getByLabelText } = render(
+        <JsonTreeView data={ast} input={input} initialExpandDepth={1} onEdit={vi.fn()} />
+      )
+
+      fireEvent.click(getByLabelText('Decode as JSON'))
+      await waitFor(() => {
+        expect(container.querySelector('[data-path="$.payload.id"]')).toHaveTextContent('7')
+      })
+
+      const row = container.querySelector('[data-path="$.payload"]')!
+      expect(row).toHaveAttribute('aria-expanded', 'true')
+      expect(row.querySelector('.graft-label')).toHaveTextContent('decoded from base64')
+      expect(row.querySelector('.decode-button')).toBeNull()
+
+      fireEvent.dblClick(container.querySelector('[data-path="$.payload.id"] .n')!)
+      expect(container.querySelector('.inline-editor')).toBeNull()
+
+      // Collapsing hides the grafted rows
+      fireEvent.click(row.querySelector('.e')!)
+      await waitFor(() => {
+        expect(container.querySelector('[data-path="$.payload.id"]')).toBeNull()
+      })
+    })
+
+    test('explains why a string could not be decoded', async () => {
+      const data: JsonValue = { payload: btoa('{"id": oops, "tags": []}') }
+      const { container, getByLabelText } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} />
+      )
+
+      fireEvent.click(getByLabelText('Decode as JSON'))
+      await waitFor(() => {
+        const alert = container.querySelector('[data-path="$.payload"] [role="alert"]')
+        expect(alert).toHaveTextContent(/^⚠ The decoded text is not valid JSON/)
+      })
+    })
+  })
+
+  describe('Embedded JSON', () => {
+    const data: JsonValue = {
+      payload: '{"id": 7, "user": "{\\"name\\": \\"Ada\\"}"}',
+      note: 'not JSON',
+    }
+
+    test('expands strings holding JSON into a read-only tree', async () => {
+      const { container } = render(<JsonTreeView data={data} initialExpandDepth={1} />)
+
+      const row = container.querySelector('[data-path="$.payload"]')!
+      expect(row).toHaveAttribute('aria-expanded', 'false')
+      expect(row.querySelector('.graft-label')).toHaveTextContent('parsed from string')
+      expect(container.querySelector('[data-path="$.note"]')).not.toHaveAttribute('aria-expanded')
+
+      fireEvent.click(row.querySelector('.e')!)
+      await waitFor(() => {
+        expect(container.querySelector('[data-path="$.payload.id"]')).toHaveTextContent('7')
+      })
+
+      // Strings inside are expandable too
+      fireEvent.click(container.querySelector('[data-path="$.payload.user"] .e')!)
+      await waitFor(() => {
+        expect(container.querySelector('[data-path="$.payload.user.name"]')).toHaveTextContent(
+          'Ada'
+        )
+      })
+    })
+
+    test('search finds and reveals matches inside embedded JSON', async () => {
+      const { container, getByLabelText } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} />
+      )
+
+      fireEvent.keyDown(document, { key: 'f', ctrlKey: true })
+      const search = await waitFor(() => getByLabelText('Find in JSON'))
+      fireEvent.input(search, { target: { value: 'Ada' } })
+
+      // The strings holding it match too
+      await waitFor(() => {
+        expect(container.querySelector('.search-bar-status')).toHaveTextContent('1 of 3')
+      })
+      fireEvent.click(getByLabelText('Previous match'))
+      await waitFor(() => {
+        expect(container.querySelector('[data-path="$.payload.user.name"]')).toHaveClass(
+          'search-active'
+        )
+      })
+    })
+
+    test('rows parsed from a string copy their value but not their path', async () => {
+      const writeText = vi.fn().mockResolvedValue(undefined)
+      Object.assign(navigator, { clipboard: { writeText } })
+      const { container, getByText } = render(<JsonTreeView data={data} initialExpandDepth={1} />)
+
+      fireEvent.click(container.querySelector('[data-path="$.payload"] .e')!)
+      const row = await waitFor(() => container.querySelector('[data-path="$.payload.id"]')!)
+      fireEvent.contextMenu(row, { clientX: 50, clientY: 60 })
+
+      await waitFor(() => expect(container.querySelector('.copy-menu')).toBeTruthy())
+      expect(getByText('Copy path')).toBeDisabled()
+      expect(getByText('Copy JSON Pointer')).toBeDisabled()
+      fireEvent.click(getByText('Copy value'))
+      expect(writeText).toHaveBeenCalledWith('7')
+    })
+
+    test('can be turned off', () => {
+      const { container } = render(
+        <JsonTreeView data={data} initialExpandDepth={1} embeddedJson={false} />
+      )
+
+      expect(container.querySelector('[data-path="$.payload"]')).not.toHaveAttribute(
+        'aria-expanded'
+      )
+    })
+  })
 })
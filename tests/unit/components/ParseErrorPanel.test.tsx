@@ -0,0 +1,76 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/preact'
+import { ParseErrorPanel } from '../../../src/components/ParseErrorPanel'
+import type { ParseDiagnosis } from '../../../src/lib/parser/diagnose'
+
+const diagnosis: ParseDiagnosis = {
+  message: 'Expected comma or }, got string',
+  position: 12,
+  line: 2,
+  column: 10,
+  path: '$.user',
+  frame: [
+    { line: 1, text: '{"user": {' },
+    { line: 2, text: '  "a": 1 "b": 2', caret: 10 },
+  ],
+  suggestions: [
+    { kind: 'missing-comma', message: 'Add a comma between the previous value and this one' },
+  ],
+}
+
+describe('ParseErrorPanel Component', () => {
+  it('shows the message, location and path', () => {
+    render(<ParseErrorPanel diagnosis={diagnosis} />)
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Expected comma or }, got string')
+    expect(screen.getByText(/Line 2, column 10/)).toBeInTheDocument()
+    expect(screen.getByText('$.user')).toBeInTheDocument()
+  })
+
+  it('points a caret at the offending character', () => {
+    const { container } = render(<ParseErrorPanel diagnosis={diagnosis} />)
+    const frame = container.querySelector('.parse-error-frame')!.textContent!.split('\n')
+
+    expect(frame[1]).toBe('2 |   "a": 1 "b": 2')
+    expect(frame[2].indexOf('^')).toBe(frame[1].indexOf('"b"'))
+  })
+
+  it('lists suggested fixes', () => {
+    render(<ParseErrorPanel diagnosis={diagnosis} />)
+
+    expect(screen.getByRole('listitem')).toHaveTextContent('Add a comma')
+  })
+
+  it('leaves out location and frame when the position is unknown', () => {
+    const { container } = render(
+      <ParseErrorPanel diagnosis={{ ...diagnosis, line: null, column: null, frame: [] }} />
+    )
+
+    expect(container.querySelector('.parse-error-location')).toBeNull()
+    expect(container.querySelector('.parse-error-frame')).toBeNull()
+  })
+
+  it('offers tolerant mode and the raw text', () => {
+    const onOpenTolerant = vi.fn()
+    const onShowRaw = vi.fn()
+    render(
+      <ParseErrorPanel diagnosis={diagnosis} onOpenTolerant={onOpenTolerant} onShowRaw={onShowRaw} />
+    )
+
+    fireEvent.click(screen.getByRole('button', { name: 'Open in tolerant mode' }))
+    fireEvent.click(screen.getByRole('button', { name: 'Show raw text' }))
+
+    expect(onOpenTolerant).toHaveBeenCalledOnce()
+    expect(onShowRaw).toHaveBeenCalledOnce()
+  })
+
+  it('hides tolerant mode without a handler', () => {
+    render(<ParseErrorPanel diagnosis={diagnosis} />)
+
+    expect(screen.queryByRole('button', { name: 'Open in tolerant mode' })).toBeNull()
+  })
+})
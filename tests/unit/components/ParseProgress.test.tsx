@@ -0,0 +1,55 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/preact'
+import { h } from 'preact'
+import { ParseProgress } from '../../../src/components/ParseProgress'
+import { Breadcrumbs } from '../../../src/components/Breadcrumbs'
+import { renderToolbar } from '../../../src/lib/renderUI'
+import { Toolbar } from '../../../src/components/Toolbar'
+import { Toggle } from '../../../src/components/Toggle'
+import { ParserIcon } from '../../../src/components/ParserIcon'
+
+describe('ParseProgress Component', () => {
+  it('is indeterminate until the parser reports', () => {
+    render(<ParseProgress loaded={0} total={1000} onCancel={vi.fn()} />)
+
+    expect(screen.getByRole('status')).toHaveTextContent('Parsing…')
+    expect(screen.getByLabelText('Parsing progress')).not.toHaveAttribute('value')
+  })
+
+  it('shows the share parsed so far', () => {
+    render(<ParseProgress loaded={425} total={1000} onCancel={vi.fn()} />)
+
+    expect(screen.getByRole('status')).toHaveTextContent('Parsing… 42%')
+    expect(screen.getByLabelText('Parsing progress')).toHaveAttribute('value', '425')
+  })
+
+  it('cancels', () => {
+    const onCancel = vi.fn()
+    render(<ParseProgress loaded={0} total={1000} onCancel={onCancel} />)
+
+    fireEvent.click(screen.getByText('Cancel'))
+    expect(onCancel).toHaveBeenCalled()
+  })
+
+  it('replaces the breadcrumbs in the toolbar while parsing', () => {
+    const { container } = render(
+      renderToolbar(h, Toolbar, Toggle, ParserIcon, {
+        h,
+        iconUrl: 'icon.png',
+        isFormatted: true,
+        onFormatToggle: vi.fn(),
+        Breadcrumbs,
+        onBreadcrumbNavigate: vi.fn(),
+        ParseProgress,
+        parseProgress: { loaded: 0, total: 10, onCancel: vi.fn() },
+      })
+    )
+
+    expect(container.querySelector('.toolbar-center .parse-progress')).toBeInTheDocument()
+    expect(container.querySelector('.breadcrumbs')).toBeNull()
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/preact'
+import { h } from 'preact'
+import { ParseWarnings } from '../../../src/components/ParseWarnings'
+import { renderToolbar } from '../../../src/lib/renderUI'
+import { Toolbar } from '../../../src/components/Toolbar'
+import { Toggle } from '../../../src/components/Toggle'
+import { ParserIcon } from '../../../src/components/ParserIcon'
+import { parse } from '../../../src/lib/parser/parse'
+
+describe('ParseWarnings Component', () => {
+  const { errors } = parse('{\n  "a": [1, 2,],\n  "b": 1\n  "c": 2\n}', { tolerant: true })
+
+  it('shows the number of errors', () => {
+    render(<ParseWarnings errors={errors!} onNavigate={vi.fn()} />)
+
+    const badge = screen.getByRole('button', { name: '2 parse warnings' })
+    expect(badge).toHaveTextContent('⚠ 2')
+    expect(badge).toHaveAttribute('aria-expanded', 'false')
+  })
+
+  it('lists the errors with their location and recovery', () => {
+    render(<ParseWarnings errors={errors!} onNavigate={vi.fn()} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /parse warnings/ }))
+
+    const items = screen.getAllByRole('listitem')
+    expect(items).toHaveLength(2)
+    expect(items[0]).toHaveTextContent('Line 2, column 13')
+    expect(items[0]).toHaveTextContent('Trailing comma before ]')
+    expect(items[0]).toHaveTextContent('Skipped trailing comma')
+    expect(items[1]).toHaveTextContent('Assumed missing comma')
+  })
+
+  it('navigates to the path of the chosen error and closes', () => {
+    const onNavigate = vi.fn()
+    render(<ParseWarnings errors={errors!} onNavigate={onNavigate} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /parse warnings/ }))
+    fireEvent.click(screen.getByText('Trailing comma before ]'))
+
+    expect(onNavigate).toHaveBeenCalledWith('$.a')
+    expect(screen.queryByRole('list')).toBeNull()
+  })
+
+  it('closes on Escape', () => {
+    render(<ParseWarnings errors={errors!} onNavigate={vi.fn()} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /parse warnings/ }))
+    fireEvent.keyDown(screen.getByRole('list'), { key: 'Escape' })
+
+    expect(screen.queryByRole('list')).toBeNull()
+  })
+
+  it('is shown in the toolbar when given', () => {
+    const { container } = render(
+      renderToolbar(h, Toolbar, Toggle, ParserIcon, {
+        h,
+        iconUrl: 'icon.png',
+        isFormatted: true,
+        onFormatToggle: vi.fn(),
+        ParseWarnings,
+        parseWarnings: { errors: errors!, onNavigate: vi.fn() },
+      })
+    )
+
+    expect(container.querySelector('.toolbar-right .parse-warnings')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { render, fireEvent } from '@testing-library/preact'
+import { SourceView } from '../../../src/components/SourceView'
+import { LineIndex } from '../../../src/lib/parser/line-index'
+
+const input = '{\n  "name": "Ann",\n  "tags": []\n}'
+
+const numbers = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll('.source-number')).map((n) => n.textContent)
+
+const code = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll('.source-code')).map((n) => n.textContent)
+
+describe('SourceView Component', () => {
+  it('shows each line with its number', () => {
+    const { container } = render(<SourceView lines={new LineIndex(input)} />)
+
+    expect(numbers(container)).toEqual(['1', '2', '3', '4'])
+    expect(code(container)).toEqual(['{', '  "name": "Ann",', '  "tags": []', '}'])
+  })
+
+  it('continues long lines on the next rows', () => {
+    const { container } = render(
+      <SourceView lines={new LineIndex('[1,2,3,4,5]\n{}')} wrapColumn={4} />
+    )
+
+    expect(numbers(container)).toEqual(['1', '', '', '2'])
+    expect(code(container)).toEqual(['[1,2', ',3,4', ',5]', '{}'])
+  })
+
+  it('highlights a source range', () => {
+    const start = input.indexOf('"name"')
+    const { container } = render(
+      <SourceView lines={new LineIndex(input)} highlight={{ start, end: start + 13 }} />
+    )
+
+    expect(container.querySelectorAll('.source-highlighted')).toHaveLength(1)
+    expect(container.querySelector('mark')!.textContent).toBe('"name": "Ann"')
+  })
+
+  it('highlights every line of a multi-line range', () => {
+    const { container } = render(
+      <SourceView lines={new LineIndex(input)} highlight={{ start: 0, end: input.length }} />
+    )
+
+    expect(container.querySelectorAll('.source-highlighted')).toHaveLength(4)
+  })
+
+  it('reports the first non-blank character of a clicked line', () => {
+    const onOffsetClick = vi.fn()
+    const { container } = render(
+      <SourceView lines={new LineIndex(input)} onOffsetClick={onOffsetClick} />
+    )
+
+    fireEvent.click(container.querySelectorAll('.source-row')[2])
+
+    expect(onOffsetClick).toHaveBeenCalledWith(input.indexOf('"tags"'))
+  })
+
+  it('virtualizes long documents', () => {
+    const long = Array.from({ length: 5000 }, (_, i) => String(i)).join('\n')
+    const { container } = render(<SourceView lines={new LineIndex(long)} />)
+
+    expect(container.querySelectorAll('.source-row').length).toBeLessThan(200)
+  })
+})
@@ -2,10 +2,13 @@
  * @vitest-environment jsdom
  */
 
-import { describe, it, expect } from 'vitest'
+import { describe, it, expect, vi } from 'vitest'
 import { render } from '@testing-library/preact'
 import { h } from 'preact'
 import { Toolbar } from '../../../src/components/Toolbar'
+import { Toggle } from '../../../src/components/Toggle'
+import { ParserIcon } from '../../../src/components/ParserIcon'
+import { renderToolbar } from '../../../src/lib/renderUI'
 
 describe('Toolbar Component', () => {
   it('renders with default sticky positioning', () => {
@@ -67,4 +70,33 @@ describe('Toolbar Component', () => {
     expect(container.querySelector('.toolbar-center')).toBeInTheDocument()
     expect(container.querySelector('.toolbar-right')).toBeInTheDocument()
   })
+
+  it('shows a note after the title', () => {
+    const options = { h, iconUrl: 'icon.png', isFormatted: true, onFormatToggle: vi.fn() }
+    const { container, rerender } = render(
+      renderToolbar(h, Toolbar, Toggle, ParserIcon, { ...options, note: 'JSONP: callback' })
+    )
+
+    expect(container.querySelector('.toolbar-left .toolbar-note')).toHaveTextContent(
+      'JSONP: callback'
+    )
+
+    rerender(renderToolbar(h, Toolbar, Toggle, ParserIcon, options))
+    expect(container.querySelector('.toolbar-note')).toBeNull()
+  })
+
+  it('shows the host page\'s actions first on the right', () => {
+    const { container } = render(
+      renderToolbar(h, Toolbar, Toggle, ParserIcon, {
+        h,
+        iconUrl: 'icon.png',
+        isFormatted: true,
+        onFormatToggle: vi.fn(),
+        actions: <button type="button">Open file…</button>,
+      })
+    )
+
+    const right = container.querySelector('.toolbar-right > div')!
+    expect(right.firstElementChild).toHaveTextContent('Open file…')
+  })
 })
@@ -0,0 +1,126 @@
+/**
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect } from 'vitest'
+import { render, screen, fireEvent } from '@testing-library/preact'
+import { ViewerApp } from '../../../src/components/viewer/ViewerApp'
+import type { ViewerDocument } from '../../../src/lib/viewer'
+
+const loading = (document: ViewerDocument | null) => () => Promise.resolve(document)
+
+// JSDOM's File has no arrayBuffer()
+File.prototype.arrayBuffer ??= function (this: File) {
+  return new Promise((resolve) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.readAsArrayBuffer(this)
+  })
+}
+
+describe('ViewerApp Component', () => {
+  it('shows the selected text as a tree', async () => {
+    render(<ViewerApp load={loading({ text: 'got {"name": "Ada"}', source: 'selection' })} />)
+
+    expect(await screen.findByText('Selection')).toBeInTheDocument()
+    expect(screen.getByRole('tree')).toHaveTextContent('Ada')
+  })
+
+  it('notes tolerant parses and lists their warnings', async () => {
+    render(<ViewerApp load={loading({ text: "{a: 1 b: 2}", source: 'clipboard' })} />)
+
+    expect(await screen.findByText('Clipboard · JSON5 syntax, tolerant mode')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: /1 parse warning/ })).toBeInTheDocument()
+  })
+
+  it('shows where an unparseable snippet fails', async () => {
+    render(<ViewerApp load={loading({ text: '{"a": }}}', source: 'selection' })} />)
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('This document is not valid JSON')
+  })
+
+  it('asks for text without a document, and formats what is pasted', async () => {
+    render(<ViewerApp load={loading(null)} />)
+
+    const input = await screen.findByLabelText('Paste JSON, or text containing JSON')
+    fireEvent.input(input, { target: { value: '[1, 2]' } })
+    fireEvent.click(screen.getByRole('button', { name: 'Format' }))
+
+    expect(await screen.findByText('Pasted text')).toBeInTheDocument()
+    expect(screen.getByRole('tree')).toBeInTheDocument()
+  })
+
+  it('goes back to the text to edit it', async () => {
+    render(<ViewerApp load={loading({ text: '[1]', source: 'selection' })} />)
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Edit text' }))
+
+    expect(screen.getByLabelText('Paste JSON, or text containing JSON')).toHaveValue('[1]')
+  })
+
+  it('opens a file from the toolbar', async () => {
+    const { container } = render(<ViewerApp load={loading(null)} />)
+    await screen.findByRole('button', { name: 'Open file…' })
+
+    const input = container.querySelector<HTMLInputElement>('input[type="file"]')!
+    const file = new File(['{"from": "file"}'], 'data.json', { type: 'application/json' })
+    Object.defineProperty(input, 'files', { value: [file] })
+    input.dispatchEvent(new Event('change', { bubbles: true }))
+
+    expect(await screen.findByText('data.json')).toBeInTheDocument()
+    expect(screen.getByRole('tree')).toHaveTextContent('file')
+  })
+
+  it('shows JSON Lines files record by record', async () => {
+    render(
+      <ViewerApp
+        load={loading({ text: '{"a":1}\n{"a":2}\n', source: 'file', name: 'x.jsonl', format: 'ndjson' })}
+      />
+    )
+
+    expect(await screen.findByText('x.jsonl')).toBeInTheDocument()
+    expect(screen.getByRole('tree')).toHaveTextContent(/1.*2/)
+  })
+
+  it('formats text pasted on the page', async () => {
+    render(<ViewerApp load={loading({ text: '[1]', source: 'selection' })} />)
+    await screen.findByText('Selection')
+
+    const paste = new Event('paste', { bubbles: true }) as ClipboardEvent
+    Object.defineProperty(paste, 'clipboardData', {
+      value: { getData: () => '{"pasted": true}' },
+    })
+    fireEvent(document.body, paste)
+
+    expect(await screen.findByText('Pasted text')).toBeInTheDocument()
+    expect(screen.getByRole('tree')).toHaveTextContent('pasted')
+  })
+
+  it('switches to the raw text', async () => {
+    render(<ViewerApp load={loading({ text: 'got {"a": 1}', source: 'selection' })} />)
+    await screen.findByRole('tree')
+
+    fireEvent.click(screen.getByRole('switch', { name: 'Format enabled' }))
+
+    expect(screen.queryByRole('tree')).not.toBeInTheDocument()
+    expect(screen.getByText(/got/)).toBeInTheDocument()
+  })
+
+  it('offers to decode base64 text', async () => {
+    const text = btoa('{"event": "signup", "user": 42}')
+    render(<ViewerApp load={loading({ text, source: 'clipboard' })} />)
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Decode as JSON' }))
+
+    expect(await screen.findByText('Clipboard · decoded from base64')).toBeInTheDocument()
+    expect(screen.getByRole('tree')).toHaveTextContent('signup')
+  })
+
+  it('reports text that decodes to something else', async () => {
+    render(<ViewerApp load={loading({ text: btoa('just some text'), source: 'clipboard' })} />)
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Decode as JSON' }))
+
+    expect(await screen.findByText('Could not decode: The base64 data is not JSON')).toBeVisible()
+  })
+})
@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { fireEvent, waitFor } from '@testing-library/preact'
+import { DEFAULT_PARSER_SETTINGS } from '../../src/lib/parser-selection'
+
+// Mock the chrome APIs the content script uses. Storage calls resolve and
+// also call their callback, like chrome's
+const mockStorage: Record<string, unknown> = {}
+
+const storageCall =
+  <A, R>(run: (arg: A) => R) =>
+  async (arg: A, callback?: (result: R) => void) => {
+    const result = run(arg)
+    callback?.(result)
+    return result
+  }
+
+// @ts-ignore - mock chrome global
+global.chrome = {
+  runtime: {
+    getURL: (path: string) => `chrome-extension://test/${path}`,
+    sendMessage: vi.fn(async () => undefined),
+    onMessage: { addListener: () => {} },
+  },
+  storage: {
+    local: {
+      get: storageCall((key: string | string[] | null) => {
+        const keys = key === null ? Object.keys(mockStorage) : [key].flat()
+        return Object.fromEntries(keys.map((k) => [k, mockStorage[k]]))
+      }),
+      set: storageCall((data: Record<string, unknown>) => {
+        Object.assign(mockStorage, data)
+      }),
+      remove: storageCall((key: string | string[]) => {
+        for (const k of [key].flat()) delete mockStorage[k]
+      }),
+    },
+    onChanged: { addListener: () => {}, removeListener: () => {} },
+  },
+}
+
+describe('Content script', () => {
+  beforeEach(() => {
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key])
+    // The content script runs when imported, once per import
+    vi.resetModules()
+  })
+
+  it('explains a JSON page with a syntax error and opens it in tolerant mode', async () => {
+    Object.defineProperty(document, 'contentType', {
+      configurable: true,
+      value: 'application/json',
+    })
+    document.body.innerHTML = '<pre>{"a": 1 "b": 2}</pre>'
+
+    await import('../../src/content')
+
+    const panel = await waitFor(() => {
+      const found = document.querySelector('.parse-error-panel')
+      expect(found).not.toBeNull()
+      return found!
+    })
+    expect(panel.textContent).toContain('Line 1, column 9')
+
+    fireEvent.click(document.querySelector<HTMLButtonElement>('.parse-error-button')!)
+
+    await waitFor(() => {
+      expect(document.querySelector('.parse-error-panel')).toBeNull()
+      expect(document.querySelector('.parse-warnings-badge')).not.toBeNull()
+      expect(document.getElementById('jsonFormatterParsed')!.textContent).toContain(
+        'Assumed missing comma'
+      )
+    })
+  })
+
+  it('parses a JSON page with a syntax error in tolerant mode when that is set', async () => {
+    mockStorage.parserSettings = {
+      ...DEFAULT_PARSER_SETTINGS,
+      defaultParser: 'native',
+      customParserOptions: { ...DEFAULT_PARSER_SETTINGS.customParserOptions, tolerant: true },
+    }
+    Object.defineProperty(document, 'contentType', {
+      configurable: true,
+      value: 'application/json',
+    })
+    document.body.innerHTML = '<pre>[1 2]</pre>'
+
+    await import('../../src/content')
+
+    await waitFor(() => {
+      expect(document.querySelector('.parse-warnings-badge')).not.toBeNull()
+      expect(document.getElementById('jsonFormatterParsed')!.textContent).toContain(
+        'Assumed missing comma'
+      )
+    })
+    expect(document.querySelector('.parse-error-panel')).toBeNull()
+  })
+})
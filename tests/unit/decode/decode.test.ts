@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import { deflateSync, gzipSync } from 'node:zlib'
+import {
+  base64ToBytes,
+  compressionOf,
+  decodeJsonText,
+  describeEncodings,
+  isEncodedText,
+  looksLikeEncodedJson,
+} from '../../../src/lib/decode/decode'
+
+const base64 = (data: string | Uint8Array) => Buffer.from(data).toString('base64')
+const base64url = (data: string) => Buffer.from(data).toString('base64url')
+
+const JWT = [
+  base64url('{"alg":"HS256","typ":"JWT"}'),
+  base64url('{"sub":"1234567890","iat":1516239022}'),
+  'SflKxwRJSMeKKF2QT4fwpMeJf36POk6yJV_adQssw5c',
+].join('.')
+
+describe('Payload decoding', () => {
+  describe('base64ToBytes', () => {
+    it('decodes standard and URL-safe base64, with or without padding', () => {
+      const expected = new Uint8Array([0xfb, 0xff, 0xbf])
+      expect(base64ToBytes('+/+/')).toEqual(expected)
+      expect(base64ToBytes('-_-_')).toEqual(expected)
+      expect(base64ToBytes('YQ')).toEqual(new Uint8Array([0x61]))
+      expect(base64ToBytes('YQ==\n')).toEqual(new Uint8Array([0x61]))
+    })
+
+    it('rejects other text', () => {
+      expect(base64ToBytes('not base64!')).toBeNull()
+      expect(base64ToBytes('abcde')).toBeNull()
+    })
+  })
+
+  describe('compressionOf', () => {
+    it('recognizes gzip and zlib headers', () => {
+      expect(compressionOf(gzipSync('{}'))).toBe('gzip')
+      expect(compressionOf(deflateSync('{}'))).toBe('deflate')
+      expect(compressionOf(new TextEncoder().encode('{"a": 1}'))).toBeNull()
+    })
+  })
+
+  describe('looksLikeEncodedJson', () => {
+    it('finds base64 JSON, compressed JSON and JWTs', () => {
+      expect(looksLikeEncodedJson(base64('{"id": 1, "ok": true}'))).toBe(true)
+      expect(looksLikeEncodedJson(base64('[1, 2, 3, 4, 5, 6, 7]'))).toBe(true)
+      expect(looksLikeEncodedJson(base64(gzipSync('{"id": 1}')))).toBe(true)
+      expect(looksLikeEncodedJson(base64(deflateSync('{"id": 1}')))).toBe(true)
+      expect(looksLikeEncodedJson(JWT)).toBe(true)
+    })
+
+    it('ignores other strings', () => {
+      expect(looksLikeEncodedJson('hello world, this is text')).toBe(false)
+      expect(looksLikeEncodedJson(base64('plain text, not JSON'))).toBe(false)
+      expect(looksLikeEncodedJson('eyJhIjox')).toBe(false) // too short
+      expect(looksLikeEncodedJson('3f2a9c1e4b7d8f60a1b2c3d4e5f60718')).toBe(false)
+    })
+  })
+
+  describe('isEncodedText', () => {
+    it('accepts any base64, including with line breaks', () => {
+      expect(isEncodedText('c29tZSBieXRlcyBvZiB0ZXh0\nIGFuZCBtb3Jl\n')).toBe(true)
+      expect(isEncodedText('{"a": 1}')).toBe(false)
+    })
+  })
+
+  describe('decodeJsonText', () => {
+    it('decodes base64 JSON', async () => {
+      expect(await decodeJsonText(base64('{"a": 1}'))).toEqual({
+        text: '{"a": 1}',
+        encodings: ['base64'],
+      })
+    })
+
+    it('decompresses gzip and zlib data', async () => {
+      expect(await decodeJsonText(base64(gzipSync('[1, 2]')))).toEqual({
+        text: '[1, 2]',
+        encodings: ['base64', 'gzip'],
+      })
+      expect((await decodeJsonText(base64(deflateSync('{"é": 1}')))).text).toBe('{"é": 1}')
+    })
+
+    it('decodes the header and payload of JWTs', async () => {
+      const { text, encodings } = await decodeJsonText(JWT)
+
+      expect(encodings).toEqual(['jwt'])
+      expect(JSON.parse(text)).toEqual({
+        header: { alg: 'HS256', typ: 'JWT' },
+        payload: { sub: '1234567890', iat: 1516239022 },
+      })
+    })
+
+    it('explains what could not be decoded', async () => {
+      await expect(decodeJsonText('{"a": 1}')).rejects.toThrow('Not base64 or a JWT')
+      await expect(decodeJsonText(base64('plain text'))).rejects.toThrow(
+        'The base64 data is not JSON'
+      )
+      await expect(decodeJsonText(base64(gzipSync('plain text')))).rejects.toThrow(
+        'The base64 + gzip data is not JSON'
+      )
+    })
+  })
+
+  it('describes encodings', () => {
+    expect(describeEncodings(['base64', 'brotli'])).toBe('base64 + Brotli')
+    expect(describeEncodings(['jwt'])).toBe('JWT')
+  })
+})
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest'
+import {
+  diffDocuments,
+  diffNodeId,
+  summarizeDiff,
+  type DiffNode,
+} from '../../../src/lib/diff/diff'
+import { parse } from '../../../src/lib/parser/parse'
+
+const child = (node: DiffNode, label: string | number) =>
+  node.children.find((c) =>
+    typeof label === 'number' ? (c.rightIndex ?? c.leftIndex) === label : c.key === label
+  )!
+
+const statuses = (node: DiffNode) => node.children.map((c) => `${c.key ?? ''}:${c.status}`)
+
+describe('diffDocuments', () => {
+  it('marks equal documents unchanged', () => {
+    const root = diffDocuments({ a: 1, b: [true, null] }, { b: [true, null], a: 1 })
+
+    expect(root.status).toBe('unchanged')
+    expect(summarizeDiff(root)).toEqual({ added: 0, removed: 0, changed: 0 })
+  })
+
+  it('matches object members by key and reports added, removed and changed', () => {
+    const root = diffDocuments({ a: 1, b: 'x', c: true }, { a: 1, b: 'y', d: null })
+
+    expect(root.status).toBe('changed')
+    expect(statuses(root)).toEqual(['a:unchanged', 'b:changed', 'c:removed', 'd:added'])
+    expect(child(root, 'c').leftPath).toBe('$.c')
+    expect(child(root, 'c').rightPath).toBeUndefined()
+    expect(child(root, 'd').rightPath).toBe('$.d')
+    expect(summarizeDiff(root)).toEqual({ added: 1, removed: 1, changed: 1 })
+  })
+
+  it('propagates changes up to the containers', () => {
+    const root = diffDocuments({ user: { name: 'a', age: 1 } }, { user: { name: 'a', age: 2 } })
+
+    expect(root.status).toBe('changed')
+    expect(child(root, 'user').status).toBe('changed')
+    expect(child(child(root, 'user'), 'age').status).toBe('changed')
+    expect(child(child(root, 'user'), 'name').status).toBe('unchanged')
+  })
+
+  it('treats a type change as a changed value without children', () => {
+    const root = diffDocuments({ a: [1] }, { a: { 0: 1 } })
+
+    expect(child(root, 'a').status).toBe('changed')
+    expect(child(root, 'a').children).toEqual([])
+  })
+
+  it('does not confuse a string with a number', () => {
+    expect(diffDocuments(['1'], [1]).children[0].status).toBe('changed')
+  })
+
+  it('builds the subtree of added and removed containers', () => {
+    const root = diffDocuments({}, { list: [{ id: 1 }] })
+    const list = child(root, 'list')
+
+    expect(list.status).toBe('added')
+    expect(list.children[0].status).toBe('added')
+    expect(list.children[0].rightPath).toBe('$.list[0]')
+    expect(list.children[0].children[0].rightPath).toBe('$.list[0].id')
+    // Counted once, not per descendant
+    expect(summarizeDiff(root)).toEqual({ added: 1, removed: 0, changed: 0 })
+  })
+
+  describe('Numbers', () => {
+    it('compares ExactJSON big integers exactly', () => {
+      const left = '{"id": 12345678901234567890}'
+      const right = '{"id": 12345678901234567891}'
+      const root = diffDocuments(
+        parse(left, { numberMode: 'bigint' }).ast,
+        parse(right, { numberMode: 'bigint' }).ast,
+        { leftInput: left, rightInput: right }
+      )
+
+      expect(child(root, 'id').status).toBe('changed')
+    })
+
+    it('compares ExactJSON numbers exactly in native mode', () => {
+      const left = '[12345678901234567890, 0.1000000000000000001]'
+      const right = '[12345678901234567891, 0.1]'
+      const root = diffDocuments(parse(left).ast, parse(right).ast, {
+        leftInput: left,
+        rightInput: right,
+      })
+
+      expect(root.children.map((c) => c.status)).toEqual(['changed', 'changed'])
+    })
+
+    it('loses that difference with JSON.parse values', () => {
+      const root = diffDocuments(
+        JSON.parse('{"id": 12345678901234567890}'),
+        JSON.parse('{"id": 12345678901234567891}')
+      )
+
+      expect(child(root, 'id').status).toBe('unchanged')
+    })
+
+    it('treats different spellings of the same number as equal', () => {
+      const root = diffDocuments(parse('[1.0, 1e2]').ast, parse('[1, 100]').ast, {
+        leftInput: '[1.0, 1e2]',
+        rightInput: '[1, 100]',
+      })
+
+      expect(root.status).toBe('unchanged')
+    })
+  })
+
+  describe('Arrays', () => {
+    const left = [{ id: 1, v: 'a' }, { id: 2, v: 'b' }, { id: 3, v: 'c' }]
+    const right = [{ id: 3, v: 'c' }, { id: 1, v: 'A' }, { id: 4, v: 'd' }]
+
+    it('aligns items by index by default', () => {
+      const root = diffDocuments([1, 2, 3], [1, 5])
+
+      expect(root.children.map((c) => c.status)).toEqual(['unchanged', 'changed', 'removed'])
+      expect(root.children[2].leftPath).toBe('$[2]')
+    })
+
+    it('aligns items by a key member', () => {
+      const root = diffDocuments(left, right, { arrayKey: 'id' })
+
+      expect(root.children.map((c) => [c.leftIndex, c.rightIndex, c.status])).toEqual([
+        [1, undefined, 'removed'],
+        [2, 0, 'unchanged'],
+        [0, 1, 'changed'],
+        [undefined, 2, 'added'],
+      ])
+      expect(root.children[2].leftPath).toBe('$[0]')
+      expect(root.children[2].rightPath).toBe('$[1]')
+    })
+
+    it('places removed items before the next pair that follows them', () => {
+      const root = diffDocuments([{ id: 1 }, { id: 2 }, { id: 3 }], [{ id: 1 }, { id: 3 }], {
+        arrayKey: 'id',
+      })
+
+      expect(root.children.map((c) => c.status)).toEqual(['unchanged', 'removed', 'unchanged'])
+    })
+
+    it('pairs items without the key member in order', () => {
+      const root = diffDocuments([{ id: 1 }, 'x', 5], [7, { id: 1 }], { arrayKey: 'id' })
+
+      expect(root.children.map((c) => [c.leftIndex, c.rightIndex, c.status])).toEqual([
+        [1, 0, 'changed'],
+        [0, 1, 'unchanged'],
+        [2, undefined, 'removed'],
+      ])
+    })
+
+    it('does not match keys of different types', () => {
+      const root = diffDocuments([{ id: 1 }], [{ id: '1' }], { arrayKey: 'id' })
+
+      expect(root.children.map((c) => c.status)).toEqual(['removed', 'added'])
+    })
+
+    it('gives removed and paired items distinct ids', () => {
+      const root = diffDocuments(left, right, { arrayKey: 'id' })
+      const ids = root.children.map(diffNodeId)
+
+      expect(new Set(ids).size).toBe(ids.length)
+    })
+  })
+
+  it('diffs an ExactJSON document against a native one', () => {
+    const input = '{"a": [1, 2], "b": "x"}'
+    const root = diffDocuments(parse(input).ast, { a: [1, 3], b: 'x' }, { leftInput: input })
+
+    expect(statuses(root)).toEqual(['a:changed', 'b:unchanged'])
+    expect(child(root, 'a').children.map((c) => c.status)).toEqual(['unchanged', 'changed'])
+  })
+})
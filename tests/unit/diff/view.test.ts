@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { diffDocuments, diffNodeId } from '../../../src/lib/diff/diff'
+import {
+  defaultExpandedDiff,
+  flattenDiff,
+  unifiedLines,
+  diffLabel,
+  formatDiffValue,
+} from '../../../src/lib/diff/view'
+import { createAdapter } from '../../../src/lib/integration/adapters'
+import { parse } from '../../../src/lib/parser/parse'
+
+const left = { same: { x: 1 }, user: { name: 'a', age: 1 }, gone: true }
+const right = { same: { x: 1 }, user: { name: 'a', age: 2 }, list: [1] }
+
+describe('defaultExpandedDiff', () => {
+  it('expands changed containers only', () => {
+    const root = diffDocuments(left, right)
+    const expanded = defaultExpandedDiff(root)
+
+    expect(expanded.has(diffNodeId(root))).toBe(true)
+    expect(expanded.has('$.user|$.user')).toBe(true)
+    expect(expanded.has('$.same|$.same')).toBe(false)
+    expect(expanded.has('|$.list')).toBe(false)
+  })
+})
+
+describe('flattenDiff', () => {
+  it('lists the visible rows with their depth', () => {
+    const root = diffDocuments(left, right)
+    const rows = flattenDiff(root, defaultExpandedDiff(root))
+
+    expect(rows.map((row) => [row.node.key, row.depth, row.isExpanded])).toEqual([
+      [null, 0, true],
+      ['same', 1, false],
+      ['user', 1, true],
+      ['name', 2, false],
+      ['age', 2, false],
+      ['gone', 1, false],
+      ['list', 1, false],
+    ])
+  })
+
+  it('hides unchanged rows when showing only differences', () => {
+    const root = diffDocuments(left, right)
+    const rows = flattenDiff(root, defaultExpandedDiff(root), true)
+
+    expect(rows.map((row) => row.node.key)).toEqual([null, 'user', 'age', 'gone', 'list'])
+  })
+
+  it('expands added containers on request', () => {
+    const root = diffDocuments(left, right)
+    const rows = flattenDiff(root, new Set([diffNodeId(root), '|$.list']))
+
+    expect(rows.map((row) => row.id)).toContain('|$.list[0]')
+  })
+})
+
+describe('unifiedLines', () => {
+  it('splits changed leaves into a removed and an added line', () => {
+    const root = diffDocuments(left, right)
+    const lines = unifiedLines(flattenDiff(root, defaultExpandedDiff(root), true))
+
+    expect(lines.map((line) => `${line.row.node.key}:${line.side}`)).toEqual([
+      'null:both',
+      'user:both',
+      'age:left',
+      'age:right',
+      'gone:left',
+      'list:right',
+    ])
+  })
+})
+
+describe('diffLabel', () => {
+  it('uses the member key or the item index of each side', () => {
+    const root = diffDocuments([{ id: 1 }, { id: 2 }], [{ id: 2 }], { arrayKey: 'id' })
+
+    expect(diffLabel(root, 'left')).toBeNull()
+    expect(diffLabel(root.children[1], 'left')).toBe('1')
+    expect(diffLabel(root.children[1], 'right')).toBe('0')
+    expect(diffLabel(root.children[1].children[0], 'right')).toBe('id')
+  })
+})
+
+describe('formatDiffValue', () => {
+  it('formats primitives as JSON and summarizes containers', () => {
+    const data = { s: 'a"b', o: { x: 1 }, a: [1, 2], n: null }
+    const adapter = createAdapter(data)
+
+    expect(formatDiffValue(data.s, adapter)).toEqual({ type: 'string', text: '"a\\"b"' })
+    expect(formatDiffValue(data.o, adapter)).toEqual({ type: 'object', text: '{1}' })
+    expect(formatDiffValue(data.a, adapter)).toEqual({ type: 'array', text: '[2]' })
+    expect(formatDiffValue(data.n, adapter)).toEqual({ type: 'null', text: 'null' })
+  })
+
+  it('keeps the number lexeme of ExactJSON documents', () => {
+    const input = '[1.50]'
+    const { ast } = parse(input)
+    const adapter = createAdapter(ast, input)
+
+    expect(formatDiffValue(adapter.getChild(ast, 0)!, adapter).text).toBe('1.50')
+  })
+})
@@ -0,0 +1,18 @@
+import { describe, test, expect } from 'vitest'
+import { downloadFileName } from '../../../src/lib/edit/download'
+
+describe('downloadFileName', () => {
+  test('uses the last path segment', () => {
+    expect(downloadFileName('https://api.example.com/v1/users?page=2')).toBe('users.json')
+    expect(downloadFileName('https://example.com/data/config.JSON')).toBe('config.JSON')
+  })
+
+  test('falls back when the URL has no file name', () => {
+    expect(downloadFileName('https://example.com/')).toBe('edited.json')
+    expect(downloadFileName('not a url')).toBe('edited.json')
+  })
+
+  test('replaces characters that are not allowed in file names', () => {
+    expect(downloadFileName('https://example.com/a%3Ab')).toBe('a_b.json')
+  })
+})
@@ -0,0 +1,202 @@
+import { describe, test, expect } from 'vitest'
+import {
+  replaceValue,
+  renameKey,
+  removeEntry,
+  insertEntry,
+  moveItem,
+  unusedKey,
+} from '../../../src/lib/edit/operations'
+import { applyTextEdit, type TextEdit } from '../../../src/lib/edit/patch'
+import { parse } from '../../../src/lib/parser/parse'
+import type { JsonNode, ObjectNode, ArrayNode } from '../../../src/lib/parser/types'
+
+const pretty = `{
+  "big": 12345678901234567890,
+  "price": 1.50,
+  "items": [
+    1,
+    2,
+    3
+  ],
+  "name": "x"
+}`
+
+const edit = (input: string, op: (ast: ReturnType<typeof parse>['ast']) => TextEdit) =>
+  applyTextEdit(input, op(parse(input).ast))
+
+describe('replaceValue', () => {
+  test('changes only the value text', () => {
+    const result = edit(pretty, (ast) => replaceValue(ast, '$.name', ' "y" '))
+    expect(result).toBe(pretty.replace('"x"', '"y"'))
+    // Untouched numbers keep their original lexemes
+    expect(result).toContain('12345678901234567890')
+    expect(result).toContain('1.50')
+  })
+
+  test('rejects invalid JSON', () => {
+    const { ast } = parse(pretty)
+    expect(() => replaceValue(ast, '$.name', 'y')).toThrow(/Invalid JSON value/)
+  })
+
+  test('rejects unknown paths', () => {
+    const { ast } = parse(pretty)
+    expect(() => replaceValue(ast, '$.missing', '1')).toThrow('No value at $.missing')
+  })
+})
+
+describe('renameKey', () => {
+  test('replaces the key lexeme', () => {
+    const result = edit('{"a": 1, "b": 2}', (ast) => renameKey(ast, '$.a', 'a.b'))
+    expect(result).toBe('{"a.b": 1, "b": 2}')
+  })
+
+  test('rejects duplicates and array items', () => {
+    const { ast } = parse('{"a": 1, "b": [1]}')
+    expect(() => renameKey(ast, '$.a', 'b')).toThrow('Key "b" already exists')
+    expect(() => renameKey(ast, '$.b[0]', 'x')).toThrow('Only object members can be renamed')
+  })
+})
+
+describe('removeEntry', () => {
+  test('removes a member with its following separator', () => {
+    const input = '{"a": 1, "b": 2}'
+    expect(edit(input, (ast) => removeEntry(ast, input, '$.a'))).toBe('{"b": 2}')
+  })
+
+  test('removes the last item with its preceding separator', () => {
+    const result = edit(pretty, (ast) => removeEntry(ast, pretty, '$.items[2]'))
+    expect(result).toContain('[\n    1,\n    2\n  ]')
+  })
+
+  test('leaves an empty container', () => {
+    const input = '{"a": [ 1 ]}'
+    expect(edit(input, (ast) => removeEntry(ast, input, '$.a[0]'))).toBe('{"a": []}')
+  })
+
+  test('keeps the comments of the next entry in JSONC', () => {
+    const input = '{\n  "a": 1, // about a\n  // about b\n  "b": /* two */ 2\n}'
+    const { ast } = parse(input, { syntax: 'jsonc' })
+    const result = applyTextEdit(input, removeEntry(ast, input, '$.a'))
+
+    expect(result).toBe('{\n  // about b\n  "b": /* two */ 2\n}')
+  })
+
+  test('skips comments holding commas before the separator', () => {
+    const input = '[1 /* a, b */, 2]'
+    const { ast } = parse(input, { syntax: 'jsonc' })
+    expect(applyTextEdit(input, removeEntry(ast, input, '$[0]'))).toBe('[2]')
+  })
+
+  test('keeps the comment of the previous entry when removing the last one', () => {
+    const input = '[\n  1, // one\n  2 // two\n]'
+    const { ast } = parse(input, { syntax: 'jsonc' })
+
+    expect(applyTextEdit(input, removeEntry(ast, input, '$[1]'))).toBe('[\n  1 // one\n]')
+  })
+
+  test('refuses to remove the root', () => {
+    const { ast } = parse('[]')
+    expect(() => removeEntry(ast, '[]', '$')).toThrow('The root value cannot be removed')
+  })
+})
+
+describe('Duplicate keys', () => {
+  const input = '{"a": 1, "a": 2, "b": 3}'
+  const second = (ast: JsonNode) => (ast as ObjectNode).entries[1].value
+
+  test('a node target picks its own member', () => {
+    expect(edit(input, (ast) => replaceValue(ast, second(ast), '20'))).toBe(
+      '{"a": 1, "a": 20, "b": 3}'
+    )
+    expect(edit(input, (ast) => removeEntry(ast, input, second(ast)))).toBe('{"a": 1, "b": 3}')
+  })
+
+  test('a path names the first member', () => {
+    expect(edit(input, (ast) => replaceValue(ast, '$.a', '10'))).toBe(
+      '{"a": 10, "a": 2, "b": 3}'
+    )
+  })
+
+  test('nodes are found inside members with duplicated keys', () => {
+    const nested = '{"a": [1], "a": [2, 3]}'
+    const item = (ast: JsonNode) => ((ast as ObjectNode).entries[1].value as ArrayNode).items[1]
+
+    expect(edit(nested, (ast) => moveItem(ast, nested, item(ast), 0))).toBe(
+      '{"a": [1], "a": [3, 2]}'
+    )
+  })
+})
+
+describe('insertEntry', () => {
+  test('matches the indentation of pretty-printed documents', () => {
+    const result = edit(pretty, (ast) => insertEntry(ast, pretty, '$.items', '', '4'))
+    expect(result).toContain('[\n    1,\n    2,\n    3,\n    4\n  ]')
+  })
+
+  test('reuses the colon spacing of objects', () => {
+    const input = '{"a" : 1}'
+    expect(edit(input, (ast) => insertEntry(ast, input, '$', 'b', 'true'))).toBe(
+      '{"a" : 1, "b" : true}'
+    )
+  })
+
+  test('fills empty containers', () => {
+    const input = '{"a": {}, "b": [ ]}'
+    expect(edit(input, (ast) => insertEntry(ast, input, '$.a', 'k', 'null'))).toBe(
+      '{"a": {"k": null}, "b": [ ]}'
+    )
+    expect(edit(input, (ast) => insertEntry(ast, input, '$.b', '', '"s"'))).toBe(
+      '{"a": {}, "b": ["s"]}'
+    )
+  })
+
+  test('keeps comments with the entries they follow', () => {
+    const input = '[\n  1, // one\n  2 // two\n]'
+    const { ast } = parse(input, { syntax: 'jsonc' })
+
+    expect(applyTextEdit(input, insertEntry(ast, input, '$', '', 'null'))).toBe(
+      '[\n  1, // one\n  2, // two\n  null\n]'
+    )
+  })
+
+  test('adds after a lone entry and its comment', () => {
+    const input = '{ // settings\n  "a": 1 /* first */\n}'
+    const { ast } = parse(input, { syntax: 'jsonc' })
+
+    expect(applyTextEdit(input, insertEntry(ast, input, '$', 'b', '2'))).toBe(
+      '{ // settings\n  "a": 1, /* first */\n  "b": 2\n}'
+    )
+  })
+
+  test('rejects duplicate keys and primitives', () => {
+    const input = '{"a": 1}'
+    const { ast } = parse(input)
+    expect(() => insertEntry(ast, input, '$', 'a', '1')).toThrow('Key "a" already exists')
+    expect(() => insertEntry(ast, input, '$.a', 'x', '1')).toThrow(
+      'Entries can only be added to objects and arrays'
+    )
+  })
+})
+
+describe('moveItem', () => {
+  test('reorders items while keeping separators in place', () => {
+    const input = '[1, "two",\n  3]'
+    expect(edit(input, (ast) => moveItem(ast, input, '$[2]', 0))).toBe('[3, 1,\n  "two"]')
+  })
+
+  test('rejects out-of-range targets and non-items', () => {
+    const input = '{"a": [1, 2]}'
+    const { ast } = parse(input)
+    expect(() => moveItem(ast, input, '$.a[0]', 2)).toThrow('Index 2 is out of range')
+    expect(() => moveItem(ast, input, '$.a', 0)).toThrow('Only array items can be moved')
+  })
+})
+
+describe('unusedKey', () => {
+  test('numbers the key until it is free', () => {
+    const { ast } = parse('{"o": {"key": 1, "key2": 2}, "e": {}}')
+    expect(unusedKey(ast, '$.o')).toBe('key3')
+    expect(unusedKey(ast, '$.e')).toBe('key')
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, test, expect } from 'vitest'
+import {
+  applyTextEdit,
+  invertTextEdit,
+  createEditHistory,
+  commitEdit,
+  undoEdit,
+  redoEdit,
+} from '../../../src/lib/edit/patch'
+
+describe('applyTextEdit / invertTextEdit', () => {
+  test('splices text and reverts it', () => {
+    const input = '{"a": 1}'
+    const edit = { start: 6, end: 7, text: '"one"' }
+    const edited = applyTextEdit(input, edit)
+
+    expect(edited).toBe('{"a": "one"}')
+    expect(applyTextEdit(edited, invertTextEdit(input, edit))).toBe(input)
+  })
+})
+
+describe('edit history', () => {
+  const first = { start: 6, end: 7, text: '2' }
+  const second = { start: 1, end: 4, text: '"b"' }
+
+  test('undo and redo walk through the changes', () => {
+    let history = createEditHistory('{"a": 1}')
+    history = commitEdit(history, first)
+    history = commitEdit(history, second)
+    expect(history.input).toBe('{"b": 2}')
+
+    history = undoEdit(history)
+    expect(history.input).toBe('{"a": 2}')
+    history = undoEdit(history)
+    expect(history.input).toBe('{"a": 1}')
+    expect(history.undoStack).toHaveLength(0)
+
+    history = redoEdit(history)
+    history = redoEdit(history)
+    expect(history.input).toBe('{"b": 2}')
+    expect(history.redoStack).toHaveLength(0)
+  })
+
+  test('a new change clears the redo stack', () => {
+    let history = commitEdit(createEditHistory('[1]'), { start: 1, end: 2, text: '2' })
+    history = undoEdit(history)
+    history = commitEdit(history, { start: 1, end: 2, text: '3' })
+
+    expect(history.input).toBe('[3]')
+    expect(history.redoStack).toHaveLength(0)
+  })
+
+  test('undo and redo with empty stacks are no-ops', () => {
+    const history = createEditHistory('[]')
+    expect(undoEdit(history)).toBe(history)
+    expect(redoEdit(history)).toBe(history)
+  })
+})
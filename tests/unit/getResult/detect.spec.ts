@@ -0,0 +1,182 @@
+// @vitest-environment jsdom
+
+import { describe, it, expect } from 'vitest'
+import {
+  detectSignal,
+  declaresJsonLines,
+  describeSignal,
+  jsonExtension,
+  matchesContentType,
+  DEFAULT_JSON_CONTENT_TYPES,
+} from '../../../src/lib/getResult/detect'
+import { getResult } from '../../../src/lib/getResult'
+
+const createDocument = (contentType: string, url: string, body = '') => {
+  const doc = document.implementation.createHTMLDocument('')
+  Object.defineProperty(doc, 'contentType', { value: contentType })
+  Object.defineProperty(doc, 'URL', { value: url })
+  doc.body.innerHTML = body
+  return doc
+}
+
+describe('Detection', () => {
+  describe('matchesContentType', () => {
+    it('matches exact types, ignoring case and parameters', () => {
+      expect(matchesContentType('application/json', ['application/json'])).toBe(true)
+      expect(matchesContentType('Application/JSON; charset=utf-8', ['application/json'])).toBe(true)
+      expect(matchesContentType('application/jsonp', ['application/json'])).toBe(false)
+    })
+
+    it('matches wildcards', () => {
+      const patterns = ['application/*+json']
+      expect(matchesContentType('application/problem+json', patterns)).toBe(true)
+      expect(matchesContentType('application/vnd.github.v3+json', patterns)).toBe(true)
+      expect(matchesContentType('application/json', patterns)).toBe(false)
+      expect(matchesContentType('text/ld+json', patterns)).toBe(false)
+    })
+
+    it('treats other characters literally', () => {
+      expect(matchesContentType('application/vndxapi+json', ['application/vnd.api+json'])).toBe(
+        false
+      )
+    })
+  })
+
+  describe('jsonExtension', () => {
+    it('finds JSON extensions in the path', () => {
+      expect(jsonExtension('https://example.test/data.json')).toBe('.json')
+      expect(jsonExtension('https://example.test/a/tsconfig.JSONC?raw=1')).toBe('.jsonc')
+      expect(jsonExtension('file:///tmp/logs.ndjson')).toBe('.ndjson')
+    })
+
+    it('ignores the query and other extensions', () => {
+      expect(jsonExtension('https://example.test/data?format=.json')).toBe(null)
+      expect(jsonExtension('https://example.test/data.json.txt')).toBe(null)
+      expect(jsonExtension('not a url')).toBe(null)
+    })
+  })
+
+  describe('detectSignal', () => {
+    it('prefers a JSON content type', () => {
+      const doc = createDocument('application/problem+json', 'https://example.test/error.txt')
+      expect(detectSignal(doc)).toEqual({
+        kind: 'content-type',
+        contentType: 'application/problem+json',
+      })
+    })
+
+    it('recognizes JSON Lines types', () => {
+      const signal = detectSignal(createDocument('application/x-ndjson', 'https://example.test/'))
+      expect(signal.kind).toBe('content-type')
+      expect(declaresJsonLines(signal)).toBe(true)
+    })
+
+    it('uses the extension of text documents', () => {
+      const signal = detectSignal(createDocument('text/plain', 'https://example.test/logs.jsonl'))
+      expect(signal).toEqual({ kind: 'extension', contentType: 'text/plain', extension: '.jsonl' })
+      expect(declaresJsonLines(signal)).toBe(true)
+      expect(describeSignal(signal)).toBe('.jsonl file served as text/plain')
+    })
+
+    it('ignores the extension of HTML pages', () => {
+      const doc = createDocument('text/html', 'https://example.test/data.json')
+      expect(detectSignal(doc)).toEqual({ kind: 'markup', contentType: 'text/html' })
+    })
+
+    it('uses the configured content types', () => {
+      const doc = createDocument('application/x-custom', 'https://example.test/')
+      expect(detectSignal(doc).kind).toBe('markup')
+      expect(
+        detectSignal(doc, { jsonContentTypes: [...DEFAULT_JSON_CONTENT_TYPES, 'application/x-*'] })
+          .kind
+      ).toBe('content-type')
+      expect(
+        detectSignal(createDocument('application/json', 'https://example.test/'), {
+          jsonContentTypes: [],
+        }).kind
+      ).toBe('markup')
+    })
+  })
+
+  describe('getResult', () => {
+    it('formats JSON content types despite extra markup', () => {
+      const doc = createDocument(
+        'application/vnd.api+json',
+        'https://example.test/articles',
+        '<h1>Injected</h1><pre>{"data":[]}</pre><pre>copy</pre>'
+      )
+      doc.title = 'Injected'
+      const r = getResult(doc)
+      expect(r.formatted).toBe(true)
+      expect(r.note).toBe('done (Content-Type is application/vnd.api+json)')
+      if (r.formatted) expect(r.parsed).toEqual({ data: [] })
+    })
+
+    it('formats the pre hidden by Chrome\'s JSON viewer', () => {
+      const doc = createDocument(
+        'application/json',
+        'https://example.test/',
+        '<pre hidden>{"a":1}</pre><div class="json-formatter-container"><pre>{\n  "a": 1\n}</pre></div>'
+      )
+      const r = getResult(doc)
+      expect(r.formatted).toBe(true)
+      if (r.formatted) expect(r.element).toBe(doc.body.firstElementChild)
+    })
+
+    it('explains failures of text documents', () => {
+      const doc = createDocument('text/plain', 'https://example.test/notes', '<pre>hello</pre>')
+      expect(getResult(doc)).toEqual({
+        formatted: false,
+        note: 'Does not start with { or [ (Content-Type is text/plain)',
+        rawLength: 5,
+      })
+    })
+
+    it('parses text documents with a JSON Lines extension line by line', () => {
+      const doc = createDocument(
+        'text/plain',
+        'https://example.test/events.ndjson',
+        '<pre>{"a":1}\n{"a":2}\n</pre>'
+      )
+      const r = getResult(doc)
+      expect(r.note).toBe('done (.ndjson file served as text/plain)')
+      if (r.formatted) expect(r.format).toBe('ndjson')
+    })
+
+    it('passes a syntax error in declared JSON on to the viewer', () => {
+      const doc = createDocument(
+        'application/json',
+        'https://example.test/',
+        '<pre>{"a": 1 "b": 2}</pre>'
+      )
+      const r = getResult(doc)
+      expect(r.formatted).toBe(true)
+      if (r.formatted) {
+        expect(r.parsed).toBeNull()
+        expect(r.parseError).toMatch(/JSON/)
+      }
+    })
+
+    it('leaves text documents that do not parse alone', () => {
+      const doc = createDocument(
+        'text/plain',
+        'https://example.test/notes',
+        '<pre>{"a": 1 "b": 2}</pre>'
+      )
+      expect(getResult(doc)).toEqual({
+        formatted: false,
+        note: 'Does not parse as JSON (Content-Type is text/plain)',
+        rawLength: 15,
+      })
+    })
+
+    it('keeps the markup checks for HTML pages', () => {
+      const doc = createDocument(
+        'text/html',
+        'https://example.test/data.json',
+        '<h1>Data</h1><pre>{"a":1}</pre>'
+      )
+      expect(getResult(doc).note).toBe('body contains textual elements')
+    })
+  })
+})
@@ -1,5 +1,11 @@
 import { describe, it, expect } from 'vitest'
-import { tryParseJson } from '../../../src/lib/getResult/parse'
+import {
+  tryParseJson,
+  tryParseJsonc,
+  tryParseJsonLines,
+  sniffJson,
+  SNIFF_LENGTH,
+} from '../../../src/lib/getResult/parse'
 
 describe('Parse', () => {
   describe('tryParseJson', () => {
@@ -85,4 +91,86 @@ describe('Parse', () => {
       }
     })
   })
+
+  describe('tryParseJsonc', () => {
+    it('parses comments and trailing commas', () => {
+      const result = tryParseJsonc('// config\n{"a": [1, 2,], /* b */ "b": null,}')
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.parsed).toEqual({ a: [1, 2], b: null })
+      }
+    })
+
+    it('keeps the last duplicate key like JSON.parse()', () => {
+      const result = tryParseJsonc('{"a": 1, "a": 2, "__proto__": 3}')
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.parsed).toEqual(JSON.parse('{"a": 2, "__proto__": 3}'))
+        expect(Object.keys(result.parsed as object)).toEqual(['a', '__proto__'])
+      }
+    })
+
+    it('fails on JSON5-only syntax', () => {
+      expect(tryParseJsonc("{a: 'x'}").ok).toBe(false)
+    })
+
+    it('fails on invalid JSON', () => {
+      expect(tryParseJsonc('{invalid}').ok).toBe(false)
+    })
+  })
+
+  describe('tryParseJsonLines', () => {
+    it('parses one value per line', () => {
+      const result = tryParseJsonLines('{"a":1}\r\n\n[2]\n"x"\n', false)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.parsed).toEqual([{ a: 1 }, [2], 'x'])
+      }
+    })
+
+    it('skips bad lines when most lines parse', () => {
+      const result = tryParseJsonLines('{"a":1}\n{"b":\n{"c":3}', false)
+      expect(result.ok).toBe(true)
+      if (result.ok) {
+        expect(result.parsed).toEqual([{ a: 1 }, { c: 3 }])
+      }
+    })
+
+    it('needs two records unless the content type declares NDJSON', () => {
+      expect(tryParseJsonLines('{"a":1}\n{oops', false).ok).toBe(false)
+      expect(tryParseJsonLines('{"a":1}\n{oops', true).ok).toBe(true)
+    })
+
+    it('fails when the first line does not parse', () => {
+      expect(tryParseJsonLines('[ not json\n{"a":1}\n{"b":2}', false).ok).toBe(false)
+    })
+  })
+
+  describe('sniffJson', () => {
+    const long = (start: string, fill: string, end = '') =>
+      start + fill.repeat(Math.ceil(SNIFF_LENGTH / fill.length)) + end
+
+    it('accepts a start cut off anywhere in a value', () => {
+      expect(sniffJson(long('{"a": [', '1, '))).toBe('json')
+      expect(sniffJson(long('{"a": "', 'x\\n'))).toBe('json')
+      expect(sniffJson(long('[', 'true, '))).toBe('json')
+      expect(sniffJson(long('[', '12345678, ', '9'))).toBe('json')
+    })
+
+    it('recognizes one value per line', () => {
+      expect(sniffJson(long('', '{"a":1}\n'))).toBe('json-lines')
+      expect(sniffJson(long('', '[1, 2]\r\n'))).toBe('json-lines')
+    })
+
+    it('rejects text that only starts like JSON', () => {
+      expect(sniffJson(long('', '[2024-01-01] INFO started\n'))).toBeNull()
+      expect(sniffJson(long('', '[main] loading {config}\n'))).toBeNull()
+      expect(sniffJson(long('{"a":1} {"b":2}', ' '))).toBeNull()
+    })
+
+    it('rejects an unfinished document that is not cut off', () => {
+      expect(sniffJson('{"a": [1, 2')).toBeNull()
+      expect(sniffJson('{"a": "x')).toBeNull()
+    })
+  })
 })
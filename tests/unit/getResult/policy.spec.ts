@@ -2,6 +2,9 @@ import { describe, it, expect } from 'vitest'
 import {
   startsLikeJson,
   isTooLong,
+  isJsonLinesType,
+  findJsonWrapper,
+  stripJsonWrapper,
   MAX_LENGTH,
 } from '../../../src/lib/getResult/policy'
 
@@ -35,12 +38,31 @@ describe('Policy', () => {
       expect(startsLikeJson('')).toBe(false)
     })
 
+    it('detects a leading comment', () => {
+      expect(startsLikeJson('// tsconfig.json\n{')).toBe(true)
+      expect(startsLikeJson('  /* settings */ {')).toBe(true)
+      expect(startsLikeJson('/ {')).toBe(false)
+    })
+
     it('handles mixed whitespace', () => {
       expect(startsLikeJson('  \n\t  \r  {')).toBe(true)
       expect(startsLikeJson('\t\n\r\x20[')).toBe(true)
     })
   })
 
+  describe('isJsonLinesType', () => {
+    it('detects NDJSON and JSON Lines content types', () => {
+      expect(isJsonLinesType('application/x-ndjson')).toBe(true)
+      expect(isJsonLinesType('application/jsonl; charset=utf-8')).toBe(true)
+      expect(isJsonLinesType('Application/X-NDJSON')).toBe(true)
+    })
+
+    it('rejects other content types', () => {
+      expect(isJsonLinesType('application/json')).toBe(false)
+      expect(isJsonLinesType('text/html')).toBe(false)
+    })
+  })
+
   describe('isTooLong', () => {
     it('detects length exceeding max', () => {
       expect(isTooLong(MAX_LENGTH + 1)).toBe(true)
@@ -67,4 +89,49 @@ describe('Policy', () => {
       expect(MAX_LENGTH).toBe(3_000_000)
     })
   })
+
+  describe('findJsonWrapper', () => {
+    it('detects a JSONP callback', () => {
+      const text = 'callback({"a": 1});'
+      expect(findJsonWrapper(text)).toEqual({ kind: 'jsonp', name: 'callback', start: 9, end: 17 })
+    })
+
+    it('detects dotted callbacks, the /**/ guard and trailing whitespace', () => {
+      const text = '/**/ jQuery.cb_1 ( [1, 2] )\n'
+      const wrapper = findJsonWrapper(text)!
+      expect(wrapper.name).toBe('jQuery.cb_1')
+      expect(text.slice(wrapper.start, wrapper.end)).toBe(' [1, 2] ')
+    })
+
+    it('detects XSSI prefixes', () => {
+      for (const prefix of [")]}'", ")]}',", 'while(1);', 'while (1);', 'for(;;);']) {
+        const text = `${prefix}\n{"a": 1}`
+        const wrapper = findJsonWrapper(text)!
+        expect(wrapper).toMatchObject({ kind: 'xssi', name: prefix })
+        expect(text.slice(wrapper.start, wrapper.end)).toBe('\n{"a": 1}')
+      }
+    })
+
+    it('ignores unwrapped and unclosed text', () => {
+      expect(findJsonWrapper('{"a": 1}')).toBeNull()
+      expect(findJsonWrapper('// comment\n{}')).toBeNull()
+      expect(findJsonWrapper('callback({"a": 1}')).toBeNull()
+      expect(findJsonWrapper('callback)')).toBeNull()
+      expect(findJsonWrapper('hello world')).toBeNull()
+    })
+  })
+
+  describe('stripJsonWrapper', () => {
+    it('blanks the wrapper out, keeping offsets and line breaks', () => {
+      const text = ")]}',\n{\"a\": 1}"
+      const stripped = stripJsonWrapper(text, findJsonWrapper(text)!)
+      expect(stripped).toBe('     \n{"a": 1}')
+      expect(stripped).toHaveLength(text.length)
+    })
+
+    it('blanks the callback and closing parenthesis', () => {
+      const text = 'cb({"a": 1});'
+      expect(stripJsonWrapper(text, findJsonWrapper(text)!)).toBe('   {"a": 1}  ')
+    })
+  })
 })
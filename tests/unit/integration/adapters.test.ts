@@ -2,7 +2,12 @@ import { describe, test, expect } from 'vitest'
 import {
   JsonValueAdapter,
   JsonNodeAdapter,
+  EmbeddedJsonAdapter,
+  createAdapter,
+  parseEmbeddedJson,
 } from '../../../src/lib/integration/adapters'
+import { parsePartial, type LazyNode } from '../../../src/lib/parser/partial'
+import { parse } from '../../../src/lib/parser/parse'
 import type { JsonValue } from '../../../src/lib/integration/types'
 import type {
   JsonNode,
@@ -814,6 +819,37 @@ describe('JsonNodeAdapter', () => {
     })
   })
 
+  describe('Lazy nodes', () => {
+    const json = '{"list": [1, [2, 3]], "obj": {"a": {"b": 1}}}'
+    const lazyEntry = (key: string) =>
+      (parsePartial(json, 1) as ObjectNode).entries.find((e) => e.key.value === key)!
+        .value as unknown as LazyNode
+
+    test('reports lazy containers without parsing them', () => {
+      const list = lazyEntry('list')
+      const meta = adapter.getMetadata(list)
+
+      expect(meta.type).toBe('array')
+      expect(meta.hasChildren).toBe(true)
+      expect(meta.childCount).toBe(2)
+      expect(meta.sourceRange).toEqual({ start: 9, end: 20 })
+      expect(list._cached).toBeUndefined()
+    })
+
+    test('realizes one level when children are read', () => {
+      const obj = lazyEntry('obj')
+      const [child] = Array.from(adapter.getChildren(obj))
+
+      expect(child.key).toBe('a')
+      expect(child.value).toMatchObject({ kind: 'lazy', raw: '{"b": 1}', path: '$.obj.a' })
+      expect(adapter.getChild(obj, 'a')).toBe(child.value)
+    })
+
+    test('createAdapter picks the node adapter for lazy nodes', () => {
+      expect(createAdapter(lazyEntry('list'))).toBeInstanceOf(JsonNodeAdapter)
+    })
+  })
+
   describe('Error handling', () => {
     test('throws error when given JsonValue instead of JsonNode', () => {
       const jsonValue = { a: 1 }
@@ -824,3 +860,67 @@ describe('JsonNodeAdapter', () => {
     })
   })
 })
+
+describe('EmbeddedJsonAdapter', () => {
+  describe('parseEmbeddedJson', () => {
+    test('parses strings holding JSON objects and arrays', () => {
+      const embedded = parseEmbeddedJson(' {"id": 1.50} ')
+
+      expect(embedded).toMatchObject({ input: ' {"id": 1.50} ', label: 'parsed from string' })
+      expect(embedded!.data.kind).toBe('object')
+      expect(parseEmbeddedJson('[1, 2]')!.data.kind).toBe('array')
+    })
+
+    test('ignores other strings', () => {
+      expect(parseEmbeddedJson('hello')).toBeNull()
+      expect(parseEmbeddedJson('42')).toBeNull()
+      expect(parseEmbeddedJson('"quoted"')).toBeNull()
+      expect(parseEmbeddedJson('[object Object]')).toBeNull()
+      expect(parseEmbeddedJson('{}')).toBeNull()
+      expect(parseEmbeddedJson('[]')).toBeNull()
+    })
+
+    test('leaves long strings as text', () => {
+      expect(parseEmbeddedJson(`[${'1,'.repeat(5_000)}1]`)).toBeNull()
+      expect(parseEmbeddedJson(`[${'1,'.repeat(4_000)}1]`)).not.toBeNull()
+    })
+
+    test('parses each string once over a pass of many strings', () => {
+      const texts = Array.from({ length: 2_000 }, (_, i) => `{"id": ${i}}`)
+      const first = texts.map(parseEmbeddedJson)
+
+      texts.forEach((text, i) => expect(parseEmbeddedJson(text)).toBe(first[i]))
+    })
+  })
+
+  test('lists the JSON held in strings as their children', () => {
+    const value = '{"id": 1.50, "tags": ["a"]}'
+    const adapter = createAdapter(value, undefined, { embeddedJson: true })
+    const meta = adapter.getMetadata(value)
+
+    expect(meta).toMatchObject({ type: 'string', displayValue: value, hasChildren: true })
+    expect(meta.childCount).toBe(2)
+
+    const [id] = Array.from(adapter.getChildren(value))
+    expect(id).toMatchObject({ key: 'id', index: 0, input: value })
+    // Raw text comes from the string's text
+    expect(new JsonNodeAdapter(id.input).getMetadata(id.value).rawText).toBe('1.50')
+    expect(adapter.getChild(value, 'tags')).toMatchObject({ kind: 'array' })
+  })
+
+  test('works over ExactJSON nodes', () => {
+    const input = '{"payload": "[true]", "name": "x"}'
+    const { ast } = parse(input)
+    const adapter = new EmbeddedJsonAdapter(new JsonNodeAdapter(input))
+    const [payload, name] = Array.from(adapter.getChildren(ast))
+
+    expect(payload.input).toBeUndefined()
+    expect(adapter.getMetadata(payload.value)).toMatchObject({ hasChildren: true, childCount: 1 })
+    expect(adapter.getMetadata(name.value).hasChildren).toBe(false)
+  })
+
+  test('is only used when asked for', () => {
+    expect(createAdapter('[1]')).toBeInstanceOf(JsonValueAdapter)
+    expect(createAdapter('[1]').getMetadata('[1]').hasChildren).toBe(false)
+  })
+})
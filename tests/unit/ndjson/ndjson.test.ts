@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseJsonLines,
+  readJsonLines,
+  looksLikeJsonLines,
+  flattenJsonLines,
+  lineRootPath,
+} from '../../../src/lib/ndjson/ndjson'
+import { ParseCancelledError } from '../../../src/lib/worker/client'
+
+describe('parseJsonLines', () => {
+  it('parses each line into its own record', () => {
+    const doc = parseJsonLines('{"a":1}\n[2]\n"x"\n')
+
+    expect(doc.records).toBe(3)
+    expect(doc.errors).toBe(0)
+    expect(doc.lines.map((l) => (l.ok ? l.value : null))).toEqual([{ a: 1 }, [2], 'x'])
+  })
+
+  it('numbers lines from 1 and skips blank ones', () => {
+    const doc = parseJsonLines('1\n\n  \n2')
+
+    expect(doc.lines.map((l) => [l.line, l.start, l.text])).toEqual([
+      [1, 0, '1'],
+      [4, 6, '2'],
+    ])
+  })
+
+  it('strips CR from CRLF line breaks', () => {
+    const doc = parseJsonLines('{"a":1}\r\n{"b":2}\r\n')
+
+    expect(doc.lines.map((l) => l.text)).toEqual(['{"a":1}', '{"b":2}'])
+    expect(doc.errors).toBe(0)
+  })
+
+  it('reports bad lines without losing the others', () => {
+    const doc = parseJsonLines('{"a":1}\n{"b":\n{"c":3}')
+    const bad = doc.lines[1]
+
+    expect(doc.records).toBe(2)
+    expect(doc.errors).toBe(1)
+    expect(bad).toMatchObject({ line: 2, text: '{"b":', ok: false })
+    expect(!bad.ok && bad.error).toBeTruthy()
+  })
+
+  it('uses the given line parser', () => {
+    const doc = parseJsonLines('a\nb', (text) => text.toUpperCase())
+
+    expect(doc.lines.map((l) => (l.ok ? l.value : null))).toEqual(['A', 'B'])
+  })
+})
+
+describe('readJsonLines', () => {
+  const input = '{"a":1}\n\nnope\r\n[2]\n"x"'
+
+  it('reads the same records as parseJsonLines, slice by slice', async () => {
+    const progress: number[] = []
+    const doc = await readJsonLines(input, {
+      sliceMs: 0,
+      onProgress: (loaded) => progress.push(loaded),
+    })
+
+    expect(doc).toEqual(parseJsonLines(input))
+    expect(progress.length).toBeGreaterThan(1)
+    expect(progress[progress.length - 1]).toBe(input.length)
+  })
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController()
+    const reading = readJsonLines(input, {
+      sliceMs: 0,
+      signal: controller.signal,
+      yieldToPage: async () => controller.abort(),
+    })
+
+    await expect(reading).rejects.toThrow(ParseCancelledError)
+  })
+})
+
+describe('looksLikeJsonLines', () => {
+  it('accepts several records', () => {
+    expect(looksLikeJsonLines(parseJsonLines('{"a":1}\n{"a":2}\nbad'))).toBe(true)
+  })
+
+  it('rejects a single record', () => {
+    expect(looksLikeJsonLines(parseJsonLines('{"a":1}\n'))).toBe(false)
+  })
+
+  it('rejects a bad first line', () => {
+    expect(looksLikeJsonLines(parseJsonLines('{\n1\n2'))).toBe(false)
+  })
+
+  it('rejects documents that are mostly bad lines', () => {
+    expect(looksLikeJsonLines(parseJsonLines('1\n2\nfoo\nbar'))).toBe(false)
+  })
+})
+
+describe('flattenJsonLines', () => {
+  const doc = parseJsonLines('{"a":1}\nnope\n[1,2]')
+
+  it('shows each record collapsed by default', () => {
+    const rows = flattenJsonLines(doc, { expandedPaths: new Set() })
+
+    expect(rows.map((r) => r.kind)).toEqual(['record', 'error', 'record'])
+    expect(rows.map((r) => r.line.line)).toEqual([1, 2, 3])
+  })
+
+  it('expands records by their root path', () => {
+    const rows = flattenJsonLines(doc, { expandedPaths: new Set([lineRootPath(2)]) })
+    const nodes = rows.flatMap((r) => (r.kind === 'record' ? [r.node] : []))
+
+    expect(nodes.map((n) => n.path)).toEqual(['$[0]', '$[2]', '$[2][0]', '$[2][1]', '$[2]__close'])
+    expect(nodes[nodes.length - 1].type).toBe('array_close')
+    expect(nodes.every((n) => n.key === null)).toBe(true)
+  })
+})
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for parse error diagnosis
+ */
+
+import { describe, test, expect } from 'vitest'
+import { diagnoseParseError, codeFrame, suggestFixes } from '../../../src/lib/parser/diagnose'
+import { LineIndex } from '../../../src/lib/parser/line-index'
+import { parse } from '../../../src/lib/parser/parse'
+
+const failure = (input: string) => {
+  try {
+    parse(input)
+  } catch (error) {
+    return error
+  }
+  throw new Error('Expected a parse error')
+}
+
+const diagnose = (input: string) => diagnoseParseError(input, failure(input))
+const kinds = (input: string) => diagnose(input).suggestions.map((s) => s.kind)
+
+describe('diagnoseParseError', () => {
+  test('reports message, location and path of an ExactJSON error', () => {
+    const input = '{\n  "a": {\n    "b": [1 2]\n  }\n}'
+
+    expect(diagnose(input)).toMatchObject({
+      message: 'Expected comma or ], got number',
+      position: input.indexOf('2]'),
+      line: 3,
+      column: 13,
+      path: '$.a.b',
+    })
+  })
+
+  test('reports tokenizer errors', () => {
+    expect(diagnose('{"a": tru}')).toMatchObject({
+      message: "Expected 'true' but got 'tru}'",
+      line: 1,
+      column: 7,
+      path: null,
+    })
+  })
+
+  test('reads the position of JSON.parse errors', () => {
+    const error = new SyntaxError('Unexpected token } in JSON at position 7')
+
+    expect(diagnoseParseError('{"a": 1}}', error)).toMatchObject({ position: 7, column: 8 })
+  })
+
+  test('keeps the message of errors without a position', () => {
+    expect(diagnoseParseError('x', new Error('Out of memory'))).toEqual({
+      message: 'Out of memory',
+      position: null,
+      line: null,
+      column: null,
+      path: null,
+      frame: [],
+      suggestions: [],
+    })
+  })
+})
+
+describe('codeFrame', () => {
+  test('shows the lines around the error with a caret', () => {
+    const lines = new LineIndex('1\n2\n3\n4 x\n5\n6\n7')
+
+    expect(codeFrame(lines, lines.offsetOf(4, 3))).toEqual([
+      { line: 2, text: '2' },
+      { line: 3, text: '3' },
+      { line: 4, text: '4 x', caret: 3 },
+      { line: 5, text: '5' },
+      { line: 6, text: '6' },
+    ])
+  })
+
+  test('clips long lines around the caret', () => {
+    const input = '[' + '1,'.repeat(100) + 'x' + ',1'.repeat(100) + ']'
+    const [frame] = codeFrame(new LineIndex(input), input.indexOf('x'))
+
+    expect(frame.text.startsWith('…')).toBe(true)
+    expect(frame.text.endsWith('…')).toBe(true)
+    expect(frame.text[frame.caret! - 1]).toBe('x')
+  })
+})
+
+describe('suggestFixes', () => {
+  test('suggests a missing comma', () => {
+    expect(kinds('{"a": 1 "b": 2}')).toEqual(['missing-comma'])
+    expect(kinds('[1 2]')).toEqual(['missing-comma'])
+  })
+
+  test('suggests removing a trailing comma', () => {
+    expect(diagnose('{"a": [1, 2,]}').suggestions).toEqual([
+      { kind: 'trailing-comma', message: 'Remove the comma before ]' },
+    ])
+  })
+
+  test('recognizes trailing commas reported at the bracket', () => {
+    expect(suggestFixes('{"a": 1, }', 9, 'Unexpected token')).toEqual([
+      { kind: 'trailing-comma', message: 'Remove the comma before }' },
+    ])
+  })
+
+  test('suggests quoting keys', () => {
+    expect(diagnose('{name: "Ann"}').suggestions).toEqual([
+      { kind: 'unquoted-key', message: 'Put the key in double quotes: "name"' },
+    ])
+  })
+
+  test('suggests straight quotes', () => {
+    expect(kinds('{"a": “x”}')).toEqual(['smart-quotes'])
+  })
+
+  test('has nothing to suggest for other errors', () => {
+    expect(kinds('{"a": tru}')).toEqual([])
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, test, expect } from 'vitest'
+import { findDuplicateKeys } from '../../../src/lib/parser/duplicates'
+import { parse } from '../../../src/lib/parser/parse'
+import { streamDocument } from '../../../src/lib/stream'
+
+function duplicatesIn(input: string) {
+  return findDuplicateKeys(parse(input).ast, input)
+}
+
+describe('findDuplicateKeys', () => {
+  test('finds nothing when keys are unique', () => {
+    expect(duplicatesIn('{"a": 1, "b": {"a": 2}, "c": [{"a": 3}, {"a": 4}]}')).toEqual([])
+  })
+
+  test('reports every occurrence as a validation error', () => {
+    const input = '{\n  "id": 1,\n  "name": "x",\n  "id": 2\n}'
+
+    expect(duplicatesIn(input)).toEqual([
+      {
+        message: 'Duplicate key "id"',
+        position: 4,
+        line: 2,
+        column: 3,
+        path: '$.id',
+        type: 'validation',
+        recovery: 'JSON.parse uses a later value',
+      },
+      {
+        message: 'Duplicate key "id"',
+        position: 30,
+        line: 4,
+        column: 3,
+        path: '$.id',
+        type: 'validation',
+        recovery: 'JSON.parse uses this value',
+      },
+    ])
+  })
+
+  test('says the last occurrence is the one JSON.parse uses', () => {
+    const errors = duplicatesIn('{"a": 1, "a": 2, "a": 3}')
+
+    expect(errors.map((e) => e.recovery)).toEqual([
+      'JSON.parse uses a later value',
+      'JSON.parse uses a later value',
+      'JSON.parse uses this value',
+    ])
+    expect(JSON.parse('{"a": 1, "a": 2, "a": 3}').a).toBe(3)
+  })
+
+  test('finds duplicates in nested objects, in document order', () => {
+    const errors = duplicatesIn('{"list": [{"k": 1, "k": 2}], "x": {"y": 1, "y": 2}, "list": 0}')
+
+    expect(errors.map((e) => e.path)).toEqual([
+      '$.list',
+      '$.list[0].k',
+      '$.list[0].k',
+      '$.x.y',
+      '$.x.y',
+      '$.list',
+    ])
+  })
+
+  test('skips containers of a streamed document that are not parsed yet', async () => {
+    const input = '{"a": {"b": 1, "b": 2}, "c": 1, "c": 2}'
+    const root = await streamDocument(input, { yieldToPage: async () => {} })
+
+    expect(findDuplicateKeys(root, input).map((e) => e.path)).toEqual(['$.c', '$.c'])
+  })
+})
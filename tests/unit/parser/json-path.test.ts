@@ -0,0 +1,155 @@
+/**
+ * Unit tests for the shared JSON path model
+ */
+
+import { describe, test, expect } from 'vitest'
+import {
+  keySegment,
+  childPath,
+  parentPath,
+  parsePath,
+  formatPath,
+  formatNormalizedPath,
+  formatJsonPointer,
+  parseJsonPointer,
+  pathToJsonPointer,
+} from '../../../src/lib/parser/json-path'
+
+describe('JSON Path Model', () => {
+  describe('keySegment', () => {
+    test('uses dot shorthand for identifier-like names', () => {
+      expect(keySegment('name')).toBe('.name')
+      expect(keySegment('_id2')).toBe('._id2')
+      expect(keySegment('ünïcode')).toBe('.ünïcode')
+    })
+
+    test('bracket-quotes names that are not valid shorthand', () => {
+      expect(keySegment('a.b')).toBe("['a.b']")
+      expect(keySegment('x[0]')).toBe("['x[0]']")
+      expect(keySegment('0')).toBe("['0']")
+      expect(keySegment('')).toBe("['']")
+      expect(keySegment('first name')).toBe("['first name']")
+      expect(keySegment('$ref')).toBe("['$ref']")
+    })
+
+    test('escapes quotes, backslashes and control characters', () => {
+      expect(keySegment("it's")).toBe("['it\\'s']")
+      expect(keySegment('a\\b')).toBe("['a\\\\b']")
+      expect(keySegment('line\nbreak')).toBe("['line\\nbreak']")
+      expect(keySegment('\u0001')).toBe("['\\u0001']")
+      expect(keySegment('say "hi"')).toBe(`['say "hi"']`)
+    })
+  })
+
+  describe('childPath', () => {
+    test('builds object member and array element paths', () => {
+      expect(childPath('$', 'users', 0)).toBe('$.users')
+      expect(childPath('$.users', null, 3)).toBe('$.users[3]')
+    })
+
+    test('keys that look like path syntax do not collide', () => {
+      const dotted = childPath('$', 'a.b', 0)
+      const nested = childPath(childPath('$', 'a', 0), 'b', 0)
+      expect(dotted).not.toBe(nested)
+
+      const bracketed = childPath('$', 'x[0]', 0)
+      const indexed = childPath(childPath('$', 'x', 0), null, 0)
+      expect(bracketed).not.toBe(indexed)
+    })
+  })
+
+  describe('parsePath', () => {
+    test('parses dot shorthand and indices', () => {
+      expect(parsePath('$.users[0].name')).toEqual([
+        { type: 'root' },
+        { type: 'property', name: 'users' },
+        { type: 'index', index: 0 },
+        { type: 'property', name: 'name' },
+      ])
+    })
+
+    test('parses single- and double-quoted member names', () => {
+      expect(parsePath(`$['a.b']["x[0]"]`)).toEqual([
+        { type: 'root' },
+        { type: 'property', name: 'a.b' },
+        { type: 'property', name: 'x[0]' },
+      ])
+    })
+
+    test('unescapes quoted member names', () => {
+      expect(parsePath("$['it\\'s']")[1]).toEqual({ type: 'property', name: "it's" })
+      expect(parsePath("$['\\u00e9\\n']")[1]).toEqual({ type: 'property', name: 'é\n' })
+      expect(parsePath("$['a]b']")[1]).toEqual({ type: 'property', name: 'a]b' })
+    })
+
+    test('throws on malformed quoted names', () => {
+      expect(() => parsePath("$['abc")).toThrow('Unterminated string')
+      expect(() => parsePath("$['abc'")).toThrow('Unclosed bracket')
+      expect(() => parsePath("$['\\q']")).toThrow('Invalid escape')
+      expect(() => parsePath("$['\\u12']")).toThrow('Invalid unicode escape')
+    })
+
+    test('rejects negative and non-numeric indices', () => {
+      expect(() => parsePath('$[-1]')).toThrow('Invalid array index')
+      expect(() => parsePath('$[1x]')).toThrow('Invalid array index')
+    })
+  })
+
+  describe('round-trips', () => {
+    const names = ['plain', 'a.b', 'x[0]', "it's", 'back\\slash', 'tab\there', '', '0', '日本']
+
+    test('formatPath and parsePath round-trip every key', () => {
+      for (const name of names) {
+        const segments = parsePath(childPath('$.root', name, 0))
+        expect(segments[2]).toEqual({ type: 'property', name })
+        expect(formatPath(segments)).toBe(childPath('$.root', name, 0))
+      }
+    })
+
+    test('normalized paths round-trip', () => {
+      const segments = parsePath("$.a['b.c'][2]")
+      const normalized = formatNormalizedPath(segments)
+
+      expect(normalized).toBe("$['a']['b.c'][2]")
+      expect(parsePath(normalized)).toEqual(segments)
+    })
+
+    test('JSON Pointers round-trip', () => {
+      const tokens = ['a/b', 'm~n', '', '0']
+      const pointer = formatJsonPointer(tokens)
+
+      expect(pointer).toBe('/a~1b/m~0n//0')
+      expect(parseJsonPointer(pointer)).toEqual(tokens)
+    })
+  })
+
+  describe('parentPath', () => {
+    test('returns the enclosing path', () => {
+      expect(parentPath('$.a.b')).toBe('$.a')
+      expect(parentPath("$['a.b'][0]")).toBe("$['a.b']")
+      expect(parentPath("$.x['y.z']")).toBe('$.x')
+    })
+
+    test('returns null for the root', () => {
+      expect(parentPath('$')).toBeNull()
+    })
+  })
+
+  describe('JSON Pointer', () => {
+    test('root is the empty pointer', () => {
+      expect(formatJsonPointer([])).toBe('')
+      expect(parseJsonPointer('')).toEqual([])
+      expect(pathToJsonPointer('$')).toBe('')
+    })
+
+    test('converts paths to pointers', () => {
+      expect(pathToJsonPointer('$.users[0].name')).toBe('/users/0/name')
+      expect(pathToJsonPointer("$['a/b']['~']")).toBe('/a~1b/~0')
+    })
+
+    test('rejects malformed pointers', () => {
+      expect(() => parseJsonPointer('a/b')).toThrow('must be empty or start with /')
+      expect(() => parseJsonPointer('/a~2')).toThrow('Invalid escape')
+    })
+  })
+})
@@ -0,0 +1,224 @@
+/**
+ * Unit tests for JSONC and JSON5 input
+ */
+
+import { describe, test, expect } from 'vitest'
+import { tokenize } from '../../../src/lib/parser/tokenizer'
+import { tokenizeOptimized, TokenizerOptimized } from '../../../src/lib/parser/tokenizer-optimized'
+import { TokenizerError } from '../../../src/lib/parser/tokens'
+import type { TokenizerOptions } from '../../../src/lib/parser/tokens'
+import { parse } from '../../../src/lib/parser/parse'
+import { ParseError } from '../../../src/lib/parser/events'
+import type {
+  ObjectNode,
+  ArrayNode,
+  NumberNode,
+  StringNode,
+} from '../../../src/lib/parser/types'
+
+const tokenizers = [
+  ['Tokenizer', tokenize],
+  ['TokenizerOptimized', tokenizeOptimized],
+] as const
+
+describe.each(tokenizers)('%s syntax options', (_name, tokenizeWith) => {
+  const tokens = (input: string, options: TokenizerOptions) =>
+    Array.from(tokenizeWith(input, options))
+
+  test('rejects comments in plain JSON', () => {
+    expect(() => tokens('// x\n1', {})).toThrow(TokenizerError)
+  })
+
+  test('skips comments in JSONC', () => {
+    const result = tokens('// line\n[1, /* block\n */ 2]', { syntax: 'jsonc' })
+
+    expect(result.map((t) => t.type)).toEqual([
+      'lbracket',
+      'number',
+      'comma',
+      'number',
+      'rbracket',
+      'eof',
+    ])
+  })
+
+  test('reports an unterminated block comment', () => {
+    expect(() => tokens('[1 /* oops', { syntax: 'jsonc' })).toThrow('Unterminated comment')
+  })
+
+  test('reports a lone slash', () => {
+    expect(() => tokens('[1 / 2]', { syntax: 'jsonc' })).toThrow("Unexpected character '/'")
+  })
+
+  test('keeps JSON5 additions out of JSONC', () => {
+    expect(() => tokens("'a'", { syntax: 'jsonc' })).toThrow(TokenizerError)
+    expect(() => tokens('{a: 1}', { syntax: 'jsonc' })).toThrow(TokenizerError)
+  })
+
+  test('tokenizes single-quoted strings with JSON5 escapes', () => {
+    const [token] = tokens("'it\\'s \"x\" \\x41\\v\\0 a\\\nb \\q'", { syntax: 'json5' })
+
+    expect(token).toMatchObject({ type: 'string', value: 'it\'s "x" A\v\0 ab q' })
+  })
+
+  test('rejects \\1 to \\9 escapes', () => {
+    expect(() => tokens("'\\1'", { syntax: 'json5' })).toThrow('Invalid escape sequence')
+  })
+
+  test('tokenizes identifiers and keywords', () => {
+    const result = tokens('$key _x2 true null Infinity NaN', { syntax: 'json5' })
+
+    expect(result.slice(0, 6)).toEqual([
+      { type: 'identifier', value: '$key', start: 0, end: 4 },
+      { type: 'identifier', value: '_x2', start: 5, end: 8 },
+      { type: 'true', start: 9, end: 13 },
+      { type: 'null', start: 14, end: 18 },
+      { type: 'number', raw: 'Infinity', start: 19, end: 27 },
+      { type: 'number', raw: 'NaN', start: 28, end: 31 },
+    ])
+  })
+
+  test.each(['0x1F', '-0xff', '+1', '.5', '5.', '-.5e3', '+Infinity', '-NaN', '0', '1.5E-2'])(
+    'tokenizes the JSON5 number %s',
+    (raw) => {
+      expect(tokens(raw, { syntax: 'json5' })[0]).toEqual({
+        type: 'number',
+        raw,
+        start: 0,
+        end: raw.length,
+      })
+    }
+  )
+
+  test.each(['0x', '.', '+', '01', '1e'])('rejects the JSON5 number %s', (raw) => {
+    expect(() => tokens(raw, { syntax: 'json5' })).toThrow(TokenizerError)
+  })
+
+  test('skips JSON5 whitespace', () => {
+    const result = tokens('\uFEFF\u00A0\v1', { syntax: 'json5' })
+
+    expect(result[0]).toMatchObject({ type: 'number', raw: '1' })
+  })
+})
+
+describe('TokenizerOptimized comments', () => {
+  test('collects comments with their text and range', () => {
+    const tokenizer = new TokenizerOptimized('/* a */ 1 // b', { syntax: 'jsonc' })
+    Array.from(tokenizer.tokenize())
+
+    expect(tokenizer.getComments()).toEqual([
+      { style: 'block', text: ' a ', start: 0, end: 7 },
+      { style: 'line', text: ' b', start: 10, end: 14 },
+    ])
+  })
+
+  test('tracks lines across block comments', () => {
+    try {
+      Array.from(tokenizeOptimized('/*\n\n*/ @', { syntax: 'jsonc' }))
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toMatchObject({ line: 3, column: 4 })
+    }
+  })
+})
+
+describe('parse with syntax option', () => {
+  const tsconfig = `{
+  // Compiler settings
+  "compilerOptions": {
+    "strict": true, // keep on
+    /* Output */
+    "outDir": "dist",
+  },
+  "include": ["src",], /* sources */
+}
+// end of file`
+
+  test('parses JSONC with comments and trailing commas', () => {
+    const { ast } = parse(tsconfig, { syntax: 'jsonc' })
+    const root = ast as ObjectNode
+
+    expect(root.entries.map((e) => e.key.value)).toEqual(['compilerOptions', 'include'])
+    expect((root.entries[1].value as ArrayNode).items).toHaveLength(1)
+  })
+
+  test('attaches comments to the nodes', () => {
+    const { ast, comments } = parse(tsconfig, { syntax: 'jsonc' })
+    const root = ast as ObjectNode
+    const compilerOptions = root.entries[0].value as ObjectNode
+    const [strict, outDir] = compilerOptions.entries
+
+    expect(comments).toHaveLength(5)
+    expect(compilerOptions.leadingComments?.map((c) => c.text)).toEqual([' Compiler settings'])
+    expect(strict.value.trailingComments?.map((c) => c.text)).toEqual([' keep on'])
+    expect(outDir.value.leadingComments).toMatchObject([{ style: 'block', text: ' Output ' }])
+    expect(root.entries[1].value.trailingComments?.map((c) => c.text)).toEqual([' sources '])
+    expect(root.trailingComments?.map((c) => c.text)).toEqual([' end of file'])
+  })
+
+  test('keeps comments before a closing bracket as inner comments', () => {
+    const { ast } = parse('[\n  1,\n  // 2,\n]', { syntax: 'jsonc' })
+    const array = ast as ArrayNode
+
+    expect(array.items[0].trailingComments).toBeUndefined()
+    expect(array.innerComments?.map((c) => c.text)).toEqual([' 2,'])
+  })
+
+  test('does not attach comments in plain JSON', () => {
+    const { ast, comments } = parse('{"a": [1]}')
+
+    expect(comments).toBeUndefined()
+    expect(ast).not.toHaveProperty('leadingComments')
+    expect((ast as ObjectNode).entries[0].value).not.toHaveProperty('innerComments')
+  })
+
+  test('accepts trailing commas without recording errors', () => {
+    const result = parse('{"a": [1,],}', { syntax: 'jsonc', tolerant: true })
+
+    expect(result.errors).toBeUndefined()
+  })
+
+  test('still rejects trailing commas in plain JSON', () => {
+    expect(() => parse('[1,]')).toThrow(ParseError)
+  })
+
+  test('parses JSON5', () => {
+    const input = `{
+  unquoted: 'single',
+  null: .5,
+  hex: 0xFF,
+  big: 0x20000000000001,
+  inf: -Infinity,
+  nan: NaN,
+  plus: +1,
+}`
+    const { ast } = parse(input, { syntax: 'json5', numberMode: 'bigint' })
+    const entries = (ast as ObjectNode).entries
+    const value = (key: string) => entries.find((e) => e.key.value === key)!.value
+
+    expect(entries.map((e) => e.key.value)).toEqual([
+      'unquoted',
+      'null',
+      'hex',
+      'big',
+      'inf',
+      'nan',
+      'plus',
+    ])
+    expect((value('unquoted') as StringNode).value).toBe('single')
+    expect((value('null') as NumberNode).value).toBe(0.5)
+    expect((value('hex') as NumberNode).bigInt).toBe(255n)
+    expect((value('big') as NumberNode).bigInt).toBe(9007199254740993n)
+    expect((value('inf') as NumberNode).value).toBe(-Infinity)
+    expect((value('nan') as NumberNode).value).toBeNaN()
+    expect((value('plus') as NumberNode).bigInt).toBe(1n)
+  })
+
+  test('rejects identifiers as values', () => {
+    expect(() => parse('{a: b}', { syntax: 'json5' })).toThrow('Unexpected token: identifier')
+  })
+
+  test('rejects unquoted keys in JSONC', () => {
+    expect(() => parse('{a: 1}', { syntax: 'jsonc' })).toThrow()
+  })
+})
@@ -0,0 +1,64 @@
+/**
+ * Unit tests for the line index
+ */
+
+import { describe, test, expect } from 'vitest'
+import { LineIndex } from '../../../src/lib/parser/line-index'
+
+describe('LineIndex', () => {
+  const input = '{\n  "a": 1,\r\n  "b": 2\n}'
+  const lines = new LineIndex(input)
+
+  test('counts lines', () => {
+    expect(lines.lineCount).toBe(4)
+    expect(new LineIndex('').lineCount).toBe(1)
+    expect(new LineIndex('1\n').lineCount).toBe(2)
+  })
+
+  test('locates offsets (1-based)', () => {
+    expect(lines.locate(0)).toEqual({ line: 1, column: 1 })
+    expect(lines.locate(input.indexOf('"a"'))).toEqual({ line: 2, column: 3 })
+    expect(lines.locate(input.indexOf('"b"'))).toEqual({ line: 3, column: 3 })
+    expect(lines.locate(input.length - 1)).toEqual({ line: 4, column: 1 })
+  })
+
+  test('places a line break on the line it ends', () => {
+    expect(lines.locate(1)).toEqual({ line: 1, column: 2 })
+  })
+
+  test('clamps offsets past the end', () => {
+    expect(lines.locate(1000)).toEqual({ line: 4, column: 2 })
+    expect(lines.locate(-5)).toEqual({ line: 1, column: 1 })
+  })
+
+  test('returns line text without the line break', () => {
+    expect(lines.lineText(2)).toBe('  "a": 1,')
+    expect(lines.lineText(3)).toBe('  "b": 2')
+    expect(lines.lineText(4)).toBe('}')
+  })
+
+  test('converts line and column back to an offset', () => {
+    expect(lines.offsetOf(3, 3)).toBe(input.indexOf('"b"'))
+    expect(lines.offsetOf(2)).toBe(2)
+    // Columns past the end stay on the line
+    expect(lines.offsetOf(1, 50)).toBe(1)
+  })
+
+  test('rejects lines out of range', () => {
+    expect(() => lines.lineStart(0)).toThrow(RangeError)
+    expect(() => lines.lineEnd(5)).toThrow(RangeError)
+  })
+
+  test('matches counting line breaks at every offset', () => {
+    const text = 'ab\ncd\n\nef'
+    const index = new LineIndex(text)
+
+    for (let offset = 0; offset < text.length; offset++) {
+      const before = text.slice(0, offset).split('\n')
+      expect(index.locate(offset)).toEqual({
+        line: before.length,
+        column: before[before.length - 1].length + 1,
+      })
+    }
+  })
+})
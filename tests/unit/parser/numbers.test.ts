@@ -10,6 +10,7 @@ import {
   formatNumber,
   getNumericValue,
   numbersEqual,
+  canonicalNumber,
   NUMBER_CONSTANTS,
   type ParsedNumber,
   type NumberMode,
@@ -202,6 +203,28 @@ describe('Number parsing', () => {
     })
   })
 
+  describe('parseNumber - JSON5 hexadecimal', () => {
+    test('parses hex integers in native mode', () => {
+      expect(parseNumber('0x1F', 'native')).toEqual({ raw: '0x1F', value: 31 })
+      expect(parseNumber('-0xff', 'native').value).toBe(-255)
+      expect(parseNumber('+0XA', 'native').value).toBe(10)
+    })
+
+    test('keeps large hex integers exact in bigint mode', () => {
+      const result = parseNumber('0x20000000000001', 'bigint')
+      expect(result.bigInt).toBe(9007199254740993n)
+      expect(result.value).toBeUndefined()
+    })
+
+    test('stores the base 10 value in decimal mode', () => {
+      expect(parseNumber('0x1E', 'decimal')).toEqual({ raw: '0x1E', value: 30, decimal: '30' })
+    })
+
+    test('only stores raw string in string mode', () => {
+      expect(parseNumber('0x1F', 'string')).toEqual({ raw: '0x1F' })
+    })
+  })
+
   describe('isSafeInteger', () => {
     test('returns true for small integers', () => {
       expect(isSafeInteger('0')).toBe(true)
@@ -361,6 +384,23 @@ describe('Number parsing', () => {
     })
   })
 
+  describe('canonicalNumber', () => {
+    test('gives every spelling of a value the same form', () => {
+      const forms = ['1.50', '1.5', '15e-1', '0.015E2', '+1.5', '.15e1', '15.e-1']
+      expect(new Set(forms.map(canonicalNumber))).toEqual(new Set(['15e-1']))
+      expect(canonicalNumber('0x10')).toBe(canonicalNumber('16'))
+      expect(canonicalNumber('-0.0')).toBe(canonicalNumber('0'))
+    })
+
+    test('keeps digits beyond double precision', () => {
+      expect(canonicalNumber('12345678901234567890')).not.toBe(
+        canonicalNumber('12345678901234567891')
+      )
+      expect(canonicalNumber('0.1000000000000000001')).not.toBe(canonicalNumber('0.1'))
+      expect(canonicalNumber('-1200')).toBe('-12e2')
+    })
+  })
+
   describe('NUMBER_CONSTANTS', () => {
     test('has correct MAX_SAFE_INTEGER', () => {
       expect(NUMBER_CONSTANTS.MAX_SAFE_INTEGER).toBe(9007199254740991)
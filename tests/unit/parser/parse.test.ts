@@ -4,6 +4,7 @@
 
 import { describe, test, expect } from 'vitest'
 import { parse } from '../../../src/lib/parser/parse'
+import { parseDirect } from '../../../src/lib/parser/parse-direct'
 import { ParseError } from '../../../src/lib/parser/events'
 import type { ObjectNode, ArrayNode } from '../../../src/lib/parser/types'
 
@@ -305,6 +306,13 @@ describe('parse', () => {
     test('throws on extra data', () => {
       expect(() => parse('42 "extra"')).toThrow(ParseError)
     })
+
+    test('reports the path and reason of the error', () => {
+      expect(() => parse('{"a": {"b": [1, 2 3]}}')).toThrow(
+        expect.objectContaining({ path: '$.a.b', reason: 'Expected comma or ], got number' })
+      )
+      expect(() => parse('{"a": [1, }]}')).toThrow(expect.objectContaining({ path: '$.a[1]' }))
+    })
   })
 
   describe('Real-world JSON', () => {
@@ -363,3 +371,24 @@ describe('parse', () => {
     })
   })
 })
+
+describe('parseDirect progress', () => {
+  test('reports the offset reached while tokenizing', () => {
+    const input = JSON.stringify(Array.from({ length: 50000 }, (_, i) => i))
+    const offsets: number[] = []
+
+    parseDirect(input, {}, (offset) => offsets.push(offset))
+
+    expect(offsets.length).toBeGreaterThan(2)
+    expect(offsets).toEqual([...offsets].sort((a, b) => a - b))
+    expect(offsets[offsets.length - 1]).toBeLessThanOrEqual(input.length)
+  })
+
+  test('does not report for small documents', () => {
+    const offsets: number[] = []
+
+    parseDirect('[1, 2, 3]', {}, (offset) => offsets.push(offset))
+
+    expect(offsets).toEqual([])
+  })
+})
@@ -10,8 +10,11 @@ import {
   isLazyNode,
   realizeLazyNode,
   parsePartial,
+  lazyNodeKind,
+  PartialTreeBuilder,
 } from '../../../src/lib/parser/partial'
 import { parse } from '../../../src/lib/parser/parse'
+import { ParseError } from '../../../src/lib/parser/events'
 import type { ObjectNode, ArrayNode, LazyNode } from '../../../src/lib/parser/partial'
 
 describe('Partial Parsing', () => {
@@ -85,6 +88,16 @@ describe('Partial Parsing', () => {
   })
 
   describe('navigateToPath', () => {
+    test('navigates keys containing dots and brackets', () => {
+      const json = '{"a.b": {"x[0]": 1}, "a": {"b": 2}}'
+      const { ast: root } = parse(json)
+
+      const node = navigateToPath(root, "$['a.b']['x[0]']")
+      expect(node?.kind).toBe('number')
+      expect((node as any).value).toBe(1)
+      expect((navigateToPath(root, '$.a.b') as any).value).toBe(2)
+    })
+
     test('navigates to root', () => {
       const json = '{"name":"Alice"}'
       const { ast: root } = parse(json)
@@ -330,6 +343,82 @@ describe('Partial Parsing', () => {
     })
   })
 
+  describe('lazy containers', () => {
+    const json = '{"a": {"b": [1, {"c": 2}]}, "d": [3, 4]}'
+
+    test('leaves containers below maxDepth lazy', () => {
+      const root = parsePartial(json, 1) as ObjectNode
+      const [a, d] = root.entries.map((e) => e.value as unknown as LazyNode)
+
+      expect(a).toMatchObject({ kind: 'lazy', raw: '{"b": [1, {"c": 2}]}', path: '$.a' })
+      expect(a.childCount).toBe(1)
+      expect(lazyNodeKind(a)).toBe('object')
+      expect(d).toMatchObject({ raw: '[3, 4]', start: 33, end: 39, childCount: 2 })
+      expect(lazyNodeKind(d)).toBe('array')
+    })
+
+    test('counts only direct children', () => {
+      const root = parsePartial('[[1, [2, 3], {"x": 4}]]', 1) as ArrayNode
+      const lazy = root.items[0] as unknown as LazyNode
+
+      expect(lazy.childCount).toBe(3)
+    })
+
+    test('realizes with offsets in the original JSON', () => {
+      const root = parsePartial(json, 1) as ObjectNode
+      const a = realizeLazyNode(root.entries[0].value as unknown as LazyNode) as ObjectNode
+
+      expect(a.start).toBe(6)
+      expect(a.entries[0].key).toMatchObject({ value: 'b', start: 7, end: 10 })
+      expect(a.entries[0].value.start).toBe(12)
+    })
+
+    test('realizes one level at a time', () => {
+      const root = parsePartial(json, 1) as ObjectNode
+      const a = realizeLazyNode(root.entries[0].value as unknown as LazyNode, {}, 1) as ObjectNode
+      const b = a.entries[0].value as unknown as LazyNode
+
+      expect(b).toMatchObject({ kind: 'lazy', raw: '[1, {"c": 2}]', path: '$.a.b', start: 12 })
+      expect(b.childCount).toBe(2)
+    })
+
+    test('keeps the parser options on lazy nodes', () => {
+      const root = parsePartial('[[9007199254740993]]', 1, { numberMode: 'bigint' }) as ArrayNode
+      const inner = realizeLazyNode(root.items[0] as unknown as LazyNode) as ArrayNode
+
+      expect(inner.items[0].bigInt).toBe(9007199254740993n)
+    })
+  })
+
+  describe('PartialTreeBuilder', () => {
+    test('exposes the tree read so far between steps', () => {
+      const builder = new PartialTreeBuilder('[1, 2, 3]', 1)
+
+      expect(builder.root).toBeNull()
+      builder.step(2)
+      expect((builder.root as ArrayNode).items).toHaveLength(1)
+      expect(builder.step()).toBe(true)
+      expect((builder.root as ArrayNode).items).toHaveLength(3)
+      expect(builder.position).toBe(9)
+    })
+
+    test('adds lazy containers once they close', () => {
+      const builder = new PartialTreeBuilder('[[1, 2], 3]', 1)
+
+      builder.step(3)
+      expect((builder.root as ArrayNode).items).toHaveLength(0)
+      builder.step(2)
+      expect((builder.root as ArrayNode).items).toHaveLength(1)
+    })
+
+    test('keeps what was read before a syntax error', () => {
+      const builder = new PartialTreeBuilder('[1, 2 3]', 1)
+
+      expect(() => builder.step()).toThrow(ParseError)
+      expect((builder.root as ArrayNode).items).toHaveLength(2)
+    })
+  })
+
   describe('Integration', () => {
     test('can navigate and then realize lazy nodes', () => {
       const json = '{"data":{"users":[{"name":"Alice"}]}}'
@@ -298,6 +298,38 @@ describe('PullParser', () => {
     })
   })
 
+  describe('Offsets', () => {
+    test('reports container and key offsets', () => {
+      const events = Array.from(new PullParser('{"a": [1, 2]}').events())
+
+      expect(events[0]).toMatchObject({ type: 'startObject', start: 0 })
+      expect(events[1]).toMatchObject({ type: 'key', value: 'a', start: 1, end: 4 })
+      expect(events[2]).toMatchObject({ type: 'startArray', start: 6 })
+      expect(events[5]).toMatchObject({ type: 'endArray', end: 12 })
+      expect(events[6]).toMatchObject({ type: 'endObject', end: 13 })
+    })
+
+    test('position advances as events are read', () => {
+      const parser = new PullParser('[1, 2, 3]')
+      const events = parser.events()
+      const positions: number[] = []
+
+      while (!events.next().done) positions.push(parser.position)
+
+      expect(positions[0]).toBeLessThan(positions[positions.length - 1])
+      expect(positions[positions.length - 1]).toBe(9)
+    })
+
+    test('yields the events before a syntax error', () => {
+      const events: ParserEvent[] = []
+
+      expect(() => {
+        for (const event of new PullParser('[1, 2 3]').events()) events.push(event)
+      }).toThrow()
+      expect(events.map((e) => e.type)).toEqual(['startArray', 'value', 'value'])
+    })
+  })
+
   describe('Factory function', () => {
     test('createPullParser creates parser instance', () => {
       const parser = createPullParser('42')
@@ -0,0 +1,77 @@
+/**
+ * Unit tests for mapping between AST nodes and source text
+ */
+
+import { describe, test, expect } from 'vitest'
+import { sourceRangeAtPath, pathAtOffset } from '../../../src/lib/parser/source-map'
+import { parse } from '../../../src/lib/parser/parse'
+import { parsePartial } from '../../../src/lib/parser/partial'
+
+const input = '{"user": {"name": "Ann", "tags": ["a", "b"]}, "a.b": [1, {"x": null}]}'
+const { ast } = parse(input)
+const text = (range: { start: number; end: number } | undefined) =>
+  range && input.slice(range.start, range.end)
+
+describe('sourceRangeAtPath', () => {
+  test('covers the whole document at the root', () => {
+    expect(text(sourceRangeAtPath(ast, '$'))).toBe(input)
+  })
+
+  test('includes the key of object members', () => {
+    expect(text(sourceRangeAtPath(ast, '$.user.name'))).toBe('"name": "Ann"')
+    expect(text(sourceRangeAtPath(ast, "$['a.b'][1].x"))).toBe('"x": null')
+  })
+
+  test('covers array items', () => {
+    expect(text(sourceRangeAtPath(ast, '$.user.tags[1]'))).toBe('"b"')
+  })
+
+  test('returns undefined for missing paths', () => {
+    expect(sourceRangeAtPath(ast, '$.nope')).toBeUndefined()
+    expect(sourceRangeAtPath(ast, '$.user.tags[5]')).toBeUndefined()
+    expect(sourceRangeAtPath(ast, '$.user[0]')).toBeUndefined()
+  })
+
+  test('realizes lazy nodes on the way', () => {
+    const partial = parsePartial(input, 1)
+
+    expect(text(sourceRangeAtPath(partial, '$.user.tags[0]'))).toBe('"a"')
+  })
+})
+
+describe('pathAtOffset', () => {
+  const at = (needle: string, delta = 0) => pathAtOffset(ast, input.indexOf(needle) + delta)
+
+  test('finds the innermost node', () => {
+    expect(at('"Ann"')).toBe('$.user.name')
+    expect(at('"b"]')).toBe('$.user.tags[1]')
+    expect(at('null')).toBe("$['a.b'][1].x")
+  })
+
+  test('maps keys to their member', () => {
+    expect(at('"tags"')).toBe('$.user.tags')
+    expect(at('"a.b"', 2)).toBe("$['a.b']")
+  })
+
+  test('maps punctuation between children to the container', () => {
+    expect(at(', "tags"')).toBe('$.user')
+    expect(at('[1,', 0)).toBe("$['a.b']")
+  })
+
+  test('returns null outside the root value', () => {
+    expect(pathAtOffset(parse('  [1]  ').ast, 0)).toBeNull()
+    expect(pathAtOffset(ast, input.length)).toBeNull()
+  })
+
+  test('realizes lazy nodes on the way', () => {
+    const partial = parsePartial(input, 1)
+
+    expect(pathAtOffset(partial, input.indexOf('null'))).toBe("$['a.b'][1].x")
+  })
+
+  test('round-trips with sourceRangeAtPath', () => {
+    for (const path of ['$.user.tags[0]', '$.user.name', "$['a.b'][0]"]) {
+      expect(pathAtOffset(ast, sourceRangeAtPath(ast, path)!.start)).toBe(path)
+    }
+  })
+})
@@ -265,4 +265,73 @@ describe('Error Tolerance and Recovery', () => {
       expect(result.errors!.length).toBe(1)
     })
   })
+
+  describe('Unexpected end of input', () => {
+    test('closes containers left open in tolerant mode', () => {
+      const result = parse('{"a": [1, 2', { tolerant: true })
+      const obj = result.ast as ObjectNode
+
+      expect((obj.entries[0].value as ArrayNode).items).toHaveLength(2)
+      expect(result.errors!.map((e) => e.recovery)).toEqual([
+        'Closed unterminated array',
+        'Closed unterminated object',
+      ])
+    })
+
+    test('closes containers ending in a comma', () => {
+      const result = parse('[1, {"a": 1,', { tolerant: true })
+
+      expect((result.ast as ArrayNode).items).toHaveLength(2)
+      expect(result.errors!.map((e) => e.message)).toEqual([
+        'Unexpected end of input, expected }',
+        'Unexpected end of input, expected ]',
+      ])
+    })
+  })
+
+  describe('Missing values', () => {
+    test('rejects a missing value (strict mode)', () => {
+      expect(() => parse('{"a": }')).toThrow(ParseError)
+    })
+
+    test('inserts null for a missing member value in tolerant mode', () => {
+      const result = parse('{"a": , "b": 2}', { tolerant: true })
+      const obj = result.ast as ObjectNode
+
+      expect(obj.entries.map((e) => e.value.kind)).toEqual(['null', 'number'])
+      expect(result.errors).toEqual([
+        expect.objectContaining({
+          message: 'Expected value, got comma',
+          path: '$.a',
+          recovery: 'Inserted null for missing value',
+        }),
+      ])
+    })
+
+    test('inserts null between two commas in tolerant mode', () => {
+      const result = parse('[1,,2]', { tolerant: true })
+
+      expect((result.ast as ArrayNode).items.map((item) => item.kind)).toEqual([
+        'number',
+        'null',
+        'number',
+      ])
+      expect(result.errors![0].path).toBe('$[1]')
+    })
+
+    test('still rejects an empty document in tolerant mode', () => {
+      expect(() => parse('', { tolerant: true })).toThrow(/Unexpected token: eof/)
+    })
+  })
+
+  describe('Error locations', () => {
+    test('reports the line and column of each error', () => {
+      const result = parse('{\n  "a": 1,\n  "b": [2,],\n}', { tolerant: true })
+
+      expect(result.errors!.map(({ line, column }) => ({ line, column }))).toEqual([
+        { line: 3, column: 10 },
+        { line: 3, column: 12 },
+      ])
+    })
+  })
 })
@@ -196,9 +196,9 @@ describe('Security: DoS Attack Prevention', () => {
 
     const result = getResult(window.document)
 
-    // Should refuse to format due to length
-    expect(result.formatted).toBe(false)
-    expect(result.note).toBe('Too long')
+    // Should not parse up front: the viewer streams it instead
+    expect(result.note).toBe('streaming')
+    expect(result.formatted && result.parsed).toBeNull()
   })
 
   test('maxDepth prevents stack overflow from deep nesting', () => {
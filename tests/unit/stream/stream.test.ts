@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { streamDocument } from '../../../src/lib/stream/stream'
+import { ParseError } from '../../../src/lib/parser/events'
+import { isLazyNode } from '../../../src/lib/parser/partial'
+import { ParseCancelledError } from '../../../src/lib/worker/client'
+import type { ArrayNode, JsonNode, ObjectNode } from '../../../src/lib/parser/types'
+
+// A slice per check, an update per slice
+const eachSlice = { sliceMs: 0, updateMs: 0, yieldToPage: async () => {} }
+
+const records = (count: number) =>
+  JSON.stringify(Array.from({ length: count }, (_, id) => ({ id, tags: ['a', 'b'] })))
+
+describe('streamDocument', () => {
+  it('reads the whole document, leaving nested containers lazy', async () => {
+    const root = (await streamDocument('{"a": {"b": 1}, "c": [2]}')) as ObjectNode
+
+    expect(root.entries.map((e) => e.key.value)).toEqual(['a', 'c'])
+    expect(isLazyNode(root.entries[0].value)).toBe(true)
+    expect(root.end).toBe(25)
+  })
+
+  it('reports the tree read so far while reading', async () => {
+    const input = records(3000)
+    const updates: { items: number; loaded: number; total: number }[] = []
+
+    const root = (await streamDocument(input, {
+      ...eachSlice,
+      onUpdate: (partial, loaded, total) =>
+        updates.push({ items: (partial as ArrayNode).items.length, loaded, total }),
+    })) as ArrayNode
+
+    expect(updates.length).toBeGreaterThan(1)
+    expect(updates[0].items).toBeLessThan(3000)
+    expect(updates.every((u) => u.total === input.length)).toBe(true)
+    expect(updates[1].loaded).toBeGreaterThan(updates[0].loaded)
+    expect(root.items).toHaveLength(3000)
+  })
+
+  it('passes a new root object with each update', async () => {
+    const roots: JsonNode[] = []
+
+    await streamDocument(records(3000), { ...eachSlice, onUpdate: (root) => roots.push(root) })
+
+    expect(roots[0]).not.toBe(roots[1])
+  })
+
+  it('parses deeper levels eagerly when asked', async () => {
+    const root = (await streamDocument('[[1]]', { maxDepth: 2 })) as ArrayNode
+
+    expect(root.items[0].kind).toBe('array')
+  })
+
+  it('keeps parser options', async () => {
+    const root = (await streamDocument('[9007199254740993]', {
+      options: { numberMode: 'bigint' },
+    })) as ArrayNode
+
+    expect(root.items[0].bigInt).toBe(9007199254740993n)
+  })
+
+  it('reports the tree read up to a syntax error', async () => {
+    let last: ArrayNode | null = null
+
+    await expect(
+      streamDocument('[1, 2 3]', { onUpdate: (root) => (last = root as ArrayNode) })
+    ).rejects.toThrow(ParseError)
+    expect(last!.items).toHaveLength(2)
+  })
+
+  it('rejects an empty document', async () => {
+    await expect(streamDocument('  ')).rejects.toThrow(ParseError)
+  })
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController()
+    let updates = 0
+
+    const streaming = streamDocument(records(3000), {
+      ...eachSlice,
+      signal: controller.signal,
+      onUpdate: () => {
+        if (++updates === 1) controller.abort()
+      },
+    })
+
+    await expect(streaming).rejects.toThrow(ParseCancelledError)
+    expect(updates).toBe(1)
+  })
+})
@@ -0,0 +1,111 @@
+import { describe, test, expect } from 'vitest'
+import {
+  isTabular,
+  buildTable,
+  sortRows,
+  getCellDisplay,
+  getCellPath,
+} from '../../../src/lib/table/table'
+import { createAdapter } from '../../../src/lib/integration/adapters'
+import type { JsonValue } from '../../../src/lib/integration/types'
+import { parse } from '../../../src/lib/parser/parse'
+
+describe('isTabular', () => {
+  test('accepts arrays of objects with shared keys', () => {
+    expect(isTabular([{ id: 1 }, { id: 2, name: 'b' }])).toBe(true)
+  })
+
+  test('tolerates a few non-object items', () => {
+    const data: JsonValue = [...Array.from({ length: 9 }, (_, i) => ({ id: i })), null]
+    expect(isTabular(data)).toBe(true)
+  })
+
+  test('rejects primitives, short arrays and unrelated objects', () => {
+    expect(isTabular([1, 2, 3])).toBe(false)
+    expect(isTabular([{ id: 1 }])).toBe(false)
+    expect(isTabular([{ a: 1 }, { b: 2 }, { c: 3 }])).toBe(false)
+    expect(isTabular([{ id: 1 }, 2, 3])).toBe(false)
+    expect(isTabular({ a: [{ id: 1 }, { id: 2 }] })).toBe(false)
+  })
+
+  test('works on ExactJSON nodes', () => {
+    const { ast } = parse('[{"id": 1}, {"id": 2}]')
+    expect(isTabular(ast!)).toBe(true)
+  })
+})
+
+describe('buildTable', () => {
+  test('collects the union of keys in order of first appearance', () => {
+    const model = buildTable([{ id: 1, name: 'a' }, { id: 2, tags: [] }, 'x'])
+
+    expect(model.columns).toEqual([
+      { key: 'id', count: 2 },
+      { key: 'name', count: 1 },
+      { key: 'tags', count: 1 },
+    ])
+    expect(model.rows.map((row) => row.index)).toEqual([0, 1, 2])
+    expect(model.rows[1].cells.get('tags')).toEqual([])
+    expect(model.rows[2].cells.size).toBe(0)
+  })
+
+  test('keeps lossless numbers from ExactJSON input', () => {
+    const input = '[{"n": 12345678901234567890}, {"n": 1.50}]'
+    const { ast } = parse(input)
+    const model = buildTable(ast!, input)
+    const adapter = createAdapter(ast!, input)
+
+    expect(getCellDisplay(model.rows[0].cells.get('n'), adapter).text).toBe(
+      '12345678901234567890'
+    )
+    expect(getCellDisplay(model.rows[1].cells.get('n'), adapter).text).toBe('1.50')
+  })
+})
+
+describe('getCellDisplay', () => {
+  const adapter = createAdapter([])
+
+  test('shows primitives as written and summarizes containers', () => {
+    expect(getCellDisplay('hi', adapter)).toEqual({ type: 'string', text: 'hi' })
+    expect(getCellDisplay(true, adapter)).toEqual({ type: 'boolean', text: 'true' })
+    expect(getCellDisplay(null, adapter)).toEqual({ type: 'null', text: 'null' })
+    expect(getCellDisplay({ a: 1, b: 2 }, adapter)).toEqual({ type: 'object', text: '{2}' })
+    expect(getCellDisplay([1, 2, 3], adapter)).toEqual({ type: 'array', text: '[3]' })
+    expect(getCellDisplay(undefined, adapter)).toEqual({ type: 'missing', text: '' })
+  })
+})
+
+describe('getCellPath', () => {
+  test('builds the path of a cell value', () => {
+    expect(getCellPath('$.users', 3, 'address')).toBe('$.users[3].address')
+    expect(getCellPath('$', 0, 'first name')).toBe("$[0]['first name']")
+  })
+})
+
+describe('sortRows', () => {
+  const data: JsonValue = [
+    { v: 10 },
+    { v: 'b' },
+    { other: 1 },
+    { v: 2 },
+    { v: 'a10' },
+    { v: 'a9' },
+    { v: null },
+  ]
+  const model = buildTable(data)
+  const adapter = createAdapter(data)
+  const order = (direction: 'ascending' | 'descending') =>
+    sortRows(model.rows, 'v', direction, adapter).map((row) => row.index)
+
+  test('sorts numbers numerically, then strings naturally, then other types', () => {
+    expect(order('ascending')).toEqual([3, 0, 5, 4, 1, 6, 2])
+  })
+
+  test('keeps rows without the key last when descending', () => {
+    expect(order('descending')).toEqual([6, 1, 4, 5, 0, 3, 2])
+  })
+
+  test('does not modify the model', () => {
+    order('descending')
+    expect(model.rows.map((row) => row.index)).toEqual([0, 1, 2, 3, 4, 5, 6])
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, test, expect } from 'vitest'
+import { getCopyText, stringifySubtree, reformatJson } from '../../../src/lib/tree/copy'
+import { flattenTree } from '../../../src/lib/tree/flatten'
+import { parse } from '../../../src/lib/parser/parse'
+import { parsePartial } from '../../../src/lib/parser/partial'
+import type { FlatNode } from '../../../src/lib/tree/types'
+import type { JsonValue } from '../../../src/lib/integration/types'
+
+const expandAll = { expandedPaths: new Set(['$', '$.user', '$.list']) }
+
+function nodeAt(nodes: FlatNode[], path: string): FlatNode {
+  return nodes.find((n) => n.path === path)!
+}
+
+describe('getCopyText', () => {
+  const data: JsonValue = { user: { name: 'Ann', 'a/b': 1 }, list: [true, null] }
+  const nodes = flattenTree(data, expandAll)
+
+  test('copies string values without quotes', () => {
+    expect(getCopyText(nodeAt(nodes, '$.user.name'), 'value')).toBe('Ann')
+  })
+
+  test('copies primitives as displayed', () => {
+    expect(getCopyText(nodeAt(nodes, '$.list[0]'), 'value')).toBe('true')
+    expect(getCopyText(nodeAt(nodes, '$.list[1]'), 'value')).toBe('null')
+  })
+
+  test('copies the path and JSON Pointer', () => {
+    const node = nodeAt(nodes, "$.user['a/b']")
+    expect(getCopyText(node, 'path')).toBe("$.user['a/b']")
+    expect(getCopyText(node, 'pointer')).toBe('/user/a~1b')
+    expect(getCopyText(nodeAt(nodes, '$'), 'pointer')).toBe('')
+  })
+
+  test('re-serializes native subtrees', () => {
+    const node = nodeAt(nodes, '$.user')
+    expect(getCopyText(node, 'minified')).toBe('{"name":"Ann","a/b":1}')
+    expect(getCopyText(node, 'pretty')).toBe('{\n  "name": "Ann",\n  "a/b": 1\n}')
+  })
+
+  test('copying a container value copies the pretty subtree', () => {
+    expect(getCopyText(nodeAt(nodes, '$.list'), 'value')).toBe('[\n  true,\n  null\n]')
+  })
+})
+
+describe('ExactJSON subtrees', () => {
+  const input = '{"id": 12345678901234567890, "data": {"2": "b", "1": 1.50e0, "s": "x, {y}: \\"z\\""}}'
+  const { ast } = parse(input)
+  const nodes = flattenTree(ast, { expandedPaths: new Set(['$', '$.data']) }, null, 0, '$', 0, 1, input)
+
+  test('copies big integers losslessly', () => {
+    expect(getCopyText(nodeAt(nodes, '$.id'), 'value')).toBe('12345678901234567890')
+  })
+
+  test('copies the source slice with key order and number text intact', () => {
+    expect(getCopyText(nodeAt(nodes, '$.data'), 'minified', input)).toBe(
+      '{"2":"b","1":1.50e0,"s":"x, {y}: \\"z\\""}'
+    )
+  })
+
+  test('pretty-prints the source slice without touching strings', () => {
+    expect(getCopyText(nodeAt(nodes, '$.data'), 'pretty', input)).toBe(
+      '{\n  "2": "b",\n  "1": 1.50e0,\n  "s": "x, {y}: \\"z\\""\n}'
+    )
+  })
+
+  test('serializes from the AST when the input is unavailable', () => {
+    const { ast: exact } = parse('{"id": 12345678901234567890, "2": "b", "1": [1]}', {
+      numberMode: 'bigint',
+    })
+    expect(stringifySubtree(exact, undefined, 0)).toBe(
+      '{"id":12345678901234567890,"2":"b","1":[1]}'
+    )
+  })
+
+  test('copies subtrees of streamed documents that are not parsed yet', () => {
+    const lazy = parsePartial('{"data": {"n": 1.50e0}}', 1)
+    const nodes = flattenTree(lazy, { expandedPaths: new Set(['$']) })
+
+    expect(getCopyText(nodeAt(nodes, '$.data'), 'pretty')).toBe('{\n  "n": 1.50e0\n}')
+  })
+})
+
+describe('JSONC and JSON5 subtrees', () => {
+  test('copies JSONC without its comments and trailing commas', () => {
+    const input = '{\n  // server config\n  "name": "my app", /* port */ "port": 8080,\n}'
+    const { ast } = parse(input, { syntax: 'jsonc' })
+
+    expect(stringifySubtree(ast, input, 0)).toBe('{"name":"my app","port":8080}')
+  })
+
+  test('copies JSON5 as JSON', () => {
+    const input = "{ // server config\n name: 'my app', port: 0x1F, list: [.5, +2, 1.50, Infinity,], }"
+    const { ast } = parse(input, { syntax: 'json5' })
+
+    expect(stringifySubtree(ast, input, 0)).toBe(
+      '{"name":"my app","port":31,"list":[0.5,2,1.50,null]}'
+    )
+    expect(stringifySubtree(ast, input, 2)).toBe(
+      '{\n  "name": "my app",\n  "port": 31,\n  "list": [\n    0.5,\n    2,\n    1.50,\n    null\n  ]\n}'
+    )
+  })
+
+  test('copies what tolerant mode recovered', () => {
+    const input = '{"a": 1 "b": [1,,2]}'
+    const { ast } = parse(input, { tolerant: true })
+
+    expect(stringifySubtree(ast, input, 0)).toBe('{"a":1,"b":[1,null,2]}')
+  })
+})
+
+describe('reformatJson', () => {
+  test('keeps empty containers compact', () => {
+    expect(reformatJson('{ "a": [ ], "b": { } }', 2)).toBe('{\n  "a": [],\n  "b": {}\n}')
+  })
+
+  test('minifies whitespace outside strings only', () => {
+    expect(reformatJson('[ "a b" ,\n 1 ]', 0)).toBe('["a b",1]')
+  })
+})
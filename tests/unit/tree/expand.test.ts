@@ -5,6 +5,7 @@ import {
   expandToDepth,
   collapseAll,
   expandAllSiblings,
+  revealPath,
 } from '../../../src/lib/tree/expand'
 import { flattenTree } from '../../../src/lib/tree/flatten'
 import type { TreeState } from '../../../src/lib/tree/types'
@@ -87,6 +88,23 @@ describe('expandPath', () => {
   })
 })
 
+describe('revealPath', () => {
+  test('expands ancestors but not the node itself', () => {
+    const state: TreeState = { expandedPaths: new Set<string>() }
+    const newState = revealPath(state, '$.users[3].address')
+
+    expect(newState.expandedPaths.has('$')).toBe(true)
+    expect(newState.expandedPaths.has('$.users')).toBe(true)
+    expect(newState.expandedPaths.has('$.users[3]')).toBe(true)
+    expect(newState.expandedPaths.has('$.users[3].address')).toBe(false)
+  })
+
+  test('returns state unchanged for root', () => {
+    const state: TreeState = { expandedPaths: new Set<string>() }
+    expect(revealPath(state, '$')).toBe(state)
+  })
+})
+
 describe('expandToDepth', () => {
   test('expands to depth 0 (root only)', () => {
     const data: JsonValue = { a: { b: { c: 1 } } }
@@ -181,6 +199,28 @@ describe('collapseAll', () => {
   })
 })
 
+describe('expandPath with quoted keys', () => {
+  test('expands bracket-quoted segments as single keys', () => {
+    const state: TreeState = { expandedPaths: new Set<string>() }
+    const newState = expandPath(state, "$['a.b'].c")
+
+    expect([...newState.expandedPaths]).toEqual(['$', "$['a.b']", "$['a.b'].c"])
+  })
+
+  test('normalizes double-quoted segments to the row form', () => {
+    const state: TreeState = { expandedPaths: new Set<string>() }
+    const newState = expandPath(state, '$["users"][0]')
+
+    expect(newState.expandedPaths.has('$.users')).toBe(true)
+    expect(newState.expandedPaths.has('$.users[0]')).toBe(true)
+  })
+
+  test('throws on invalid paths', () => {
+    const state: TreeState = { expandedPaths: new Set<string>() }
+    expect(() => expandPath(state, '$.a[')).toThrow('Unclosed bracket')
+  })
+})
+
 describe('expandAllSiblings', () => {
   test('expands all siblings at same depth', () => {
     const data: JsonValue = {
@@ -1,8 +1,12 @@
 import { describe, test, expect } from 'vitest'
 import { flattenTree } from '../../../src/lib/tree/flatten'
 import { expandToDepth } from '../../../src/lib/tree/expand'
-import type { TreeState } from '../../../src/lib/tree/types'
+import type { TreeState, FlatNode, Graft } from '../../../src/lib/tree/types'
 import type { JsonValue } from '../../../src/lib/integration/types'
+import { parse } from '../../../src/lib/parser/parse'
+import { parsePartial, type LazyNode } from '../../../src/lib/parser/partial'
+import { createSearchPredicate } from '../../../src/lib/tree/search'
+import type { ObjectNode } from '../../../src/lib/parser/types'
 
 describe('flattenTree', () => {
   describe('Collapsed root', () => {
@@ -296,4 +300,270 @@ describe('flattenTree', () => {
       expect(flat[0].isExpanded).toBe(false)
     })
   })
+  describe('Keys with path syntax', () => {
+    test('keys containing dots and brackets get distinct paths', () => {
+      const data: JsonValue = { 'a.b': 1, a: { b: 2 }, 'x[0]': 3, x: [4] }
+      const state: TreeState = { expandedPaths: new Set(['$', '$.a', '$.x']) }
+      const flat = flattenTree(data, state)
+      const paths = flat.map((n) => n.path)
+
+      expect(paths).toContain("$['a.b']")
+      expect(paths).toContain('$.a.b')
+      expect(paths).toContain("$['x[0]']")
+      expect(paths).toContain('$.x[0]')
+      expect(new Set(paths).size).toBe(paths.length)
+    })
+
+    test('expansion state of a dotted key is independent', () => {
+      const data: JsonValue = { 'a.b': { c: 1 }, a: { b: { d: 2 } } }
+      const state: TreeState = { expandedPaths: new Set(['$', "$['a.b']"]) }
+      const flat = flattenTree(data, state)
+
+      expect(flat.find((n) => n.path === "$['a.b']")!.isExpanded).toBe(true)
+      expect(flat.find((n) => n.path === '$.a')!.isExpanded).toBe(false)
+    })
+  })
+
+  describe('Filter mode', () => {
+    const isError = (node: FlatNode) => node.displayValue === 'error'
+    const collapsed: TreeState = { expandedPaths: new Set<string>() }
+
+    const data: JsonValue = {
+      items: Array.from({ length: 50 }, (_, i) => ({
+        id: i,
+        level: i === 7 || i === 42 ? 'error' : 'ok',
+      })),
+    }
+
+    test('emits only matching nodes and their ancestors', () => {
+      const flat = flattenTree(data, collapsed, null, 0, '$', 0, 1, undefined, isError)
+
+      expect(flat.map((n) => n.path)).toEqual([
+        '$',
+        '$.items',
+        '$.items[7]',
+        '$.items[7].level',
+        '$.items[7]__close',
+        '$.items[42]',
+        '$.items[42].level',
+        '$.items[42]__close',
+        '$.items__close',
+        '$__close',
+      ])
+    })
+
+    test('keeps original indices of surviving elements', () => {
+      const flat = flattenTree(data, collapsed, null, 0, '$', 0, 1, undefined, isError)
+      const item = flat.find((n) => n.path === '$.items[42]')!
+
+      expect(item.indexInParent).toBe(42)
+      expect(flat.find((n) => n.path === '$.items')!.childCount).toBe(50)
+    })
+
+    test('marks the last surviving sibling for comma rendering', () => {
+      const flat = flattenTree(data, collapsed, null, 0, '$', 0, 1, undefined, isError)
+
+      expect(flat.find((n) => n.path === '$.items[7]')!.isLastSibling).toBe(false)
+      expect(flat.find((n) => n.path === '$.items[42]')!.isLastSibling).toBe(true)
+      expect(
+        flat.find((n) => n.path === '$.items[42]__close')!.isLastSibling
+      ).toBe(true)
+    })
+
+    test('shows ancestors expanded regardless of expansion state', () => {
+      const flat = flattenTree(data, collapsed, null, 0, '$', 0, 1, undefined, isError)
+
+      expect(flat.find((n) => n.path === '$.items')!.isExpanded).toBe(true)
+      expect(flat.find((n) => n.path === '$.items')!.filterBranch).toBe(true)
+    })
+
+    test('keeps ancestors the user closed collapsed', () => {
+      const state: TreeState = { ...collapsed, collapsedPaths: new Set(['$.items[7]']) }
+      const flat = flattenTree(data, state, null, 0, '$', 0, 1, undefined, isError)
+
+      expect(flat.map((n) => n.path)).toEqual([
+        '$',
+        '$.items',
+        '$.items[7]',
+        '$.items[42]',
+        '$.items[42].level',
+        '$.items[42]__close',
+        '$.items__close',
+        '$__close',
+      ])
+      expect(flat.find((n) => n.path === '$.items[7]')!.isExpanded).toBe(false)
+    })
+
+    test('matching containers follow the normal expansion state', () => {
+      const byKey = (node: FlatNode) => node.key === 'items'
+
+      expect(
+        flattenTree(data, collapsed, null, 0, '$', 0, 1, undefined, byKey).map(
+          (n) => n.path
+        )
+      ).toEqual(['$', '$.items', '$__close'])
+    })
+
+    test('returns nothing when no node matches', () => {
+      const none = () => false
+      expect(flattenTree(data, collapsed, null, 0, '$', 0, 1, undefined, none)).toEqual([])
+    })
+
+    test('works with JsonNode data', () => {
+      const input = '{"a": [1, {"b": "error"}], "c": "ok"}'
+      const { ast } = parse(input)
+      const flat = flattenTree(ast, collapsed, null, 0, '$', 0, 1, input, isError)
+
+      expect(flat.map((n) => n.path)).toEqual([
+        '$',
+        '$.a',
+        '$.a[1]',
+        '$.a[1].b',
+        '$.a[1]__close',
+        '$.a__close',
+        '$__close',
+      ])
+      expect(flat.find((n) => n.path === '$.a[1]')!.indexInParent).toBe(1)
+    })
+  })
+
+  describe('Filter mode on streamed documents', () => {
+    const input = '{"a": {"level": "ok"}, "b": {"level": "error"}}'
+
+    test('filters subtrees not parsed yet without keeping them parsed', () => {
+      const root = parsePartial(input, 1) as ObjectNode
+      const [a, b] = root.entries.map((entry) => entry.value as LazyNode)
+      const filter = createSearchPredicate('error')
+      const state: TreeState = { expandedPaths: new Set<string>() }
+      const flat = flattenTree(root, state, null, 0, '$', 0, 1, input, filter)
+
+      expect(flat.map((n) => n.path)).toEqual(['$', '$.b', '$.b.level', '$.b__close', '$__close'])
+      expect(a._cached).toBeUndefined()
+      expect(b._cached).toBeUndefined()
+    })
+  })
+
+  describe('Duplicate keys', () => {
+    test('shows every occurrence with a distinct id', () => {
+      const input = '{"a": 1, "a": {"b": 2}}'
+      const { ast } = parse(input)
+      const state: TreeState = { expandedPaths: new Set(['$', '$.a']) }
+      const flat = flattenTree(ast, state, null, 0, '$', 0, 1, input)
+
+      expect(flat.map((n) => n.path)).toEqual([
+        '$',
+        '$.a',
+        '$.a',
+        '$.a.b',
+        '$.a__close',
+        '$__close',
+      ])
+      expect(flat.map((n) => n.id)).toEqual([
+        '$',
+        '$.a',
+        '$.a#1',
+        '$.a.b#1',
+        '$.a__close#1',
+        '$__close',
+      ])
+    })
+  })
+
+  describe('Grafts', () => {
+    const graftOf = (source: string, input: string): Graft => ({
+      source,
+      data: parse(input).ast as Graft['data'],
+      input,
+      label: 'decoded from base64',
+    })
+
+    test('shows the grafted tree under its string row', () => {
+      const graft = graftOf('eyJuIjogMS41MH0=', '{"n": 1.50}')
+      const state: TreeState = {
+        expandedPaths: new Set(['$', '$.token']),
+        grafts: new Map([['$.token', graft]]),
+      }
+      const flat = flattenTree({ token: 'eyJuIjogMS41MH0=' }, state)
+
+      expect(flat.map((n) => n.path)).toEqual([
+        '$',
+        '$.token',
+        '$.token.n',
+        '$.token__close',
+        '$__close',
+      ])
+      expect(flat[1]).toMatchObject({ type: 'string', hasChildren: true, childCount: 1, graft })
+      expect(flat[1].graftInput).toBeUndefined()
+      // Raw text comes from the decoded text
+      expect(flat[2]).toMatchObject({ rawText: '1.50', graftInput: '{"n": 1.50}' })
+      expect(flat[3].type).toBe('object_close')
+    })
+
+    test('drops grafts of strings that changed', () => {
+      const state: TreeState = {
+        expandedPaths: new Set(['$', '$.token']),
+        grafts: new Map([['$.token', graftOf('old', '[1]')]]),
+      }
+      const flat = flattenTree({ token: 'new' }, state)
+
+      expect(flat[1]).toMatchObject({ hasChildren: false })
+      expect(flat[1].graft).toBeUndefined()
+      expect(flat).toHaveLength(3)
+    })
+
+    test('filters grafted rows', () => {
+      const state: TreeState = {
+        expandedPaths: new Set(),
+        grafts: new Map([['$[1]', graftOf('x', '{"a": 1, "needle": 2}')]]),
+      }
+      const flat = flattenTree(['y', 'x'], state, null, 0, '$', 0, 1, undefined, (node) =>
+        node.key === 'needle'
+      )
+
+      expect(flat.map((n) => n.path)).toEqual([
+        '$',
+        '$[1]',
+        '$[1].needle',
+        '$[1]__close',
+        '$__close',
+      ])
+      expect(flat[3].type).toBe('object_close')
+    })
+  })
+
+  describe('Embedded JSON', () => {
+    test('expands strings holding JSON, recursively', () => {
+      const data: JsonValue = { payload: '{"id": 1, "inner": "[2.50]"}', name: 'x' }
+      const state: TreeState = {
+        expandedPaths: new Set(['$', '$.payload', '$.payload.inner']),
+        embeddedJson: true,
+      }
+      const flat = flattenTree(data, state)
+
+      expect(flat.map((n) => n.path)).toEqual([
+        '$',
+        '$.payload',
+        '$.payload.id',
+        '$.payload.inner',
+        '$.payload.inner[0]',
+        '$.payload.inner__close',
+        '$.payload__close',
+        '$.name',
+        '$__close',
+      ])
+      expect(flat[1]).toMatchObject({ type: 'string', hasChildren: true, childCount: 2 })
+      expect(flat[1].graft?.label).toBe('parsed from string')
+      expect(flat[1].graftInput).toBeUndefined()
+      expect(flat[2].graftInput).toBe('{"id": 1, "inner": "[2.50]"}')
+      expect(flat[4]).toMatchObject({ rawText: '2.50', graftInput: '[2.50]' })
+      expect(flat[5].type).toBe('array_close')
+    })
+
+    test('leaves strings alone unless the state shows embedded JSON', () => {
+      const flat = flattenTree({ payload: '[1]' }, { expandedPaths: new Set(['$', '$.payload']) })
+
+      expect(flat[1].hasChildren).toBe(false)
+      expect(flat).toHaveLength(3)
+    })
+  })
 })
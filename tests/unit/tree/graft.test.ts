@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import { gzipSync } from 'node:zlib'
+import { decodeGraft } from '../../../src/lib/tree/graft'
+
+const base64 = (data: string | Uint8Array) => Buffer.from(data).toString('base64')
+
+describe('decodeGraft', () => {
+  it('parses the decoded JSON with ExactJSON', async () => {
+    const value = base64(gzipSync('{"id": 12345678901234567890}'))
+    const graft = await decodeGraft(value)
+
+    expect(graft).toMatchObject({
+      source: value,
+      input: '{"id": 12345678901234567890}',
+      label: 'decoded from base64 + gzip',
+    })
+    expect(graft.data.kind).toBe('object')
+  })
+
+  it('rejects decoded text that is not valid JSON', async () => {
+    await expect(decodeGraft(base64('{"id": }'))).rejects.toThrow(
+      /^The decoded text is not valid JSON: /
+    )
+  })
+})
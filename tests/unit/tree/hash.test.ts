@@ -0,0 +1,47 @@
+import { describe, test, expect } from 'vitest'
+import { hashFromPath, pathFromHash } from '../../../src/lib/tree/hash'
+
+describe('hashFromPath', () => {
+  test('keeps path punctuation readable', () => {
+    expect(hashFromPath('$.users[12].address')).toBe('#$.users[12].address')
+  })
+
+  test('percent-encodes spaces and other unsafe characters', () => {
+    expect(hashFromPath("$['first name']")).toBe("#$['first%20name']")
+    expect(hashFromPath("$['a#b']")).toBe("#$['a%23b']")
+  })
+})
+
+describe('pathFromHash', () => {
+  test('reads a path from location.hash', () => {
+    expect(pathFromHash('#$.users[12].address')).toBe('$.users[12].address')
+  })
+
+  test('accepts fragments without the leading #', () => {
+    expect(pathFromHash('$[0]')).toBe('$[0]')
+  })
+
+  test('decodes percent-encoded characters', () => {
+    expect(pathFromHash("#$['first%20name']")).toBe("$['first name']")
+  })
+
+  test('normalizes bracket notation to the tree row form', () => {
+    expect(pathFromHash('#$["users"][0]')).toBe('$.users[0]')
+  })
+
+  test('ignores fragments that are not JSON paths', () => {
+    expect(pathFromHash('')).toBeNull()
+    expect(pathFromHash('#section-2')).toBeNull()
+    expect(pathFromHash('#$.a[')).toBeNull()
+  })
+
+  test('ignores malformed percent-encoding', () => {
+    expect(pathFromHash('#$.a%E0%A4%A')).toBeNull()
+  })
+
+  test('round-trips with hashFromPath', () => {
+    for (const path of ['$', '$.a.b[3]', '$.ünïcode', "$['x%y']", "$['it\\'s']"]) {
+      expect(pathFromHash(hashFromPath(path))).toBe(path)
+    }
+  })
+})
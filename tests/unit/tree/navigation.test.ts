@@ -0,0 +1,102 @@
+import { describe, test, expect } from 'vitest'
+import { getNavigationAction } from '../../../src/lib/tree/navigation'
+import { flattenTree } from '../../../src/lib/tree/flatten'
+import type { TreeState } from '../../../src/lib/tree/types'
+import type { JsonValue } from '../../../src/lib/integration/types'
+import { parse } from '../../../src/lib/parser/parse'
+
+describe('getNavigationAction', () => {
+  const data: JsonValue = { a: { x: 1 }, b: [1, 2], c: 'end' }
+  const state: TreeState = { expandedPaths: new Set(['$', '$.a']) }
+  // $, $.a, $.a.x, $.a__close, $.b, $.c, $__close
+  const nodes = flattenTree(data, state)
+
+  test('ArrowDown and ArrowUp skip closing rows', () => {
+    expect(getNavigationAction(nodes, '$.a.x', 'ArrowDown')).toEqual({
+      type: 'focus',
+      path: '$.b',
+    })
+    expect(getNavigationAction(nodes, '$.b', 'ArrowUp')).toEqual({
+      type: 'focus',
+      path: '$.a.x',
+    })
+  })
+
+  test('ArrowDown on the last row and ArrowUp on the first do nothing', () => {
+    expect(getNavigationAction(nodes, '$.c', 'ArrowDown')).toBeNull()
+    expect(getNavigationAction(nodes, '$', 'ArrowUp')).toBeNull()
+  })
+
+  test('Home and End jump to the first and last rows', () => {
+    expect(getNavigationAction(nodes, '$.b', 'Home')).toEqual({ type: 'focus', path: '$' })
+    expect(getNavigationAction(nodes, '$.a', 'End')).toEqual({ type: 'focus', path: '$.c' })
+  })
+
+  test('ArrowRight expands a collapsed node', () => {
+    expect(getNavigationAction(nodes, '$.b', 'ArrowRight')).toEqual({
+      type: 'expand',
+      path: '$.b',
+    })
+  })
+
+  test('ArrowRight on an expanded node moves to its first child', () => {
+    expect(getNavigationAction(nodes, '$.a', 'ArrowRight')).toEqual({
+      type: 'focus',
+      path: '$.a.x',
+    })
+  })
+
+  test('ArrowRight on a leaf does nothing', () => {
+    expect(getNavigationAction(nodes, '$.c', 'ArrowRight')).toBeNull()
+  })
+
+  test('ArrowLeft collapses an expanded node', () => {
+    expect(getNavigationAction(nodes, '$.a', 'ArrowLeft')).toEqual({
+      type: 'collapse',
+      path: '$.a',
+    })
+  })
+
+  test('ArrowLeft on a collapsed node or leaf moves to the parent', () => {
+    expect(getNavigationAction(nodes, '$.a.x', 'ArrowLeft')).toEqual({
+      type: 'focus',
+      path: '$.a',
+    })
+    expect(getNavigationAction(nodes, '$.b', 'ArrowLeft')).toEqual({
+      type: 'focus',
+      path: '$',
+    })
+  })
+
+  test('ArrowLeft on a collapsed root does nothing', () => {
+    const collapsed = flattenTree(data, { expandedPaths: new Set<string>() })
+    expect(getNavigationAction(collapsed, '$', 'ArrowLeft')).toBeNull()
+  })
+
+  test('* expands siblings', () => {
+    expect(getNavigationAction(nodes, '$.b', '*')).toEqual({
+      type: 'expandSiblings',
+      path: '$.b',
+    })
+  })
+
+  test('ignores unknown keys and paths', () => {
+    expect(getNavigationAction(nodes, '$.a', 'x')).toBeNull()
+    expect(getNavigationAction(nodes, '$.missing', 'ArrowDown')).toBeNull()
+  })
+
+  test('moves past the other rows of a duplicate key', () => {
+    const { ast } = parse('{"a": 1, "a": 2, "b": 3}')
+    const duplicates = flattenTree(ast, { expandedPaths: new Set(['$']) })
+
+    expect(getNavigationAction(duplicates, '$.a', 'ArrowDown')).toEqual({
+      type: 'focus',
+      path: '$.b',
+    })
+    expect(getNavigationAction(duplicates, '$.b', 'ArrowUp')).toEqual({
+      type: 'focus',
+      path: '$.a',
+    })
+    expect(getNavigationAction(duplicates, '$', 'Home')).toEqual({ type: 'focus', path: '$' })
+  })
+})
@@ -0,0 +1,161 @@
+import { describe, test, expect } from 'vitest'
+import { searchTree, splitByQuery, createSearchPredicate } from '../../../src/lib/tree/search'
+import { parse } from '../../../src/lib/parser/parse'
+import { parsePartial, type LazyNode } from '../../../src/lib/parser/partial'
+import type { FlatNode } from '../../../src/lib/tree/types'
+import type { ObjectNode } from '../../../src/lib/parser/types'
+import type { JsonValue } from '../../../src/lib/integration/types'
+
+describe('searchTree', () => {
+  test('returns no matches for empty query', () => {
+    const data: JsonValue = { a: 'a' }
+    expect(searchTree(data, '')).toEqual([])
+  })
+
+  test('matches keys and string values', () => {
+    const data: JsonValue = { name: 'Alice', friend: { name: 'Bob' } }
+    const matches = searchTree(data, 'name')
+
+    expect(matches).toEqual([
+      { path: '$.name', field: 'key' },
+      { path: '$.friend.name', field: 'key' },
+    ])
+  })
+
+  test('is case-insensitive by default', () => {
+    const data: JsonValue = { status: 'ERROR' }
+    expect(searchTree(data, 'error')).toEqual([{ path: '$.status', field: 'value' }])
+    expect(searchTree(data, 'error', { caseSensitive: true })).toEqual([])
+  })
+
+  test('searches inside collapsed and deep subtrees', () => {
+    const data: JsonValue = {
+      items: Array.from({ length: 50 }, (_, i) => ({ id: i, level: i === 42 ? 'error' : 'ok' })),
+    }
+    const matches = searchTree(data, 'error')
+
+    expect(matches).toEqual([{ path: '$.items[42].level', field: 'value' }])
+  })
+
+  test('key and value of the same node both match', () => {
+    const data: JsonValue = { error: 'error' }
+    expect(searchTree(data, 'err')).toEqual([
+      { path: '$.error', field: 'key' },
+      { path: '$.error', field: 'value' },
+    ])
+  })
+
+  test('matches number raw text losslessly for ExactJSON nodes', () => {
+    const input = '{"id": 12345678901234567890}'
+    const { ast } = parse(input)
+
+    expect(searchTree(ast, '4567890', {}, input)).toEqual([{ path: '$.id', field: 'value' }])
+  })
+
+  test('does not match booleans or null', () => {
+    const data: JsonValue = { a: true, b: null }
+    expect(searchTree(data, 'true')).toEqual([])
+    expect(searchTree(data, 'null')).toEqual([])
+  })
+
+  test('searches JSON held in strings when asked to', () => {
+    const data: JsonValue = { event: '{"user": {"email": "ada@example.test"}}' }
+
+    expect(searchTree(data, 'email')).toEqual([{ path: '$.event', field: 'value' }])
+    expect(searchTree(data, 'email', { embeddedJson: true })).toEqual([
+      { path: '$.event', field: 'value' },
+      { path: '$.event.user.email', field: 'key' },
+    ])
+  })
+
+  test('searches streamed subtrees without keeping them parsed', () => {
+    const input = '{"a": {"name": "Ann"}, "b": {"name": "Bob", "tags": ["\\u0041da"]}}'
+    const root = parsePartial(input, 1) as ObjectNode
+    const lazy = (key: string) => root.entries.find((e) => e.key.value === key)!.value as LazyNode
+
+    expect(searchTree(root, 'bob', {}, input)).toEqual([{ path: '$.b.name', field: 'value' }])
+    // Escapes in the text can spell the query
+    expect(searchTree(root, 'ada', {}, input)).toEqual([{ path: '$.b.tags[0]', field: 'value' }])
+    expect(lazy('a')._cached).toBeUndefined()
+    expect(lazy('b')._cached).toBeUndefined()
+  })
+
+  test('returns matches in document order', () => {
+    const data: JsonValue = [{ x: 'hit' }, 'hit', { hit: 1 }]
+    expect(searchTree(data, 'hit').map((m) => m.path)).toEqual([
+      '$[0].x',
+      '$[1]',
+      '$[2].hit',
+    ])
+  })
+})
+
+describe('createSearchPredicate', () => {
+  const node = (overrides: Partial<FlatNode>): FlatNode => ({
+    id: '$',
+    depth: 0,
+    key: null,
+    value: null,
+    type: 'null',
+    path: '$',
+    hasChildren: false,
+    isExpanded: false,
+    childCount: 0,
+    indexInParent: 0,
+    isLastSibling: true,
+    displayValue: null,
+    ...overrides,
+  })
+
+  test('matches keys and string values', () => {
+    const matches = createSearchPredicate('err')
+    expect(matches(node({ key: 'error' }))).toBe(true)
+    expect(matches(node({ type: 'string', displayValue: 'Error!' }))).toBe(true)
+    expect(matches(node({ type: 'string', displayValue: 'ok' }))).toBe(false)
+  })
+
+  test('prefers number raw text over display value', () => {
+    const matches = createSearchPredicate('1.50')
+    expect(
+      matches(node({ type: 'number', displayValue: '1.5', rawText: '1.50' }))
+    ).toBe(true)
+  })
+
+  test('empty query matches nothing', () => {
+    expect(createSearchPredicate('')(node({ key: 'a' }))).toBe(false)
+  })
+})
+
+describe('splitByQuery', () => {
+  test('returns single plain segment without query', () => {
+    expect(splitByQuery('abc', '')).toEqual([{ text: 'abc', match: false }])
+  })
+
+  test('splits around every occurrence', () => {
+    expect(splitByQuery('abcabc', 'b')).toEqual([
+      { text: 'a', match: false },
+      { text: 'b', match: true },
+      { text: 'ca', match: false },
+      { text: 'b', match: true },
+      { text: 'c', match: false },
+    ])
+  })
+
+  test('preserves original casing of matched text', () => {
+    expect(splitByQuery('Hello', 'hel')).toEqual([
+      { text: 'Hel', match: true },
+      { text: 'lo', match: false },
+    ])
+  })
+  test('keeps offsets when lowercasing changes the length', () => {
+    // 'İ' lowercases to two code units
+    expect(splitByQuery('İstanbul İzmir', 'zmir')).toEqual([
+      { text: 'İstanbul İ', match: false },
+      { text: 'zmir', match: true },
+    ])
+    expect(splitByQuery('İİab', 'ab')).toEqual([
+      { text: 'İİ', match: false },
+      { text: 'ab', match: true },
+    ])
+  })
+})
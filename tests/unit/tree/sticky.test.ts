@@ -0,0 +1,70 @@
+import { describe, test, expect } from 'vitest'
+import { getParentIndices, getStickyAncestors } from '../../../src/lib/tree/sticky'
+import { flattenTree } from '../../../src/lib/tree/flatten'
+import type { TreeState } from '../../../src/lib/tree/types'
+import type { JsonValue } from '../../../src/lib/integration/types'
+
+describe('getParentIndices', () => {
+  test('maps rows to their enclosing container row', () => {
+    const data: JsonValue = { a: { x: 1, y: [1] }, b: 2 }
+    const state: TreeState = { expandedPaths: new Set(['$', '$.a', '$.a.y']) }
+    const nodes = flattenTree(data, state)
+    const parents = getParentIndices(nodes)
+    const parentOf = (path: string) => {
+      const p = parents[nodes.findIndex((n) => n.path === path)]
+      return p === -1 ? null : nodes[p].path
+    }
+
+    expect(parentOf('$')).toBeNull()
+    expect(parentOf('$.a')).toBe('$')
+    expect(parentOf('$.a.x')).toBe('$.a')
+    expect(parentOf('$.a.y[0]')).toBe('$.a.y')
+    expect(parentOf('$.a.y__close')).toBe('$.a')
+    expect(parentOf('$.a__close')).toBe('$')
+    expect(parentOf('$.b')).toBe('$')
+    expect(parentOf('$__close')).toBeNull()
+  })
+
+  test('collapsed containers do not become parents', () => {
+    const data: JsonValue = { a: { x: 1 }, b: 2 }
+    const nodes = flattenTree(data, { expandedPaths: new Set(['$']) })
+    const parents = getParentIndices(nodes)
+    const b = nodes.findIndex((n) => n.path === '$.b')
+    expect(nodes[parents[b]].path).toBe('$')
+  })
+})
+
+describe('getStickyAncestors', () => {
+  // $ > a > b > c, each with ten leaf rows after the nested container
+  const data: JsonValue = {
+    a: { b: { c: Object.fromEntries(Array.from({ length: 10 }, (_, i) => [`k${i}`, i])) } },
+  }
+  const state: TreeState = { expandedPaths: new Set(['$', '$.a', '$.a.b', '$.a.b.c']) }
+  const nodes = flattenTree(data, state)
+  const parents = getParentIndices(nodes)
+  const indexOf = (path: string) => nodes.findIndex((n) => n.path === path)
+  const pathsAt = (top: number, max?: number) =>
+    getStickyAncestors(parents, top, max).map((i) => nodes[i].path)
+
+  test('returns nothing at the top of the document', () => {
+    expect(pathsAt(0)).toEqual([])
+  })
+
+  test('pins every ancestor of the row below the headers, outermost first', () => {
+    expect(pathsAt(indexOf('$.a.b.c.k5'))).toEqual(['$', '$.a', '$.a.b', '$.a.b.c'])
+  })
+
+  test('accounts for rows hidden under the headers', () => {
+    // With $ pinned, the row under it is $.a.b, whose ancestors are $ and $.a;
+    // settling continues until the header count matches
+    expect(pathsAt(indexOf('$.a'))).toEqual(['$', '$.a', '$.a.b', '$.a.b.c'])
+  })
+
+  test('keeps the innermost ancestors when limited', () => {
+    expect(pathsAt(indexOf('$.a.b.c.k5'), 2)).toEqual(['$.a.b', '$.a.b.c'])
+  })
+
+  test('drops headers for containers that have scrolled past', () => {
+    expect(pathsAt(indexOf('$.a.b.c__close'))).toEqual(['$', '$.a'])
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { parseViewerDocument } from '../../../src/lib/viewer/document'
+import { isJsonNode } from '../../../src/lib/integration/types'
+
+describe('parseViewerDocument', () => {
+  it('parses with ExactJSON', () => {
+    const view = parseViewerDocument({ text: 'x = {"a": 1}', source: 'paste' }, 'custom')
+
+    expect(view).toMatchObject({ kind: 'tree', input: '{"a": 1}', warnings: [], note: null })
+    expect(view.kind === 'tree' && isJsonNode(view.data)).toBe(true)
+  })
+
+  it('parses with JSON.parse', () => {
+    const view = parseViewerDocument({ text: '{"a": 1}', source: 'paste' }, 'native')
+
+    expect(view).toMatchObject({ kind: 'tree', data: { a: 1 }, note: null })
+  })
+
+  it('falls back to ExactJSON when JSON.parse fails', () => {
+    const view = parseViewerDocument({ text: "{'a': 1}", source: 'paste' }, 'native')
+
+    expect(view).toMatchObject({ kind: 'tree', note: 'ExactJSON: JSON5 syntax' })
+  })
+
+  it('parses JSON Lines line by line', () => {
+    const view = parseViewerDocument(
+      { text: '{"a":1}\nnope\n', source: 'file', format: 'ndjson' },
+      'custom'
+    )
+
+    expect(view).toMatchObject({ kind: 'lines', data: { records: 1, errors: 1 } })
+  })
+
+  it('reports documents nothing parses', () => {
+    expect(parseViewerDocument({ text: '{"a": }}', source: 'paste' }, 'custom').kind).toBe(
+      'error'
+    )
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest'
+import { brotliCompressSync, gzipSync } from 'node:zlib'
+import { readViewerFile } from '../../../src/lib/viewer/file'
+
+describe('readViewerFile', () => {
+  it('reads JSON files', async () => {
+    const file = new File(['{"a": "é"}'], 'data.json')
+
+    expect(await readViewerFile(file)).toEqual({
+      text: '{"a": "é"}',
+      source: 'file',
+      name: 'data.json',
+      format: 'json',
+    })
+  })
+
+  it('reads JSON Lines by their extension', async () => {
+    const file = new File(['{}\n{}\n'], 'events.NDJSON')
+
+    expect((await readViewerFile(file)).format).toBe('ndjson')
+  })
+
+  it('decompresses gzip files', async () => {
+    const file = new File([gzipSync('{"a":1}\n{"a":2}\n')], 'logs.jsonl.gz')
+
+    expect(await readViewerFile(file)).toMatchObject({
+      text: '{"a":1}\n{"a":2}\n',
+      name: 'logs.jsonl.gz',
+      format: 'ndjson',
+    })
+  })
+
+  it('recognizes gzip whatever the file is named', async () => {
+    const file = new File([gzipSync('[1]')], 'download')
+
+    expect((await readViewerFile(file)).text).toBe('[1]')
+  })
+
+  it('rejects corrupt gzip data', async () => {
+    const data = gzipSync('{"a": 1}').subarray(0, 12)
+
+    await expect(readViewerFile(new File([data], 'broken.json.gz'))).rejects.toThrow()
+  })
+
+  it('decompresses Brotli files by their extension', async () => {
+    const file = new File([brotliCompressSync('{"a":1}\n')], 'events.ndjson.br')
+    const read = readViewerFile(file)
+
+    // DecompressionStream supports Brotli in recent browsers only
+    if (!supportsBrotli()) return expect(read).rejects.toThrow()
+    expect(await read).toMatchObject({ text: '{"a":1}\n', format: 'ndjson' })
+  })
+})
+
+function supportsBrotli(): boolean {
+  try {
+    new DecompressionStream('brotli' as CompressionFormat)
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import {
+  handOffSelection,
+  clipboardViewerPath,
+  loadViewerDocument,
+} from '../../../src/lib/viewer/handoff'
+
+// Mock chrome.storage API
+const mockStorage: Record<string, unknown> = {}
+
+// @ts-ignore - mock chrome global
+global.chrome = {
+  storage: {
+    session: {
+      get: vi.fn(async (key: string) => ({ [key]: mockStorage[key] })),
+      set: vi.fn(async (data: Record<string, unknown>) => {
+        Object.assign(mockStorage, data)
+      }),
+      remove: vi.fn(async (key: string) => {
+        delete mockStorage[key]
+      }),
+    },
+  },
+}
+
+describe('Viewer handoff', () => {
+  beforeEach(() => {
+    Object.keys(mockStorage).forEach((key) => delete mockStorage[key])
+    sessionStorage.clear()
+  })
+
+  it('passes a selection to the viewer page once', async () => {
+    const path = await handOffSelection('{"a": 1}')
+    expect(path).toMatch(/^viewer\/viewer\.html\?selection=/)
+
+    const search = path.slice(path.indexOf('?'))
+    expect(await loadViewerDocument(search)).toEqual({ text: '{"a": 1}', source: 'selection' })
+    expect(Object.keys(mockStorage)).toEqual([])
+  })
+
+  it('keeps the document for reloads', async () => {
+    const path = await handOffSelection('[1]')
+    const search = path.slice(path.indexOf('?'))
+    await loadViewerDocument(search)
+
+    expect(await loadViewerDocument(search)).toEqual({ text: '[1]', source: 'selection' })
+  })
+
+  it('reads the clipboard', async () => {
+    Object.defineProperty(navigator, 'clipboard', {
+      configurable: true,
+      value: { readText: vi.fn().mockResolvedValue('{"b": 2}') },
+    })
+    const path = clipboardViewerPath()
+
+    expect(await loadViewerDocument(path.slice(path.indexOf('?')))).toEqual({
+      text: '{"b": 2}',
+      source: 'clipboard',
+    })
+  })
+
+  it('asks for a document when the clipboard cannot be read', async () => {
+    Object.defineProperty(navigator, 'clipboard', {
+      configurable: true,
+      value: { readText: vi.fn().mockRejectedValue(new Error('Document is not focused')) },
+    })
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    expect(await loadViewerDocument('?source=clipboard')).toBe(null)
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { extractJson, parseSnippet } from '../../../src/lib/viewer/snippet'
+import type { ObjectNode } from '../../../src/lib/parser/types'
+
+describe('extractJson', () => {
+  it('keeps a JSON document', () => {
+    expect(extractJson('  {"a": 1}\n')).toBe('{"a": 1}')
+    expect(extractJson('"text"')).toBe('"text"')
+  })
+
+  it('cuts the JSON out of surrounding text', () => {
+    expect(extractJson('INFO payload: {"a": [1]} (200 OK)')).toBe('{"a": [1]}')
+    expect(extractJson('items = [1, 2];')).toBe('[1, 2]')
+  })
+
+  it('leaves text without brackets alone', () => {
+    expect(extractJson(' no json here ')).toBe('no json here')
+  })
+})
+
+describe('parseSnippet', () => {
+  it('parses JSON strictly', () => {
+    const result = parseSnippet('{"a": 1}')
+
+    expect(result).toMatchObject({ ok: true, syntax: 'json', tolerant: false, warnings: [] })
+  })
+
+  it('uses the strictest syntax that parses', () => {
+    expect(parseSnippet('{"a": 1, // count\n}')).toMatchObject({ ok: true, syntax: 'jsonc' })
+    expect(parseSnippet("{a: 'b'}")).toMatchObject({ ok: true, syntax: 'json5' })
+  })
+
+  it('falls back to tolerant mode and reports what it recovered', () => {
+    const result = parseSnippet('{"a": 1 "b": 2}')
+
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    expect(result.tolerant).toBe(true)
+    expect((result.ast as ObjectNode).entries).toHaveLength(2)
+    expect(result.warnings.map((w) => w.recovery)).toEqual(['Assumed missing comma'])
+  })
+
+  it('reports duplicate keys', () => {
+    const result = parseSnippet('{"a": 1, "a": 2}')
+
+    expect(result.ok && result.warnings.map((w) => w.message)).toEqual([
+      'Duplicate key "a"',
+      'Duplicate key "a"',
+    ])
+  })
+
+  it('returns the strict error when nothing parses', () => {
+    const result = parseSnippet('hello')
+
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.input).toBe('hello')
+      expect(result.error).toBeInstanceOf(Error)
+    }
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  parseInWorker,
+  ParseCancelledError,
+  ParseWorkerUnavailableError,
+} from '../../../src/lib/worker/client'
+import { handleParseRequest } from '../../../src/lib/worker/parse-task'
+import type { ParseRequest } from '../../../src/lib/worker/protocol'
+import { parse } from '../../../src/lib/parser/parse'
+
+/**
+ * Runs the real parse task asynchronously, cloning messages like postMessage
+ */
+class FakeWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null
+  onerror: ((event: ErrorEvent) => void) | null = null
+  terminated = false
+
+  postMessage(request: ParseRequest) {
+    setTimeout(() =>
+      handleParseRequest(structuredClone(request), (response) => {
+        if (!this.terminated) this.onmessage?.({ data: structuredClone(response) } as MessageEvent)
+      })
+    )
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+}
+
+const startWorker = () => {
+  const worker = new FakeWorker()
+  return { worker, createWorker: () => worker as unknown as Worker }
+}
+
+describe('parseInWorker', () => {
+  it('returns the ExactJSON AST', async () => {
+    const input = '{"id": 12345678901234567890, "tags": ["a", "b"]}'
+    const { worker, createWorker } = startWorker()
+
+    const result = await parseInWorker(input, {
+      parser: 'custom',
+      options: { numberMode: 'bigint' },
+      createWorker,
+    })
+
+    expect(result.data).toEqual(parse(input, { numberMode: 'bigint' }).ast)
+    expect(worker.terminated).toBe(true)
+  })
+
+  it('returns the native value', async () => {
+    const result = await parseInWorker('{"a": [1, 2]}', { parser: 'native', ...startWorker() })
+
+    expect(result.data).toEqual({ a: [1, 2] })
+  })
+
+  it('returns the errors recovered from in tolerant mode', async () => {
+    const result = await parseInWorker('{"a": 1,}', {
+      parser: 'custom',
+      options: { tolerant: true },
+      ...startWorker(),
+    })
+
+    expect(result.errors).toHaveLength(1)
+  })
+
+  it('reports progress', async () => {
+    const input = JSON.stringify(Array.from({ length: 50000 }, (_, i) => ({ id: i })))
+    const onProgress = vi.fn()
+
+    await parseInWorker(input, { parser: 'custom', onProgress, ...startWorker() })
+
+    expect(onProgress).toHaveBeenNthCalledWith(1, 0, input.length)
+    expect(onProgress.mock.calls.length).toBeGreaterThan(2)
+    expect(onProgress.mock.calls.every(([, total]) => total === input.length)).toBe(true)
+  })
+
+  it('rejects with the parser error', async () => {
+    const promise = parseInWorker('{"a": }', { parser: 'custom', ...startWorker() })
+
+    await expect(promise).rejects.toMatchObject({
+      name: 'ParseError',
+      message: expect.stringContaining('position 6'),
+    })
+  })
+
+  it('terminates the worker when cancelled', async () => {
+    const controller = new AbortController()
+    const { worker, createWorker } = startWorker()
+
+    const promise = parseInWorker('[1]', {
+      parser: 'custom',
+      createWorker,
+      signal: controller.signal,
+    })
+    controller.abort()
+
+    await expect(promise).rejects.toBeInstanceOf(ParseCancelledError)
+    expect(worker.terminated).toBe(true)
+  })
+
+  it('does not start a worker when already cancelled', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const createWorker = vi.fn()
+
+    await expect(
+      parseInWorker('[1]', { parser: 'custom', createWorker, signal: controller.signal })
+    ).rejects.toBeInstanceOf(ParseCancelledError)
+    expect(createWorker).not.toHaveBeenCalled()
+  })
+
+  it('reports a worker that cannot be created', async () => {
+    const createWorker = () => {
+      throw new Error('Blocked by CSP')
+    }
+
+    await expect(parseInWorker('[1]', { parser: 'native', createWorker })).rejects.toEqual(
+      new ParseWorkerUnavailableError('Blocked by CSP')
+    )
+  })
+
+  it('reports a worker that fails to start', async () => {
+    const { worker, createWorker } = startWorker()
+    const event = { message: 'Load failed', preventDefault: () => {} } as ErrorEvent
+    worker.postMessage = () => setTimeout(() => worker.onerror?.(event))
+
+    await expect(parseInWorker('[1]', { parser: 'native', createWorker })).rejects.toBeInstanceOf(
+      ParseWorkerUnavailableError
+    )
+    expect(worker.terminated).toBe(true)
+  })
+})
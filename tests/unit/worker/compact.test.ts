@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { encodeTree, decodeTree, transferables } from '../../../src/lib/worker/compact'
+import { parse } from '../../../src/lib/parser/parse'
+import type { ArrayNode, ParserOptions } from '../../../src/lib/parser/types'
+
+const roundTrip = (input: string, options: ParserOptions = {}) => {
+  const { ast } = parse(input, options)
+  const tree = structuredClone(encodeTree(ast, input, options.numberMode ?? 'native'))
+  return { ast, decoded: decodeTree(tree, input) }
+}
+
+describe('encodeTree / decodeTree', () => {
+  it('round-trips every kind of node', () => {
+    const { ast, decoded } = roundTrip(
+      '{"a": [1, -2.5e3, "x", true, false, null], "b": {}, "c": [], "": {"d": "e"}}'
+    )
+
+    expect(decoded).toEqual(ast)
+  })
+
+  it('keeps escaped strings and keys', () => {
+    const { ast, decoded } = roundTrip('{"say \\"hi\\"": "tab\\there \\u00e9"}')
+
+    expect(decoded).toEqual(ast)
+  })
+
+  it('only stores strings that differ from their source text', () => {
+    const input = '["plain", "esc\\naped", {"key": 1}]'
+    const tree = encodeTree(parse(input).ast, input, 'native')
+
+    expect(tree.strings).toEqual(['esc\naped'])
+    expect(tree.kinds).toHaveLength(6)
+  })
+
+  it('re-reads numbers losslessly in the parsed number mode', () => {
+    const { ast, decoded } = roundTrip('[12345678901234567890, 0.1000000000000000055511]', {
+      numberMode: 'bigint',
+    })
+
+    expect(decoded).toEqual(ast)
+    expect((decoded as ArrayNode).items[0]).toMatchObject({ bigInt: 12345678901234567890n })
+  })
+
+  it('keeps JSON5 keys and numbers', () => {
+    const { ast, decoded } = roundTrip("{key: 'single', hex: 0x1F, n: +.5}", { syntax: 'json5' })
+
+    expect(decoded).toEqual(ast)
+  })
+
+  it('keeps comments on their nodes', () => {
+    const { ast, decoded } = roundTrip('// head\n{\n  "a": 1, // one\n  /* end */\n}', {
+      syntax: 'jsonc',
+    })
+
+    expect(decoded).toEqual(ast)
+    expect(decoded.leadingComments).toMatchObject([{ text: ' head' }])
+  })
+
+  it('lists the typed array buffers for transfer', () => {
+    const input = '[1]'
+    const tree = encodeTree(parse(input).ast, input, 'native')
+
+    expect(transferables(tree)).toEqual([
+      tree.kinds.buffer,
+      tree.values.buffer,
+      tree.starts.buffer,
+      tree.ends.buffer,
+    ])
+  })
+})
@@ -16,6 +16,7 @@ export default defineConfig(() => {
     background: resolve(root, 'background.ts'),
     'options/options': resolve(root, 'options/options.html'),
     'popup/popup': resolve(root, 'popup/popup.html'),
+    'viewer/viewer': resolve(root, 'viewer/viewer.html'),
   }
   if (excludeContent) {
     delete multiInputs.content
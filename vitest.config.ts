@@ -37,8 +37,22 @@ export default defineConfig({
       // Default project for fast unit, integration, and contract tests
       // Excludes slow performance benchmarks (use npm run test:perf for those)
       {
+        // Load react-window's ESM build (not its CJS main) so the aliases below apply
+        resolve: {
+          mainFields: ['module', 'main'],
+        },
         test: {
           name: 'unit',
+          // Mirror the build's aliasing so react-window renders through Preact
+          alias: {
+            'react': 'preact/compat',
+            'react-dom': 'preact/compat',
+          },
+          server: {
+            deps: {
+              inline: ['react-window'],
+            },
+          },
           include: ['tests/**/*.{test,spec}.{ts,tsx,js,jsx}'],
           exclude: [
             'node_modules',